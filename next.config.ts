@@ -1,7 +1,8 @@
 import type { NextConfig } from "next";
 
 const nextConfig: NextConfig = {
-  /* config options here */
+  // pdf.js loads its worker from its own package at runtime, so it can't be bundled
+  serverExternalPackages: ["pdfjs-dist"],
 };
 
 export default nextConfig;
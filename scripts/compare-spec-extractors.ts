@@ -0,0 +1,72 @@
+/**
+ * Compare job spec extraction providers on labelled spec PDFs.
+ * Each <name>.pdf in the directory needs a <name>.expected.json with a
+ * "fields" object giving the values a person read from it.
+ *
+ * Usage: npx tsx --tsconfig tsconfig.scripts.json scripts/compare-spec-extractors.ts [dir]
+ *
+ * Providers come from SPEC_EXTRACTION_PROVIDERS (default "regex,llm"); the
+ * LLM is configured with the SPEC_LLM_* variables in .env.example.
+ */
+
+import * as fs from 'fs';
+import * as path from 'path';
+import { extractPdfText } from '../src/lib/pdfParser';
+import {
+  compareProviders,
+  llmProviderFromEnv,
+  MemoryExtractionCache,
+  RegexExtractionProvider,
+  type ExtractionProvider,
+  type LabelledSpec,
+} from '../src/lib/scrapers/spec-extraction';
+
+const DEFAULT_DIR = 'src/lib/scrapers/__tests__/fixtures/job-specs';
+
+async function main() {
+  const dir = process.argv[2] || DEFAULT_DIR;
+  const names = (process.env.SPEC_EXTRACTION_PROVIDERS || 'regex,llm').split(',').map(name => name.trim());
+
+  const providers: ExtractionProvider[] = [];
+  if (names.includes('regex')) providers.push(new RegexExtractionProvider());
+  if (names.includes('llm')) {
+    const llm = llmProviderFromEnv();
+    if (llm) providers.push(llm);
+  }
+
+  const samples: LabelledSpec[] = [];
+  for (const file of fs.readdirSync(dir).filter(file => file.endsWith('.pdf')).sort()) {
+    const labels = path.join(dir, file.replace(/\.pdf$/, '.expected.json'));
+    if (!fs.existsSync(labels)) {
+      console.warn(`No labels for ${file}, skipping`);
+      continue;
+    }
+    samples.push({
+      name: file,
+      text: await extractPdfText(new Uint8Array(fs.readFileSync(path.join(dir, file)))),
+      expected: JSON.parse(fs.readFileSync(labels, 'utf-8')).fields,
+    });
+  }
+
+  console.log(`=== Spec extraction: ${samples.length} labelled specs from ${dir} ===`);
+  const scores = await compareProviders(providers, samples, new MemoryExtractionCache());
+
+  for (const score of scores) {
+    console.log('');
+    console.log(
+      `${score.provider}: ${(score.accuracy * 100).toFixed(1)}% (${score.correct}/${score.expected} fields), ` +
+      `${score.spurious} spurious, ${score.rejected} rejected by schema, ${score.failed} failed`
+    );
+    for (const [field, fieldScore] of Object.entries(score.fields)) {
+      console.log(
+        `  - ${field}: ${fieldScore.correct} correct, ${fieldScore.wrong} wrong, ` +
+        `${fieldScore.missed} missed, ${fieldScore.spurious} spurious`
+      );
+    }
+  }
+}
+
+main().catch(error => {
+  console.error('Comparison failed:', error);
+  process.exit(1);
+});
@@ -5,7 +5,7 @@
  * Usage: npx tsx --tsconfig tsconfig.scripts.json scripts/run-playwright-scrapers.ts
  */
 
-import { getOrchestrator } from '../src/lib/scrapers/orchestrator';
+import { getOrchestrator, type OrchestrationResult } from '../src/lib/scrapers/orchestrator';
 
 async function main() {
   console.log('=== Playwright Scrapers Runner ===');
@@ -21,18 +21,58 @@ async function main() {
   console.log('Registering Playwright scrapers...');
   await orchestrator.registerPlaywrightScrapers();
 
-  // Run all scrapers (fetch-based + Playwright)
-  console.log('Running all scrapers...');
-  const result = await orchestrator.scrapeAll();
+  // Leave a few minutes of the workflow's 15 minute timeout for saving
+  const budgetMs = 11 * 60 * 1000;
+  let result: OrchestrationResult;
+
+  if (orchestrator.queueEnabled) {
+    // Join the cron's queued run (or start one) and work its tasks, Playwright ones included
+    console.log('Working the queued run...');
+    const work = await orchestrator.workQueue({ start: true, budgetMs });
+    if (work.progress) {
+      const { progress } = work;
+      console.log(`Run ${work.run_id}: ran ${work.tasks_run} task(s), ${progress.done} done, ` +
+        `${progress.failed} failed, ${progress.pending + progress.running} left`);
+      progress.scrapers.forEach(s => console.log(`  - ${s.scraper}: ${s.done}/${s.total} tasks, ${s.jobs} jobs`));
+    }
+    if (!work.result) {
+      console.log('The run is saved by whichever invocation finishes its last task');
+      return;
+    }
+    result = work.result;
+  } else {
+    // Run all scrapers (fetch-based + Playwright)
+    console.log('Running all scrapers...');
+    result = await orchestrator.scrapeAll({ budgetMs });
+  }
 
   console.log('');
   console.log('=== Results ===');
+  console.log(`Run id: ${result.run_id}`);
+  console.log(`Status: ${result.status}${result.deadline_reached ? ' (deadline reached)' : ''}`);
   console.log(`Scrapers run: ${result.scrapers_run.join(', ')}`);
   console.log(`Total jobs scraped: ${result.total_jobs_scraped}`);
   console.log(`Total jobs saved: ${result.total_jobs_saved}`);
   console.log(`Duplicates removed: ${result.duplicates_removed}`);
   console.log(`Duration: ${result.duration_seconds}s`);
 
+  if (result.job_specs) {
+    const specs = result.job_specs;
+    console.log(
+      `Job specs: ${specs.checked} checked, ${specs.parsed} parsed, ${specs.unchanged} unchanged, ` +
+      `${specs.failed} failed, ${specs.deferred} deferred, ${specs.jobs_updated} jobs filled in`
+    );
+  }
+
+  if (result.host_stats.length > 0) {
+    console.log('');
+    console.log('Requests per host:');
+    result.host_stats.forEach(h => console.log(
+      `  - ${h.host}: ${h.requests} requests, ${h.throttled} throttled, ${h.retries} retries, ` +
+      `${h.blocked_by_robots} blocked by robots.txt, ${Math.round(h.wait_ms / 1000)}s waiting`
+    ));
+  }
+
   if (result.errors.length > 0) {
     console.log('');
     console.log('Errors:');
@@ -49,7 +89,8 @@ async function main() {
   }
 }
 
-main().catch(error => {
+// Exit explicitly — a scraper abandoned at the deadline may still hold a browser open
+main().then(() => process.exit(0)).catch(error => {
   console.error('Fatal error:', error);
   process.exit(1);
 });
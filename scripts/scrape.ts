@@ -0,0 +1,126 @@
+/**
+ * Scraper CLI — run, dry-run, diff or export one source or all of them.
+ *
+ * Usage: npm run scrape -- <command> [options]
+ *   npm run scrape -- dry-run --source HSE
+ *   npm run scrape -- diff --source StJames --replay fixtures/scrapers
+ *   npm run scrape -- export --out jobs.csv
+ *   npm run scrape -- queue --max-tasks 5
+ *
+ * Reads .env.local for the Supabase keys. Only `run` and `queue` write to the
+ * database — point them at a local `supabase start` stack to try things out.
+ */
+
+import * as fs from 'fs';
+import * as path from 'path';
+import {
+  CLI_USAGE,
+  exportJobs,
+  formatDiff,
+  formatDryRun,
+  formatQueueProgress,
+  parseCliArgs,
+  type CliOptions,
+} from '../src/lib/scrapers/cli';
+import { FixtureStore } from '../src/lib/scrapers/fixtures';
+
+// tsx doesn't load .env.local, and the Supabase client reads it on import
+function loadEnv() {
+  const envPath = path.resolve(process.cwd(), '.env.local');
+  if (!fs.existsSync(envPath)) return;
+  for (const line of fs.readFileSync(envPath, 'utf8').split('\n')) {
+    const trimmed = line.trim();
+    if (!trimmed || trimmed.startsWith('#')) continue;
+    const eqIdx = trimmed.indexOf('=');
+    if (eqIdx === -1) continue;
+    const key = trimmed.slice(0, eqIdx).trim();
+    if (!process.env[key]) process.env[key] = trimmed.slice(eqIdx + 1).trim();
+  }
+}
+
+async function main(options: CliOptions): Promise<number> {
+  loadEnv();
+  const { getOrchestrator } = await import('../src/lib/scrapers/orchestrator');
+  const orchestrator = getOrchestrator();
+
+  if (options.fixtures) {
+    orchestrator.useFixtures(new FixtureStore(options.fixtures.mode, options.fixtures.dir));
+  }
+  if (options.playwright) {
+    await orchestrator.registerPlaywrightScrapers();
+  }
+
+  const runOptions = { sources: options.sources, budgetMs: options.budgetMs };
+
+  switch (options.command) {
+    case 'list': {
+      for (const { name, platform } of orchestrator.getScraperInfo()) {
+        console.log(`${name.padEnd(16)} ${platform}`);
+      }
+      return 0;
+    }
+
+    case 'export': {
+      const { jobs, errors } = await orchestrator.collectJobs(runOptions);
+      const output = exportJobs(jobs, options.format);
+      if (options.out) {
+        fs.writeFileSync(options.out, output);
+        console.error(`Wrote ${jobs.length} jobs to ${options.out}`);
+      } else {
+        process.stdout.write(output);
+      }
+      errors.forEach(error => console.error(`Error: ${error}`));
+      return 0;
+    }
+
+    case 'dry-run':
+    case 'diff': {
+      const preview = await orchestrator.previewRun(runOptions);
+      const lines = options.command === 'diff' ? formatDiff(preview) : formatDryRun(preview);
+      console.log('');
+      lines.forEach(line => console.log(line));
+      return 0;
+    }
+
+    case 'run': {
+      const result = await orchestrator.scrapeAll(runOptions);
+      console.log('');
+      console.log(`Run id: ${result.run_id}`);
+      console.log(`Status: ${result.status}${result.deadline_reached ? ' (deadline reached)' : ''}`);
+      console.log(`Scrapers run: ${result.scrapers_run.join(', ')}`);
+      console.log(`Jobs: ${result.total_jobs_scraped} scraped, ${result.total_jobs_saved} saved`);
+      result.errors.forEach(error => console.log(`Error: ${error}`));
+      return result.total_jobs_scraped === 0 ? 1 : 0;
+    }
+
+    case 'queue': {
+      if (!orchestrator.queueEnabled) {
+        console.error('The task queue needs SUPABASE_SERVICE_ROLE_KEY');
+        return 1;
+      }
+      const work = await orchestrator.workQueue({ ...runOptions, start: true, maxTasks: options.maxTasks });
+      console.log('');
+      console.log(`Ran ${work.tasks_run} task(s)`);
+      if (work.progress) formatQueueProgress(work.progress).forEach(line => console.log(line));
+      if (work.result) {
+        console.log(`Saved: ${work.result.total_jobs_saved} jobs (${work.result.status})`);
+        work.result.errors.forEach(error => console.log(`Error: ${error}`));
+      }
+      return 0;
+    }
+  }
+}
+
+let options: CliOptions;
+try {
+  options = parseCliArgs(process.argv.slice(2));
+} catch (error) {
+  console.error(`${(error as Error).message}\n\n${CLI_USAGE}`);
+  process.exit(2);
+}
+
+// Exit explicitly — a Playwright scraper may still hold a browser open
+main(options).then(code => process.exit(code)).catch(error => {
+  console.error('Fatal error:', (error as Error).message);
+  process.exit(1);
+});
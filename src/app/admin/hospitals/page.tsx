@@ -0,0 +1,295 @@
+'use client';
+
+import { useState, useEffect } from 'react';
+import { useRouter } from 'next/navigation';
+import Link from 'next/link';
+import { ArrowLeft, Building2 } from 'lucide-react';
+import { useAuth } from '@/contexts/AuthContext';
+import { supabaseHospitalNamesAPI } from '@/lib/supabase';
+import hospitalsData from '@/data/hospitals.json';
+import type { HospitalAlias, HospitalNameLogEntry } from '@/types/database.types';
+
+const hospitals = hospitalsData.hospitals;
+const hospitalNames = new Map(hospitals.map(h => [h.id, h.name]));
+
+const STRATEGY_LABELS: Record<string, string> = {
+  NAME: 'name',
+  SHORT_NAME: 'short name',
+  ALIAS: 'alias',
+  TOKENS: 'similar words',
+  TOWN: 'town',
+  REF_CODE: 'ref code',
+};
+
+interface Draft {
+  alias: string;
+  hospitalId: string;
+}
+
+function draftFor(entry: HospitalNameLogEntry): Draft {
+  return { alias: entry.sample_text, hospitalId: entry.candidates[0]?.hospital_id ?? '' };
+}
+
+export default function AdminHospitalNamesPage() {
+  const router = useRouter();
+  const { user, loading: authLoading, isAdmin } = useAuth();
+  const [names, setNames] = useState<HospitalNameLogEntry[]>([]);
+  const [aliases, setAliases] = useState<HospitalAlias[]>([]);
+  const [drafts, setDrafts] = useState<Record<string, Draft>>({});
+  const [loading, setLoading] = useState(true);
+  const [savingId, setSavingId] = useState<string | null>(null);
+
+  useEffect(() => {
+    // Wait for auth to load
+    if (authLoading) return;
+
+    if (!user) {
+      router.push('/');
+      return;
+    }
+
+    if (!isAdmin) {
+      alert('Access denied. Admin privileges required.');
+      router.push('/');
+      return;
+    }
+
+    loadNames();
+  }, [user, authLoading, isAdmin, router]);
+
+  const loadNames = async () => {
+    try {
+      setLoading(true);
+      const [open, added] = await Promise.all([
+        supabaseHospitalNamesAPI.getOpenNames(),
+        supabaseHospitalNamesAPI.getAliases(),
+      ]);
+      setNames(open);
+      setAliases(added);
+      setDrafts(Object.fromEntries(open.map(entry => [entry.id, draftFor(entry)])));
+    } catch (error) {
+      console.error('Error loading hospital names:', error);
+      alert('Failed to load hospital names');
+    } finally {
+      setLoading(false);
+    }
+  };
+
+  const updateDraft = (id: string, changes: Partial<Draft>) => {
+    setDrafts(current => ({ ...current, [id]: { ...current[id], ...changes } }));
+  };
+
+  const handleAddAlias = async (entry: HospitalNameLogEntry) => {
+    const draft = drafts[entry.id];
+    if (!draft?.alias.trim() || !draft.hospitalId) return;
+
+    try {
+      setSavingId(entry.id);
+      if (await supabaseHospitalNamesAPI.addAlias(draft.alias.trim().toLowerCase(), draft.hospitalId, entry.id)) {
+        await loadNames();
+      } else {
+        alert('Failed to add alias');
+      }
+    } finally {
+      setSavingId(null);
+    }
+  };
+
+  const handleIgnore = async (entry: HospitalNameLogEntry) => {
+    try {
+      setSavingId(entry.id);
+      if (await supabaseHospitalNamesAPI.setNameStatus(entry.id, 'IGNORED')) {
+        setNames(current => current.filter(name => name.id !== entry.id));
+      } else {
+        alert('Failed to ignore name');
+      }
+    } finally {
+      setSavingId(null);
+    }
+  };
+
+  const handleDeleteAlias = async (alias: HospitalAlias) => {
+    if (!confirm(`Delete the alias "${alias.alias}"?`)) return;
+
+    try {
+      setSavingId(alias.id);
+      if (await supabaseHospitalNamesAPI.deleteAlias(alias.id)) {
+        setAliases(current => current.filter(a => a.id !== alias.id));
+      } else {
+        alert('Failed to delete alias');
+      }
+    } finally {
+      setSavingId(null);
+    }
+  };
+
+  // Show loading state while auth initializes
+  if (authLoading) {
+    return (
+      <div className="min-h-screen bg-slate-50 flex items-center justify-center">
+        <div className="text-center">
+          <div className="animate-spin rounded-full h-12 w-12 border-b-2 border-linkedin-blue mx-auto mb-4"></div>
+          <p className="text-slate-600">Loading...</p>
+        </div>
+      </div>
+    );
+  }
+
+  // Redirect if not admin
+  if (!user || !isAdmin) {
+    return null;
+  }
+
+  return (
+    <div className="min-h-screen bg-slate-50 py-8">
+      <div className="max-w-6xl mx-auto px-4 sm:px-6 lg:px-8">
+        {/* Header */}
+        <div className="mb-8">
+          <Link
+            href="/admin"
+            className="inline-flex items-center gap-2 text-linkedin-blue hover:underline mb-4"
+          >
+            <ArrowLeft className="w-4 h-4" />
+            Back to Admin
+          </Link>
+          <h1 className="text-3xl font-bold text-slate-900 flex items-center gap-3">
+            <Building2 className="w-8 h-8 text-linkedin-blue" />
+            Hospital Names
+          </h1>
+          <p className="text-slate-600 mt-2">
+            Scraped text the hospital matcher couldn&apos;t place or only guessed at. Trim the text to the
+            part that names the hospital and add it as an alias; the next scrape matches it.
+          </p>
+        </div>
+
+        {/* Unmatched names */}
+        <div className="bg-white rounded-lg shadow-sm border border-slate-200 overflow-hidden">
+          <div className="px-6 py-4 border-b border-slate-200">
+            <h2 className="text-lg font-semibold text-slate-900">Unmatched ({names.length})</h2>
+          </div>
+          {loading ? (
+            <div className="p-12 text-center">
+              <div className="animate-spin rounded-full h-8 w-8 border-b-2 border-linkedin-blue mx-auto"></div>
+            </div>
+          ) : names.length === 0 ? (
+            <div className="p-12 text-center text-slate-600">
+              Every logged name has been dealt with
+            </div>
+          ) : (
+            <ul className="divide-y divide-slate-200">
+              {names.map(entry => {
+                const draft = drafts[entry.id] ?? draftFor(entry);
+                return (
+                  <li key={entry.id} className="px-6 py-4 space-y-3">
+                    <div className="flex items-start justify-between gap-4">
+                      <div className="min-w-0">
+                        <p className="font-medium text-slate-900 break-words">{entry.sample_text}</p>
+                        <p className="text-xs text-slate-500">
+                          Seen {entry.occurrences}× · last {new Date(entry.last_seen_at).toLocaleDateString('en-IE')}
+                          {entry.county && ` · county ${entry.county}`}
+                        </p>
+                      </div>
+                      <button
+                        onClick={() => handleIgnore(entry)}
+                        disabled={savingId === entry.id}
+                        className="px-2 py-1 rounded-md text-xs font-medium bg-slate-100 text-slate-700 hover:bg-slate-200 disabled:opacity-50 shrink-0"
+                      >
+                        Ignore
+                      </button>
+                    </div>
+
+                    {entry.candidates.length > 0 && (
+                      <div className="flex flex-wrap gap-2">
+                        {entry.candidates.map(candidate => (
+                          <button
+                            key={candidate.hospital_id}
+                            onClick={() => updateDraft(entry.id, { hospitalId: candidate.hospital_id })}
+                            className={`px-2 py-0.5 rounded-full text-xs border ${
+                              draft.hospitalId === candidate.hospital_id
+                                ? 'border-linkedin-blue bg-blue-50 text-linkedin-blue'
+                                : 'border-slate-200 text-slate-600 hover:border-slate-300'
+                            }`}
+                          >
+                            {hospitalNames.get(candidate.hospital_id) ?? candidate.hospital_id}
+                            {' '}· {Math.round(candidate.score * 100)}% {STRATEGY_LABELS[candidate.strategy] ?? candidate.strategy}
+                          </button>
+                        ))}
+                      </div>
+                    )}
+
+                    <div className="flex flex-wrap items-center gap-2">
+                      <input
+                        type="text"
+                        value={draft.alias}
+                        onChange={e => updateDraft(entry.id, { alias: e.target.value })}
+                        className="flex-1 min-w-[16rem] px-3 py-1.5 rounded-md border border-slate-300 text-sm"
+                      />
+                      <select
+                        value={draft.hospitalId}
+                        onChange={e => updateDraft(entry.id, { hospitalId: e.target.value })}
+                        className="px-3 py-1.5 rounded-md border border-slate-300 text-sm"
+                      >
+                        <option value="">Choose hospital...</option>
+                        {hospitals.map(h => (
+                          <option key={h.id} value={h.id}>{h.name}</option>
+                        ))}
+                      </select>
+                      <button
+                        onClick={() => handleAddAlias(entry)}
+                        disabled={!draft.alias.trim() || !draft.hospitalId || savingId === entry.id}
+                        className="px-3 py-1.5 rounded-md text-xs font-medium bg-linkedin-blue text-white hover:bg-linkedin-blue-dark disabled:opacity-50"
+                      >
+                        Add alias
+                      </button>
+                    </div>
+                  </li>
+                );
+              })}
+            </ul>
+          )}
+        </div>
+
+        {/* Aliases */}
+        <div className="mt-8 bg-white rounded-lg shadow-sm border border-slate-200 overflow-hidden">
+          <div className="px-6 py-4 border-b border-slate-200">
+            <h2 className="text-lg font-semibold text-slate-900">Added Aliases ({aliases.length})</h2>
+          </div>
+          {!loading && aliases.length === 0 ? (
+            <div className="p-12 text-center text-slate-600">
+              No aliases added yet
+            </div>
+          ) : (
+            <table className="w-full text-sm">
+              <thead className="bg-slate-50 text-left text-xs font-medium text-slate-600 uppercase tracking-wider">
+                <tr>
+                  <th className="px-4 py-2">Alias</th>
+                  <th className="px-4 py-2">Hospital</th>
+                  <th className="px-4 py-2">Added</th>
+                  <th className="px-4 py-2"></th>
+                </tr>
+              </thead>
+              <tbody className="divide-y divide-slate-200">
+                {aliases.map(alias => (
+                  <tr key={alias.id}>
+                    <td className="px-4 py-2 text-slate-900">{alias.alias}</td>
+                    <td className="px-4 py-2 text-slate-700">{hospitalNames.get(alias.hospital_id) ?? alias.hospital_id}</td>
+                    <td className="px-4 py-2 text-slate-700">{new Date(alias.created_at).toLocaleDateString('en-IE')}</td>
+                    <td className="px-4 py-2 text-right">
+                      <button
+                        onClick={() => handleDeleteAlias(alias)}
+                        disabled={savingId === alias.id}
+                        className="px-2 py-1 rounded-md text-xs font-medium bg-red-50 text-red-600 hover:bg-red-100 disabled:opacity-50"
+                      >
+                        Delete
+                      </button>
+                    </td>
+                  </tr>
+                ))}
+              </tbody>
+            </table>
+          )}
+        </div>
+      </div>
+    </div>
+  );
+}
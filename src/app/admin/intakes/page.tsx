@@ -0,0 +1,285 @@
+'use client';
+
+import { useState, useEffect } from 'react';
+import { useRouter } from 'next/navigation';
+import Link from 'next/link';
+import { ArrowLeft, ExternalLink, GraduationCap } from 'lucide-react';
+import { useAuth } from '@/contexts/AuthContext';
+import { supabaseTrainingIntakesAPI } from '@/lib/supabase';
+import { formatClosingTime } from '@/lib/deadlineNotifications';
+import { INTAKE_IMPORT_COLUMNS, parseIntakeImport, type IntakeImport, type TrainingIntakeInput } from '@/lib/trainingIntakes';
+import {
+  SCHEME_TYPE_LABELS,
+  SPECIALTY_LABELS,
+  TRAINING_BODY_LABELS,
+  type TrainingIntake,
+} from '@/types/database.types';
+
+const TEMPLATE = [
+  INTAKE_IMPORT_COLUMNS.join(','),
+  'RCPI,Basic Specialist Training in General Internal Medicine,General Medicine,BST,2027,3 November 2026,'
+    + '"1st December 2026 at 5pm",2027-01-25,2027-01-29,"Registered with the IMC, intern year complete",300,https://www.rcpi.ie/training/',
+].join('\n');
+
+export default function AdminIntakesPage() {
+  const router = useRouter();
+  const { user, loading: authLoading, isAdmin } = useAuth();
+  const [intakes, setIntakes] = useState<TrainingIntake[]>([]);
+  const [loading, setLoading] = useState(true);
+  const [csv, setCsv] = useState('');
+  const [preview, setPreview] = useState<IntakeImport | null>(null);
+  const [importing, setImporting] = useState(false);
+  const [withdrawingId, setWithdrawingId] = useState<string | null>(null);
+
+  useEffect(() => {
+    // Wait for auth to load
+    if (authLoading) return;
+
+    if (!user) {
+      router.push('/');
+      return;
+    }
+
+    if (!isAdmin) {
+      alert('Access denied. Admin privileges required.');
+      router.push('/');
+      return;
+    }
+
+    loadIntakes();
+  }, [user, authLoading, isAdmin, router]);
+
+  const loadIntakes = async () => {
+    try {
+      setLoading(true);
+      setIntakes(await supabaseTrainingIntakesAPI.getAllIntakes());
+    } catch (error) {
+      console.error('Error loading training intakes:', error);
+      alert('Failed to load training intakes');
+    } finally {
+      setLoading(false);
+    }
+  };
+
+  const handleImport = async () => {
+    if (!preview || preview.errors.length > 0) return;
+
+    try {
+      setImporting(true);
+      const success = await supabaseTrainingIntakesAPI.importIntakes(preview.intakes);
+      if (success) {
+        setCsv('');
+        setPreview(null);
+        await loadIntakes();
+      } else {
+        alert('Failed to import intakes');
+      }
+    } catch (error) {
+      console.error('Error importing intakes:', error);
+      alert('Failed to import intakes');
+    } finally {
+      setImporting(false);
+    }
+  };
+
+  const handleWithdraw = async (intake: TrainingIntake) => {
+    if (!confirm(`Withdraw ${TRAINING_BODY_LABELS[intake.body]} ${intake.programme} (${intake.intake_year})?`)) return;
+
+    try {
+      setWithdrawingId(intake.id);
+      if (await supabaseTrainingIntakesAPI.withdrawIntake(intake.id)) {
+        await loadIntakes();
+      } else {
+        alert('Failed to withdraw intake');
+      }
+    } finally {
+      setWithdrawingId(null);
+    }
+  };
+
+  // Show loading state while auth initializes
+  if (authLoading) {
+    return (
+      <div className="min-h-screen bg-slate-50 flex items-center justify-center">
+        <div className="text-center">
+          <div className="animate-spin rounded-full h-12 w-12 border-b-2 border-linkedin-blue mx-auto mb-4"></div>
+          <p className="text-slate-600">Loading...</p>
+        </div>
+      </div>
+    );
+  }
+
+  // Redirect if not admin
+  if (!user || !isAdmin) {
+    return null;
+  }
+
+  return (
+    <div className="min-h-screen bg-slate-50 py-8">
+      <div className="max-w-6xl mx-auto px-4 sm:px-6 lg:px-8">
+        {/* Header */}
+        <div className="mb-8">
+          <Link
+            href="/admin"
+            className="inline-flex items-center gap-2 text-linkedin-blue hover:underline mb-4"
+          >
+            <ArrowLeft className="w-4 h-4" />
+            Back to Admin
+          </Link>
+          <h1 className="text-3xl font-bold text-slate-900 flex items-center gap-3">
+            <GraduationCap className="w-8 h-8 text-linkedin-blue" />
+            Training Intakes
+          </h1>
+          <p className="text-slate-600 mt-2">
+            BST, HST and GP training application windows, as published by the training bodies
+          </p>
+        </div>
+
+        {/* Import */}
+        <div className="bg-white rounded-lg shadow-sm border border-slate-200 overflow-hidden">
+          <div className="px-6 py-4 border-b border-slate-200 flex items-center justify-between">
+            <h2 className="text-lg font-semibold text-slate-900">Import CSV</h2>
+            <button
+              onClick={() => { setCsv(TEMPLATE); setPreview(null); }}
+              className="text-sm text-linkedin-blue hover:underline"
+            >
+              Use template
+            </button>
+          </div>
+          <div className="p-6 space-y-4">
+            <p className="text-sm text-slate-600">
+              One row per programme. Re-importing a programme for the same intake year updates it.
+              Columns: <code className="text-xs">{INTAKE_IMPORT_COLUMNS.join(', ')}</code>
+            </p>
+            <textarea
+              value={csv}
+              onChange={e => { setCsv(e.target.value); setPreview(null); }}
+              rows={8}
+              placeholder={INTAKE_IMPORT_COLUMNS.join(',')}
+              className="w-full px-3 py-2 rounded-md border border-slate-300 font-mono text-xs"
+            />
+            <div className="flex items-center justify-end gap-2">
+              <button
+                onClick={() => setPreview(parseIntakeImport(csv))}
+                disabled={!csv.trim()}
+                className="px-3 py-1.5 rounded-md text-xs font-medium bg-slate-100 text-slate-700 hover:bg-slate-200 disabled:opacity-50"
+              >
+                Check
+              </button>
+              <button
+                onClick={handleImport}
+                disabled={!preview || preview.errors.length > 0 || preview.intakes.length === 0 || importing}
+                className="px-3 py-1.5 rounded-md text-xs font-medium bg-linkedin-blue text-white hover:bg-linkedin-blue-dark disabled:opacity-50"
+              >
+                {importing ? 'Importing...' : `Import ${preview?.intakes.length || ''} intake${preview?.intakes.length === 1 ? '' : 's'}`}
+              </button>
+            </div>
+
+            {preview && preview.errors.length > 0 && (
+              <ul className="p-4 rounded-md bg-red-50 border border-red-200 text-sm text-red-700 space-y-1">
+                {preview.errors.map(error => <li key={error}>{error}</li>)}
+              </ul>
+            )}
+
+            {preview && preview.errors.length === 0 && preview.intakes.length > 0 && (
+              <IntakeTable intakes={preview.intakes} />
+            )}
+          </div>
+        </div>
+
+        {/* Current intakes */}
+        <div className="mt-8 bg-white rounded-lg shadow-sm border border-slate-200 overflow-hidden">
+          <div className="px-6 py-4 border-b border-slate-200">
+            <h2 className="text-lg font-semibold text-slate-900">Intakes ({intakes.length})</h2>
+          </div>
+          {loading ? (
+            <div className="p-12 text-center">
+              <div className="animate-spin rounded-full h-8 w-8 border-b-2 border-linkedin-blue mx-auto"></div>
+            </div>
+          ) : intakes.length === 0 ? (
+            <div className="p-12 text-center text-slate-600">
+              No intakes imported yet
+            </div>
+          ) : (
+            <IntakeTable
+              intakes={intakes}
+              renderAction={intake => intake.is_active ? (
+                <button
+                  onClick={() => handleWithdraw(intake)}
+                  disabled={withdrawingId === intake.id}
+                  className="px-2 py-1 rounded-md text-xs font-medium bg-red-50 text-red-600 hover:bg-red-100 disabled:opacity-50"
+                >
+                  Withdraw
+                </button>
+              ) : (
+                <span className="text-xs text-slate-400">Withdrawn</span>
+              )}
+            />
+          )}
+        </div>
+      </div>
+    </div>
+  );
+}
+
+function IntakeTable<T extends TrainingIntakeInput>({
+  intakes,
+  renderAction,
+}: {
+  intakes: T[];
+  renderAction?: (intake: T) => React.ReactNode;
+}) {
+  return (
+    <div className="overflow-x-auto">
+      <table className="w-full text-sm">
+        <thead className="bg-slate-50 text-left text-xs font-medium text-slate-600 uppercase tracking-wider">
+          <tr>
+            <th className="px-4 py-2">Programme</th>
+            <th className="px-4 py-2">Scheme</th>
+            <th className="px-4 py-2">Opens</th>
+            <th className="px-4 py-2">Closes</th>
+            <th className="px-4 py-2">Interviews</th>
+            <th className="px-4 py-2">Posts</th>
+            {renderAction && <th className="px-4 py-2"></th>}
+          </tr>
+        </thead>
+        <tbody className="divide-y divide-slate-200">
+          {intakes.map(intake => (
+            <tr key={`${intake.body}-${intake.programme}-${intake.intake_year}`} className="align-top">
+              <td className="px-4 py-2">
+                <p className="font-medium text-slate-900">
+                  {TRAINING_BODY_LABELS[intake.body]} · {intake.programme}
+                  {intake.application_url && (
+                    <a
+                      href={intake.application_url}
+                      target="_blank"
+                      rel="noopener noreferrer"
+                      className="inline-flex ml-1 text-linkedin-blue"
+                    >
+                      <ExternalLink className="w-3 h-3" />
+                    </a>
+                  )}
+                </p>
+                <p className="text-xs text-slate-500">
+                  {SPECIALTY_LABELS[intake.specialty]} · {intake.intake_year} intake
+                </p>
+              </td>
+              <td className="px-4 py-2 text-slate-700">{SCHEME_TYPE_LABELS[intake.scheme_type]}</td>
+              <td className="px-4 py-2 text-slate-700">
+                {intake.opens_at ? formatClosingTime({ application_deadline: intake.opens_at, deadline_precision: 'DATE' }) : '—'}
+              </td>
+              <td className="px-4 py-2 text-slate-700">{formatClosingTime(intake)}</td>
+              <td className="px-4 py-2 text-slate-700">
+                {intake.interview_start
+                  ? [intake.interview_start, intake.interview_end].filter(Boolean).join(' – ')
+                  : '—'}
+              </td>
+              <td className="px-4 py-2 text-slate-700">{intake.posts_available ?? '—'}</td>
+              {renderAction && <td className="px-4 py-2 text-right">{renderAction(intake)}</td>}
+            </tr>
+          ))}
+        </tbody>
+      </table>
+    </div>
+  );
+}
@@ -0,0 +1,418 @@
+'use client';
+
+import { useState, useEffect } from 'react';
+import { useRouter } from 'next/navigation';
+import Link from 'next/link';
+import { ArrowLeft, PencilLine, RotateCcw, Search } from 'lucide-react';
+import { useAuth } from '@/contexts/AuthContext';
+import { supabaseJobsAPI, supabaseOverridesAPI } from '@/lib/supabase';
+import { OVERRIDE_FIELD_LABELS } from '@/lib/jobOverrides';
+import { parseIrishDeadline, UNKNOWN_DEADLINE } from '@/lib/scrapers/deadline-parser';
+import hospitalsData from '@/data/hospitals.json';
+import {
+  GRADE_LABELS,
+  SCHEME_TYPE_LABELS,
+  SPECIALTY_LABELS,
+  type HealthRegion,
+  type HospitalGroup,
+  type Job,
+  type JobOverride,
+} from '@/types/database.types';
+
+const hospitals = hospitalsData.hospitals;
+
+const TEXT_FIELDS = [
+  'title',
+  'application_url',
+  'informal_enquiries_name',
+  'informal_enquiries_email',
+  'informal_contact_email',
+  'medical_manpower_email',
+  'clinical_lead',
+] as const;
+
+const SELECT_FIELDS = {
+  grade: GRADE_LABELS,
+  specialty: SPECIALTY_LABELS,
+  scheme_type: SCHEME_TYPE_LABELS,
+} as const;
+
+type Draft = Record<(typeof TEXT_FIELDS)[number] | keyof typeof SELECT_FIELDS | 'hospital_name' | 'deadline', string>;
+
+const dublinInputFormat = new Intl.DateTimeFormat('en-CA', {
+  timeZone: 'Europe/Dublin',
+  hourCycle: 'h23',
+  year: 'numeric',
+  month: '2-digit',
+  day: '2-digit',
+  hour: '2-digit',
+  minute: '2-digit',
+});
+
+/** ISO deadline as a datetime-local value in Irish time */
+function toDublinInput(iso: string): string {
+  const parts: Record<string, string> = {};
+  for (const part of dublinInputFormat.formatToParts(new Date(iso))) {
+    parts[part.type] = part.value;
+  }
+  return `${parts.year}-${parts.month}-${parts.day}T${parts.hour}:${parts.minute}`;
+}
+
+function draftFor(job: Job): Draft {
+  return {
+    title: job.title,
+    application_url: job.application_url || '',
+    informal_enquiries_name: job.informal_enquiries_name || '',
+    informal_enquiries_email: job.informal_enquiries_email || '',
+    informal_contact_email: job.informal_contact_email || '',
+    medical_manpower_email: job.medical_manpower_email || '',
+    clinical_lead: job.clinical_lead || '',
+    grade: job.grade,
+    specialty: job.specialty,
+    scheme_type: job.scheme_type,
+    hospital_name: job.hospital_name,
+    deadline: toDublinInput(job.application_deadline),
+  };
+}
+
+function updatesFor(job: Job, draft: Draft): Partial<Job> | null {
+  const updates: Partial<Job> = {};
+
+  for (const field of [...TEXT_FIELDS, 'grade', 'specialty', 'scheme_type'] as const) {
+    Object.assign(updates, { [field]: draft[field] });
+  }
+
+  if (draft.hospital_name !== job.hospital_name) {
+    const hospital = hospitals.find(h => h.name === draft.hospital_name);
+    if (hospital) {
+      updates.hospital_id = hospital.id;
+      updates.hospital_name = hospital.name;
+      updates.hospital_group = hospital.hospitalGroup as HospitalGroup | null;
+      updates.health_region = hospital.healthRegion as HealthRegion;
+      updates.county = hospital.county;
+    }
+  }
+
+  if (draft.deadline !== toDublinInput(job.application_deadline)) {
+    const deadline = parseIrishDeadline(draft.deadline);
+    if (deadline === UNKNOWN_DEADLINE) return null;
+    updates.application_deadline = deadline.iso;
+    updates.deadline_precision = deadline.precision;
+  }
+
+  return updates;
+}
+
+function formatWhen(iso: string): string {
+  return new Date(iso).toLocaleString('en-IE', {
+    timeZone: 'Europe/Dublin',
+    day: 'numeric',
+    month: 'short',
+    hour: '2-digit',
+    minute: '2-digit',
+  });
+}
+
+export default function AdminJobsPage() {
+  const router = useRouter();
+  const { user, loading: authLoading, isAdmin } = useAuth();
+  const [jobs, setJobs] = useState<Job[]>([]);
+  const [query, setQuery] = useState('');
+  const [selected, setSelected] = useState<Job | null>(null);
+  const [draft, setDraft] = useState<Draft | null>(null);
+  const [overrides, setOverrides] = useState<JobOverride[]>([]);
+  const [loading, setLoading] = useState(true);
+  const [saving, setSaving] = useState(false);
+
+  useEffect(() => {
+    // Wait for auth to load
+    if (authLoading) return;
+
+    if (!user) {
+      router.push('/');
+      return;
+    }
+
+    if (!isAdmin) {
+      alert('Access denied. Admin privileges required.');
+      router.push('/');
+      return;
+    }
+
+    loadJobs();
+  }, [user, authLoading, isAdmin, router]);
+
+  const loadJobs = async () => {
+    try {
+      setLoading(true);
+      setJobs(await supabaseJobsAPI.getActiveJobs());
+    } catch (error) {
+      console.error('Error loading jobs:', error);
+      alert('Failed to load jobs');
+    } finally {
+      setLoading(false);
+    }
+  };
+
+  const selectJob = async (jobId: string) => {
+    try {
+      const job = await supabaseJobsAPI.getJobById(jobId);
+      if (!job) return;
+      setSelected(job);
+      setDraft(draftFor(job));
+      setOverrides(await supabaseOverridesAPI.getOverrides(job.id));
+    } catch (error) {
+      console.error('Error loading job:', error);
+      alert('Failed to load job');
+    }
+  };
+
+  const handleSave = async () => {
+    if (!selected || !draft) return;
+
+    const updates = updatesFor(selected, draft);
+    if (!updates) {
+      alert('Could not read the deadline');
+      return;
+    }
+
+    try {
+      setSaving(true);
+      const success = await supabaseOverridesAPI.setOverrides(selected, updates);
+      if (success) {
+        await Promise.all([selectJob(selected.id), loadJobs()]);
+      } else {
+        alert('Failed to save overrides');
+      }
+    } finally {
+      setSaving(false);
+    }
+  };
+
+  const handleRevert = async (override: JobOverride) => {
+    if (!selected) return;
+    if (!confirm(`Revert ${OVERRIDE_FIELD_LABELS[override.field]} to the scraped value?`)) return;
+
+    const success = await supabaseOverridesAPI.revertOverride(selected, override);
+    if (success) {
+      await Promise.all([selectJob(selected.id), loadJobs()]);
+    } else {
+      alert('Failed to revert override');
+    }
+  };
+
+  // Show loading state while auth initializes
+  if (authLoading) {
+    return (
+      <div className="min-h-screen bg-slate-50 flex items-center justify-center">
+        <div className="text-center">
+          <div className="animate-spin rounded-full h-12 w-12 border-b-2 border-linkedin-blue mx-auto mb-4"></div>
+          <p className="text-slate-600">Loading...</p>
+        </div>
+      </div>
+    );
+  }
+
+  // Redirect if not admin
+  if (!user || !isAdmin) {
+    return null;
+  }
+
+  const needle = query.trim().toLowerCase();
+  const matches = jobs
+    .filter(job => !needle || `${job.title} ${job.hospital_name}`.toLowerCase().includes(needle))
+    .slice(0, 50);
+  const activeOverrides = new Set(overrides.filter(o => !o.reverted_at).map(o => o.field));
+
+  const fieldClass = (overridden: boolean) =>
+    `w-full px-3 py-2 rounded-md border text-sm ${overridden ? 'border-linkedin-blue bg-blue-50' : 'border-slate-300'}`;
+
+  return (
+    <div className="min-h-screen bg-slate-50 py-8">
+      <div className="max-w-6xl mx-auto px-4 sm:px-6 lg:px-8">
+        {/* Header */}
+        <div className="mb-8">
+          <Link
+            href="/admin"
+            className="inline-flex items-center gap-2 text-linkedin-blue hover:underline mb-4"
+          >
+            <ArrowLeft className="w-4 h-4" />
+            Back to Admin
+          </Link>
+          <h1 className="text-3xl font-bold text-slate-900 flex items-center gap-3">
+            <PencilLine className="w-8 h-8 text-linkedin-blue" />
+            Edit Jobs
+          </h1>
+          <p className="text-slate-600 mt-2">
+            Overrides are kept when the job is re-scraped, and can be reverted
+          </p>
+        </div>
+
+        <div className="grid grid-cols-1 lg:grid-cols-3 gap-6">
+          {/* Job list */}
+          <div className="bg-white rounded-lg shadow-sm border border-slate-200 overflow-hidden">
+            <div className="px-4 py-3 border-b border-slate-200 flex items-center gap-2">
+              <Search className="w-4 h-4 text-slate-400" />
+              <input
+                value={query}
+                onChange={e => setQuery(e.target.value)}
+                placeholder="Search title or hospital"
+                className="w-full text-sm outline-none"
+              />
+            </div>
+            {loading ? (
+              <div className="p-12 text-center">
+                <div className="animate-spin rounded-full h-8 w-8 border-b-2 border-linkedin-blue mx-auto"></div>
+              </div>
+            ) : (
+              <ul className="divide-y divide-slate-200 max-h-[70vh] overflow-y-auto">
+                {matches.map(job => (
+                  <li key={job.id}>
+                    <button
+                      onClick={() => selectJob(job.id)}
+                      className={`w-full text-left px-4 py-3 hover:bg-slate-50 ${
+                        selected?.id === job.id ? 'bg-blue-50' : ''
+                      }`}
+                    >
+                      <p className="text-sm font-medium text-slate-900">{job.title}</p>
+                      <p className="text-xs text-slate-600">{job.hospital_name}</p>
+                    </button>
+                  </li>
+                ))}
+              </ul>
+            )}
+          </div>
+
+          {/* Editor */}
+          <div className="lg:col-span-2 space-y-6">
+            {!selected || !draft ? (
+              <div className="bg-white rounded-lg shadow-sm border border-slate-200 p-12 text-center text-slate-600">
+                Select a job to edit
+              </div>
+            ) : (
+              <>
+                <div className="bg-white rounded-lg shadow-sm border border-slate-200 p-6">
+                  <div className="grid grid-cols-1 md:grid-cols-2 gap-4">
+                    {TEXT_FIELDS.map(field => (
+                      <label key={field} className={field === 'title' ? 'md:col-span-2' : ''}>
+                        <span className="block text-xs font-medium text-slate-600 uppercase tracking-wider mb-1">
+                          {OVERRIDE_FIELD_LABELS[field]}
+                        </span>
+                        <input
+                          value={draft[field]}
+                          onChange={e => setDraft({ ...draft, [field]: e.target.value })}
+                          className={fieldClass(activeOverrides.has(field))}
+                        />
+                      </label>
+                    ))}
+
+                    {(Object.keys(SELECT_FIELDS) as (keyof typeof SELECT_FIELDS)[]).map(field => (
+                      <label key={field}>
+                        <span className="block text-xs font-medium text-slate-600 uppercase tracking-wider mb-1">
+                          {OVERRIDE_FIELD_LABELS[field]}
+                        </span>
+                        <select
+                          value={draft[field]}
+                          onChange={e => setDraft({ ...draft, [field]: e.target.value })}
+                          className={fieldClass(activeOverrides.has(field))}
+                        >
+                          {Object.entries(SELECT_FIELDS[field]).map(([value, label]) => (
+                            <option key={value} value={value}>{label}</option>
+                          ))}
+                        </select>
+                      </label>
+                    ))}
+
+                    <label>
+                      <span className="block text-xs font-medium text-slate-600 uppercase tracking-wider mb-1">
+                        Hospital
+                      </span>
+                      <select
+                        value={draft.hospital_name}
+                        onChange={e => setDraft({ ...draft, hospital_name: e.target.value })}
+                        className={fieldClass(activeOverrides.has('hospital_name'))}
+                      >
+                        {!hospitals.some(h => h.name === draft.hospital_name) && (
+                          <option value={draft.hospital_name}>{draft.hospital_name || 'Unknown'}</option>
+                        )}
+                        {hospitals.map(h => (
+                          <option key={h.id} value={h.name}>{h.name}</option>
+                        ))}
+                      </select>
+                    </label>
+
+                    <label>
+                      <span className="block text-xs font-medium text-slate-600 uppercase tracking-wider mb-1">
+                        Deadline (Irish time)
+                      </span>
+                      <input
+                        type="datetime-local"
+                        value={draft.deadline}
+                        onChange={e => setDraft({ ...draft, deadline: e.target.value })}
+                        className={fieldClass(activeOverrides.has('application_deadline'))}
+                      />
+                    </label>
+                  </div>
+
+                  <div className="flex justify-end gap-2 mt-6">
+                    <button
+                      onClick={() => setDraft(draftFor(selected))}
+                      className="px-3 py-1.5 rounded-md text-xs font-medium bg-slate-100 text-slate-700 hover:bg-slate-200"
+                    >
+                      Reset
+                    </button>
+                    <button
+                      onClick={handleSave}
+                      disabled={saving}
+                      className="px-3 py-1.5 rounded-md text-xs font-medium bg-linkedin-blue text-white hover:bg-linkedin-blue-dark disabled:opacity-50"
+                    >
+                      {saving ? 'Saving...' : 'Save overrides'}
+                    </button>
+                  </div>
+                </div>
+
+                {/* Override history */}
+                <div className="bg-white rounded-lg shadow-sm border border-slate-200 overflow-hidden">
+                  <div className="px-6 py-4 border-b border-slate-200">
+                    <h2 className="text-lg font-semibold text-slate-900">Override History</h2>
+                  </div>
+                  {overrides.length === 0 ? (
+                    <div className="p-6 text-sm text-slate-600">No overrides on this job</div>
+                  ) : (
+                    <ul className="divide-y divide-slate-200">
+                      {overrides.map(override => (
+                        <li key={override.id} className="px-6 py-3 text-sm flex items-start justify-between gap-4">
+                          <div className={override.reverted_at ? 'text-slate-400' : 'text-slate-700'}>
+                            <p>
+                              <span className="font-medium">{OVERRIDE_FIELD_LABELS[override.field]}:</span>{' '}
+                              {override.scraped_value || '(empty)'} → {override.value || '(empty)'}
+                            </p>
+                            <p className="text-xs">
+                              Set by {override.set_by_email || 'unknown'} on {formatWhen(override.set_at)}
+                              {override.reverted_at && (
+                                <> · reverted by {override.reverted_by_email || 'unknown'} on {formatWhen(override.reverted_at)}</>
+                              )}
+                            </p>
+                          </div>
+                          {!override.reverted_at && (
+                            <button
+                              onClick={() => handleRevert(override)}
+                              className="inline-flex items-center gap-1 px-2 py-1 rounded-md text-xs text-amber-700 hover:bg-amber-50"
+                            >
+                              <RotateCcw className="w-3 h-3" />
+                              Revert
+                            </button>
+                          )}
+                        </li>
+                      ))}
+                    </ul>
+                  )}
+                </div>
+              </>
+            )}
+          </div>
+        </div>
+      </div>
+    </div>
+  );
+}
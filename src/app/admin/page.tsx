@@ -27,7 +27,7 @@ export default function AdminPage() {
         </div>
 
         {/* Quick Links */}
-        <div className="mt-8 grid grid-cols-1 md:grid-cols-2 lg:grid-cols-4 gap-4">
+        <div className="mt-8 grid grid-cols-1 md:grid-cols-2 lg:grid-cols-3 gap-4">
           <a
             href="/"
             className="p-4 bg-white rounded-lg border border-slate-200 hover:border-linkedin-blue transition-colors"
@@ -44,6 +44,46 @@ export default function AdminPage() {
             <p className="text-sm text-slate-600">Manage users and permissions</p>
           </a>
 
+          <a
+            href="/admin/jobs"
+            className="p-4 bg-white rounded-lg border border-slate-200 hover:border-linkedin-blue transition-colors"
+          >
+            <h3 className="font-semibold text-slate-900 mb-1">Edit Jobs</h3>
+            <p className="text-sm text-slate-600">Override scraped fields</p>
+          </a>
+
+          <a
+            href="/admin/review"
+            className="p-4 bg-white rounded-lg border border-slate-200 hover:border-linkedin-blue transition-colors"
+          >
+            <h3 className="font-semibold text-slate-900 mb-1">Review Queue</h3>
+            <p className="text-sm text-slate-600">Check low-confidence job fields</p>
+          </a>
+
+          <a
+            href="/admin/hospitals"
+            className="p-4 bg-white rounded-lg border border-slate-200 hover:border-linkedin-blue transition-colors"
+          >
+            <h3 className="font-semibold text-slate-900 mb-1">Hospital Names</h3>
+            <p className="text-sm text-slate-600">Turn unmatched hospital text into aliases</p>
+          </a>
+
+          <a
+            href="/admin/intakes"
+            className="p-4 bg-white rounded-lg border border-slate-200 hover:border-linkedin-blue transition-colors"
+          >
+            <h3 className="font-semibold text-slate-900 mb-1">Training Intakes</h3>
+            <p className="text-sm text-slate-600">Import BST/HST and GP application windows</p>
+          </a>
+
+          <a
+            href="/admin/webhooks"
+            className="p-4 bg-white rounded-lg border border-slate-200 hover:border-linkedin-blue transition-colors"
+          >
+            <h3 className="font-semibold text-slate-900 mb-1">Webhooks</h3>
+            <p className="text-sm text-slate-600">Notify endpoints when runs finish or sources fail</p>
+          </a>
+
           <a
             href="/api/scrape"
             className="p-4 bg-white rounded-lg border border-slate-200 hover:border-linkedin-blue transition-colors"
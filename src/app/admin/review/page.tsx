@@ -0,0 +1,328 @@
+'use client';
+
+import { useState, useEffect } from 'react';
+import { useRouter } from 'next/navigation';
+import Link from 'next/link';
+import { ArrowLeft, ClipboardCheck, ExternalLink } from 'lucide-react';
+import { useAuth } from '@/contexts/AuthContext';
+import { supabaseReviewAPI } from '@/lib/supabase';
+import { lowConfidenceFields, SCORED_FIELDS } from '@/lib/scrapers/field-confidence';
+import hospitalsData from '@/data/hospitals.json';
+import {
+  GRADE_LABELS,
+  SCHEME_TYPE_LABELS,
+  SPECIALTY_LABELS,
+  type ConfidenceReason,
+  type HealthRegion,
+  type HospitalGroup,
+  type Job,
+  type JobFieldReview,
+  type ScoredField,
+} from '@/types/database.types';
+
+const hospitals = hospitalsData.hospitals;
+
+const FIELD_LABELS: Record<ScoredField, string> = {
+  grade: 'Grade',
+  specialty: 'Specialty',
+  scheme_type: 'Scheme',
+  hospital_name: 'Hospital',
+};
+
+const REASON_LABELS: Record<ConfidenceReason, string> = {
+  KEYWORD: 'Keyword match',
+  GENERIC_KEYWORD: 'Broad keyword only',
+  DEFAULT: 'Nothing matched — default used',
+  HOSPITAL_NAME: 'Hospital named in text',
+  FUZZY_MATCH: 'Hospital name partly matched',
+  REF_CODE: 'Guessed from reference code',
+  COUNTY_FALLBACK: "Guessed from county's main hospital",
+  SOURCE_CONFIG: 'Board belongs to this hospital',
+  REVIEWED: 'Reviewed',
+};
+
+const FIELD_OPTIONS: Record<ScoredField, [string, string][]> = {
+  grade: Object.entries(GRADE_LABELS),
+  specialty: Object.entries(SPECIALTY_LABELS),
+  scheme_type: Object.entries(SCHEME_TYPE_LABELS),
+  hospital_name: hospitals.map(h => [h.name, h.name]),
+};
+
+type Draft = Record<ScoredField, string>;
+
+function draftFor(job: Job): Draft {
+  return {
+    grade: job.grade,
+    specialty: job.specialty,
+    scheme_type: job.scheme_type,
+    hospital_name: job.hospital_name,
+  };
+}
+
+function changedFields(job: Job, draft: Draft): ScoredField[] {
+  const original = draftFor(job);
+  return SCORED_FIELDS.filter(field => draft[field] !== original[field]);
+}
+
+function updatesFor(job: Job, draft: Draft): { fields: ScoredField[]; updates: Partial<Job> } {
+  const changed = changedFields(job, draft);
+  const updates: Partial<Job> = {};
+
+  for (const field of changed) {
+    if (field === 'hospital_name') {
+      const hospital = hospitals.find(h => h.name === draft.hospital_name);
+      if (!hospital) continue;
+      updates.hospital_id = hospital.id;
+      updates.hospital_name = hospital.name;
+      updates.hospital_group = hospital.hospitalGroup as HospitalGroup | null;
+      updates.health_region = hospital.healthRegion as HealthRegion;
+      updates.county = hospital.county;
+    } else {
+      Object.assign(updates, { [field]: draft[field] });
+    }
+  }
+
+  const fields = Array.from(new Set([...lowConfidenceFields(job.field_confidence), ...changed]));
+  return { fields, updates };
+}
+
+export default function AdminReviewPage() {
+  const router = useRouter();
+  const { user, loading: authLoading, isAdmin } = useAuth();
+  const [jobs, setJobs] = useState<Job[]>([]);
+  const [drafts, setDrafts] = useState<Record<string, Draft>>({});
+  const [recent, setRecent] = useState<JobFieldReview[]>([]);
+  const [loading, setLoading] = useState(true);
+  const [savingId, setSavingId] = useState<string | null>(null);
+
+  useEffect(() => {
+    // Wait for auth to load
+    if (authLoading) return;
+
+    if (!user) {
+      router.push('/');
+      return;
+    }
+
+    if (!isAdmin) {
+      alert('Access denied. Admin privileges required.');
+      router.push('/');
+      return;
+    }
+
+    loadQueue();
+  }, [user, authLoading, isAdmin, router]);
+
+  const loadQueue = async () => {
+    try {
+      setLoading(true);
+      const [queue, reviews] = await Promise.all([
+        supabaseReviewAPI.getReviewQueue(),
+        supabaseReviewAPI.getRecentReviews(20),
+      ]);
+      setJobs(queue);
+      setDrafts(Object.fromEntries(queue.map(job => [job.id, draftFor(job)])));
+      setRecent(reviews);
+    } catch (error) {
+      console.error('Error loading review queue:', error);
+      alert('Failed to load review queue');
+    } finally {
+      setLoading(false);
+    }
+  };
+
+  const handleChange = (jobId: string, field: ScoredField, value: string) => {
+    setDrafts(prev => ({ ...prev, [jobId]: { ...prev[jobId], [field]: value } }));
+  };
+
+  const handleSubmit = async (job: Job, draft: Draft) => {
+    const { fields, updates } = updatesFor(job, draft);
+
+    try {
+      setSavingId(job.id);
+      const success = await supabaseReviewAPI.submitReview(job, fields, updates);
+      if (success) {
+        await loadQueue();
+      } else {
+        alert('Failed to save review');
+      }
+    } catch (error) {
+      console.error('Error saving review:', error);
+      alert('Failed to save review');
+    } finally {
+      setSavingId(null);
+    }
+  };
+
+  // Show loading state while auth initializes
+  if (authLoading) {
+    return (
+      <div className="min-h-screen bg-slate-50 flex items-center justify-center">
+        <div className="text-center">
+          <div className="animate-spin rounded-full h-12 w-12 border-b-2 border-linkedin-blue mx-auto mb-4"></div>
+          <p className="text-slate-600">Loading...</p>
+        </div>
+      </div>
+    );
+  }
+
+  // Redirect if not admin
+  if (!user || !isAdmin) {
+    return null;
+  }
+
+  return (
+    <div className="min-h-screen bg-slate-50 py-8">
+      <div className="max-w-6xl mx-auto px-4 sm:px-6 lg:px-8">
+        {/* Header */}
+        <div className="mb-8">
+          <Link
+            href="/admin"
+            className="inline-flex items-center gap-2 text-linkedin-blue hover:underline mb-4"
+          >
+            <ArrowLeft className="w-4 h-4" />
+            Back to Admin
+          </Link>
+          <h1 className="text-3xl font-bold text-slate-900 flex items-center gap-3">
+            <ClipboardCheck className="w-8 h-8 text-linkedin-blue" />
+            Review Queue
+          </h1>
+          <p className="text-slate-600 mt-2">
+            Jobs where the grade, specialty, scheme or hospital was a low-confidence guess
+          </p>
+        </div>
+
+        {/* Queue */}
+        <div className="bg-white rounded-lg shadow-sm border border-slate-200 overflow-hidden">
+          <div className="px-6 py-4 border-b border-slate-200">
+            <h2 className="text-lg font-semibold text-slate-900">Needs Review ({jobs.length})</h2>
+          </div>
+
+          {loading ? (
+            <div className="p-12 text-center">
+              <div className="animate-spin rounded-full h-8 w-8 border-b-2 border-linkedin-blue mx-auto"></div>
+            </div>
+          ) : jobs.length === 0 ? (
+            <div className="p-12 text-center text-slate-600">
+              Nothing to review
+            </div>
+          ) : (
+            <div className="divide-y divide-slate-200">
+              {jobs.map(job => {
+                const draft = drafts[job.id] || draftFor(job);
+                const low = lowConfidenceFields(job.field_confidence);
+                const changed = changedFields(job, draft).length > 0;
+
+                return (
+                  <div key={job.id} className="p-6">
+                    <div className="flex items-start justify-between gap-4 mb-4">
+                      <div>
+                        <p className="font-medium text-slate-900">{job.title}</p>
+                        <p className="text-sm text-slate-600">
+                          {job.source} · closes{' '}
+                          {new Date(job.application_deadline).toLocaleDateString('en-IE', {
+                            year: 'numeric',
+                            month: 'short',
+                            day: 'numeric',
+                          })}
+                        </p>
+                      </div>
+                      {job.application_url && (
+                        <a
+                          href={job.application_url}
+                          target="_blank"
+                          rel="noopener noreferrer"
+                          className="inline-flex items-center gap-1 text-sm text-linkedin-blue hover:underline"
+                        >
+                          Posting <ExternalLink className="w-3 h-3" />
+                        </a>
+                      )}
+                    </div>
+
+                    <div className="grid grid-cols-1 md:grid-cols-2 lg:grid-cols-4 gap-4 mb-4">
+                      {SCORED_FIELDS.map(field => {
+                        const confidence = job.field_confidence?.[field];
+                        const isLow = low.includes(field);
+                        return (
+                          <label key={field} className="block">
+                            <span className="block text-xs font-medium text-slate-600 uppercase tracking-wider mb-1">
+                              {FIELD_LABELS[field]}
+                            </span>
+                            <select
+                              value={draft[field]}
+                              onChange={e => handleChange(job.id, field, e.target.value)}
+                              className={`w-full px-3 py-2 rounded-md border text-sm ${
+                                isLow ? 'border-amber-400 bg-amber-50' : 'border-slate-300'
+                              }`}
+                            >
+                              {field === 'hospital_name' && !hospitals.some(h => h.name === draft.hospital_name) && (
+                                <option value={draft.hospital_name}>{draft.hospital_name || 'Unknown'}</option>
+                              )}
+                              {FIELD_OPTIONS[field].map(([value, label]) => (
+                                <option key={value} value={value}>{label}</option>
+                              ))}
+                            </select>
+                            {confidence && (
+                              <span className={`block text-xs mt-1 ${isLow ? 'text-amber-700' : 'text-slate-500'}`}>
+                                {Math.round(confidence.score * 100)}% · {REASON_LABELS[confidence.reason]}
+                                {confidence.matched && ` (“${confidence.matched}”)`}
+                              </span>
+                            )}
+                          </label>
+                        );
+                      })}
+                    </div>
+
+                    <div className="flex items-center justify-end gap-2">
+                      <button
+                        onClick={() => handleSubmit(job, draftFor(job))}
+                        disabled={savingId === job.id || changed}
+                        className="px-3 py-1.5 rounded-md text-xs font-medium bg-green-100 text-green-700 hover:bg-green-200 disabled:opacity-50"
+                      >
+                        Looks right
+                      </button>
+                      <button
+                        onClick={() => handleSubmit(job, draft)}
+                        disabled={savingId === job.id || !changed}
+                        className="px-3 py-1.5 rounded-md text-xs font-medium bg-linkedin-blue text-white hover:bg-linkedin-blue-dark disabled:opacity-50"
+                      >
+                        {savingId === job.id ? 'Saving...' : 'Save corrections'}
+                      </button>
+                    </div>
+                  </div>
+                );
+              })}
+            </div>
+          )}
+        </div>
+
+        {/* Recent corrections */}
+        {recent.length > 0 && (
+          <div className="mt-8 bg-white rounded-lg shadow-sm border border-slate-200 overflow-hidden">
+            <div className="px-6 py-4 border-b border-slate-200">
+              <h2 className="text-lg font-semibold text-slate-900">Recent Reviews</h2>
+            </div>
+            <ul className="divide-y divide-slate-200">
+              {recent.map(review => (
+                <li key={review.id} className="px-6 py-3 text-sm text-slate-700 flex justify-between gap-4">
+                  <span>
+                    <span className="font-medium">{FIELD_LABELS[review.field]}:</span>{' '}
+                    {review.previous_value === review.corrected_value
+                      ? `${review.corrected_value} confirmed`
+                      : `${review.previous_value} → ${review.corrected_value}`}
+                  </span>
+                  <span className="text-slate-500">
+                    {new Date(review.reviewed_at).toLocaleDateString('en-IE', {
+                      month: 'short',
+                      day: 'numeric',
+                    })}
+                  </span>
+                </li>
+              ))}
+            </ul>
+          </div>
+        )}
+      </div>
+    </div>
+  );
+}
@@ -0,0 +1,326 @@
+'use client';
+
+import { useState, useEffect } from 'react';
+import { useRouter } from 'next/navigation';
+import Link from 'next/link';
+import { ArrowLeft, Webhook } from 'lucide-react';
+import { useAuth } from '@/contexts/AuthContext';
+import { supabaseWebhooksAPI } from '@/lib/supabase';
+import {
+  SCRAPE_WEBHOOK_EVENT_LABELS,
+  type ScrapeWebhook,
+  type ScrapeWebhookDelivery,
+  type ScrapeWebhookEvent,
+} from '@/types/database.types';
+
+const EVENTS = Object.keys(SCRAPE_WEBHOOK_EVENT_LABELS) as ScrapeWebhookEvent[];
+
+export default function AdminWebhooksPage() {
+  const router = useRouter();
+  const { user, loading: authLoading, isAdmin } = useAuth();
+  const [webhooks, setWebhooks] = useState<ScrapeWebhook[]>([]);
+  const [deliveries, setDeliveries] = useState<ScrapeWebhookDelivery[]>([]);
+  const [loading, setLoading] = useState(true);
+  const [url, setUrl] = useState('');
+  const [description, setDescription] = useState('');
+  const [events, setEvents] = useState<ScrapeWebhookEvent[]>(EVENTS);
+  const [creating, setCreating] = useState(false);
+  const [revealedId, setRevealedId] = useState<string | null>(null);
+  const [updatingId, setUpdatingId] = useState<string | null>(null);
+
+  useEffect(() => {
+    // Wait for auth to load
+    if (authLoading) return;
+
+    if (!user) {
+      router.push('/');
+      return;
+    }
+
+    if (!isAdmin) {
+      alert('Access denied. Admin privileges required.');
+      router.push('/');
+      return;
+    }
+
+    loadWebhooks();
+  }, [user, authLoading, isAdmin, router]);
+
+  const loadWebhooks = async () => {
+    try {
+      setLoading(true);
+      const [endpoints, recent] = await Promise.all([
+        supabaseWebhooksAPI.getWebhooks(),
+        supabaseWebhooksAPI.getRecentDeliveries(),
+      ]);
+      setWebhooks(endpoints);
+      setDeliveries(recent);
+    } catch (error) {
+      console.error('Error loading webhooks:', error);
+      alert('Failed to load webhooks');
+    } finally {
+      setLoading(false);
+    }
+  };
+
+  const toggleEvent = (event: ScrapeWebhookEvent) => {
+    setEvents(current => current.includes(event) ? current.filter(e => e !== event) : [...current, event]);
+  };
+
+  const handleCreate = async () => {
+    if (!/^https?:\/\//.test(url.trim())) {
+      alert('Enter an http(s) URL');
+      return;
+    }
+
+    try {
+      setCreating(true);
+      const webhook = await supabaseWebhooksAPI.createWebhook(url.trim(), events, description.trim() || null);
+      if (webhook) {
+        setUrl('');
+        setDescription('');
+        setEvents(EVENTS);
+        // Show the new secret straight away so it can be copied into the receiver
+        setRevealedId(webhook.id);
+        await loadWebhooks();
+      } else {
+        alert('Failed to add webhook');
+      }
+    } finally {
+      setCreating(false);
+    }
+  };
+
+  const handleToggleActive = async (webhook: ScrapeWebhook) => {
+    try {
+      setUpdatingId(webhook.id);
+      if (await supabaseWebhooksAPI.setActive(webhook.id, !webhook.is_active)) {
+        await loadWebhooks();
+      } else {
+        alert('Failed to update webhook');
+      }
+    } finally {
+      setUpdatingId(null);
+    }
+  };
+
+  const handleDelete = async (webhook: ScrapeWebhook) => {
+    if (!confirm(`Delete the webhook to ${webhook.url} and its delivery log?`)) return;
+
+    try {
+      setUpdatingId(webhook.id);
+      if (await supabaseWebhooksAPI.deleteWebhook(webhook.id)) {
+        await loadWebhooks();
+      } else {
+        alert('Failed to delete webhook');
+      }
+    } finally {
+      setUpdatingId(null);
+    }
+  };
+
+  // Show loading state while auth initializes
+  if (authLoading) {
+    return (
+      <div className="min-h-screen bg-slate-50 flex items-center justify-center">
+        <div className="text-center">
+          <div className="animate-spin rounded-full h-12 w-12 border-b-2 border-linkedin-blue mx-auto mb-4"></div>
+          <p className="text-slate-600">Loading...</p>
+        </div>
+      </div>
+    );
+  }
+
+  // Redirect if not admin
+  if (!user || !isAdmin) {
+    return null;
+  }
+
+  const urlsById = new Map(webhooks.map(webhook => [webhook.id, webhook.url]));
+
+  return (
+    <div className="min-h-screen bg-slate-50 py-8">
+      <div className="max-w-6xl mx-auto px-4 sm:px-6 lg:px-8">
+        {/* Header */}
+        <div className="mb-8">
+          <Link
+            href="/admin"
+            className="inline-flex items-center gap-2 text-linkedin-blue hover:underline mb-4"
+          >
+            <ArrowLeft className="w-4 h-4" />
+            Back to Admin
+          </Link>
+          <h1 className="text-3xl font-bold text-slate-900 flex items-center gap-3">
+            <Webhook className="w-8 h-8 text-linkedin-blue" />
+            Webhooks
+          </h1>
+          <p className="text-slate-600 mt-2">
+            Endpoints notified when a scrape run finishes or a source fails
+          </p>
+        </div>
+
+        {/* Add endpoint */}
+        <div className="bg-white rounded-lg shadow-sm border border-slate-200 overflow-hidden">
+          <div className="px-6 py-4 border-b border-slate-200">
+            <h2 className="text-lg font-semibold text-slate-900">Add Endpoint</h2>
+          </div>
+          <div className="p-6 space-y-4">
+            <p className="text-sm text-slate-600">
+              Each delivery is a JSON POST signed with the endpoint&apos;s secret in
+              the <code className="text-xs">X-MedMatch-Signature</code> header
+              (<code className="text-xs">t=&lt;unix time&gt;,v1=&lt;HMAC-SHA256 of &quot;t.body&quot;&gt;</code>).
+              Failed deliveries are retried with backoff.
+            </p>
+            <div className="grid grid-cols-1 md:grid-cols-2 gap-4">
+              <input
+                type="url"
+                value={url}
+                onChange={e => setUrl(e.target.value)}
+                placeholder="https://example.ie/hooks/medmatch"
+                className="w-full px-3 py-2 rounded-md border border-slate-300 text-sm"
+              />
+              <input
+                type="text"
+                value={description}
+                onChange={e => setDescription(e.target.value)}
+                placeholder="Description (optional)"
+                className="w-full px-3 py-2 rounded-md border border-slate-300 text-sm"
+              />
+            </div>
+            <div className="flex flex-wrap items-center justify-between gap-4">
+              <div className="flex flex-wrap gap-4">
+                {EVENTS.map(event => (
+                  <label key={event} className="inline-flex items-center gap-2 text-sm text-slate-700">
+                    <input
+                      type="checkbox"
+                      checked={events.includes(event)}
+                      onChange={() => toggleEvent(event)}
+                    />
+                    <code className="text-xs">{event}</code>
+                    <span className="text-slate-500">{SCRAPE_WEBHOOK_EVENT_LABELS[event]}</span>
+                  </label>
+                ))}
+              </div>
+              <button
+                onClick={handleCreate}
+                disabled={!url.trim() || events.length === 0 || creating}
+                className="px-3 py-1.5 rounded-md text-xs font-medium bg-linkedin-blue text-white hover:bg-linkedin-blue-dark disabled:opacity-50"
+              >
+                {creating ? 'Adding...' : 'Add endpoint'}
+              </button>
+            </div>
+          </div>
+        </div>
+
+        {/* Endpoints */}
+        <div className="mt-8 bg-white rounded-lg shadow-sm border border-slate-200 overflow-hidden">
+          <div className="px-6 py-4 border-b border-slate-200">
+            <h2 className="text-lg font-semibold text-slate-900">Endpoints ({webhooks.length})</h2>
+          </div>
+          {loading ? (
+            <div className="p-12 text-center">
+              <div className="animate-spin rounded-full h-8 w-8 border-b-2 border-linkedin-blue mx-auto"></div>
+            </div>
+          ) : webhooks.length === 0 ? (
+            <div className="p-12 text-center text-slate-600">
+              No endpoints registered yet
+            </div>
+          ) : (
+            <ul className="divide-y divide-slate-200">
+              {webhooks.map(webhook => (
+                <li key={webhook.id} className="px-6 py-4 flex items-start justify-between gap-4">
+                  <div className="min-w-0">
+                    <p className="font-medium text-slate-900 break-all">
+                      {webhook.url}
+                      {!webhook.is_active && <span className="ml-2 text-xs text-slate-400">Paused</span>}
+                    </p>
+                    {webhook.description && <p className="text-sm text-slate-600">{webhook.description}</p>}
+                    <p className="text-xs text-slate-500 mt-1">{webhook.events.join(', ')}</p>
+                    {revealedId === webhook.id ? (
+                      <p className="mt-2 text-xs">
+                        Secret: <code className="px-1 py-0.5 rounded bg-slate-100 break-all">{webhook.secret}</code>
+                      </p>
+                    ) : (
+                      <button
+                        onClick={() => setRevealedId(webhook.id)}
+                        className="mt-2 text-xs text-linkedin-blue hover:underline"
+                      >
+                        Show secret
+                      </button>
+                    )}
+                  </div>
+                  <div className="flex gap-2 shrink-0">
+                    <button
+                      onClick={() => handleToggleActive(webhook)}
+                      disabled={updatingId === webhook.id}
+                      className="px-2 py-1 rounded-md text-xs font-medium bg-slate-100 text-slate-700 hover:bg-slate-200 disabled:opacity-50"
+                    >
+                      {webhook.is_active ? 'Pause' : 'Resume'}
+                    </button>
+                    <button
+                      onClick={() => handleDelete(webhook)}
+                      disabled={updatingId === webhook.id}
+                      className="px-2 py-1 rounded-md text-xs font-medium bg-red-50 text-red-600 hover:bg-red-100 disabled:opacity-50"
+                    >
+                      Delete
+                    </button>
+                  </div>
+                </li>
+              ))}
+            </ul>
+          )}
+        </div>
+
+        {/* Delivery log */}
+        <div className="mt-8 bg-white rounded-lg shadow-sm border border-slate-200 overflow-hidden">
+          <div className="px-6 py-4 border-b border-slate-200">
+            <h2 className="text-lg font-semibold text-slate-900">Recent Deliveries</h2>
+          </div>
+          {!loading && deliveries.length === 0 ? (
+            <div className="p-12 text-center text-slate-600">
+              Nothing delivered yet
+            </div>
+          ) : (
+            <div className="overflow-x-auto">
+              <table className="w-full text-sm">
+                <thead className="bg-slate-50 text-left text-xs font-medium text-slate-600 uppercase tracking-wider">
+                  <tr>
+                    <th className="px-4 py-2">Sent</th>
+                    <th className="px-4 py-2">Event</th>
+                    <th className="px-4 py-2">Endpoint</th>
+                    <th className="px-4 py-2">Status</th>
+                    <th className="px-4 py-2">Attempts</th>
+                    <th className="px-4 py-2">Response</th>
+                  </tr>
+                </thead>
+                <tbody className="divide-y divide-slate-200">
+                  {deliveries.map(delivery => (
+                    <tr key={delivery.id} className="align-top">
+                      <td className="px-4 py-2 text-slate-700 whitespace-nowrap">
+                        {new Date(delivery.created_at).toLocaleString('en-IE')}
+                      </td>
+                      <td className="px-4 py-2"><code className="text-xs">{delivery.event}</code></td>
+                      <td className="px-4 py-2 text-slate-700 break-all">{urlsById.get(delivery.webhook_id) ?? '—'}</td>
+                      <td className="px-4 py-2">
+                        <span className={`px-2 py-0.5 rounded-full text-xs font-medium ${
+                          delivery.status === 'DELIVERED' ? 'bg-green-100 text-green-700' : 'bg-red-100 text-red-700'
+                        }`}>
+                          {delivery.status}
+                        </span>
+                      </td>
+                      <td className="px-4 py-2 text-slate-700">{delivery.attempts}</td>
+                      <td className="px-4 py-2 text-slate-700">
+                        {delivery.response_status ?? '—'}
+                        {delivery.error && <p className="text-xs text-red-600">{delivery.error}</p>}
+                      </td>
+                    </tr>
+                  ))}
+                </tbody>
+              </table>
+            </div>
+          )}
+        </div>
+      </div>
+    </div>
+  );
+}
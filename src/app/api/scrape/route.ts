@@ -4,10 +4,15 @@
  *
  * POST /api/scrape — Manual trigger (from admin UI or curl)
  * GET  /api/scrape — Vercel cron trigger (daily at 2 AM UTC) or info endpoint
+ * GET  /api/scrape?resume=1 — Cron trigger that only resumes a queued run
+ *
+ * With Supabase configured, full runs go through the task queue: each call
+ * works the run's tasks for as long as it has, and the call that finishes
+ * the last task saves the run.
  */
 
 import { NextRequest, NextResponse } from 'next/server';
-import { getOrchestrator } from '@/lib/scrapers/orchestrator';
+import { getOrchestrator, type QueueWorkResult } from '@/lib/scrapers/orchestrator';
 
 export const runtime = 'nodejs';
 export const dynamic = 'force-dynamic';
@@ -46,6 +51,9 @@ export async function POST(request: NextRequest) {
         scrape_completed_at: scraperResult.scraped_at,
         duration_seconds: 0,
       };
+    } else if (orchestrator.queueEnabled) {
+      const work = await orchestrator.workQueue({ start: true });
+      return NextResponse.json({ success: true, message: queueMessage(work), data: work.result, queue: work.progress });
     } else {
       result = await orchestrator.scrapeAll();
     }
@@ -85,6 +93,13 @@ export async function GET(request: NextRequest) {
       // This is a cron trigger — run the scrapers
       console.log('Cron-triggered scraping started');
       const orchestrator = getOrchestrator();
+
+      if (orchestrator.queueEnabled) {
+        const resumeOnly = new URL(request.url).searchParams.get('resume') === '1';
+        const work = await orchestrator.workQueue({ start: !resumeOnly });
+        return NextResponse.json({ success: true, message: `Cron scrape: ${queueMessage(work)}`, data: work.result, queue: work.progress });
+      }
+
       const result = await orchestrator.scrapeAll();
 
       return NextResponse.json({
@@ -114,3 +129,12 @@ export async function GET(request: NextRequest) {
     );
   }
 }
+
+function queueMessage({ result, progress, tasks_run }: QueueWorkResult): string {
+  if (result) {
+    return `Run complete: ${result.total_jobs_scraped} jobs from ${result.scrapers_run.length} source(s)`;
+  }
+  if (!progress) return 'No queued run to resume';
+  const left = progress.pending + progress.running;
+  return `Ran ${tasks_run} task(s); ${left} of ${progress.total} left — the run resumes on the next call`;
+}
@@ -16,6 +16,7 @@ import {
 } from 'lucide-react';
 import { AnimatePresence, motion } from 'framer-motion';
 import JobCard from '@/components/JobCard';
+import IntakeCard from '@/components/IntakeCard';
 import DetailView from '@/components/DetailView';
 import LoginModal from '@/components/LoginModal';
 import LandingPage from '@/components/LandingPage';
@@ -23,15 +24,52 @@ import ProfileSetupModal from '@/components/ProfileSetupModal';
 import DeadlineNotifPanel from '@/components/DeadlineNotifPanel';
 import ApplicationTracker from '@/components/ApplicationTracker';
 import AccommodationSection from '@/components/accommodation/AccommodationSection';
-import type { Job, SpecialtyType, HospitalGroup, SchemeType } from '@/types/database.types';
+import type {
+  Job,
+  SpecialtyType,
+  HospitalGroup,
+  HealthRegion,
+  SchemeType,
+  TrainingIntake,
+  LocationType,
+  CommunityHealthcareArea,
+} from '@/types/database.types';
 import {
   SPECIALTY_LABELS,
   HOSPITAL_GROUP_LABELS,
+  HEALTH_REGION_LABELS,
   SCHEME_TYPE_LABELS,
+  TRAINING_BODY_LABELS,
+  LOCATION_TYPE_LABELS,
+  COMMUNITY_HEALTHCARE_AREA_LABELS,
 } from '@/types/database.types';
+import hospitalsData from '@/data/hospitals.json';
+import { matchesSpecialties, parentSpecialty, specialtyFilterOptions } from '@/lib/specialties';
 import { storageAPI, initializeLocalStorage } from '@/lib/localStorage';
 import { useAuth } from '@/contexts/AuthContext';
-import { getDeadlineStats, checkDeadlines, type DeadlineAlert } from '@/lib/deadlineNotifications';
+import {
+  getDeadlineStats,
+  checkDeadlines,
+  checkIntakeDeadlines,
+  sortAlerts,
+  type DeadlineAlert,
+} from '@/lib/deadlineNotifications';
+
+// Registry entry for each job's hospital, by the name jobs are saved with
+const locationsByName = new Map(hospitalsData.hospitals.map(h => [h.name, h]));
+
+function jobLocationType(job: Job): LocationType | undefined {
+  return locationsByName.get(job.hospital_name)?.type as LocationType | undefined;
+}
+
+function jobRegion(job: Job): CommunityHealthcareArea | undefined {
+  return locationsByName.get(job.hospital_name)?.region as CommunityHealthcareArea | undefined;
+}
+
+// Rows saved before health_region existed fall back to their hospital's region
+function jobHealthRegion(job: Job): HealthRegion | undefined {
+  return job.health_region ?? locationsByName.get(job.hospital_name)?.healthRegion as HealthRegion | undefined;
+}
 
 export default function Dashboard() {
   const { user, loading: authLoading, signOut, updateProfile } = useAuth();
@@ -42,6 +80,7 @@ export default function Dashboard() {
 
   // Data state
   const [jobs, setJobs] = useState<Job[]>([]);
+  const [intakes, setIntakes] = useState<TrainingIntake[]>([]);
   const [favorites, setFavorites] = useState<Set<string>>(new Set());
   const [selectedJob, setSelectedJob] = useState<Job | null>(null);
   const [loading, setLoading] = useState(true);
@@ -58,14 +97,20 @@ export default function Dashboard() {
   // Filter state
   const [filters, setFilters] = useState<{
     specialties: SpecialtyType[];
+    healthRegions: HealthRegion[];
     hospitalGroups: HospitalGroup[];
     hospitals: string[];
+    locationTypes: LocationType[];
+    regions: CommunityHealthcareArea[];
     counties: string[];
     schemeTypes: SchemeType[];
   }>({
     specialties: [],
+    healthRegions: [],
     hospitalGroups: [],
     hospitals: [],
+    locationTypes: [],
+    regions: [],
     counties: [],
     schemeTypes: [],
   });
@@ -91,16 +136,20 @@ export default function Dashboard() {
   const loadData = async () => {
     try {
       setLoading(true);
-      const jobsData = await storageAPI.jobs.getActiveJobs();
+      const [jobsData, intakesData] = await Promise.all([
+        storageAPI.jobs.getActiveJobs(),
+        storageAPI.trainingIntakes.getOpenIntakes(),
+      ]);
       const favoritesData = storageAPI.favorites.getFavorites();
       setJobs(jobsData);
+      setIntakes(intakesData);
       setFavorites(new Set(favoritesData));
       if (jobsData.length > 0) {
         setSelectedJob(jobsData[0]);
       }
       // Compute deadline alerts
-      const alerts = checkDeadlines(jobsData);
-      const stats = getDeadlineStats(jobsData);
+      const alerts = sortAlerts([...checkDeadlines(jobsData), ...checkIntakeDeadlines(intakesData)]);
+      const stats = getDeadlineStats([...jobsData, ...intakesData]);
       setUrgentAlerts(alerts);
       setNotifCount(stats.critical + stats.warning);
     } catch (error) {
@@ -144,14 +193,32 @@ export default function Dashboard() {
   };
 
   const clearFilters = () => {
-    setFilters({ specialties: [], hospitalGroups: [], hospitals: [], counties: [], schemeTypes: [] });
+    setFilters({
+      specialties: [],
+      healthRegions: [],
+      hospitalGroups: [],
+      hospitals: [],
+      locationTypes: [],
+      regions: [],
+      counties: [],
+      schemeTypes: [],
+    });
   };
 
-  const uniqueSpecialties = Array.from(new Set(jobs.map(j => j.specialty)));
-  const uniqueHospitalGroups = Array.from(new Set(jobs.map(j => j.hospital_group)));
+  // Parents come first with their sub-specialties after; selecting a parent includes them
+  const uniqueSpecialties = specialtyFilterOptions(jobs.map(j => j.specialty));
+  const uniqueHealthRegions = Array.from(new Set(jobs.map(jobHealthRegion)))
+    .filter((r): r is HealthRegion => r !== undefined);
+  const uniqueHospitalGroups = Array.from(new Set(jobs.map(j => j.hospital_group)))
+    .filter((g): g is HospitalGroup => g !== null);
   const uniqueHospitals = Array.from(new Set(jobs.map(j => j.hospital_name))).sort();
+  const uniqueLocationTypes = Array.from(new Set(jobs.map(jobLocationType)))
+    .filter((t): t is LocationType => t !== undefined);
+  const uniqueRegions = Array.from(new Set(jobs.map(jobRegion)))
+    .filter((r): r is CommunityHealthcareArea => r !== undefined)
+    .sort();
   const uniqueCounties = Array.from(new Set(jobs.map(j => j.county))).sort();
-  const uniqueSchemeTypes = Array.from(new Set(jobs.map(j => j.scheme_type)));
+  const uniqueSchemeTypes = Array.from(new Set([...jobs, ...intakes].map(j => j.scheme_type)));
 
   const filteredJobs = jobs.filter(job => {
     if (searchQuery) {
@@ -163,17 +230,40 @@ export default function Dashboard() {
         job.clinical_lead?.toLowerCase().includes(q);
       if (!matches) return false;
     }
-    if (filters.specialties.length && !filters.specialties.includes(job.specialty)) return false;
-    if (filters.hospitalGroups.length && !filters.hospitalGroups.includes(job.hospital_group)) return false;
+    if (filters.specialties.length && !matchesSpecialties(job.specialty, filters.specialties)) return false;
+    const healthRegion = jobHealthRegion(job);
+    if (filters.healthRegions.length && !(healthRegion && filters.healthRegions.includes(healthRegion))) return false;
+    if (filters.hospitalGroups.length && !(job.hospital_group && filters.hospitalGroups.includes(job.hospital_group))) return false;
     if (filters.hospitals.length && !filters.hospitals.includes(job.hospital_name)) return false;
+    // Jobs at hospitals missing from the registry have no type or region, so these filters drop them
+    const type = jobLocationType(job);
+    if (filters.locationTypes.length && !(type && filters.locationTypes.includes(type))) return false;
+    const region = jobRegion(job);
+    if (filters.regions.length && !(region && filters.regions.includes(region))) return false;
     if (filters.counties.length && !filters.counties.includes(job.county)) return false;
     if (filters.schemeTypes.length && !filters.schemeTypes.includes(job.scheme_type)) return false;
     return true;
   });
 
+  // Intakes are national, so hospital, location, region, group and county filters don't apply
+  const filteredIntakes = intakes.filter(intake => {
+    if (searchQuery) {
+      const q = searchQuery.toLowerCase();
+      const matches =
+        intake.programme.toLowerCase().includes(q) ||
+        TRAINING_BODY_LABELS[intake.body].toLowerCase().includes(q) ||
+        SPECIALTY_LABELS[intake.specialty].toLowerCase().includes(q);
+      if (!matches) return false;
+    }
+    if (filters.specialties.length && !matchesSpecialties(intake.specialty, filters.specialties)) return false;
+    if (filters.schemeTypes.length && !filters.schemeTypes.includes(intake.scheme_type)) return false;
+    return true;
+  });
+
   const activeFilterCount =
-    filters.specialties.length + filters.hospitalGroups.length +
-    filters.hospitals.length + filters.counties.length + filters.schemeTypes.length;
+    filters.specialties.length + filters.healthRegions.length + filters.hospitalGroups.length +
+    filters.hospitals.length + filters.locationTypes.length + filters.regions.length +
+    filters.counties.length + filters.schemeTypes.length;
 
   // User initials for avatar
   const userInitials = user?.name
@@ -365,6 +455,9 @@ export default function Dashboard() {
             <div className="flex items-center justify-between">
               <span className="text-[11px] text-apple-secondary font-medium">
                 {filteredJobs.length} position{filteredJobs.length !== 1 ? 's' : ''}
+                {filteredIntakes.length > 0 && (
+                  <> · {filteredIntakes.length} training intake{filteredIntakes.length !== 1 ? 's' : ''}</>
+                )}
               </span>
               <button
                 onClick={() => setShowFilters(!showFilters)}
@@ -409,14 +502,28 @@ export default function Dashboard() {
                       {uniqueSpecialties.map(s => (
                         <FilterChip
                           key={s}
-                          label={SPECIALTY_LABELS[s]}
+                          label={uniqueSpecialties.some(c => parentSpecialty(c) === s && c !== s)
+                            ? `${SPECIALTY_LABELS[s]} (all)`
+                            : SPECIALTY_LABELS[s]}
                           active={filters.specialties.includes(s)}
                           onClick={() => toggleFilter('specialties', s)}
                         />
                       ))}
                     </FilterSection>
 
-                    {/* Hospital Group */}
+                    {/* Health Region */}
+                    <FilterSection label="Health Region">
+                      {uniqueHealthRegions.map(r => (
+                        <FilterChip
+                          key={r}
+                          label={HEALTH_REGION_LABELS[r]}
+                          active={filters.healthRegions.includes(r)}
+                          onClick={() => toggleFilter('healthRegions', r)}
+                        />
+                      ))}
+                    </FilterSection>
+
+                    {/* Hospital Group (legacy, older jobs are filed under these) */}
                     <FilterSection label="Hospital Group">
                       {uniqueHospitalGroups.map(g => (
                         <FilterChip
@@ -440,6 +547,30 @@ export default function Dashboard() {
                       ))}
                     </FilterSection>
 
+                    {/* Location Type */}
+                    <FilterSection label="Location Type">
+                      {uniqueLocationTypes.map(t => (
+                        <FilterChip
+                          key={t}
+                          label={LOCATION_TYPE_LABELS[t]}
+                          active={filters.locationTypes.includes(t)}
+                          onClick={() => toggleFilter('locationTypes', t)}
+                        />
+                      ))}
+                    </FilterSection>
+
+                    {/* Community Healthcare Organisation */}
+                    <FilterSection label="CHO Area">
+                      {uniqueRegions.map(r => (
+                        <FilterChip
+                          key={r}
+                          label={COMMUNITY_HEALTHCARE_AREA_LABELS[r]}
+                          active={filters.regions.includes(r)}
+                          onClick={() => toggleFilter('regions', r)}
+                        />
+                      ))}
+                    </FilterSection>
+
                     {/* County */}
                     <FilterSection label="County">
                       {uniqueCounties.map(c => (
@@ -475,7 +606,7 @@ export default function Dashboard() {
               <div className="flex items-center justify-center py-20">
                 <div className="animate-spin rounded-full h-7 w-7 border-2 border-slate-200 border-t-teal"></div>
               </div>
-            ) : filteredJobs.length === 0 ? (
+            ) : filteredJobs.length === 0 && filteredIntakes.length === 0 ? (
               <div className="px-6 py-20 text-center">
                 <Briefcase className="w-10 h-10 text-slate-200 mx-auto mb-3" />
                 <p className="text-sm font-medium text-slate-500">No jobs match your criteria</p>
@@ -483,6 +614,19 @@ export default function Dashboard() {
               </div>
             ) : (
               <div className="divide-y divide-slate-100/80">
+                {filteredIntakes.length > 0 && (
+                  <p className="px-4 pt-3 pb-1.5 text-[10px] font-semibold text-apple-secondary uppercase tracking-wider">
+                    Training scheme intakes
+                  </p>
+                )}
+                {filteredIntakes.map((intake, index) => (
+                  <IntakeCard key={intake.id} intake={intake} index={index} />
+                ))}
+                {filteredIntakes.length > 0 && filteredJobs.length > 0 && (
+                  <p className="px-4 pt-3 pb-1.5 text-[10px] font-semibold text-apple-secondary uppercase tracking-wider">
+                    Posts
+                  </p>
+                )}
                 {filteredJobs.map((job, index) => (
                   <JobCard
                     key={job.id}
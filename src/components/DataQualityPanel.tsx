@@ -2,8 +2,8 @@
 
 import { useEffect, useState } from 'react';
 import { BarChart3, AlertTriangle, MapPin, Building2, Stethoscope, RefreshCw } from 'lucide-react';
-import { supabaseJobsAPI } from '@/lib/supabase';
-import type { Job } from '@/types/database.types';
+import { supabaseJobsAPI, supabaseScrapingLogsAPI } from '@/lib/supabase';
+import type { Job, ScrapeAnomaly } from '@/types/database.types';
 
 const GENERIC_HOSPITAL_NAMES = [
   'HSE Facility',
@@ -53,6 +53,23 @@ function analyzeJobs(jobs: Job[]): QualityStats {
   };
 }
 
+/**
+ * Health anomalies flagged on the most recent scrape run
+ */
+async function loadLatestAnomalies(): Promise<ScrapeAnomaly[]> {
+  try {
+    const logs = await supabaseScrapingLogsAPI.getRecentLogs(20);
+    const latestRunId = logs[0]?.run_id;
+    if (!latestRunId) return [];
+    return logs
+      .filter(log => log.run_id === latestRunId)
+      .flatMap(log => log.anomalies || []);
+  } catch (err) {
+    console.error('Error loading scraper health:', (err as Error).message);
+    return [];
+  }
+}
+
 function sortedEntries(obj: Record<string, number>): [string, number][] {
   return Object.entries(obj).sort((a, b) => b[1] - a[1]);
 }
@@ -67,6 +84,7 @@ export default function DataQualityPanel() {
   const [stats, setStats] = useState<QualityStats | null>(null);
   const [loading, setLoading] = useState(true);
   const [error, setError] = useState<string | null>(null);
+  const [anomalies, setAnomalies] = useState<ScrapeAnomaly[]>([]);
 
   const loadData = async () => {
     setLoading(true);
@@ -74,6 +92,7 @@ export default function DataQualityPanel() {
     try {
       const jobs = await supabaseJobsAPI.getActiveJobs();
       setStats(analyzeJobs(jobs));
+      setAnomalies(await loadLatestAnomalies());
     } catch (err) {
       setError((err as Error).message);
     } finally {
@@ -162,6 +181,25 @@ export default function DataQualityPanel() {
         </div>
       </div>
 
+      {/* Scraper health anomalies from the latest run */}
+      {anomalies.length > 0 && (
+        <div className="mb-6 p-4 bg-red-50 border border-red-200 rounded-lg">
+          <div className="flex items-center gap-2 mb-2">
+            <AlertTriangle className="w-5 h-5 text-red-600" />
+            <h3 className="font-semibold text-red-900">
+              Latest scrape flagged {anomalies.length} health anomal{anomalies.length !== 1 ? 'ies' : 'y'}
+            </h3>
+          </div>
+          <ul className="text-sm space-y-1">
+            {anomalies.map((anomaly, i) => (
+              <li key={i} className={anomaly.severity === 'critical' ? 'text-red-700' : 'text-amber-700'}>
+                • <span className="font-medium">{anomaly.source}</span>: {anomaly.message}
+              </li>
+            ))}
+          </ul>
+        </div>
+      )}
+
       {/* Generic hospital warning */}
       {stats.genericHospital > 0 && (
         <div className="mb-6 p-4 bg-amber-50 border border-amber-200 rounded-lg">
@@ -3,7 +3,7 @@
 import { useEffect, useRef } from 'react';
 import { Bell, X } from 'lucide-react';
 import type { DeadlineAlert } from '@/lib/deadlineNotifications';
-import { sendBrowserNotification } from '@/lib/deadlineNotifications';
+import { alertDetails, formatClosingTime, sendBrowserNotification } from '@/lib/deadlineNotifications';
 import type { Job } from '@/types/database.types';
 
 interface DeadlineNotifPanelProps {
@@ -77,7 +77,7 @@ export default function DeadlineNotifPanel({ alerts, onClose, onJobSelect }: Dea
                   Closing soon ({'< 48h'})
                 </p>
                 {criticalAlerts.map(alert => (
-                  <AlertRow key={alert.job.id} alert={alert} onJobSelect={onJobSelect} onClose={onClose} />
+                  <AlertRow key={alertDetails(alert).id} alert={alert} onJobSelect={onJobSelect} onClose={onClose} />
                 ))}
               </div>
             )}
@@ -85,7 +85,7 @@ export default function DeadlineNotifPanel({ alerts, onClose, onJobSelect }: Dea
               <div className="px-4 py-2">
                 <p className="text-[10px] font-semibold text-amber-600 uppercase tracking-wider mb-1.5">This week</p>
                 {warningAlerts.map(alert => (
-                  <AlertRow key={alert.job.id} alert={alert} onJobSelect={onJobSelect} onClose={onClose} />
+                  <AlertRow key={alertDetails(alert).id} alert={alert} onJobSelect={onJobSelect} onClose={onClose} />
                 ))}
               </div>
             )}
@@ -117,16 +117,30 @@ function AlertRow({
 }) {
   const isCritical = alert.urgency === 'critical';
   const timeText = formatTimeRemaining(alert.hoursRemaining);
+  const details = alertDetails(alert);
+
+  const handleClick = () => {
+    if (alert.job) {
+      onJobSelect(alert.job);
+    } else if (details.application_url) {
+      // Intakes aren't in the job list; their application page is the detail
+      window.open(details.application_url, '_blank', 'noopener,noreferrer');
+    }
+    onClose();
+  };
 
   return (
     <button
-      onClick={() => { onJobSelect(alert.job); onClose(); }}
+      onClick={handleClick}
       className="w-full text-left py-2 hover:bg-slate-50 rounded-lg transition-colors px-1"
     >
       <div className="flex items-start justify-between gap-2">
         <div className="flex-1 min-w-0">
-          <p className="text-[12px] font-semibold text-apple-black truncate">{alert.job.title}</p>
-          <p className="text-[11px] text-apple-secondary truncate">{alert.job.hospital_name}</p>
+          <p className="text-[12px] font-semibold text-apple-black truncate">{details.title}</p>
+          <p className="text-[11px] text-apple-secondary truncate">
+            {alert.intake ? `${details.offeredBy} training intake` : details.offeredBy}
+          </p>
+          <p className="text-[11px] text-apple-secondary truncate">Closes {formatClosingTime(details)}</p>
         </div>
         <span className={`shrink-0 px-2 py-0.5 text-[10px] font-bold rounded-full ${
           isCritical ? 'bg-red-100 text-red-600' : 'bg-amber-100 text-amber-700'
@@ -1,6 +1,6 @@
 'use client';
 
-import { useState } from 'react';
+import { useEffect, useState } from 'react';
 import { differenceInHours, differenceInDays, format } from 'date-fns';
 import { motion, AnimatePresence } from 'framer-motion';
 import {
@@ -18,17 +18,25 @@ import {
   TrendingUp,
   Timer,
   GraduationCap,
+  History,
+  Phone,
+  Euro,
 } from 'lucide-react';
-import type { Job, MatchRating } from '@/types/database.types';
+import type { EstimatedField, Job, JobRevision, MatchRating } from '@/types/database.types';
 import {
   SPECIALTY_LABELS,
   GRADE_LABELS,
   SCHEME_TYPE_LABELS,
   HOSPITAL_GROUP_LABELS,
+  HEALTH_REGION_LABELS,
   MATCH_RATING_CONFIG,
+  LISTING_PLATFORM_LABELS,
 } from '@/types/database.types';
 import { calculateMatchRating, getHospitalTier } from '@/lib/matchProbability';
 import { generateEmailFromJob, hasContactInfo } from '@/lib/emailTemplates';
+import { describeRevisions } from '@/lib/jobRevisions';
+import { formatClosingTime } from '@/lib/deadlineNotifications';
+import { storageAPI } from '@/lib/localStorage';
 
 interface DetailViewProps {
   job: Job;
@@ -56,6 +64,19 @@ export default function DetailView({
   onFavoriteToggle,
 }: DetailViewProps) {
   const [activeTab, setActiveTab] = useState<TabId>('overview');
+  const [revisions, setRevisions] = useState<{ jobId: string; items: JobRevision[] } | null>(null);
+
+  useEffect(() => {
+    let cancelled = false;
+    storageAPI.jobs.getJobRevisions(job.id).then(items => {
+      if (!cancelled) setRevisions({ jobId: job.id, items });
+    });
+    return () => {
+      cancelled = true;
+    };
+  }, [job.id]);
+
+  const changeHistory = revisions?.jobId === job.id ? describeRevisions(revisions.items) : [];
 
   const hospitalTier = job.historical_centile_tier || getHospitalTier(job.hospital_name);
   const matchRating: MatchRating | undefined =
@@ -96,7 +117,12 @@ export default function DetailView({
               <div className="flex items-center gap-1.5 mt-0.5">
                 <MapPin className="w-3 h-3 text-apple-secondary flex-shrink-0" />
                 <span className="text-[12px] text-apple-secondary truncate">
-                  {job.county} · {HOSPITAL_GROUP_LABELS[job.hospital_group]}
+                  {[
+                    job.county,
+                    job.health_region
+                      ? HEALTH_REGION_LABELS[job.health_region]
+                      : job.hospital_group && HOSPITAL_GROUP_LABELS[job.hospital_group],
+                  ].filter(Boolean).join(' · ')}
                 </span>
               </div>
             </div>
@@ -193,6 +219,7 @@ export default function DetailView({
                 matchRating={matchRating}
                 userCentile={userCentile}
                 hospitalTier={hospitalTier}
+                changeHistory={changeHistory}
               />
             )}
             {activeTab === 'team' && <TeamTab job={job} />}
@@ -253,6 +280,7 @@ function OverviewTab({
   matchRating,
   userCentile,
   hospitalTier,
+  changeHistory,
 }: {
   job: Job;
   hoursUntilDeadline: number;
@@ -261,6 +289,7 @@ function OverviewTab({
   matchRating?: MatchRating;
   userCentile?: number;
   hospitalTier?: string | null;
+  changeHistory: { scraped_at: string; summary: string }[];
 }) {
   return (
     <div className="p-6 space-y-5">
@@ -278,7 +307,7 @@ function OverviewTab({
               hoursUntilDeadline <= 48 ? 'text-red-500' : hoursUntilDeadline <= 168 ? 'text-amber-500' : 'text-teal'
             }`} />
             <span className="text-[13px] font-semibold text-apple-black">
-              Closes {format(new Date(job.application_deadline), 'MMM d, yyyy')}
+              Closes {formatClosingTime(job)}
             </span>
           </div>
           <span className={`text-[12px] font-semibold ${
@@ -301,30 +330,72 @@ function OverviewTab({
         </div>
       </div>
 
+      {/* What Changed */}
+      {changeHistory.length > 0 && (
+        <div>
+          <h3 className="text-[12px] font-semibold text-apple-secondary uppercase tracking-wider mb-2">What Changed</h3>
+          <div className="p-3.5 bg-apple-gray/60 rounded-xl space-y-2">
+            {changeHistory.map((change, i) => (
+              <div key={i} className="flex items-start gap-2">
+                <History className="w-3.5 h-3.5 text-apple-secondary mt-0.5 flex-shrink-0" />
+                <span className="text-[13px] text-slate-600 flex-1">{change.summary}</span>
+                <span className="text-[11px] text-apple-secondary whitespace-nowrap">
+                  {format(new Date(change.scraped_at), 'd MMM')}
+                </span>
+              </div>
+            ))}
+          </div>
+        </div>
+      )}
+
       {/* Details Grid */}
       <div className="grid grid-cols-2 gap-3">
         <DetailCell
           icon={<Calendar className="w-3.5 h-3.5" />}
           label="Start Date"
           value={format(new Date(job.start_date), 'MMM d, yyyy')}
+          estimated={isEstimated(job, 'start_date')}
         />
         {job.duration_months && (
           <DetailCell
             icon={<Timer className="w-3.5 h-3.5" />}
             label="Duration"
             value={`${job.duration_months} months`}
+            estimated={isEstimated(job, 'duration_months')}
           />
         )}
         <DetailCell
           icon={<Briefcase className="w-3.5 h-3.5" />}
           label="Contract"
           value={job.contract_type || (job.scheme_type.includes('TRAINING') ? 'Training' : 'Service')}
+          estimated={!job.contract_type || isEstimated(job, 'contract_type')}
         />
+        {job.hours_per_week != null && (
+          <DetailCell
+            icon={<Clock className="w-3.5 h-3.5" />}
+            label="Hours"
+            value={`${job.hours_per_week} hrs/week`}
+          />
+        )}
+        {job.on_call != null && (
+          <DetailCell
+            icon={<Phone className="w-3.5 h-3.5" />}
+            label="On-Call"
+            value={job.on_call ? job.on_call_frequency || 'Yes' : 'None'}
+          />
+        )}
         <DetailCell
           icon={<Building2 className="w-3.5 h-3.5" />}
           label="Source"
           value={job.source}
         />
+        {job.reference_number && (
+          <DetailCell
+            icon={<FileText className="w-3.5 h-3.5" />}
+            label="Reference"
+            value={job.reference_number}
+          />
+        )}
       </div>
 
       {/* Rotation Details */}
@@ -339,16 +410,28 @@ function OverviewTab({
 
       {/* Pay Scale */}
       <div>
-        <h3 className="text-[12px] font-semibold text-apple-secondary uppercase tracking-wider mb-2">Pay Scale (HSE)</h3>
+        <h3 className="text-[12px] font-semibold text-apple-secondary uppercase tracking-wider mb-2">
+          {job.salary_range ? 'Salary' : 'Pay Scale (HSE)'}
+        </h3>
         <div className="p-3.5 bg-apple-gray/60 rounded-xl">
-          <div className="flex items-center gap-2">
-            <GraduationCap className="w-4 h-4 text-apple-secondary" />
-            <span className="text-[13px] text-slate-600">
-              {job.grade === 'SHO' && '€46,895 – €60,810 (point 1-7)'}
-              {job.grade === 'REGISTRAR' && '€55,518 – €75,735 (point 1-7)'}
-              {job.grade === 'SPECIALIST_REGISTRAR' && '€60,810 – €84,973 (point 1-8)'}
-            </span>
-          </div>
+          {job.salary_range ? (
+            <div className="flex items-center gap-2">
+              <Euro className="w-4 h-4 text-apple-secondary" />
+              <span className="text-[13px] text-slate-600">{job.salary_range}</span>
+            </div>
+          ) : (
+            <>
+              <div className="flex items-center gap-2">
+                <GraduationCap className="w-4 h-4 text-apple-secondary" />
+                <span className="text-[13px] text-slate-600">
+                  {job.grade === 'SHO' && '€46,895 – €60,810 (point 1-7)'}
+                  {job.grade === 'REGISTRAR' && '€55,518 – €75,735 (point 1-7)'}
+                  {job.grade === 'SPECIALIST_REGISTRAR' && '€60,810 – €84,973 (point 1-8)'}
+                </span>
+              </div>
+              <p className="text-[11px] text-apple-secondary mt-1.5">Typical scale for the grade — not stated in the posting</p>
+            </>
+          )}
         </div>
       </div>
 
@@ -387,7 +470,7 @@ function OverviewTab({
 /* ─── Team Tab ─── */
 
 function TeamTab({ job }: { job: Job }) {
-  if (!job.clinical_lead && !job.informal_enquiries_name) {
+  if (!job.clinical_lead && !job.informal_enquiries_name && !job.informal_enquiries_email) {
     return (
       <div className="text-center py-16 px-6">
         <div className="w-14 h-14 rounded-2xl bg-apple-gray flex items-center justify-center mx-auto mb-3">
@@ -415,15 +498,17 @@ function TeamTab({ job }: { job: Job }) {
         </div>
       )}
 
-      {job.informal_enquiries_name && (
+      {(job.informal_enquiries_name || job.informal_enquiries_email) && (
         <div className="p-4 bg-apple-gray/50 rounded-2xl border border-slate-200/40">
           <div className="flex items-center gap-3">
             <div className="w-10 h-10 rounded-xl bg-scheme-training/8 flex items-center justify-center flex-shrink-0">
               <Mail className="w-4.5 h-4.5 text-scheme-training" />
             </div>
             <div>
-              <p className="text-[14px] font-semibold text-apple-black">{job.informal_enquiries_name}</p>
-              <p className="text-[11px] text-apple-secondary font-medium">Contact for Informal Enquiries</p>
+              <p className="text-[14px] font-semibold text-apple-black">{job.informal_enquiries_name || 'Informal Enquiries'}</p>
+              {job.informal_enquiries_name && (
+                <p className="text-[11px] text-apple-secondary font-medium">Contact for Informal Enquiries</p>
+              )}
               {job.informal_enquiries_email && (
                 <a
                   href={`mailto:${job.informal_enquiries_email}`}
@@ -478,6 +563,30 @@ function ApplicationTab({ job }: { job: Job }) {
         </div>
       </div>
 
+      {/* Also Listed On */}
+      {job.listings && job.listings.length > 1 && (
+        <div>
+          <h3 className="text-[12px] font-semibold text-apple-secondary uppercase tracking-wider mb-3">Also Listed On</h3>
+          <div className="space-y-2">
+            {job.listings.slice(1).map((listing) => (
+              <a
+                key={listing.url}
+                href={listing.application_url || listing.url}
+                target="_blank"
+                rel="noopener noreferrer"
+                className="flex items-center gap-2.5 p-3 bg-apple-gray/50 rounded-xl hover:bg-apple-gray transition-colors"
+              >
+                <ExternalLink className="w-3.5 h-3.5 text-apple-secondary flex-shrink-0" />
+                <div className="min-w-0">
+                  <p className="text-[13px] text-teal font-medium">{LISTING_PLATFORM_LABELS[listing.platform] || listing.platform}</p>
+                  <p className="text-[11px] text-apple-secondary truncate">{listing.title}</p>
+                </div>
+              </a>
+            ))}
+          </div>
+        </div>
+      )}
+
       {/* Contact Details */}
       {(job.informal_enquiries_email || job.medical_manpower_email) && (
         <div>
@@ -514,14 +623,35 @@ function ApplicationTab({ job }: { job: Job }) {
 
 /* ─── Detail Cell ─── */
 
-function DetailCell({ icon, label, value }: { icon: React.ReactNode; label: string; value: string }) {
+function DetailCell({
+  icon,
+  label,
+  value,
+  estimated = false,
+}: {
+  icon: React.ReactNode;
+  label: string;
+  value: string;
+  estimated?: boolean; // Value is a default, not stated in the posting or spec
+}) {
   return (
     <div className="p-3 rounded-xl bg-apple-gray/50 border border-slate-200/30">
       <div className="flex items-center gap-1.5 mb-1">
         <span className="text-apple-secondary">{icon}</span>
         <p className="text-[10px] font-semibold text-apple-secondary uppercase tracking-wider">{label}</p>
       </div>
-      <p className="text-[13px] font-medium text-apple-black">{value}</p>
+      <p className="text-[13px] font-medium text-apple-black">
+        {value}
+        {estimated && (
+          <span className="ml-1.5 text-[10px] font-medium text-apple-secondary" title="Not stated in the posting — usual for this kind of post">
+            Estimated
+          </span>
+        )}
+      </p>
     </div>
   );
 }
+
+function isEstimated(job: Job, field: EstimatedField): boolean {
+  return job.estimated_fields?.includes(field) ?? false;
+}
@@ -0,0 +1,128 @@
+'use client';
+
+import { differenceInHours, format } from 'date-fns';
+import { CalendarDays, Clock, ExternalLink, GraduationCap } from 'lucide-react';
+import { motion } from 'framer-motion';
+import type { TrainingIntake } from '@/types/database.types';
+import {
+  SCHEME_TYPE_LABELS,
+  SPECIALTY_LABELS,
+  TRAINING_BODY_LABELS,
+} from '@/types/database.types';
+
+interface IntakeCardProps {
+  intake: TrainingIntake;
+  index?: number;
+}
+
+/** "3–5 Feb", "28 Jan – 2 Feb" or "3 Feb" */
+function formatInterviewWindow(start?: string | null, end?: string | null): string | null {
+  if (!start) return null;
+  const from = new Date(`${start}T12:00:00`);
+  if (!end || end === start) return format(from, 'd MMM');
+  const to = new Date(`${end}T12:00:00`);
+  return from.getMonth() === to.getMonth()
+    ? `${format(from, 'd')}–${format(to, 'd MMM')}`
+    : `${format(from, 'd MMM')} – ${format(to, 'd MMM')}`;
+}
+
+export default function IntakeCard({ intake, index = 0 }: IntakeCardProps) {
+  const now = new Date();
+  const opensAt = intake.opens_at ? new Date(intake.opens_at) : null;
+  const hoursUntilDeadline = differenceInHours(new Date(intake.application_deadline), now);
+  const interviews = formatInterviewWindow(intake.interview_start, intake.interview_end);
+
+  return (
+    <motion.div
+      initial={{ opacity: 0, y: 6 }}
+      animate={{ opacity: 1, y: 0 }}
+      transition={{ duration: 0.3, delay: Math.min(index * 0.03, 0.6), ease: [0.25, 0.1, 0.25, 1] }}
+      className="relative px-4 py-3.5 border-l-[3px] border-l-transparent hover:bg-slate-50/80 transition-all duration-200 ease-out"
+    >
+      {/* Top: Training body + intake year */}
+      <div className="flex items-center justify-between mb-1.5">
+        <div className="flex items-center gap-2 min-w-0">
+          <div className="w-7 h-7 rounded-lg bg-teal/10 flex items-center justify-center flex-shrink-0">
+            <GraduationCap className="w-3.5 h-3.5 text-teal" />
+          </div>
+          <p className="text-[13px] font-semibold text-apple-black truncate">
+            {TRAINING_BODY_LABELS[intake.body]}
+          </p>
+        </div>
+        <span className="text-[11px] text-apple-secondary flex-shrink-0 ml-2">
+          {intake.intake_year} intake
+        </span>
+      </div>
+
+      {/* Programme */}
+      <h3 className="text-sm text-slate-600 leading-snug line-clamp-2 mb-2 pl-9">
+        {intake.programme}
+      </h3>
+
+      {/* Badges */}
+      <div className="flex items-center gap-1.5 flex-wrap pl-9 mb-2">
+        <span className="inline-flex items-center px-2 py-[3px] text-[10px] font-semibold bg-teal text-white rounded-full tracking-wide">
+          {SCHEME_TYPE_LABELS[intake.scheme_type]}
+        </span>
+
+        <span className="inline-flex items-center px-2 py-[3px] text-[10px] font-medium bg-badge-specialty/10 text-badge-specialty rounded-full">
+          {SPECIALTY_LABELS[intake.specialty]}
+        </span>
+
+        {intake.posts_available != null && (
+          <span className="inline-flex items-center px-2 py-[3px] text-[10px] font-medium bg-slate-100 text-slate-600 rounded-full">
+            {intake.posts_available} post{intake.posts_available !== 1 ? 's' : ''}
+          </span>
+        )}
+      </div>
+
+      {intake.eligibility && (
+        <p className="text-[11px] text-apple-secondary pl-9 mb-2 line-clamp-2" title={intake.eligibility}>
+          {intake.eligibility}
+        </p>
+      )}
+
+      {/* Footer: Interviews + Window */}
+      <div className="flex items-center justify-between pl-9">
+        <div className="flex items-center gap-1 text-[11px] text-apple-secondary">
+          {interviews && (
+            <>
+              <CalendarDays className="w-3 h-3" />
+              <span>Interviews {interviews}</span>
+            </>
+          )}
+        </div>
+
+        <div className="flex items-center gap-2 text-[11px] text-apple-secondary">
+          <span className="flex items-center gap-1">
+            <Clock className="w-3 h-3" />
+            {opensAt && opensAt > now ? (
+              <span>Opens {format(opensAt, 'MMM d')}</span>
+            ) : (
+              <span>
+                Closes {format(new Date(intake.application_deadline), 'MMM d')}
+                {hoursUntilDeadline <= 72 && hoursUntilDeadline > 0 && (
+                  <span className={`ml-0.5 font-semibold ${
+                    hoursUntilDeadline <= 48 ? 'text-deadline-critical' : 'text-deadline-warning'
+                  }`}>
+                    ({Math.floor(hoursUntilDeadline)}h)
+                  </span>
+                )}
+              </span>
+            )}
+          </span>
+          {intake.application_url && (
+            <a
+              href={intake.application_url}
+              target="_blank"
+              rel="noopener noreferrer"
+              className="inline-flex items-center gap-0.5 font-semibold text-teal hover:underline"
+            >
+              Apply <ExternalLink className="w-2.5 h-2.5" />
+            </a>
+          )}
+        </div>
+      </div>
+    </motion.div>
+  );
+}
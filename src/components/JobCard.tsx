@@ -8,6 +8,7 @@ import {
   SPECIALTY_LABELS,
   GRADE_LABELS,
   MATCH_RATING_CONFIG,
+  LISTING_PLATFORM_LABELS,
 } from '@/types/database.types';
 import { calculateMatchRating, getHospitalTier } from '@/lib/matchProbability';
 import { hasContactInfo } from '@/lib/emailTemplates';
@@ -41,6 +42,9 @@ export default function JobCard({
   // Hospital initial for avatar
   const hospitalInitial = job.hospital_name.charAt(0).toUpperCase();
 
+  // Other platforms carrying the same posting (entity-resolved by the scraper)
+  const alsoListedOn = (job.listings || []).slice(1).map(l => LISTING_PLATFORM_LABELS[l.platform] || l.platform);
+
   return (
     <motion.div
       initial={{ opacity: 0, y: 6 }}
@@ -107,6 +111,12 @@ export default function JobCard({
         )}
       </div>
 
+      {alsoListedOn.length > 0 && (
+        <p className="text-[11px] text-apple-secondary pl-9 mb-2 truncate">
+          Also listed on {alsoListedOn.join(', ')}
+        </p>
+      )}
+
       {/* Footer: County + Deadline */}
       <div className="flex items-center justify-between pl-9">
         <div className="flex items-center gap-1 text-[11px] text-apple-secondary">
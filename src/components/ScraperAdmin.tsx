@@ -1,24 +1,108 @@
 'use client';
 
-import { useState } from 'react';
-import { Play, RefreshCw, CheckCircle, XCircle, Clock, Database } from 'lucide-react';
+import { useEffect, useState } from 'react';
+import { format } from 'date-fns';
+import { Play, RefreshCw, CheckCircle, XCircle, Clock, Database, History, AlertTriangle, Camera, ListChecks } from 'lucide-react';
+import { supabaseScrapingLogsAPI } from '@/lib/supabase';
+import { summarizeProgress, type QueueProgress } from '@/lib/scrapers/task-queue';
+import type { ScrapeAnomaly, ScrapingLog } from '@/types/database.types';
 
 interface ScrapeResult {
+  run_id?: string;
+  status?: ScrapingLog['status'];
+  deadline_reached?: boolean;
   total_jobs_scraped: number;
   total_jobs_saved: number;
   duplicates_removed: number;
   scrapers_run: string[];
   errors: string[];
+  anomalies?: ScrapeAnomaly[];
   scrape_started_at: string;
   scrape_completed_at: string;
   duration_seconds: number;
 }
 
+interface RunSummary {
+  runId: string;
+  startedAt: string;
+  durationSeconds: number;
+  status: ScrapingLog['status'];
+  sources: ScrapingLog[];
+}
+
+/**
+ * Group per-scraper log rows into runs (legacy rows without a run id stand alone)
+ */
+function groupRuns(logs: ScrapingLog[]): RunSummary[] {
+  const runs = new Map<string, ScrapingLog[]>();
+  for (const log of logs) {
+    const key = log.run_id || log.id;
+    runs.set(key, [...(runs.get(key) || []), log]);
+  }
+
+  return Array.from(runs.entries()).map(([runId, sources]) => {
+    const starts = sources.map(s => new Date(s.started_at).getTime());
+    const ends = sources.map(s => new Date(s.completed_at || s.started_at).getTime());
+    const failures = sources.filter(s => s.status === 'FAILURE').length;
+
+    return {
+      runId,
+      startedAt: new Date(Math.min(...starts)).toISOString(),
+      durationSeconds: Math.round((Math.max(...ends) - Math.min(...starts)) / 1000),
+      status: failures === sources.length
+        ? 'FAILURE'
+        : failures > 0 || sources.some(s => s.status === 'PARTIAL') ? 'PARTIAL' : 'SUCCESS',
+      sources: [...sources].sort((a, b) => a.started_at.localeCompare(b.started_at)),
+    };
+  });
+}
+
+const STATUS_STYLES: Record<ScrapingLog['status'], string> = {
+  SUCCESS: 'bg-green-100 text-green-700',
+  PARTIAL: 'bg-amber-100 text-amber-700',
+  FAILURE: 'bg-red-100 text-red-700',
+};
+
 export default function ScraperAdmin() {
   const [isScraping, setIsScraping] = useState(false);
   const [result, setResult] = useState<ScrapeResult | null>(null);
   const [error, setError] = useState<string | null>(null);
   const [selectedScraper, setSelectedScraper] = useState<string>('all');
+  const [runs, setRuns] = useState<RunSummary[]>([]);
+  const [historyError, setHistoryError] = useState<string | null>(null);
+  const [queue, setQueue] = useState<QueueProgress | null>(null);
+
+  const loadHistory = async () => {
+    setHistoryError(null);
+    try {
+      const logs = await supabaseScrapingLogsAPI.getRecentLogs(100);
+      setRuns(groupRuns(logs));
+    } catch (err) {
+      setHistoryError((err as Error).message);
+    }
+  };
+
+  const loadQueue = async () => {
+    try {
+      const latest = await supabaseScrapingLogsAPI.getLatestQueuedRun();
+      setQueue(latest ? summarizeProgress(latest.run, latest.tasks) : null);
+    } catch (err) {
+      console.error('Error loading queued run:', err);
+    }
+  };
+
+  useEffect(() => {
+    loadHistory();
+    loadQueue();
+  }, []);
+
+  const openCapture = async (path: string) => {
+    try {
+      window.open(await supabaseScrapingLogsAPI.getCaptureUrl(path), '_blank', 'noopener,noreferrer');
+    } catch (err) {
+      setHistoryError(`Couldn't open capture: ${(err as Error).message}`);
+    }
+  };
 
   const availableScrapers = [
     { id: 'all', name: 'All Scrapers', description: 'Run all available scrapers' },
@@ -45,7 +129,10 @@ export default function ScraperAdmin() {
       const data = await response.json();
 
       if (data.success) {
+        // A queued run is only saved by the call that finishes its last task
         setResult(data.data);
+        if (data.queue) setQueue(data.queue);
+        loadHistory();
       } else {
         setError(data.message || 'Scraping failed');
       }
@@ -122,8 +209,15 @@ export default function ScraperAdmin() {
         <div className="mt-6 p-4 bg-green-50 border border-green-200 rounded-lg">
           <div className="flex items-center gap-2 mb-3">
             <CheckCircle className="w-5 h-5 text-green-600" />
-            <h3 className="font-semibold text-green-900">Scraping Completed Successfully!</h3>
+            <h3 className="font-semibold text-green-900">
+              {result.status === 'PARTIAL' ? 'Scraping Partially Completed' : 'Scraping Completed Successfully!'}
+            </h3>
           </div>
+          {result.deadline_reached && (
+            <p className="text-sm text-amber-700">
+              The run hit its time budget — jobs collected before the deadline were saved.
+            </p>
+          )}
 
           <div className="grid grid-cols-2 gap-4 mt-4">
             <div className="bg-white p-3 rounded-lg border border-green-200">
@@ -164,6 +258,20 @@ export default function ScraperAdmin() {
             </div>
           </div>
 
+          {result.anomalies && result.anomalies.length > 0 && (
+            <div className="mt-4 p-3 bg-red-50 border border-red-200 rounded-lg">
+              <p className="text-sm font-medium text-red-800 mb-2 flex items-center gap-1">
+                <AlertTriangle className="w-4 h-4" />
+                Health Anomalies:
+              </p>
+              <ul className="text-sm text-red-700 space-y-1">
+                {result.anomalies.map((anomaly, idx) => (
+                  <li key={idx}>• [{anomaly.severity}] {anomaly.message}</li>
+                ))}
+              </ul>
+            </div>
+          )}
+
           {result.errors.length > 0 && (
             <div className="mt-4 p-3 bg-amber-50 border border-amber-200 rounded-lg">
               <p className="text-sm font-medium text-amber-800 mb-2">Warnings:</p>
@@ -188,6 +296,168 @@ export default function ScraperAdmin() {
         </div>
       )}
 
+      {/* Queued Run */}
+      {queue && (
+        <div className="mt-6">
+          <div className="flex items-center justify-between mb-3">
+            <h3 className="font-semibold text-slate-900 flex items-center gap-2">
+              <ListChecks className="w-5 h-5 text-slate-500" />
+              Queued Run
+            </h3>
+            <button
+              onClick={loadQueue}
+              className="p-2 hover:bg-slate-100 rounded-lg transition-colors"
+              title="Refresh"
+            >
+              <RefreshCw className="w-4 h-4 text-slate-500" />
+            </button>
+          </div>
+          <div className="p-4 border border-slate-200 rounded-lg">
+            <div className="flex items-center justify-between text-sm mb-2">
+              <span className="text-slate-800">
+                <span className="font-medium">{format(new Date(queue.run.created_at), 'MMM d, yyyy HH:mm')}</span>
+                <span className={`ml-2 px-2 py-0.5 text-xs rounded-full ${
+                  queue.run.status === 'COMPLETE' ? 'bg-green-100 text-green-700' : 'bg-blue-100 text-blue-700'
+                }`}>
+                  {queue.run.status === 'COMPLETE' ? 'Saved' : 'In progress'}
+                </span>
+              </span>
+              <span className="text-slate-500">
+                {queue.done + queue.failed} of {queue.total} tasks · {queue.jobs} jobs
+              </span>
+            </div>
+            <div className="h-2 bg-slate-100 rounded-full overflow-hidden flex">
+              <div className="bg-green-500" style={{ width: `${(100 * queue.done) / Math.max(queue.total, 1)}%` }} />
+              <div className="bg-red-400" style={{ width: `${(100 * queue.failed) / Math.max(queue.total, 1)}%` }} />
+              <div className="bg-blue-400 animate-pulse" style={{ width: `${(100 * queue.running) / Math.max(queue.total, 1)}%` }} />
+            </div>
+            {queue.run.status === 'RUNNING' && (
+              <p className="text-xs text-slate-500 mt-2">
+                {queue.pending} pending, {queue.running} running — the next cron run or Start Scraping picks up where this left off.
+              </p>
+            )}
+            <div className="mt-3 grid grid-cols-2 sm:grid-cols-3 gap-2">
+              {queue.scrapers.map((s) => (
+                <div key={s.scraper} className="text-xs px-2 py-1.5 bg-slate-50 rounded border border-slate-100">
+                  <span className="font-medium text-slate-800">{s.scraper}</span>
+                  <span className="text-slate-500"> {s.done + s.failed}/{s.total} · {s.jobs} jobs</span>
+                  {s.failed > 0 && <span className="text-red-600"> · {s.failed} failed</span>}
+                </div>
+              ))}
+            </div>
+          </div>
+        </div>
+      )}
+
+      {/* Run History */}
+      <div className="mt-6">
+        <div className="flex items-center justify-between mb-3">
+          <h3 className="font-semibold text-slate-900 flex items-center gap-2">
+            <History className="w-5 h-5 text-slate-500" />
+            Run History
+          </h3>
+          <button
+            onClick={loadHistory}
+            className="p-2 hover:bg-slate-100 rounded-lg transition-colors"
+            title="Refresh"
+          >
+            <RefreshCw className="w-4 h-4 text-slate-500" />
+          </button>
+        </div>
+
+        {historyError ? (
+          <p className="text-sm text-red-600">Failed to load run history: {historyError}</p>
+        ) : runs.length === 0 ? (
+          <p className="text-sm text-slate-500">No scraping runs logged yet.</p>
+        ) : (
+          <div className="overflow-x-auto border border-slate-200 rounded-lg">
+            <table className="w-full text-sm">
+              <thead className="bg-slate-50 text-slate-600">
+                <tr>
+                  <th className="text-left font-medium px-3 py-2">Source</th>
+                  <th className="text-left font-medium px-3 py-2">Status</th>
+                  <th className="text-right font-medium px-3 py-2">Pages</th>
+                  <th className="text-right font-medium px-3 py-2">Found</th>
+                  <th className="text-right font-medium px-3 py-2">New</th>
+                  <th className="text-right font-medium px-3 py-2">Updated</th>
+                  <th className="text-right font-medium px-3 py-2">Deactivated</th>
+                  <th className="text-right font-medium px-3 py-2">Time</th>
+                </tr>
+              </thead>
+              {runs.map((run) => (
+                <tbody key={run.runId} className="border-t border-slate-200">
+                  <tr className="bg-slate-50/60">
+                    <td colSpan={8} className="px-3 py-2">
+                      <div className="flex items-center gap-2">
+                        <span className="font-medium text-slate-800">
+                          {format(new Date(run.startedAt), 'MMM d, yyyy HH:mm')}
+                        </span>
+                        <span className={`px-2 py-0.5 text-xs rounded-full ${STATUS_STYLES[run.status]}`}>
+                          {run.status}
+                        </span>
+                        <span className="text-xs text-slate-500">{run.durationSeconds}s</span>
+                      </div>
+                    </td>
+                  </tr>
+                  {run.sources.map((log) => (
+                    <tr key={log.id} className="border-t border-slate-100 align-top">
+                      <td className="px-3 py-2 text-slate-800">
+                        {log.source}
+                        {log.error_message && (
+                          <p className="text-xs text-red-600 mt-0.5 max-w-xs break-words">{log.error_message}</p>
+                        )}
+                        {log.anomalies?.map((anomaly, idx) => (
+                          <p
+                            key={idx}
+                            className={`text-xs mt-0.5 max-w-xs break-words flex items-start gap-1 ${
+                              anomaly.severity === 'critical' ? 'text-red-600' : 'text-amber-600'
+                            }`}
+                          >
+                            <AlertTriangle className="w-3 h-3 mt-0.5 flex-shrink-0" />
+                            {anomaly.message}
+                          </p>
+                        ))}
+                        {log.captures?.map((capture, idx) => (
+                          <p key={idx} className="text-xs text-slate-600 mt-0.5 max-w-xs break-words flex items-start gap-1">
+                            <Camera className="w-3 h-3 mt-0.5 flex-shrink-0" />
+                            <span>
+                              {capture.reason}
+                              {capture.screenshot_path && (
+                                <button onClick={() => openCapture(capture.screenshot_path!)} className="ml-1 text-linkedin-blue hover:underline">
+                                  Screenshot
+                                </button>
+                              )}
+                              {capture.html_path && (
+                                <button onClick={() => openCapture(capture.html_path!)} className="ml-1 text-linkedin-blue hover:underline">
+                                  HTML
+                                </button>
+                              )}
+                            </span>
+                          </p>
+                        ))}
+                      </td>
+                      <td className="px-3 py-2">
+                        <span className={`px-2 py-0.5 text-xs rounded-full ${STATUS_STYLES[log.status]}`}>
+                          {log.status}
+                        </span>
+                      </td>
+                      <td className="px-3 py-2 text-right text-slate-600">{log.pages_fetched ?? '–'}</td>
+                      <td className="px-3 py-2 text-right text-slate-600">{log.jobs_found ?? '–'}</td>
+                      <td className="px-3 py-2 text-right text-slate-600">{log.jobs_new ?? '–'}</td>
+                      <td className="px-3 py-2 text-right text-slate-600">{log.jobs_updated ?? '–'}</td>
+                      <td className="px-3 py-2 text-right text-slate-600">{log.jobs_deactivated ?? '–'}</td>
+                      <td className="px-3 py-2 text-right text-slate-600">
+                        {log.duration_seconds != null ? `${log.duration_seconds}s` : '–'}
+                      </td>
+                    </tr>
+                  ))}
+                </tbody>
+              ))}
+            </table>
+          </div>
+        )}
+      </div>
+
       {/* Info */}
       <div className="mt-6 p-4 bg-blue-50 border border-blue-200 rounded-lg">
         <h3 className="font-semibold text-blue-900 mb-2">How It Works</h3>
@@ -4,13 +4,24 @@
  */
 
 import { differenceInHours, format } from 'date-fns';
-import type { Job } from '@/types/database.types';
+import type { Job, TrainingIntake } from '@/types/database.types';
+import { TRAINING_BODY_LABELS } from '@/types/database.types';
 
-export interface DeadlineAlert {
-  job: Job;
+/** An upcoming deadline — a job's, or a training scheme intake's */
+export type DeadlineAlert = {
   urgency: 'critical' | 'warning' | 'normal';
   hoursRemaining: number;
   message: string;
+} & ({ job: Job; intake?: undefined } | { intake: TrainingIntake; job?: undefined });
+
+/** What to show for an alert, whichever kind it is */
+export interface AlertDetails {
+  id: string;
+  title: string;
+  offeredBy: string; // Hospital, or the training body
+  application_url?: string | null;
+  application_deadline: string;
+  deadline_precision?: Job['deadline_precision'];
 }
 
 /**
@@ -25,7 +36,7 @@ export function getDeadlineUrgency(hoursRemaining: number): 'critical' | 'warnin
 /**
  * Get formatted message for deadline
  */
-export function getDeadlineMessage(job: Job, hoursRemaining: number): string {
+export function getDeadlineMessage(job: Pick<Job, 'title'>, hoursRemaining: number): string {
   if (hoursRemaining <= 2) {
     return `⚠️ URGENT: ${job.title} closes in ${Math.floor(hoursRemaining)} hours!`;
   } else if (hoursRemaining <= 24) {
@@ -39,6 +50,58 @@ export function getDeadlineMessage(job: Job, hoursRemaining: number): string {
   return `Application open: ${job.title}`;
 }
 
+// Deadlines are Irish closing times — show them in Irish time wherever the user is
+const dublinDate = new Intl.DateTimeFormat('en-IE', {
+  timeZone: 'Europe/Dublin',
+  weekday: 'short',
+  day: 'numeric',
+  month: 'short',
+  year: 'numeric',
+});
+const dublinTime = new Intl.DateTimeFormat('en-IE', {
+  timeZone: 'Europe/Dublin',
+  hour: '2-digit',
+  minute: '2-digit',
+  hourCycle: 'h23',
+});
+
+/**
+ * Closing date as the source gave it, e.g. "Sat 14 Mar 2026, 12:00",
+ * "Sat 14 Mar 2026" when no time was published, or an estimate
+ */
+export function formatClosingTime(job: Pick<Job, 'application_deadline' | 'deadline_precision'>): string {
+  const deadline = new Date(job.application_deadline);
+  const date = dublinDate.format(deadline);
+
+  switch (job.deadline_precision) {
+    case 'DATETIME':
+      return `${date}, ${dublinTime.format(deadline)}`;
+    case 'ESTIMATED':
+      return `~${date} (estimated)`;
+    default:
+      return date;
+  }
+}
+
+/**
+ * Hours until a deadline if it's due an alert: within 48 hours, or at one
+ * of the reminder points
+ */
+function hoursIfDue(deadline: string, now: Date, reminderHours: number[]): number | null {
+  const hoursRemaining = differenceInHours(new Date(deadline), now);
+
+  // Only include deadlines in the future
+  if (hoursRemaining <= 0) return null;
+
+  // Check if we should send a reminder
+  const shouldAlert = reminderHours.some((hours) => {
+    // Alert if we're within the reminder window (±1 hour tolerance)
+    return Math.abs(hoursRemaining - hours) <= 1;
+  });
+
+  return shouldAlert || hoursRemaining <= 48 ? hoursRemaining : null;
+}
+
 /**
  * Check jobs for upcoming deadlines
  */
@@ -47,29 +110,46 @@ export function checkDeadlines(jobs: Job[], reminderHours: number[] = [48, 24, 2
   const alerts: DeadlineAlert[] = [];
 
   jobs.forEach((job) => {
-    const deadline = new Date(job.application_deadline);
-    const hoursRemaining = differenceInHours(deadline, now);
-
-    // Only include jobs with deadlines in the future
-    if (hoursRemaining <= 0) return;
+    const hoursRemaining = hoursIfDue(job.application_deadline, now, reminderHours);
+    if (hoursRemaining === null) return;
 
-    // Check if we should send a reminder
-    const shouldAlert = reminderHours.some((hours) => {
-      // Alert if we're within the reminder window (±1 hour tolerance)
-      return Math.abs(hoursRemaining - hours) <= 1;
+    alerts.push({
+      job,
+      urgency: getDeadlineUrgency(hoursRemaining),
+      hoursRemaining,
+      message: getDeadlineMessage(job, hoursRemaining),
     });
+  });
 
-    if (shouldAlert || hoursRemaining <= 48) {
-      alerts.push({
-        job,
-        urgency: getDeadlineUrgency(hoursRemaining),
-        hoursRemaining,
-        message: getDeadlineMessage(job, hoursRemaining),
-      });
-    }
+  return sortAlerts(alerts);
+}
+
+/**
+ * Check training scheme intakes for closing application windows
+ */
+export function checkIntakeDeadlines(intakes: TrainingIntake[], reminderHours: number[] = [48, 24, 2]): DeadlineAlert[] {
+  const now = new Date();
+  const alerts: DeadlineAlert[] = [];
+
+  intakes.forEach((intake) => {
+    const hoursRemaining = hoursIfDue(intake.application_deadline, now, reminderHours);
+    if (hoursRemaining === null) return;
+
+    alerts.push({
+      intake,
+      urgency: getDeadlineUrgency(hoursRemaining),
+      hoursRemaining,
+      message: getDeadlineMessage({ title: `${TRAINING_BODY_LABELS[intake.body]} ${intake.programme}` }, hoursRemaining),
+    });
   });
 
-  // Sort by urgency (critical first, then by hours remaining)
+  return sortAlerts(alerts);
+}
+
+/**
+ * Sort by urgency (critical first, then by hours remaining)
+ */
+export function sortAlerts(alerts: DeadlineAlert[]): DeadlineAlert[] {
   return alerts.sort((a, b) => {
     const urgencyOrder = { critical: 0, warning: 1, normal: 2 };
     if (a.urgency !== b.urgency) {
@@ -79,6 +159,30 @@ export function checkDeadlines(jobs: Job[], reminderHours: number[] = [48, 24, 2
   });
 }
 
+/**
+ * Title, who's offering it and where to apply, for a job or an intake alert
+ */
+export function alertDetails(alert: DeadlineAlert): AlertDetails {
+  if (alert.job) {
+    return {
+      id: alert.job.id,
+      title: alert.job.title,
+      offeredBy: alert.job.hospital_name,
+      application_url: alert.job.application_url,
+      application_deadline: alert.job.application_deadline,
+      deadline_precision: alert.job.deadline_precision,
+    };
+  }
+  return {
+    id: `intake-${alert.intake.id}`,
+    title: alert.intake.programme,
+    offeredBy: TRAINING_BODY_LABELS[alert.intake.body],
+    application_url: alert.intake.application_url,
+    application_deadline: alert.intake.application_deadline,
+    deadline_precision: alert.intake.deadline_precision,
+  };
+}
+
 /**
  * Send browser notification (requires permission)
  */
@@ -97,22 +201,23 @@ export async function sendBrowserNotification(alert: DeadlineAlert): Promise<boo
     return false;
   }
 
+  const details = alertDetails(alert);
   const notification = new Notification('MedMatch-IE: Application Deadline', {
     body: alert.message,
     icon: '/icon.png',
     badge: '/badge.png',
-    tag: alert.job.id, // Prevents duplicate notifications for same job
+    tag: details.id, // Prevents duplicate notifications for same job
     requireInteraction: alert.urgency === 'critical',
     data: {
-      jobId: alert.job.id,
-      url: alert.job.application_url,
+      jobId: details.id,
+      url: details.application_url,
     },
   });
 
   notification.onclick = function () {
     window.focus();
-    if (alert.job.application_url) {
-      window.open(alert.job.application_url, '_blank');
+    if (details.application_url) {
+      window.open(details.application_url, '_blank');
     }
     notification.close();
   };
@@ -135,14 +240,17 @@ export async function sendEmailNotification(
       },
       body: JSON.stringify({
         to: userEmail,
-        alerts: alerts.map((alert) => ({
-          jobId: alert.job.id,
-          jobTitle: alert.job.title,
-          hospital: alert.job.hospital_name,
-          deadline: alert.job.application_deadline,
-          urgency: alert.urgency,
-          applicationUrl: alert.job.application_url,
-        })),
+        alerts: alerts.map((alert) => {
+          const details = alertDetails(alert);
+          return {
+            jobId: details.id,
+            jobTitle: details.title,
+            hospital: details.offeredBy,
+            deadline: details.application_deadline,
+            urgency: alert.urgency,
+            applicationUrl: details.application_url,
+          };
+        }),
       }),
     });
 
@@ -191,7 +299,7 @@ export function scheduleDeadlineChecks(
 /**
  * Get summary statistics of upcoming deadlines
  */
-export function getDeadlineStats(jobs: Job[]): {
+export function getDeadlineStats(jobs: Pick<Job, 'application_deadline'>[]): {
   total: number;
   critical: number; // < 48 hours
   warning: number; // 2-7 days
@@ -0,0 +1,100 @@
+/**
+ * Job Field Overrides
+ * Admin corrections to scraped job fields. The scraper re-applies active
+ * overrides on every save, so the nightly run doesn't undo them.
+ */
+
+import type { FieldConfidenceMap, Job, JobOverride, OverridableField, ScoredField } from '@/types/database.types';
+import { needsReview, SCORED_FIELDS } from '@/lib/scrapers/field-confidence';
+
+export const OVERRIDABLE_FIELDS: OverridableField[] = [
+  'title',
+  'grade',
+  'specialty',
+  'scheme_type',
+  'hospital_id',
+  'hospital_name',
+  'hospital_group',
+  'health_region',
+  'county',
+  'application_deadline',
+  'deadline_precision',
+  'application_url',
+  'informal_enquiries_name',
+  'informal_enquiries_email',
+  'informal_contact_email',
+  'medical_manpower_email',
+  'clinical_lead',
+];
+
+export const OVERRIDE_FIELD_LABELS: Record<OverridableField, string> = {
+  title: 'Title',
+  grade: 'Grade',
+  specialty: 'Specialty',
+  scheme_type: 'Scheme',
+  hospital_id: 'Hospital ID',
+  hospital_name: 'Hospital',
+  hospital_group: 'Hospital group',
+  health_region: 'Health region',
+  county: 'County',
+  application_deadline: 'Deadline',
+  deadline_precision: 'Deadline precision',
+  application_url: 'Application link',
+  informal_enquiries_name: 'Informal enquiries contact',
+  informal_enquiries_email: 'Informal enquiries email',
+  informal_contact_email: 'Contact email',
+  medical_manpower_email: 'Medical manpower email',
+  clinical_lead: 'Clinical lead',
+};
+
+/** Stored form of a field value — overrides are kept as text */
+export function toOverrideValue(value: unknown): string | null {
+  if (value === undefined || value === null || value === '') return null;
+  return String(value);
+}
+
+/**
+ * Fields in `updates` that differ from the job, as override values
+ */
+export function changedOverrides(job: Partial<Job>, updates: Partial<Job>): Partial<Record<OverridableField, string | null>> {
+  const changed: Partial<Record<OverridableField, string | null>> = {};
+  for (const field of OVERRIDABLE_FIELDS) {
+    if (!(field in updates)) continue;
+    const value = toOverrideValue(updates[field]);
+    if (value !== toOverrideValue(job[field])) changed[field] = value;
+  }
+  return changed;
+}
+
+/**
+ * Apply active overrides to a freshly scraped row. Overridden scored fields
+ * count as reviewed, as do fields an admin confirmed whose scraped value
+ * hasn't changed since, so the job stays out of the review queue.
+ */
+export function applyOverrides(
+  incoming: Partial<Job>,
+  overrides: Pick<JobOverride, 'field' | 'value'>[],
+  existing?: Partial<Job>
+): Partial<Job> {
+  const merged: Partial<Job> = { ...incoming };
+  for (const override of overrides) {
+    Object.assign(merged, { [override.field]: override.value });
+  }
+
+  const confidence: FieldConfidenceMap = { ...incoming.field_confidence };
+  const overridden = new Set<string>(overrides.map(o => o.field));
+  for (const field of SCORED_FIELDS) {
+    if (overridden.has(field) || isConfirmed(field, incoming, existing)) {
+      confidence[field] = { score: 1, reason: 'REVIEWED' };
+    }
+  }
+
+  merged.field_confidence = confidence;
+  merged.needs_review = needsReview(confidence);
+  return merged;
+}
+
+function isConfirmed(field: ScoredField, incoming: Partial<Job>, existing?: Partial<Job>): boolean {
+  return existing?.field_confidence?.[field]?.reason === 'REVIEWED'
+    && toOverrideValue(existing[field]) === toOverrideValue(incoming[field]);
+}
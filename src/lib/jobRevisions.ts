@@ -0,0 +1,127 @@
+/**
+ * Job Revision History
+ * Field-level diffs between scrapes of the same posting, and the
+ * human-readable summaries shown in the "What changed" section.
+ */
+
+import { format } from 'date-fns';
+import type { Job, JobFieldChange, JobRevision } from '@/types/database.types';
+
+/** Fields whose changes are recorded in job_revisions */
+export const TRACKED_FIELDS = [
+  'title',
+  'application_deadline',
+  'application_url',
+  'job_spec_pdf_url',
+  'informal_enquiries_name',
+  'informal_enquiries_email',
+  'informal_contact_email',
+  'medical_manpower_email',
+  'clinical_lead',
+  'rotational_detail',
+  'grade',
+  'specialty',
+  'hospital_name',
+  'is_active',
+] as const;
+
+export type TrackedField = (typeof TRACKED_FIELDS)[number];
+
+const FIELD_LABELS: Record<TrackedField, string> = {
+  title: 'Title',
+  application_deadline: 'Deadline',
+  application_url: 'Application link',
+  job_spec_pdf_url: 'Job spec',
+  informal_enquiries_name: 'Informal enquiries contact',
+  informal_enquiries_email: 'Informal enquiries email',
+  informal_contact_email: 'Contact email',
+  medical_manpower_email: 'Medical manpower email',
+  clinical_lead: 'Clinical lead',
+  rotational_detail: 'Rotation',
+  grade: 'Grade',
+  specialty: 'Specialty',
+  hospital_name: 'Hospital',
+  is_active: 'Status',
+};
+
+function toComparable(field: TrackedField, value: unknown): string | null {
+  if (value === undefined || value === null || value === '') return null;
+  if (field === 'application_deadline') {
+    // Compare deadlines by calendar day — sub-day drift isn't a real change
+    const date = new Date(String(value));
+    return isNaN(date.getTime()) ? String(value) : date.toISOString().substring(0, 10);
+  }
+  return String(value).trim();
+}
+
+/**
+ * Diff the tracked fields of an existing job row against an incoming scrape.
+ * A field the incoming scrape didn't provide (null/undefined) is not treated
+ * as a removal — most sources only expose a subset of fields on each page.
+ * Neither is a move between two estimated deadlines.
+ */
+export function diffJobFields(existing: Partial<Job>, incoming: Partial<Job>): JobFieldChange[] {
+  const changes: JobFieldChange[] = [];
+
+  for (const field of TRACKED_FIELDS) {
+    const before = toComparable(field, existing[field]);
+    const after = toComparable(field, incoming[field]);
+
+    if (after === null || before === after) continue;
+    // One guessed deadline replacing another isn't news
+    if (field === 'application_deadline'
+      && existing.deadline_precision === 'ESTIMATED' && incoming.deadline_precision === 'ESTIMATED') continue;
+
+    changes.push({
+      field,
+      old_value: existing[field] === undefined || existing[field] === null ? null : String(existing[field]),
+      new_value: String(incoming[field]),
+    });
+  }
+
+  return changes;
+}
+
+function formatDay(value: string | null): string {
+  if (!value) return 'unknown';
+  const date = new Date(value);
+  return isNaN(date.getTime()) ? value : format(date, 'd MMM');
+}
+
+/**
+ * Describe a single field change, e.g. "Deadline extended from 12 Mar to 19 Mar"
+ */
+export function describeChange(change: JobFieldChange): string {
+  const field = change.field as TrackedField;
+  const label = FIELD_LABELS[field] || change.field;
+
+  if (field === 'application_deadline') {
+    const before = change.old_value ? new Date(change.old_value).getTime() : NaN;
+    const after = change.new_value ? new Date(change.new_value).getTime() : NaN;
+    const verb = isNaN(before) || isNaN(after)
+      ? 'changed'
+      : after > before ? 'extended' : 'brought forward';
+    return `Deadline ${verb} from ${formatDay(change.old_value)} to ${formatDay(change.new_value)}`;
+  }
+
+  if (field === 'is_active') {
+    return change.new_value === 'true' ? 'Posting reopened' : 'Posting closed';
+  }
+
+  if (!change.old_value) {
+    return `${label} added: ${change.new_value}`;
+  }
+  return `${label} changed from "${change.old_value}" to "${change.new_value}"`;
+}
+
+/**
+ * Summaries for a revision list, newest first
+ */
+export function describeRevisions(revisions: JobRevision[]): { scraped_at: string; summary: string }[] {
+  return [...revisions]
+    .sort((a, b) => new Date(b.scraped_at).getTime() - new Date(a.scraped_at).getTime())
+    .flatMap(rev => rev.changes.map(change => ({
+      scraped_at: rev.scraped_at,
+      summary: describeChange(change),
+    })));
+}
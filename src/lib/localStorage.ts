@@ -3,8 +3,9 @@
  * Provides persistent storage using browser localStorage
  */
 
-import type { Job, UserApplication, ApplicationStatus } from '@/types/database.types';
+import type { Job, JobRevision, SpecialtyType, TrainingIntake, UserApplication, ApplicationStatus } from '@/types/database.types';
 import { sampleJobs } from '@/data/sampleJobs';
+import { matchesSpecialties } from '@/lib/specialties';
 
 const STORAGE_KEYS = {
   JOBS: 'medjob_jobs',
@@ -57,7 +58,8 @@ export const localJobsAPI = {
   },
 
   async filterJobs(filters: {
-    specialties?: string[];
+    specialties?: SpecialtyType[];
+    health_regions?: string[];
     hospital_groups?: string[];
     counties?: string[];
     scheme_types?: string[];
@@ -65,10 +67,13 @@ export const localJobsAPI = {
     const jobs = await this.getActiveJobs();
 
     return jobs.filter(job => {
-      if (filters.specialties?.length && !filters.specialties.includes(job.specialty)) {
+      if (filters.specialties?.length && !matchesSpecialties(job.specialty, filters.specialties)) {
         return false;
       }
-      if (filters.hospital_groups?.length && !filters.hospital_groups.includes(job.hospital_group)) {
+      if (filters.health_regions?.length && !(job.health_region && filters.health_regions.includes(job.health_region))) {
+        return false;
+      }
+      if (filters.hospital_groups?.length && !(job.hospital_group && filters.hospital_groups.includes(job.hospital_group))) {
         return false;
       }
       if (filters.counties?.length && !filters.counties.includes(job.county)) {
@@ -322,6 +327,7 @@ import {
   supabaseApplicationsAPI,
   supabaseFavoritesAPI,
   supabasePreferencesAPI,
+  supabaseTrainingIntakesAPI,
 } from './supabase';
 
 /**
@@ -377,7 +383,8 @@ export const storageAPI = {
     },
 
     async filterJobs(filters: {
-      specialties?: string[];
+      specialties?: SpecialtyType[];
+      health_regions?: string[];
       hospital_groups?: string[];
       counties?: string[];
       scheme_types?: string[];
@@ -392,6 +399,32 @@ export const storageAPI = {
       }
       return await localJobsAPI.filterJobs(filters);
     },
+
+    async getJobRevisions(jobId: string): Promise<JobRevision[]> {
+      // Revision history is only recorded server-side by the scraper
+      if (isSupabaseConfigured()) {
+        try {
+          return await supabaseJobsAPI.getJobRevisions(jobId);
+        } catch (error) {
+          console.error('Supabase error loading job revisions:', error);
+        }
+      }
+      return [];
+    },
+  },
+
+  trainingIntakes: {
+    async getOpenIntakes(): Promise<TrainingIntake[]> {
+      // Intakes are imported by admins into Supabase; there's no local copy
+      if (isSupabaseConfigured()) {
+        try {
+          return await supabaseTrainingIntakesAPI.getOpenIntakes();
+        } catch (error) {
+          console.error('Supabase error loading training intakes:', error);
+        }
+      }
+      return [];
+    },
   },
 
   applications: {
@@ -3,15 +3,24 @@
  * Extracts key information from HSE NCHD job spec PDFs
  */
 
-interface ParsedJobSpec {
+import { createHash } from 'crypto';
+import { parseJobTerms, type JobTerms } from '@/lib/scrapers/job-terms';
+
+export interface ParsedJobSpec {
   informalEnquiriesEmail?: string;
   informalEnquiriesName?: string;
   closingDate?: string;
   clinicalLead?: string;
   rotationalDetail?: string;
+  terms?: JobTerms; // Salary, hours, on-call, duration, start date, contract
   rawText?: string;
 }
 
+/** One word of a person's name — allows O'Connor, McCarthy, Ó Súilleabháin */
+const NAME_WORD = "[A-Z\\u00c0-\\u00de](?:[A-Za-z\\u00c0-\\u017f'’-]*[a-z\\u00df-\\u017f])?";
+const NAME = `${NAME_WORD}(?:\\s+${NAME_WORD})+`;
+const TITLE = '(?:Dr\\.?|Mr\\.?|Ms\\.?|Mrs\\.?|Prof\\.?)';
+
 /**
  * Extract email addresses from text
  */
@@ -43,9 +52,9 @@ function extractInformalEnquiriesContact(text: string): {
 
   // Extract name (typically before email or after "Dr." or "Mr." or "Ms.")
   const namePatterns = [
-    /(?:Dr\.?|Mr\.?|Ms\.?|Prof\.?)\s+([A-Z][a-z]+(?:\s+[A-Z][a-z]+)+)/,
-    /contact:?\s+([A-Z][a-z]+(?:\s+[A-Z][a-z]+)+)/i,
-    /([A-Z][a-z]+(?:\s+[A-Z][a-z]+)+)(?:\s+at\s+|,\s*|\s+\()/,
+    new RegExp(`${TITLE}\\s+(${NAME})`),
+    new RegExp(`[Cc]ontact:?\\s+(${NAME})`),
+    new RegExp(`(${NAME})(?:\\s+at\\s+|,\\s*|\\s+\\()`),
   ];
 
   let name: string | undefined;
@@ -68,9 +77,12 @@ function extractClosingDate(text: string): string | undefined {
   // "Closing Date: 15th April 2026"
   // "Applications close: 15/04/2026 at 17:00"
   // "Deadline: 15.04.2026"
+  // "Closing Date: 12 noon, Thursday 26th March 2026"
 
+  const time = '(?:\\s+at\\s+(?:\\d{1,2}[:.]\\d{2}|\\d{1,2}\\s*(?:am|pm|noon)))?';
   const datePatterns = [
-    /closing\s+date[\s:]+(\d{1,2}(?:st|nd|rd|th)?\s+\w+\s+\d{4})/i,
+    new RegExp(`closing\\s+date(?:\\s+for\\s+(?:receipt\\s+of\\s+)?applications)?(?:\\s+is)?[\\s:]+((?:[\\w,]+\\s+){0,3}?\\d{1,2}(?:st|nd|rd|th)?\\s+[A-Za-z]+\\s+\\d{4}${time})`, 'i'),
+    new RegExp(`closing\\s+date[\\s:]+(\\d{1,2}[-/.]\\d{1,2}[-/.]\\d{2,4}${time})`, 'i'),
     /deadline[\s:]+(\d{1,2}(?:st|nd|rd|th)?\s+\w+\s+\d{4})/i,
     /applications?\s+close[\s:]+(\d{1,2}\/\d{1,2}\/\d{4})/i,
     /(?:before|by)[\s:]+(\d{1,2}[-/.]\d{1,2}[-/.]\d{4})/i,
@@ -90,10 +102,11 @@ function extractClosingDate(text: string): string | undefined {
  * Extract clinical lead/consultant information
  */
 function extractClinicalLead(text: string): string | undefined {
+  // Only the labels are case-insensitive, so a name stops at the next lowercase word
   const leadPatterns = [
-    /clinical\s+lead[\s:]+(?:Dr\.?|Prof\.?|Mr\.?|Ms\.?)\s+([A-Z][a-z]+(?:\s+[A-Z][a-z]+)+)/i,
-    /consultant[\s:]+(?:Dr\.?|Prof\.?|Mr\.?|Ms\.?)\s+([A-Z][a-z]+(?:\s+[A-Z][a-z]+)+)/i,
-    /under\s+(?:Dr\.?|Prof\.?)\s+([A-Z][a-z]+(?:\s+[A-Z][a-z]+)+)/i,
+    new RegExp(`[Cc]linical\\s+[Ll]ead[\\s:]+${TITLE}\\s+(${NAME})`),
+    new RegExp(`[Cc]onsultant[\\s:]+${TITLE}\\s+(${NAME})`),
+    new RegExp(`under\\s+(?:Dr\\.?|Prof\\.?)\\s+(${NAME})`),
   ];
 
   for (const pattern of leadPatterns) {
@@ -116,15 +129,15 @@ function extractRotationalDetail(text: string): string | undefined {
   // "Rotation includes: 4 months Medical Oncology, 2 months Haematology"
 
   const rotationPatterns = [
-    /rotation(?:al)?\s+detail[\s:]+(.{20,150})/i,
+    /rotation(?:al)?\s+detail[\s:]+([^.]{20,150})/i,
     /(\d+\s+months?\s+\w+(?:\s+\w+)?(?:\s*[/,]\s*\d+\s+months?\s+\w+(?:\s+\w+)?)+)/i,
-    /rotation\s+includes?[\s:]+(.{20,150})/i,
+    /rotation\s+includes?[\s:]+([^.]{20,150})/i,
   ];
 
   for (const pattern of rotationPatterns) {
     const match = text.match(pattern);
     if (match) {
-      return match[1].trim().split('\n')[0]; // Take first line only
+      return match[1].trim(); // Patterns stop at the end of the sentence
     }
   }
 
@@ -132,8 +145,7 @@ function extractRotationalDetail(text: string): string | undefined {
 }
 
 /**
- * Parse HSE Job Spec PDF text
- * In production, this would be called after fetching and extracting text from PDF
+ * Parse HSE Job Spec PDF text, as returned by extractPdfText
  */
 export function parseJobSpecText(pdfText: string): ParsedJobSpec {
   const normalizedText = pdfText.replace(/\s+/g, ' ').trim();
@@ -149,121 +161,224 @@ export function parseJobSpecText(pdfText: string): ParsedJobSpec {
     closingDate,
     clinicalLead,
     rotationalDetail,
+    terms: parseJobTerms(normalizedText),
     rawText: pdfText,
   };
 }
 
 /**
- * Fetch and parse PDF from URL using an LLM API
- * This is a placeholder for the actual implementation
- * In production, you would:
- * 1. Fetch the PDF
- * 2. Convert to text (using pdf-parse or similar)
- * 3. Send to Claude/Gemini API with a structured prompt
- * 4. Parse the LLM response
+ * A run of text and where it sits on the page (PDF units, y grows upwards)
  */
-export async function fetchAndParsePDF(pdfUrl: string): Promise<ParsedJobSpec> {
-  // TODO: Implement with actual PDF fetching and LLM parsing
-  // For now, return a mock implementation
+interface PositionedText {
+  text: string;
+  x: number;
+  y: number;
+  width: number;
+  height: number;
+}
 
-  try {
-    // Step 1: Fetch PDF
-    const response = await fetch(pdfUrl);
-    if (!response.ok) {
-      throw new Error(`Failed to fetch PDF: ${response.statusText}`);
+/** Where to look for the gap between two columns, as fractions of the page width */
+const GUTTER_SEARCH = { from: 0.35, to: 0.65 };
+
+/** Both columns need this many lines to count as a two-column layout */
+const MIN_COLUMN_LINES = 3;
+
+/**
+ * A prose column has plenty of lines running most of the way to the
+ * gutter; a label/value table leaves that space empty.
+ */
+const WIDE_LINE_FILL = 0.6;
+const MIN_WIDE_LINE_SHARE = 1 / 3;
+
+/**
+ * Group text runs into lines, top to bottom and left to right
+ */
+function groupLines(items: PositionedText[]): PositionedText[][] {
+  const sorted = [...items].sort((a, b) => b.y - a.y || a.x - b.x);
+  const lines: PositionedText[][] = [];
+
+  for (const item of sorted) {
+    const line = lines[lines.length - 1];
+    if (line && Math.abs(line[0].y - item.y) <= Math.max(2, item.height / 2)) {
+      line.push(item);
+    } else {
+      lines.push([item]);
     }
+  }
 
-    // Step 2: Convert PDF to text (you'll need to add pdf-parse or similar)
-    // const pdfBuffer = await response.arrayBuffer();
-    // const pdfText = await extractTextFromPDF(pdfBuffer);
-
-    // Step 3: Parse with LLM (optional but recommended for HSE PDFs)
-    // const llmResult = await parseWithLLM(pdfText);
-
-    // For now, return empty result
-    return {
-      informalEnquiriesEmail: undefined,
-      informalEnquiriesName: undefined,
-      closingDate: undefined,
-      clinicalLead: undefined,
-      rotationalDetail: undefined,
-    };
-  } catch (error) {
-    console.error('Error parsing PDF:', error);
-    throw error;
+  return lines.map(line => line.sort((a, b) => a.x - b.x));
+}
+
+function lineText(line: PositionedText[]): string {
+  let text = '';
+  let end: number | null = null;
+
+  for (const item of line) {
+    if (end !== null && item.x - end > 1) text += ' ';
+    text += item.text;
+    end = item.x + item.width;
+  }
+
+  return text.replace(/\s+/g, ' ').trim();
+}
+
+function crosses(line: PositionedText[], x: number): boolean {
+  return line.some(item => item.x < x && item.x + item.width > x);
+}
+
+/**
+ * Find the gap between two text columns. Lines that span it (full-width
+ * headings, tables) are allowed; returns null for single-column pages.
+ */
+function findGutter(lines: PositionedText[][], pageWidth: number): number | null {
+  const items = lines.flat();
+  const left = Math.min(...items.map(item => item.x));
+  const right = Math.max(...items.map(item => item.x + item.width));
+
+  // Widest run of candidate positions crossed by the fewest lines
+  const from = Math.ceil(pageWidth * GUTTER_SEARCH.from);
+  const to = Math.floor(pageWidth * GUTTER_SEARCH.to);
+  const crossings: number[] = [];
+  for (let x = from; x <= to; x++) {
+    crossings.push(lines.filter(line => crosses(line, x)).length);
   }
+  const fewest = Math.min(...crossings);
+
+  let best = { start: 0, length: 0 };
+  let runStart = -1;
+  crossings.forEach((count, i) => {
+    if (count !== fewest) {
+      runStart = -1;
+      return;
+    }
+    if (runStart < 0) runStart = i;
+    if (i - runStart + 1 > best.length) best = { start: runStart, length: i - runStart + 1 };
+  });
+  const gutter = from + best.start + Math.floor(best.length / 2);
+
+  const columnLines = lines.filter(line => !crosses(line, gutter));
+  const leftEdges = columnLines
+    .map(line => line.filter(item => item.x + item.width <= gutter))
+    .filter(part => part.length > 0)
+    .map(part => Math.max(...part.map(item => item.x + item.width)));
+  const rightEdges = columnLines
+    .map(line => line.filter(item => item.x >= gutter))
+    .filter(part => part.length > 0)
+    .map(part => Math.max(...part.map(item => item.x + item.width)));
+
+  if (leftEdges.length < MIN_COLUMN_LINES || rightEdges.length < MIN_COLUMN_LINES) return null;
+
+  const isProse = (fills: number[]) =>
+    fills.filter(fill => fill >= WIDE_LINE_FILL).length >= fills.length * MIN_WIDE_LINE_SHARE;
+
+  const leftIsProse = isProse(leftEdges.map(edge => (edge - left) / (gutter - left)));
+  const rightIsProse = isProse(rightEdges.map(edge => (edge - gutter) / (right - gutter)));
+  return leftIsProse && rightIsProse ? gutter : null;
 }
 
 /**
- * Parse PDF using Claude API (premium option for better accuracy)
- * Requires ANTHROPIC_API_KEY environment variable
+ * Lay out one page's text in reading order. HSE specs often set their
+ * details in two columns; reading straight across would interleave them,
+ * so each column is read in full before the next. A line spanning both
+ * columns ends the section, and the columns below it start afresh.
  */
-export async function parseWithClaude(pdfText: string): Promise<ParsedJobSpec> {
-  const apiKey = process.env.ANTHROPIC_API_KEY;
-  if (!apiKey) {
-    throw new Error('ANTHROPIC_API_KEY not set');
+function layoutPage(items: PositionedText[], pageWidth: number): string {
+  if (items.length === 0) return '';
+
+  const lines = groupLines(items);
+  const gutter = findGutter(lines, pageWidth);
+  if (gutter === null) return lines.map(lineText).join('\n');
+
+  const output: string[] = [];
+  let leftColumn: string[] = [];
+  let rightColumn: string[] = [];
+  const endSection = () => {
+    output.push(...leftColumn, ...rightColumn);
+    leftColumn = [];
+    rightColumn = [];
+  };
+
+  for (const line of lines) {
+    if (crosses(line, gutter)) {
+      endSection();
+      output.push(lineText(line));
+      continue;
+    }
+    const leftPart = line.filter(item => item.x + item.width <= gutter);
+    const rightPart = line.filter(item => item.x >= gutter);
+    if (leftPart.length > 0) leftColumn.push(lineText(leftPart));
+    if (rightPart.length > 0) rightColumn.push(lineText(rightPart));
   }
+  endSection();
 
-  const prompt = `
-Extract the following information from this HSE NCHD job specification:
-
-1. Informal Enquiries Email (the email address for informal questions)
-2. Informal Enquiries Name (the person to contact)
-3. Closing Date (application deadline)
-4. Clinical Lead (consultant or clinical lead name)
-5. Rotational Detail (breakdown of time in each subspecialty, if mentioned)
-
-Return the information in JSON format with these exact keys:
-{
-  "informalEnquiriesEmail": "email@hse.ie or null",
-  "informalEnquiriesName": "Dr. Name or null",
-  "closingDate": "date string or null",
-  "clinicalLead": "Dr. Name or null",
-  "rotationalDetail": "rotation description or null"
+  return output.join('\n');
 }
 
-Job Specification Text:
-${pdfText}
-  `;
+/**
+ * Extract the text of a PDF, one line per line of the document and pages
+ * separated by a blank line
+ */
+export async function extractPdfText(data: Uint8Array): Promise<string> {
+  // Loaded on demand — pdf.js is large and only the spec ingester needs it
+  const { getDocument, VerbosityLevel } = await import('pdfjs-dist/legacy/build/pdf.mjs');
+
+  // pdf.js takes ownership of the buffer it's given, so pass a copy
+  const pdf = await getDocument({
+    data: new Uint8Array(data),
+    isEvalSupported: false,
+    disableFontFace: true,
+    verbosity: VerbosityLevel.ERRORS,
+  }).promise;
 
   try {
-    const response = await fetch('https://api.anthropic.com/v1/messages', {
-      method: 'POST',
-      headers: {
-        'Content-Type': 'application/json',
-        'x-api-key': apiKey,
-        'anthropic-version': '2023-06-01',
-      },
-      body: JSON.stringify({
-        model: 'claude-3-haiku-20240307', // Fastest, cheapest for this task
-        max_tokens: 1024,
-        messages: [
-          {
-            role: 'user',
-            content: prompt,
-          },
-        ],
-      }),
-    });
-
-    if (!response.ok) {
-      throw new Error(`Claude API error: ${response.statusText}`);
+    const pages: string[] = [];
+    for (let pageNumber = 1; pageNumber <= pdf.numPages; pageNumber++) {
+      const page = await pdf.getPage(pageNumber);
+      const content = await page.getTextContent();
+      const items: PositionedText[] = [];
+
+      for (const item of content.items) {
+        if (!('str' in item) || item.str.trim() === '') continue;
+        items.push({
+          text: item.str,
+          x: item.transform[4],
+          y: item.transform[5],
+          width: item.width,
+          height: item.height,
+        });
+      }
+
+      pages.push(layoutPage(items, page.getViewport({ scale: 1 }).width));
+      page.cleanup();
     }
+    return pages.join('\n\n');
+  } finally {
+    await pdf.destroy();
+  }
+}
 
-    const data = await response.json();
-    const textContent = data.content[0].text;
+/**
+ * Fingerprint of a PDF's bytes, to tell whether a spec has changed
+ */
+export function hashPdf(data: Uint8Array): string {
+  return createHash('sha256').update(data).digest('hex');
+}
 
-    // Extract JSON from response
-    const jsonMatch = textContent.match(/\{[\s\S]*\}/);
-    if (jsonMatch) {
-      return JSON.parse(jsonMatch[0]);
+/**
+ * Fetch a job spec PDF and parse it with the regex extractors
+ */
+export async function fetchAndParsePDF(pdfUrl: string): Promise<ParsedJobSpec> {
+  try {
+    const response = await fetch(pdfUrl);
+    if (!response.ok) {
+      throw new Error(`Failed to fetch PDF: ${response.statusText}`);
     }
 
-    throw new Error('Could not parse JSON from Claude response');
+    const data = new Uint8Array(await response.arrayBuffer());
+    return parseJobSpecText(await extractPdfText(data));
   } catch (error) {
-    console.error('Error using Claude API:', error);
-    // Fallback to regex parsing
-    return parseJobSpecText(pdfText);
+    console.error('Error parsing PDF:', error);
+    throw error;
   }
 }
 
@@ -0,0 +1,110 @@
+import { describe, it, expect } from 'vitest';
+import type { Browser, BrowserContext } from 'playwright';
+import { BrowserPool, shouldBlockRequest } from '../browser-pool';
+import { PlaywrightBaseScraper } from '../playwright-base';
+import { RequestScheduler } from '../politeness';
+import type { ScraperResult } from '../base';
+
+/** Stand-in for Chromium: counts launches and hands out pages that render `html` */
+function fakeBrowser(html: string) {
+  const counts = { launches: 0, contexts: 0, openContexts: 0, maxOpen: 0 };
+  const page = {
+    goto: async () => ({ status: () => 200, headerValue: async () => null }),
+    waitForSelector: async () => { throw new Error('Timeout 15000ms exceeded'); },
+    content: async () => html,
+    screenshot: async () => Buffer.from('png'),
+    url: () => 'https://www.doctorjobs.ie/jobs/',
+    close: async () => {},
+  };
+  const launch = async () => {
+    counts.launches++;
+    let connected = true;
+    return {
+      isConnected: () => connected,
+      close: async () => { connected = false; },
+      newContext: async () => {
+        counts.contexts++;
+        counts.openContexts++;
+        counts.maxOpen = Math.max(counts.maxOpen, counts.openContexts);
+        return {
+          route: async () => {},
+          newPage: async () => page,
+          close: async () => { counts.openContexts--; },
+        } as unknown as BrowserContext;
+      },
+    } as unknown as Browser;
+  };
+  return { counts, launch };
+}
+
+class ListingScraper extends PlaywrightBaseScraper {
+  constructor() {
+    super('https://www.doctorjobs.ie', 'DOCTOR_JOBS');
+  }
+
+  protected async doScrape(): Promise<ScraperResult> {
+    await this.navigateTo('https://www.doctorjobs.ie/jobs/', '.job-listing');
+    await this.getPageContent();
+    throw new Error('No job cards on https://www.doctorjobs.ie/jobs/');
+  }
+}
+
+describe('shouldBlockRequest', () => {
+  it('blocks images, fonts and trackers but not the page or its scripts', () => {
+    expect(shouldBlockRequest('image', 'https://www.rezoomo.com/logo.png')).toBe(true);
+    expect(shouldBlockRequest('font', 'https://fonts.gstatic.com/s/roboto.woff2')).toBe(true);
+    expect(shouldBlockRequest('script', 'https://www.googletagmanager.com/gtm.js?id=GTM-1')).toBe(true);
+    expect(shouldBlockRequest('xhr', 'https://static.hotjar.com/c/hotjar-1.js')).toBe(true);
+    expect(shouldBlockRequest('document', 'https://www.doctorjobs.ie/jobs/')).toBe(false);
+    expect(shouldBlockRequest('script', 'https://www.rezoomo.com/static/js/main.js')).toBe(false);
+    expect(shouldBlockRequest('stylesheet', 'https://www.rezoomo.com/static/css/main.css')).toBe(false);
+  });
+});
+
+describe('BrowserPool', () => {
+  it('shares one browser and caps open contexts', async () => {
+    const { counts, launch } = fakeBrowser('<html></html>');
+    const pool = new BrowserPool(launch, 2);
+
+    const [a, b] = await Promise.all([pool.acquire(), pool.acquire()]);
+    let thirdAcquired = false;
+    const third = pool.acquire().then(context => { thirdAcquired = true; return context; });
+    await new Promise(resolve => setTimeout(resolve, 0));
+    expect(thirdAcquired).toBe(false);
+
+    await pool.release(a);
+    await pool.release(await third);
+    await pool.release(b);
+    expect(counts).toMatchObject({ launches: 1, contexts: 3, openContexts: 0, maxOpen: 2 });
+
+    // A closed pool launches a fresh browser on next use
+    await pool.close();
+    await pool.release(await pool.acquire());
+    expect(counts.launches).toBe(2);
+  });
+});
+
+describe('PlaywrightBaseScraper failure captures', () => {
+  it('captures the page on a selector miss and on an exception', async () => {
+    const { counts, launch } = fakeBrowser('<html><body>Under maintenance</body></html>');
+    const scraper = new ListingScraper();
+    scraper.setBrowserPool(new BrowserPool(launch));
+    scraper.setScheduler(new RequestScheduler({ respectRobots: false, sleep: async () => {} }));
+
+    const result = await scraper.scrape();
+    const captures = scraper.takeCaptures();
+
+    expect(result.error).toBe('No job cards on https://www.doctorjobs.ie/jobs/');
+    expect(captures.map(c => c.reason)).toEqual([
+      'Selector ".job-listing" not found',
+      'No job cards on https://www.doctorjobs.ie/jobs/',
+    ]);
+    expect(captures[0]).toMatchObject({
+      url: 'https://www.doctorjobs.ie/jobs/',
+      html: '<html><body>Under maintenance</body></html>',
+      screenshot: Buffer.from('png'),
+    });
+    expect(scraper.takeCaptures()).toEqual([]);
+    expect(counts.openContexts).toBe(0);
+  });
+});
@@ -0,0 +1,124 @@
+import { describe, it, expect } from 'vitest';
+import { exportJobs, formatDryRun, formatQueueProgress, parseCliArgs } from '../cli';
+import type { ScrapedJob } from '../base';
+import type { RunPreview } from '../orchestrator';
+import { summarizeProgress } from '../task-queue';
+import type { ScrapeRun, ScrapeTask } from '@/types/database.types';
+
+const job: ScrapedJob = {
+  title: 'Registrar in Haematology, "Day Ward"',
+  grade: 'REGISTRAR',
+  specialty: 'OTHER',
+  scheme_type: 'NON_TRAINING_SERVICE',
+  hospital_name: "St. James's Hospital",
+  hospital_group: 'DMHG',
+  county: 'Dublin',
+  application_deadline: '2026-03-27T12:00:00.000Z',
+  deadline_precision: 'DATETIME',
+  source_url: 'https://www.stjames.ie/careers/currentvacancies/registrar-haematology-0426/',
+  source_platform: 'DIRECT_HOSPITAL',
+  scraped_at: '2026-03-01T02:00:00.000Z',
+};
+
+describe('parseCliArgs', () => {
+  it('reads sources, fixtures and export options', () => {
+    expect(parseCliArgs(['export', '--source', 'HSE,StJames', '--source=Beaumont', '--replay', 'fixtures/scrapers', '--out', 'jobs.csv']))
+      .toEqual({
+        command: 'export',
+        sources: ['HSE', 'StJames', 'Beaumont'],
+        format: 'csv',
+        out: 'jobs.csv',
+        playwright: false,
+        fixtures: { mode: 'replay', dir: 'fixtures/scrapers' },
+      });
+    expect(parseCliArgs(['run', '--budget', '60', '--playwright'])).toMatchObject({ budgetMs: 60_000, playwright: true });
+    expect(parseCliArgs(['queue', '--max-tasks', '5'])).toMatchObject({ command: 'queue', maxTasks: 5 });
+  });
+
+  it('rejects commands and options it does not know', () => {
+    expect(() => parseCliArgs([])).toThrow('No command given');
+    expect(() => parseCliArgs(['scrape'])).toThrow('Unknown command "scrape"');
+    expect(() => parseCliArgs(['diff', '--force'])).toThrow('Unknown option "--force"');
+    expect(() => parseCliArgs(['diff', '--source'])).toThrow('--source needs a value');
+    expect(() => parseCliArgs(['dry-run', '--format', 'csv'])).toThrow('only apply to export');
+    expect(() => parseCliArgs(['run', '--max-tasks', '5'])).toThrow('only applies to queue');
+  });
+});
+
+describe('exportJobs', () => {
+  it('writes CSV with quoted cells', () => {
+    const [header, row] = exportJobs([job], 'csv').trim().split('\n');
+    expect(header.startsWith('title,grade,specialty,scheme_type,hospital_name')).toBe(true);
+    expect(row.startsWith(`"Registrar in Haematology, ""Day Ward""",REGISTRAR,OTHER,NON_TRAINING_SERVICE,St. James's Hospital,`)).toBe(true);
+  });
+
+  it('writes every field as JSON', () => {
+    expect(JSON.parse(exportJobs([job], 'json'))).toEqual([job]);
+  });
+});
+
+describe('formatDryRun', () => {
+  it('lists what a save would insert, update and deactivate', () => {
+    const preview = {
+      collected: { status: 'PARTIAL', scrapers_run: ['StJames'], total_jobs_scraped: 2, jobs: [job, job], errors: [] },
+      plan: {
+        jobs: [],
+        inserts: [{ title: 'SHO in Neurosurgery', hospital_name: 'Beaumont Hospital' }],
+        updates: [{
+          job: { title: 'Registrar in Haematology', hospital_name: "St. James's Hospital" },
+          existing: {},
+          changes: [{ field: 'application_deadline', old_value: '2026-03-20T12:00:00.000Z', new_value: '2026-03-27T12:00:00.000Z' }],
+        }],
+        unchanged: 4,
+        stale: [
+          { source: 'NRS', skipped: null, missing: [{ id: '3', title: 'SHO Paediatrics', job_key: 'c', missed_runs: 1 }],
+            deactivate: [{ id: '1', title: 'SHO Old Post', job_key: 'a', missed_runs: 3 }] },
+          { source: 'DIRECT_HOSPITAL', skipped: 'Rotunda run was PARTIAL', deactivate: [],
+            missing: [{ id: '2', title: 'Registrar in Neonatology', job_key: 'b', missed_runs: 0 }] },
+        ],
+      },
+    } as unknown as RunPreview;
+
+    expect(formatDryRun(preview)).toEqual([
+      'Scrapers: StJames (PARTIAL)',
+      'Jobs: 2 scraped, 2 after deduplication',
+      'Would save: 1 new, 1 updated, 4 unchanged, 1 deactivated, 2 unseen but kept active',
+      '',
+      'Insert:',
+      '  + SHO in Neurosurgery — Beaumont Hospital',
+      '',
+      'Update:',
+      "  ~ Registrar in Haematology — St. James's Hospital (application_deadline)",
+      '',
+      'Deactivate (NRS):',
+      '  - SHO Old Post (missed 3 of 3 runs)',
+      '',
+      'Not seen, kept active for now (NRS):',
+      '  ? SHO Paediatrics (missed 1 of 3 runs)',
+      '',
+      'Not seen but left alone (DIRECT_HOSPITAL: Rotunda run was PARTIAL):',
+      '  ? Registrar in Neonatology',
+    ]);
+  });
+});
+
+describe('formatQueueProgress', () => {
+  it('counts a run\'s tasks overall and per scraper', () => {
+    const task = (scraper: string, status: ScrapeTask['status'], job_count = 0) => ({ scraper, status, job_count } as ScrapeTask);
+    const run: ScrapeRun = { id: 'run-1', status: 'RUNNING', scrapers: ['HSE', 'Rezoomo'], created_at: '2026-10-19T02:00:00.000Z', completed_at: null };
+    const progress = summarizeProgress(run, [
+      task('HSE', 'DONE', 12),
+      task('HSE', 'DONE', 3),
+      task('HSE', 'FAILED'),
+      task('HSE', 'PENDING'),
+      task('Rezoomo', 'RUNNING'),
+    ]);
+
+    expect(formatQueueProgress(progress)).toEqual([
+      'Run run-1 (in progress, started 2026-10-19T02:00:00.000Z)',
+      'Tasks: 3 of 5 finished (1 failed), 1 running, 1 pending; 15 jobs',
+      '  HSE              3/4 tasks (1 failed), 15 jobs',
+      '  Rezoomo          0/1 tasks, 0 jobs',
+    ]);
+  });
+});
@@ -0,0 +1,58 @@
+import { describe, it, expect } from 'vitest';
+import { dublinTimeToUtc, parseIrishDeadline, UNKNOWN_DEADLINE } from '../deadline-parser';
+
+const REFERENCE = new Date('2026-03-01T12:00:00Z');
+
+function parse(text: string, reference: Date = REFERENCE) {
+  return parseIrishDeadline(text, reference);
+}
+
+describe('parseIrishDeadline', () => {
+  it('reads a written date with ordinal, weekday and "12 noon"', () => {
+    expect(parse('Friday 14th March 2026 at 12 noon')).toEqual({
+      iso: '2026-03-14T12:00:00.000Z',
+      precision: 'DATETIME',
+    });
+  });
+
+  it('reads day-first numeric dates with a 24h time', () => {
+    expect(parse('Closing: 14/03/2026 17:00')).toEqual({ iso: '2026-03-14T17:00:00.000Z', precision: 'DATETIME' });
+    expect(parse('14-03-2026 at 5.30 p.m.')).toEqual({ iso: '2026-03-14T17:30:00.000Z', precision: 'DATETIME' });
+  });
+
+  it('treats a date without a time as open until end of day', () => {
+    expect(parse('14.03.26')).toEqual({ iso: '2026-03-14T23:59:00.000Z', precision: 'DATE' });
+  });
+
+  it('applies Irish Summer Time from the last Sunday in March', () => {
+    expect(parse('28 March 2026 12:00')).toMatchObject({ iso: '2026-03-28T12:00:00.000Z' });
+    expect(parse('29 March 2026 12:00')).toMatchObject({ iso: '2026-03-29T11:00:00.000Z' });
+    expect(parse('Closing date: 3rd July 2026, 5pm')).toEqual({ iso: '2026-07-03T16:00:00.000Z', precision: 'DATETIME' });
+  });
+
+  it('understands month abbreviations and Irish month names', () => {
+    expect(parse('Closes 4 Sept 2026')).toMatchObject({ iso: '2026-09-04T22:59:00.000Z' });
+    expect(parse('14 Márta 2026')).toMatchObject({ iso: '2026-03-14T23:59:00.000Z' });
+    expect(parse('Dé hAoine, 2 Deireadh Fómhair 2026')).toMatchObject({ iso: '2026-10-02T22:59:00.000Z' });
+    expect(parse('March 14, 2026')).toMatchObject({ iso: '2026-03-14T23:59:00.000Z' });
+  });
+
+  it('rolls a year-less date that has long passed into next year', () => {
+    const december = new Date('2026-12-01T12:00:00Z');
+    expect(parse('Closes 10 January', december)).toMatchObject({ iso: '2027-01-10T23:59:00.000Z' });
+    expect(parse('Closes 20 December', december)).toMatchObject({ iso: '2026-12-20T23:59:00.000Z' });
+  });
+
+  it('returns unknown instead of guessing', () => {
+    expect(parse('Open until filled')).toBe(UNKNOWN_DEADLINE);
+    expect(parse('')).toBe(UNKNOWN_DEADLINE);
+    expect(parse('31/02/2026')).toBe(UNKNOWN_DEADLINE);
+  });
+});
+
+describe('dublinTimeToUtc', () => {
+  it('maps Irish wall-clock time across the October switch back to GMT', () => {
+    expect(dublinTimeToUtc(2026, 10, 24, 9, 0).toISOString()).toBe('2026-10-24T08:00:00.000Z');
+    expect(dublinTimeToUtc(2026, 10, 25, 9, 0).toISOString()).toBe('2026-10-25T09:00:00.000Z');
+  });
+});
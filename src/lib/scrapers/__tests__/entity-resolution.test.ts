@@ -0,0 +1,109 @@
+import { describe, it, expect } from 'vitest';
+import type { ScrapedJob } from '../base';
+import { resolveEntities, titleTokens, tokenSimilarity } from '../entity-resolution';
+import { computeJobKey } from '../job-identity';
+
+function makeJob(overrides: Partial<ScrapedJob>): ScrapedJob {
+  return {
+    title: 'SHO in General Medicine',
+    grade: 'SHO',
+    specialty: 'GENERAL_MEDICINE',
+    scheme_type: 'NON_TRAINING_SERVICE',
+    hospital_name: 'Mater Misericordiae University Hospital',
+    hospital_group: 'IEHG',
+    county: 'Dublin',
+    application_deadline: '2026-03-12T12:00:00.000Z',
+    source_url: 'https://about.hse.ie/jobs/job-search/sho-general-medicine-mater/',
+    source_platform: 'ABOUT_HSE',
+    scraped_at: '2026-03-01T02:00:00.000Z',
+    ...overrides,
+  };
+}
+
+describe('titleTokens', () => {
+  it('drops grade words, stopwords and hospital-name words', () => {
+    const tokens = titleTokens('SHO in General Medicine - Mater Misericordiae University Hospital', 'Mater Misericordiae University Hospital');
+    expect([...tokens]).toEqual(['medicine']);
+  });
+
+  it('scores reworded titles of the same post as similar', () => {
+    const a = titleTokens('Registrar Emergency Medicine (Jan 2026)');
+    const b = titleTokens('Emergency Medicine Registrar');
+    expect(tokenSimilarity(a, b)).toBeGreaterThanOrEqual(0.5);
+  });
+});
+
+describe('resolveEntities', () => {
+  it('merges the same Mater SHO post across HSE, Rezoomo and DoctorJobs', () => {
+    const jobs = [
+      makeJob({}),
+      makeJob({
+        title: 'Senior House Officer - General Medicine - Mater Hospital',
+        hospital_name: 'Mater Hospital',
+        source_url: 'https://mater.rezoomo.com/job/1234',
+        application_url: 'https://mater.rezoomo.com/job/1234/apply',
+        informal_enquiries_email: 'medicine@mater.ie',
+        source_platform: 'REZOOMO',
+        application_deadline: '2026-03-14T12:00:00.000Z',
+      }),
+      makeJob({
+        title: 'General Medicine SHO, MMUH',
+        hospital_name: 'MMUH',
+        source_url: 'https://www.doctorjobs.ie/job/5678',
+        source_platform: 'DOCTOR_JOBS',
+      }),
+    ];
+
+    const resolved = resolveEntities(jobs);
+    expect(resolved).toHaveLength(1);
+
+    const merged = resolved[0];
+    // The HSE listing is primary; the more complete Rezoomo listing fills its gaps
+    expect(merged.source_platform).toBe('ABOUT_HSE');
+    expect(merged.listings!.map(l => l.platform)).toEqual(['ABOUT_HSE', 'REZOOMO', 'DOCTOR_JOBS']);
+    expect(merged.informal_enquiries_email).toBe('medicine@mater.ie');
+  });
+
+  it('keeps one job key for a posting whichever listing is most complete', () => {
+    const hse = makeJob({ title: 'Registrar Ophthalmology MW26MOB2', hospital_name: 'University Hospital Limerick' });
+    const rezoomo = makeJob({
+      title: 'Ophthalmology Registrar MW26MOB2',
+      hospital_name: 'University Hospital Limerick',
+      source_platform: 'REZOOMO',
+      source_url: 'https://uhl.rezoomo.com/job/42',
+    });
+    const complete = { application_url: 'https://uhl.rezoomo.com/job/42/apply', clinical_lead: 'Dr D Walsh' };
+
+    const [sparse] = resolveEntities([hse, { ...rezoomo, ...complete }]);
+    const [full] = resolveEntities([{ ...hse, ...complete, job_spec_pdf_url: 'https://about.hse.ie/spec.pdf' }, rezoomo]);
+
+    expect(computeJobKey(sparse)).toBe('about_hse:ref:MW26MOB2');
+    expect(computeJobKey(full)).toBe(computeJobKey(sparse));
+    expect(sparse.clinical_lead).toBe('Dr D Walsh');
+  });
+
+  it('matches on a shared HSE reference code regardless of wording', () => {
+    const resolved = resolveEntities([
+      makeJob({ title: 'Registrar Ophthalmology MW26MOB2', grade: 'REGISTRAR', specialty: 'OPHTHALMOLOGY', hospital_name: 'University Hospital Limerick' }),
+      makeJob({ title: 'Eye Registrar post MW26MOB2', grade: 'REGISTRAR', specialty: 'OPHTHALMOLOGY', hospital_name: 'UHL', source_platform: 'HEALTHCARE_JOBS', source_url: 'https://www.healthcarejobs.ie/job/99' }),
+    ]);
+    expect(resolved).toHaveLength(1);
+    expect(resolved[0].listings).toHaveLength(2);
+  });
+
+  it('keeps different posts apart', () => {
+    const resolved = resolveEntities([
+      makeJob({}),
+      // Same platform — never fuzzy-merged
+      makeJob({ title: 'SHO General Medicine (Rotation B)', source_url: 'https://about.hse.ie/jobs/job-search/rotation-b/' }),
+      // Different grade
+      makeJob({ title: 'Registrar in General Medicine', grade: 'REGISTRAR', source_platform: 'REZOOMO', source_url: 'https://mater.rezoomo.com/job/1' }),
+      // Deadline too far apart
+      makeJob({ source_platform: 'DOCTOR_JOBS', source_url: 'https://www.doctorjobs.ie/job/2', application_deadline: '2026-06-30T12:00:00.000Z' }),
+      // Different hospital
+      makeJob({ hospital_name: 'Beaumont Hospital', source_platform: 'HEALTHCARE_JOBS', source_url: 'https://www.healthcarejobs.ie/job/3' }),
+    ]);
+    expect(resolved).toHaveLength(5);
+    expect(resolved.every(j => j.listings!.length === 1)).toBe(true);
+  });
+});
@@ -0,0 +1,112 @@
+import { describe, it, expect } from 'vitest';
+import {
+  classifyGrade,
+  classifySchemeType,
+  classifySpecialty,
+  lowConfidenceFields,
+  needsReview,
+  resolveHospital,
+  scoreTitleFields,
+} from '../field-confidence';
+import { getHospitalNameLog } from '../hospital-names';
+
+describe('title classifiers', () => {
+  it('reports the keyword that decided each field', () => {
+    expect(classifyGrade('Registrar in Cardiology')).toEqual({
+      value: 'REGISTRAR',
+      confidence: { score: 0.9, reason: 'KEYWORD', matched: 'registrar' },
+    });
+    expect(classifySpecialty('ENT Surgery SHO').value).toBe('ENT');
+    expect(classifySchemeType('Higher Specialist Training post').confidence.reason).toBe('KEYWORD');
+  });
+
+  it('scores defaults and broad keywords low', () => {
+    expect(classifyGrade('Locum Doctor').confidence).toEqual({ score: 0.3, reason: 'DEFAULT' });
+    expect(classifySpecialty('Locum Doctor').confidence).toEqual({ score: 0.2, reason: 'DEFAULT' });
+    expect(classifySpecialty('SHO in Medicine').confidence).toMatchObject({ reason: 'GENERIC_KEYWORD', matched: 'medicine' });
+  });
+
+  it('files a job under the most specific specialty its title names', () => {
+    expect(classifySpecialty('Registrar in Geriatric Medicine').value).toBe('GERIATRICS');
+    expect(classifySpecialty('SHO Renal Medicine').value).toBe('NEPHROLOGY');
+    expect(classifySpecialty('Registrar Plastic and Reconstructive Surgery').value).toBe('PLASTIC_SURGERY');
+    expect(classifySpecialty('Cardiothoracic Surgery Registrar').value).toBe('CARDIOTHORACIC_SURGERY');
+    expect(classifySpecialty('SHO Neonatal Intensive Care').value).toBe('NEONATOLOGY');
+    expect(classifySpecialty('SHO Anaesthesia & Intensive Care').value).toBe('ANAESTHETICS');
+    expect(classifySpecialty('Registrar Cardiothoracic Anaesthesia').value).toBe('ANAESTHETICS');
+    expect(classifySpecialty('Specialist Registrar Public Health Medicine').value).toBe('PUBLIC_HEALTH');
+    expect(classifySpecialty('General Internal Medicine SHO').confidence).toMatchObject({ score: 0.9, matched: 'internal medicine' });
+  });
+
+  it('matches abbreviations only as whole words', () => {
+    expect(classifySpecialty('Registrar ICU').confidence).toEqual({ score: 0.85, reason: 'KEYWORD', matched: 'icu' });
+    expect(classifySpecialty('SHO, GP Training Scheme').value).toBe('GENERAL_PRACTICE');
+    expect(classifySpecialty('SHO Medicine, curriculum-based rotation').value).toBe('GENERAL_MEDICINE');
+  });
+
+  it('flags a title where nothing matched for review', () => {
+    const fields = scoreTitleFields('Locum Doctor');
+    expect(lowConfidenceFields(fields)).toEqual(['grade', 'specialty']);
+    expect(needsReview(fields)).toBe(true);
+    expect(needsReview(scoreTitleFields('Registrar in Cardiology'))).toBe(false);
+  });
+});
+
+describe('resolveHospital', () => {
+  it('trusts a named hospital over the county', () => {
+    const { hospital, confidence } = resolveHospital('SHO, Beaumont Hospital', 'Dublin');
+    expect(hospital?.id).toBe('beaumont');
+    expect(confidence.reason).toBe('HOSPITAL_NAME');
+    expect(confidence.score).toBeGreaterThanOrEqual(0.8);
+  });
+
+  it('marks the county guess as a low-confidence fallback', () => {
+    const { hospital, confidence } = resolveHospital('NCHD vacancy', 'Galway');
+    expect(hospital?.county).toBe('Galway');
+    expect(confidence).toEqual({ score: 0.3, reason: 'COUNTY_FALLBACK', matched: 'Galway' });
+  });
+
+  it("places a psychiatry post with no named location at the county's mental health service", () => {
+    const { hospital, confidence } = resolveHospital('SHO in Psychiatry', 'Cork');
+    expect(hospital).toMatchObject({ id: 'corkmhs', type: 'MENTAL_HEALTH_SERVICE' });
+    expect(confidence).toEqual({ score: 0.3, reason: 'COUNTY_FALLBACK', matched: 'Cork' });
+
+    expect(resolveHospital('Registrar Psychiatry MW26PS1', 'Limerick').hospital?.id).toBe('limerickmhs');
+    expect(resolveHospital('SHO Psychiatry - Sligo University Hospital', 'Sligo').hospital?.id).toBe('sligo');
+  });
+
+  it('falls back to a weak candidate in the county before its main hospital', () => {
+    const { hospital, confidence } = resolveHospital('Misericordiae SHO rota', 'Dublin');
+    expect(hospital?.id).toBe('mater');
+    expect(confidence.reason).toBe('COUNTY_FALLBACK');
+  });
+
+  it('logs text it could not confidently match, counting repeats', () => {
+    const log = getHospitalNameLog();
+    log.drain();
+
+    resolveHospital('SHO, Beaumont Hospital', 'Dublin');
+    resolveHospital('Registrar, Beaumount Hospital', 'Dublin');
+    resolveHospital('Registrar,  beaumount hospital', 'Dublin');
+    resolveHospital('NCHD vacancy', 'Galway');
+
+    expect(log.drain()).toEqual([
+      {
+        normalized_text: 'registrar beaumount hospital',
+        sample_text: 'Registrar, Beaumount Hospital',
+        county: 'Dublin',
+        best_score: 0.6,
+        candidates: [{ hospital_id: 'beaumont', score: 0.6, strategy: 'TOKENS' }],
+        occurrences: 2,
+      },
+      expect.objectContaining({ normalized_text: 'nchd vacancy', best_score: 0, candidates: [], occurrences: 1 }),
+    ]);
+  });
+
+  it('has no hospital and zero confidence when nothing is known', () => {
+    expect(resolveHospital('NCHD vacancy', 'Atlantis')).toEqual({
+      hospital: null,
+      confidence: { score: 0, reason: 'DEFAULT' },
+    });
+  });
+});
@@ -0,0 +1,241 @@
+import { describe, it, expect, afterEach } from 'vitest';
+import * as fs from 'fs';
+import * as os from 'os';
+import * as path from 'path';
+import { FixtureStore } from '../fixtures';
+import { MemoryDetailCache } from '../detail-cache';
+import { ScraperOrchestrator } from '../orchestrator';
+import { computeJobKey } from '../job-identity';
+
+const REPLAY_DIR = path.join(__dirname, 'fixtures', 'replay');
+
+// ─── FixtureStore ───────────────────────────────────────────────────────────
+
+describe('FixtureStore', () => {
+  let tmpDir: string | null = null;
+
+  afterEach(() => {
+    if (tmpDir) fs.rmSync(tmpDir, { recursive: true, force: true });
+    tmpDir = null;
+  });
+
+  it('round-trips a recorded page through the manifest', () => {
+    tmpDir = fs.mkdtempSync(path.join(os.tmpdir(), 'medjob-fixtures-'));
+    const url = 'https://about.hse.ie/jobs/job-search/?category=medical+and+dental&page=3';
+
+    const recorder = new FixtureStore('record', tmpDir);
+    recorder.save(url, '<html>page 3</html>', 'ABOUT_HSE');
+
+    const replayer = new FixtureStore('replay', tmpDir);
+    expect(replayer.has(url)).toBe(true);
+    expect(replayer.load(url)).toBe('<html>page 3</html>');
+    expect(replayer.list('ABOUT_HSE')).toHaveLength(1);
+    expect(replayer.list('REZOOMO')).toHaveLength(0);
+  });
+
+  it('re-recording a URL overwrites the same file', () => {
+    tmpDir = fs.mkdtempSync(path.join(os.tmpdir(), 'medjob-fixtures-'));
+    const url = 'https://www.healthcarejobs.ie/jobs?query=NCHD';
+
+    const store = new FixtureStore('record', tmpDir);
+    store.save(url, 'first', 'HEALTHCARE_JOBS');
+    store.save(url, 'second', 'HEALTHCARE_JOBS');
+
+    expect(store.list()).toHaveLength(1);
+    expect(store.load(url)).toBe('second');
+  });
+
+  it('returns null for URLs that were never recorded', () => {
+    const store = new FixtureStore('replay', REPLAY_DIR);
+    expect(store.load('https://about.hse.ie/never-recorded')).toBeNull();
+  });
+});
+
+// ─── Offline orchestrator run ───────────────────────────────────────────────
+
+describe('ScraperOrchestrator replay', () => {
+  it('scrapes recorded HSE, HealthcareJobs and hospital pages without the network', async () => {
+    const orchestrator = new ScraperOrchestrator();
+    orchestrator.useFixtures(new FixtureStore('replay', REPLAY_DIR));
+
+    const { jobs, scrapers_run, errors } = await orchestrator.collectJobs();
+
+    expect(scrapers_run).toEqual(['HSE', 'HealthcareJobs', 'StJames', 'Beaumont', 'Tallaght', 'Coombe', 'Rotunda']);
+    expect(errors).toEqual([]);
+
+    const titles = jobs.map(j => j.title).sort();
+    expect(titles).toEqual([
+      'Non-Consultant Hospital Doctor (Registrar) – Paediatrics',
+      'Registrar - Ophthalmology - July 2026 MW26MOB2',
+      'Registrar in Haematology',
+      'Registrar in Neonatology',
+      'Registrar in Respiratory Medicine, Beaumont Hospital',
+      'SHO Emergency Medicine, Cork University Hospital',
+      'SHO Obstetrics and Gynaecology - July 2026 Intake',
+      'SHO Psychiatry - Sligo University Hospital',
+      'SHO in Neurosurgery',
+      'Senior House Officer - Geriatric Medicine',
+      'Senior House Officer – Orthopaedics',
+      'Senior House Officer – Urology',
+    ]);
+  });
+
+  it('reports per-source telemetry for the run', async () => {
+    const orchestrator = new ScraperOrchestrator();
+    orchestrator.useFixtures(new FixtureStore('replay', REPLAY_DIR));
+
+    const { status, source_runs } = await orchestrator.collectJobs();
+
+    expect(status).toBe('SUCCESS');
+    expect(source_runs.map(r => [r.scraper, r.platform, r.status, r.pages_fetched, r.jobs_found])).toEqual([
+      ['HSE', 'ABOUT_HSE', 'SUCCESS', 3, 3],
+      ['HealthcareJobs', 'HEALTHCARE_JOBS', 'SUCCESS', 1, 1],
+      ['StJames', 'DIRECT_HOSPITAL', 'SUCCESS', 2, 2],
+      ['Beaumont', 'DIRECT_HOSPITAL', 'SUCCESS', 1, 1],
+      ['Tallaght', 'DIRECT_HOSPITAL', 'SUCCESS', 1, 3],
+      ['Coombe', 'DIRECT_HOSPITAL', 'SUCCESS', 1, 1],
+      ['Rotunda', 'DIRECT_HOSPITAL', 'SUCCESS', 1, 1],
+    ]);
+    for (const run of source_runs) {
+      expect(new Date(run.completed_at).getTime()).toBeGreaterThanOrEqual(new Date(run.started_at).getTime());
+    }
+  });
+
+  it('runs only the named sources', async () => {
+    const orchestrator = new ScraperOrchestrator();
+    orchestrator.useFixtures(new FixtureStore('replay', REPLAY_DIR));
+
+    const { scrapers_run, jobs } = await orchestrator.collectJobs({ sources: ['beaumont', 'HealthcareJobs'] });
+
+    expect(scrapers_run).toEqual(['HealthcareJobs', 'Beaumont']);
+    expect(jobs.map(j => j.title).sort()).toEqual(['SHO Psychiatry - Sligo University Hospital', 'SHO in Neurosurgery']);
+    await expect(orchestrator.collectJobs({ sources: ['HSE', 'Temple Street'] }))
+      .rejects.toThrow('Unknown scraper "Temple Street"');
+  });
+
+  it('parses recorded cards the same way as live pages', async () => {
+    const orchestrator = new ScraperOrchestrator();
+    orchestrator.useFixtures(new FixtureStore('replay', REPLAY_DIR));
+
+    const { jobs } = await orchestrator.collectJobs();
+    const byTitle = new Map(jobs.map(j => [j.title, j]));
+
+    const respiratory = byTitle.get('Registrar in Respiratory Medicine, Beaumont Hospital')!;
+    expect(respiratory.grade).toBe('REGISTRAR');
+    expect(respiratory.specialty).toBe('RESPIRATORY');
+    expect(respiratory.hospital_name).toBe('Beaumont Hospital');
+    expect(respiratory.source_url).toBe(
+      'https://about.hse.ie/jobs/job-search/registrar-respiratory-medicine-beaumont-hospital/'
+    );
+
+    // Ref code MW26 → Limerick, even when replayed
+    const ophthalmology = byTitle.get('Registrar - Ophthalmology - July 2026 MW26MOB2')!;
+    expect(ophthalmology.county).toBe('Limerick');
+
+    const psychiatry = byTitle.get('SHO Psychiatry - Sligo University Hospital')!;
+    expect(psychiatry.source_platform).toBe('HEALTHCARE_JOBS');
+    expect(psychiatry.county).toBe('Sligo');
+  });
+
+  it('resolves hospital career page jobs to the hospital that posted them', async () => {
+    const orchestrator = new ScraperOrchestrator();
+    orchestrator.useFixtures(new FixtureStore('replay', REPLAY_DIR));
+
+    const { jobs } = await orchestrator.collectJobs();
+    const byTitle = new Map(jobs.map(j => [j.title, j]));
+
+    expect(byTitle.get('Registrar in Haematology')).toMatchObject({
+      hospital_name: "St. James's Hospital",
+      hospital_group: 'DMHG',
+      county: 'Dublin',
+      reference_number: 'SJH/NCHD/0426',
+      application_deadline: '2026-03-27T12:00:00.000Z',
+      deadline_precision: 'DATETIME',
+      source_platform: 'DIRECT_HOSPITAL',
+      source_url: 'https://www.stjames.ie/careers/currentvacancies/registrar-haematology-0426/',
+      job_spec_pdf_url: 'https://www.stjames.ie/media/vacancies/sjh-nchd-0426-job-specification.pdf',
+      field_confidence: { hospital_name: { score: 1, reason: 'SOURCE_CONFIG', matched: "St. James's Hospital" } },
+    });
+
+    expect(byTitle.get('SHO in Neurosurgery')).toMatchObject({
+      hospital_name: 'Beaumont Hospital',
+      reference_number: 'BH-NCHD-2611',
+    });
+    expect(byTitle.get('Non-Consultant Hospital Doctor (Registrar) – Paediatrics')).toMatchObject({
+      hospital_name: 'Tallaght University Hospital',
+      grade: 'REGISTRAR',
+      specialty: 'PAEDIATRICS',
+    });
+    // Cards without a link of their own stay separate jobs
+    const urology = byTitle.get('Senior House Officer – Urology')!;
+    const orthopaedics = byTitle.get('Senior House Officer – Orthopaedics')!;
+    expect(urology).toMatchObject({
+      application_url: 'https://www.tuh.ie/Careers/Current-Vacancies/',
+      source_url: 'https://www.tuh.ie/Careers/Current-Vacancies/#senior-house-officer-urology',
+    });
+    expect(computeJobKey(urology)).not.toBe(computeJobKey(orthopaedics));
+
+    expect(byTitle.get('Registrar in Neonatology')).toMatchObject({
+      hospital_name: 'Rotunda Hospital',
+      reference_number: 'RH/26/014',
+      job_spec_pdf_url: 'https://rotunda.ie/wp-content/uploads/2026/03/RH-26-014-Job-Spec.pdf',
+    });
+  });
+
+  it('fills HSE jobs from their posting pages', async () => {
+    const orchestrator = new ScraperOrchestrator();
+    orchestrator.useFixtures(new FixtureStore('replay', REPLAY_DIR));
+
+    const { jobs } = await orchestrator.collectJobs();
+    const respiratory = jobs.find(j => j.title === 'Registrar in Respiratory Medicine, Beaumont Hospital')!;
+
+    expect(respiratory).toMatchObject({
+      reference_number: 'BH26RESP4',
+      application_deadline: '2026-03-13T12:00:00.000Z',
+      deadline_precision: 'DATETIME',
+      clinical_lead: 'Prof. Aoife Brennan, Consultant Respiratory Physician',
+      rotational_detail: '6 months respiratory and general internal medicine',
+      informal_enquiries_name: 'Dr Ciara Doyle',
+      informal_enquiries_email: 'ciara.doyle@beaumont.ie',
+      medical_manpower_email: 'medicalrecruitment@beaumont.ie',
+      salary_range: '€55,965 - €76,079',
+      job_spec_pdf_url: 'https://about.hse.ie/media/jobs/bh26resp4-job-specification.pdf',
+    });
+  });
+
+  it('reuses cached details while a listing card is unchanged', async () => {
+    const orchestrator = new ScraperOrchestrator();
+    orchestrator.useFixtures(new FixtureStore('replay', REPLAY_DIR));
+    orchestrator.useDetailCache(new MemoryDetailCache());
+
+    const first = await orchestrator.collectJobs();
+    const second = await orchestrator.collectJobs();
+
+    expect(first.source_runs[0].pages_fetched).toBe(3);
+    expect(second.source_runs[0].pages_fetched).toBe(2);
+    const contact = (run: typeof first) =>
+      run.jobs.find(j => j.reference_number === 'BH26RESP4')?.informal_enquiries_email;
+    expect(contact(second)).toBe(contact(first));
+  });
+
+  it('stops fetching once the run deadline has passed', async () => {
+    const orchestrator = new ScraperOrchestrator();
+    orchestrator.useFixtures(new FixtureStore('replay', REPLAY_DIR));
+
+    const { status, deadline_reached, jobs, source_runs } = await orchestrator.collectJobs({ budgetMs: 0 });
+
+    expect(deadline_reached).toBe(true);
+    expect(status).toBe('FAILURE');
+    expect(jobs).toEqual([]);
+    expect(source_runs.map(r => [r.scraper, r.status, r.pages_fetched])).toEqual([
+      ['HSE', 'FAILURE', 0],
+      ['HealthcareJobs', 'FAILURE', 0],
+      ['StJames', 'FAILURE', 0],
+      ['Beaumont', 'FAILURE', 0],
+      ['Tallaght', 'FAILURE', 0],
+      ['Coombe', 'FAILURE', 0],
+      ['Rotunda', 'FAILURE', 0],
+    ]);
+    expect(source_runs[0].error).toBe('Stopped at the run deadline with 1 page(s) unfetched');
+  });
+});
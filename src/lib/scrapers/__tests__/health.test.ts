@@ -0,0 +1,89 @@
+import { describe, it, expect } from 'vitest';
+import type { ScrapedJob } from '../base';
+import { detectAnomalies, summarizeJobs, type SourceSignals } from '../health';
+
+const SCRAPED_AT = '2026-03-01T02:00:00.000Z';
+
+function makeJob(overrides: Partial<ScrapedJob>): ScrapedJob {
+  return {
+    title: 'SHO in General Medicine',
+    grade: 'SHO',
+    specialty: 'GENERAL_MEDICINE',
+    scheme_type: 'NON_TRAINING_SERVICE',
+    hospital_name: 'Beaumont Hospital',
+    hospital_group: 'RCSI',
+    county: 'Dublin',
+    application_deadline: '2026-03-12T12:00:00.000Z',
+    source_url: 'https://about.hse.ie/jobs/job-search/',
+    source_platform: 'ABOUT_HSE',
+    scraped_at: SCRAPED_AT,
+    ...overrides,
+  };
+}
+
+function signals(overrides: Partial<SourceSignals>): SourceSignals {
+  return {
+    jobs_found: 90,
+    listing_pages: 5,
+    fallback_pages: 0,
+    defaulted_deadlines: 0,
+    distinct_hospitals: 20,
+    top_hospital: 'Beaumont Hospital',
+    ...overrides,
+  };
+}
+
+const HSE_HISTORY = [95, 110, 88, 102, 97].map(n => ({ status: 'SUCCESS' as const, jobs_found: n }));
+
+describe('detectAnomalies', () => {
+  it('passes a normal run', () => {
+    expect(detectAnomalies('HSE', signals({}), HSE_HISTORY)).toEqual([]);
+  });
+
+  it('flags a sudden count drop as critical', () => {
+    const [anomaly] = detectAnomalies('HSE', signals({ jobs_found: 3 }), HSE_HISTORY);
+    expect(anomaly.kind).toBe('COUNT_DROP');
+    expect(anomaly.severity).toBe('critical');
+    expect(anomaly.message).toBe('HSE yielded 3 jobs; recent runs yielded ~97');
+  });
+
+  it('needs enough history before comparing counts', () => {
+    expect(detectAnomalies('HSE', signals({ jobs_found: 3 }), HSE_HISTORY.slice(0, 2))).toEqual([]);
+  });
+
+  it('flags parsing that fell back to link extraction on every page', () => {
+    const kinds = detectAnomalies('HSE', signals({ fallback_pages: 5 }), HSE_HISTORY).map(a => a.kind);
+    expect(kinds).toEqual(['ALL_FALLBACK']);
+  });
+
+  it('flags defaulted deadlines and a single resolved hospital', () => {
+    const kinds = detectAnomalies(
+      'HealthcareJobs',
+      signals({ jobs_found: 12, defaulted_deadlines: 12, distinct_hospitals: 1 }),
+      []
+    ).map(a => a.kind);
+    expect(kinds).toEqual(['DEFAULT_DEADLINES', 'SINGLE_HOSPITAL']);
+  });
+});
+
+describe('summarizeJobs', () => {
+  it('counts estimated deadlines, whatever date they were estimated from', () => {
+    const summary = summarizeJobs(
+      [
+        makeJob({ application_deadline: '2026-03-22T02:00:00.000Z', deadline_precision: 'ESTIMATED' }),
+        makeJob({
+          application_deadline: '2026-02-26T09:00:00.000Z',
+          deadline_precision: 'ESTIMATED',
+          hospital_name: 'Mater Misericordiae University Hospital',
+        }),
+        makeJob({ application_deadline: '2026-03-22T02:00:00.000Z', deadline_precision: 'DATE' }),
+      ],
+      { pages_fetched: 2, listing_pages: 2, fallback_pages: 1, skipped_pages: 0 }
+    );
+
+    expect(summary.defaulted_deadlines).toBe(2);
+    expect(summary.distinct_hospitals).toBe(2);
+    expect(summary.top_hospital).toBe('Beaumont Hospital');
+    expect(summary.fallback_pages).toBe(1);
+  });
+});
@@ -1,9 +1,17 @@
-import { describe, it, expect } from 'vitest';
+import { afterEach, describe, it, expect } from 'vitest';
 import {
+  CONFIDENT_MATCH_SCORE,
+  findHospital,
+  getHospitalById,
+  MATCH_THRESHOLD,
   matchHospital,
   matchHospitalByCounty,
   inferCounty,
   inferCountyFromRefCode,
+  inferHealthRegion,
+  rankHospitals,
+  resolveHealthRegion,
+  setCustomAliases,
 } from '../hospital-matcher';
 
 // ─── inferCountyFromRefCode ─────────────────────────────────────────────────
@@ -92,19 +100,41 @@ describe('matchHospital', () => {
     expect(matchHospital('tralee')!.id).toBe('uhk');
   });
 
-  it('matches maternity hospitals to parent hospitals', () => {
-    expect(matchHospital('rotunda')!.id).toBe('mater');
-    expect(matchHospital('temple street')!.id).toBe('mater');
-    expect(matchHospital('holles street')!.id).toBe('stvincents');
-    expect(matchHospital('coombe')!.id).toBe('stjames');
-    expect(matchHospital('crumlin')!.id).toBe('stjames');
+  it("matches maternity and children's hospitals", () => {
+    expect(matchHospital('rotunda')).toMatchObject({ id: 'rotunda', type: 'MATERNITY_HOSPITAL' });
+    expect(matchHospital('temple street')).toMatchObject({ id: 'chitemplestreet', type: 'PAEDIATRIC_HOSPITAL' });
+    expect(matchHospital('holles street')!.id).toBe('nmh');
+    expect(matchHospital('coombe')!.id).toBe('coombe');
+    expect(matchHospital('crumlin')!.id).toBe('chicrumlin');
   });
 
   it('matches NMH and CHI aliases', () => {
-    expect(matchHospital('nmh')!.id).toBe('stvincents');
-    expect(matchHospital('national maternity')!.id).toBe('stvincents');
-    expect(matchHospital('chi')!.id).toBe('stjames');
-    expect(matchHospital("children's health ireland")!.id).toBe('stjames');
+    expect(matchHospital('nmh')!.id).toBe('nmh');
+    expect(matchHospital('national maternity')!.id).toBe('nmh');
+    expect(matchHospital('chi')!.id).toBe('chicrumlin');
+    expect(matchHospital("children's health ireland")!.id).toBe('chicrumlin');
+  });
+
+  it('matches locations beyond the acute hospitals', () => {
+    expect(matchHospital('SHO Psychiatry, Cork Mental Health Services')).toMatchObject({ id: 'corkmhs', type: 'MENTAL_HEALTH_SERVICE' });
+    expect(matchHospital("Registrar, St. Patrick's University Hospital")!.id).toBe('stpatricks');
+    expect(matchHospital('Palliative Medicine Registrar, Marymount')).toMatchObject({ id: 'marymount', type: 'HOSPICE' });
+    expect(matchHospital('Registrar in Ophthalmology, Eye and Ear')!.id).toBe('rveeh');
+    expect(matchHospital('GP Registrar, Galway GP Training Programme')).toMatchObject({ id: 'gpgalway', type: 'GP_TRAINING' });
+    expect(matchHospital('NCHD Psychiatry CHO 4')).toMatchObject({ id: 'cho4', type: 'COMMUNITY_HEALTHCARE' });
+    expect(matchHospital('Mater Private Hospital')).toMatchObject({ id: 'materprivate', type: 'PRIVATE_HOSPITAL' });
+  });
+
+  it('gives no hospital group to locations outside the groups', () => {
+    expect(matchHospital('Mater Private Hospital')!.hospitalGroup).toBeNull();
+    expect(matchHospital('Palliative Medicine Registrar, Marymount')!.hospitalGroup).toBeNull();
+    expect(matchHospital('NCHD Psychiatry CHO 4')!.hospitalGroup).toBeNull();
+    expect(matchHospital('Registrar in Ophthalmology, Eye and Ear')!.hospitalGroup).toBe('IEHG');
+  });
+
+  it("doesn't take a county in a location's name for the location", () => {
+    expect(matchHospital('NCHD role in Meath')).toBeNull();
+    expect(matchHospital('Registrar in Kerry')!.id).toBe('uhk');
   });
 
   it('ref code overrides text-matched hospital (the MW26MOB2 bug)', () => {
@@ -160,22 +190,48 @@ describe('matchHospitalByCounty', () => {
       'Dublin', 'Cork', 'Galway', 'Limerick', 'Waterford',
       'Kerry', 'Sligo', 'Donegal', 'Louth', 'Kilkenny',
       'Wexford', 'Westmeath', 'Laois', 'Kildare', 'Cavan',
-      'Clare', 'Tipperary', 'Mayo', 'Roscommon',
+      'Clare', 'Tipperary', 'Mayo', 'Roscommon', 'Meath',
+      'Offaly', 'Monaghan',
     ];
     for (const county of counties) {
       const result = matchHospitalByCounty(county);
       expect(result, `No hospital found for county: ${county}`).not.toBeNull();
       expect(result!.county).toBe(county);
+      expect(result!.type).toBe('ACUTE_HOSPITAL');
     }
   });
 
+  it("prefers the county's location for a specialty practised outside the general hospital", () => {
+    expect(matchHospitalByCounty('Cork', 'PSYCHIATRY')).toMatchObject({ id: 'corkmhs', type: 'MENTAL_HEALTH_SERVICE' });
+    expect(matchHospitalByCounty('Limerick', 'OBSTETRICS_GYNAECOLOGY')!.id).toBe('umhl');
+    expect(matchHospitalByCounty('Dublin', 'PAEDIATRICS')!.id).toBe('chicrumlin');
+    // No maternity hospital in Cavan, so its obstetric posts stay with the general hospital
+    expect(matchHospitalByCounty('Cavan', 'OBSTETRICS_GYNAECOLOGY')!.id).toBe('cavan');
+    expect(matchHospitalByCounty('Cork', 'CARDIOLOGY')!.id).toBe('cuh');
+    expect(matchHospitalByCounty('Cork', 'NEONATOLOGY')!.id).toBe('cumh');
+    expect(matchHospitalByCounty('Galway', 'PALLIATIVE_MEDICINE')!.id).toBe('galwayhospice');
+    expect(matchHospitalByCounty('Galway', 'GENERAL_PRACTICE')!.id).toBe('gpgalway');
+  });
+
   it('returns null for counties without hospitals', () => {
-    expect(matchHospitalByCounty('Meath')).toBeNull();
-    expect(matchHospitalByCounty('Offaly')).toBeNull();
+    expect(matchHospitalByCounty('Leitrim')).toBeNull();
+    expect(matchHospitalByCounty('Longford')).toBeNull();
     expect(matchHospitalByCounty('')).toBeNull();
   });
 });
 
+// ─── getHospitalById ────────────────────────────────────────────────────────
+
+describe('getHospitalById', () => {
+  it('looks up a hospital by its id', () => {
+    expect(getHospitalById('tallaght')).toMatchObject({ name: 'Tallaght University Hospital', county: 'Dublin', hospitalGroup: 'DMHG' });
+  });
+
+  it('returns null for unknown ids', () => {
+    expect(getHospitalById('atlantis')).toBeNull();
+  });
+});
+
 // ─── inferCounty ────────────────────────────────────────────────────────────
 
 describe('inferCounty', () => {
@@ -237,3 +293,77 @@ describe('real-world regression tests', () => {
     expect(inferCounty('Registrar NW26AB1 Sligo')).toBe('Sligo');
   });
 });
+
+// ─── rankHospitals ──────────────────────────────────────────────────────────
+
+describe('rankHospitals', () => {
+  afterEach(() => setCustomAliases([]));
+
+  it('ranks the named hospital first and scores it by how it was found', () => {
+    const [best] = rankHospitals("SHO, St. James's Hospital, Dublin 8");
+    expect(best).toMatchObject({ hospital: { id: 'stjames' }, strategy: 'NAME', matched: 'st james hospital' });
+    expect(best.score).toBeGreaterThanOrEqual(CONFIDENT_MATCH_SCORE);
+  });
+
+  it('matches a misspelt name at a lower score', () => {
+    const found = findHospital('Registrar, Beaumount Hospital');
+    expect(found).toMatchObject({ hospital: { id: 'beaumont' }, strategy: 'TOKENS' });
+    expect(found!.score).toBeGreaterThanOrEqual(MATCH_THRESHOLD);
+    expect(found!.score).toBeLessThan(CONFIDENT_MATCH_SCORE);
+  });
+
+  it('matches on the town, but only suggests hospitals that share one', () => {
+    expect(findHospital('SHO Medicine, Kilkenny')).toMatchObject({ hospital: { id: 'stlukeskilkenny' }, strategy: 'TOWN' });
+
+    expect(findHospital('Registrar post in Cork city')).toBeNull();
+    expect(rankHospitals('Registrar post in Cork city').map(c => c.hospital.id)).toEqual(['cuh', 'mercy', 'sivuh']);
+  });
+
+  it('offers partly named hospitals as candidates without matching them', () => {
+    const candidates = rankHospitals('Misericordiae SHO rota');
+    expect(candidates[0]).toMatchObject({ hospital: { id: 'mater' }, strategy: 'TOKENS' });
+    expect(findHospital('Misericordiae SHO rota')).toBeNull();
+  });
+
+  it('matches aliases added by admins', () => {
+    expect(matchHospital('SHO at the Regional Hospital Dooradoyle')).toBeNull();
+
+    setCustomAliases([{ alias: 'Dooradoyle', hospital_id: 'uhl' }, { alias: 'Atlantis General', hospital_id: 'atlantis' }]);
+
+    expect(findHospital('SHO at the Regional Hospital Dooradoyle')).toMatchObject({ hospital: { id: 'uhl' }, strategy: 'ALIAS' });
+    expect(matchHospital('Atlantis General')).toBeNull();
+  });
+});
+
+// ─── Health Regions ─────────────────────────────────────────────────────────
+
+describe('Health Regions', () => {
+  it('reads the region named in job text', () => {
+    expect(inferHealthRegion('Registrar, HSE Dublin and North East')).toBe('DUBLIN_NORTH_EAST');
+    expect(inferHealthRegion('SHO - HSE Dublin & Midlands')).toBe('DUBLIN_MIDLANDS');
+    expect(inferHealthRegion('Consultant, HSE West and North West')).toBe('WEST_NORTH_WEST');
+    expect(inferHealthRegion('Registrar, South/South West Hospital Group')).toBeNull();
+    expect(inferHealthRegion('SHO Medicine, Cork University Hospital')).toBeNull();
+  });
+
+  it('only matches hospitals in the named region', () => {
+    expect(findHospital("Registrar St Luke's Hospital")).toMatchObject({ hospital: { id: 'stlukeskilkenny' } });
+    expect(findHospital("Registrar St Luke's Hospital, HSE Dublin & Midlands")).toBeNull();
+    // The region's own name isn't taken for a location's (CHO 8 is "Midlands Louth Meath")
+    expect(rankHospitals('SHO, HSE Dublin and Midlands')).toEqual([]);
+  });
+
+  it("places a job that names only its region in the region's main county", () => {
+    expect(inferCounty('Registrar Medicine, HSE South West')).toBe('Cork');
+    expect(inferCounty('SHO post, HSE West and North West')).toBe('Galway');
+  });
+
+  it("resolves a job's region from its hospital, then its text, then its county", () => {
+    expect(getHospitalById('beaumont')).toMatchObject({ healthRegion: 'DUBLIN_NORTH_EAST' });
+    expect(resolveHealthRegion('Beaumont Hospital', 'Registrar, HSE Mid West', 'Dublin')).toBe('DUBLIN_NORTH_EAST');
+    expect(resolveHealthRegion('Unlisted Clinic', 'Registrar, HSE Mid West', 'Dublin')).toBe('MID_WEST');
+    expect(resolveHealthRegion('Unlisted Clinic', 'Registrar', 'Kerry')).toBe('SOUTH_WEST');
+    // Dublin is split between three regions
+    expect(resolveHealthRegion('Unlisted Clinic', 'Registrar', 'Dublin')).toBeNull();
+  });
+});
@@ -0,0 +1,56 @@
+import { describe, it, expect } from 'vitest';
+import { applyOverrides, changedOverrides } from '@/lib/jobOverrides';
+import type { Job } from '@/types/database.types';
+
+const scraped: Partial<Job> = {
+  title: 'SHO Post',
+  grade: 'SHO',
+  specialty: 'GENERAL_MEDICINE',
+  hospital_name: 'Cork University Hospital',
+  application_url: 'https://example.ie/apply',
+  field_confidence: {
+    grade: { score: 0.85, reason: 'KEYWORD', matched: 'sho' },
+    specialty: { score: 0.2, reason: 'DEFAULT' },
+    hospital_name: { score: 0.3, reason: 'COUNTY_FALLBACK', matched: 'Cork' },
+  },
+  needs_review: true,
+};
+
+describe('applyOverrides', () => {
+  it('keeps admin values over a fresh scrape and counts them as reviewed', () => {
+    const merged = applyOverrides(scraped, [
+      { field: 'specialty', value: 'CARDIOLOGY' },
+      { field: 'informal_enquiries_email', value: 'nchd@cuh.ie' },
+    ]);
+
+    expect(merged).toMatchObject({ title: 'SHO Post', specialty: 'CARDIOLOGY', informal_enquiries_email: 'nchd@cuh.ie' });
+    expect(merged.field_confidence?.specialty).toEqual({ score: 1, reason: 'REVIEWED' });
+    // The county-guessed hospital still needs a look
+    expect(merged.needs_review).toBe(true);
+  });
+
+  it('remembers a confirmed field until the scraped value changes', () => {
+    const existing: Partial<Job> = {
+      ...scraped,
+      field_confidence: { ...scraped.field_confidence, hospital_name: { score: 1, reason: 'REVIEWED' } },
+    };
+    const overrides = [{ field: 'specialty' as const, value: 'CARDIOLOGY' }];
+
+    expect(applyOverrides(scraped, overrides, existing).needs_review).toBe(false);
+
+    const moved = applyOverrides({ ...scraped, hospital_name: 'Mercy University Hospital' }, overrides, existing);
+    expect(moved.field_confidence?.hospital_name?.reason).toBe('COUNTY_FALLBACK');
+    expect(moved.needs_review).toBe(true);
+  });
+});
+
+describe('changedOverrides', () => {
+  it('ignores untouched fields and treats blanks as empty', () => {
+    expect(changedOverrides(scraped, {
+      title: 'SHO Post',
+      clinical_lead: '',
+      application_url: '',
+      grade: 'REGISTRAR',
+    })).toEqual({ application_url: null, grade: 'REGISTRAR' });
+  });
+});
@@ -0,0 +1,78 @@
+import { describe, it, expect } from 'vitest';
+import { computeJobKey, normalizePostingUrl } from '../job-identity';
+import { diffJobFields, describeChange } from '@/lib/jobRevisions';
+
+// ─── computeJobKey ──────────────────────────────────────────────────────────
+
+describe('computeJobKey', () => {
+  const base = {
+    title: 'Registrar in Respiratory Medicine, Beaumont Hospital',
+    hospital_name: 'Beaumont Hospital',
+    source_url: 'https://about.hse.ie/jobs/job-search/?category=medical+and+dental',
+    source_platform: 'ABOUT_HSE' as const,
+  };
+
+  it('keys on the HSE ref code so a retitled posting keeps its identity', () => {
+    const before = computeJobKey({ ...base, title: 'Registrar - Ophthalmology MW26MOB2' });
+    const after = computeJobKey({ ...base, title: 'Registrar - Ophthalmology (Re-advertised) MW26MOB2' });
+    expect(before).toBe('about_hse:ref:MW26MOB2');
+    expect(after).toBe(before);
+  });
+
+  it('uses the posting URL when there is no ref code', () => {
+    const key = computeJobKey({
+      ...base,
+      source_url: 'https://www.about.hse.ie/jobs/job-search/registrar-respiratory-medicine-beaumont-hospital/',
+    });
+    expect(key).toBe('about_hse:url:about.hse.ie/jobs/job-search/registrar-respiratory-medicine-beaumont-hospital');
+  });
+
+  it('falls back to title + hospital for listing-page URLs', () => {
+    expect(computeJobKey(base)).toBe(
+      'about_hse:title:registrar in respiratory medicine, beaumont hospital|beaumont hospital'
+    );
+  });
+
+  it('treats search and listing roots as non-identifying', () => {
+    expect(normalizePostingUrl('https://www.healthcarejobs.ie/jobs?query=registrar')).toBeNull();
+    expect(normalizePostingUrl('https://about.hse.ie/jobs/job-search/')).toBeNull();
+    expect(normalizePostingUrl('https://www.beaumont.ie/careers/current-vacancies#sho-urology')).toBeNull();
+    expect(normalizePostingUrl('not a url')).toBeNull();
+  });
+});
+
+// ─── diffJobFields ──────────────────────────────────────────────────────────
+
+describe('diffJobFields', () => {
+  it('records an extended deadline and a changed contact', () => {
+    const changes = diffJobFields(
+      { application_deadline: '2026-03-12T12:00:00Z', informal_enquiries_name: 'Dr A Murphy', is_active: true },
+      { application_deadline: '2026-03-19T12:00:00Z', informal_enquiries_name: 'Dr B Kelly', is_active: true }
+    );
+
+    expect(changes.map(c => c.field)).toEqual(['application_deadline', 'informal_enquiries_name']);
+    expect(describeChange(changes[0])).toBe('Deadline extended from 12 Mar to 19 Mar');
+  });
+
+  it('ignores fields the new scrape did not provide and same-day deadline drift', () => {
+    const changes = diffJobFields(
+      { application_deadline: '2026-03-12T09:00:00Z', clinical_lead: 'Dr C Byrne' },
+      { application_deadline: '2026-03-12T17:00:00Z', clinical_lead: undefined }
+    );
+    expect(changes).toEqual([]);
+  });
+
+  it('ignores one estimated deadline replacing another, but not a real one', () => {
+    const estimated = { application_deadline: '2026-03-12T12:00:00Z', deadline_precision: 'ESTIMATED' as const };
+    expect(diffJobFields(estimated, { ...estimated, application_deadline: '2026-03-13T12:00:00Z' })).toEqual([]);
+
+    const changes = diffJobFields(estimated, { application_deadline: '2026-03-20T12:00:00Z', deadline_precision: 'DATE' });
+    expect(changes.map(c => c.field)).toEqual(['application_deadline']);
+  });
+
+  it('flags a reopened posting', () => {
+    const changes = diffJobFields({ is_active: false }, { is_active: true });
+    expect(changes).toHaveLength(1);
+    expect(describeChange(changes[0])).toBe('Posting reopened');
+  });
+});
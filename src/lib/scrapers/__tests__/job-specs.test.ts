@@ -0,0 +1,132 @@
+import { describe, it, expect } from 'vitest';
+import * as fs from 'fs';
+import * as path from 'path';
+import { extractPdfText, parseJobSpecText } from '@/lib/pdfParser';
+import { fillFromSpec, JobSpecIngester, MemoryJobSpecStore, specFields } from '../job-specs';
+import { RequestScheduler } from '../politeness';
+
+const SPEC_DIR = path.join(__dirname, 'fixtures', 'job-specs');
+
+interface SampleSpec {
+  layout: string;
+  in_order: string[]; // Whole lines that must come out in this order
+  fields: Record<string, string | number | boolean>;
+}
+
+const samples = fs.readdirSync(SPEC_DIR)
+  .filter(file => file.endsWith('.pdf'))
+  .map(file => ({
+    file,
+    expected: JSON.parse(
+      fs.readFileSync(path.join(SPEC_DIR, file.replace(/\.pdf$/, '.expected.json')), 'utf-8')
+    ) as SampleSpec,
+  }));
+
+function readSample(file: string): Uint8Array {
+  return new Uint8Array(fs.readFileSync(path.join(SPEC_DIR, file)));
+}
+
+/**
+ * Scheduler that serves sample PDFs from disk, counting downloads
+ */
+function offlineScheduler(downloads: string[]): RequestScheduler {
+  return new RequestScheduler({
+    respectRobots: false,
+    sleep: async () => {},
+    fetchImpl: async url => {
+      downloads.push(url);
+      const file = path.join(SPEC_DIR, path.basename(new URL(url).pathname));
+      if (!fs.existsSync(file)) return new Response('Not found', { status: 404 });
+      return new Response(new Uint8Array(fs.readFileSync(file)));
+    },
+  });
+}
+
+// ─── Sample spec PDFs ───────────────────────────────────────────────────────
+
+describe('job spec PDFs', () => {
+  it('has sample PDFs to check', () => {
+    expect(samples.length).toBeGreaterThan(0);
+  });
+
+  for (const { file, expected } of samples) {
+    it(`reads ${file} (${expected.layout})`, async () => {
+      const text = await extractPdfText(readSample(file));
+      const lines = text.split('\n');
+
+      const positions = expected.in_order.map(line => lines.indexOf(line));
+      expect(positions).not.toContain(-1);
+      expect(positions).toEqual([...positions].sort((a, b) => a - b));
+
+      expect(specFields(parseJobSpecText(text))).toEqual(expected.fields);
+    });
+  }
+});
+
+// ─── Ingestion ──────────────────────────────────────────────────────────────
+
+describe('JobSpecIngester', () => {
+  const specUrl = 'https://www.hse.ie/jobspecs/uhl-registrar-general-medicine.pdf';
+
+  it('fills missing fields and only replaces an estimated deadline', () => {
+    const fields = samples.find(sample => sample.file.startsWith('uhl'))!.expected.fields;
+    const filled = fillFromSpec(
+      { informal_enquiries_email: 'listing@hse.ie', application_deadline: '2026-03-01T00:00:00.000Z', deadline_precision: 'DATE' },
+      fields
+    );
+
+    expect(filled.informal_enquiries_email).toBeUndefined();
+    expect(filled.clinical_lead).toBe(fields.clinical_lead);
+    expect(filled.application_deadline).toBeUndefined();
+
+    const estimated = fillFromSpec({ deadline_precision: 'ESTIMATED', application_deadline: '2026-03-01T00:00:00.000Z' }, fields);
+    expect(estimated.application_deadline).toBe(fields.application_deadline);
+  });
+
+  it('re-parses a spec only when its PDF changes', async () => {
+    const downloads: string[] = [];
+    const store = new MemoryJobSpecStore();
+    const ingester = new JobSpecIngester(store, offlineScheduler(downloads));
+    const job = { id: 'job-1', job_spec_pdf_url: specUrl };
+
+    const first = await ingester.ingest([job]);
+    expect(first.summary).toMatchObject({ downloaded: 1, parsed: 1, jobs_updated: 1 });
+    expect(first.updates.get('job-1')?.informal_enquiries_email).toBe('niamh.oconnor@hse.ie');
+    const stored = (await store.load(['job-1'])).get('job-1')!;
+    expect(stored.raw_text).toContain('Clinical Lead: Dr Paul Walsh');
+    expect(stored.field_sources.clinical_lead).toBe('regex');
+
+    // Within the recheck window the stored spec is used without downloading
+    const second = await ingester.ingest([job]);
+    expect(downloads).toHaveLength(1);
+    expect(second.summary.parsed).toBe(0);
+    expect(second.updates.get('job-1')?.clinical_lead).toBe('Dr Paul Walsh');
+
+    // A week later the PDF is downloaded again, but an identical hash isn't re-parsed
+    const later = Date.now() + 8 * 24 * 60 * 60 * 1000;
+    const third = await ingester.ingest([job], { now: later });
+    expect(downloads).toHaveLength(2);
+    expect(third.summary).toMatchObject({ unchanged: 1, parsed: 0 });
+    expect((await store.load(['job-1'])).get('job-1')!.parsed_at).toBe(stored.parsed_at);
+
+    // A job whose spec link changes has the new PDF parsed
+    const moved = { ...job, job_spec_pdf_url: 'https://www.hse.ie/jobspecs/guh-sho-emergency-medicine.pdf' };
+    const fourth = await ingester.ingest([moved], { now: later });
+    expect(fourth.summary.parsed).toBe(1);
+    expect(fourth.updates.get('job-1')?.informal_enquiries_email).toBe('eoin.mccarthy@hse.ie');
+  });
+
+  it('defers downloads past the cap and counts failures', async () => {
+    const downloads: string[] = [];
+    const ingester = new JobSpecIngester(new MemoryJobSpecStore(), offlineScheduler(downloads));
+
+    const { summary } = await ingester.ingest([
+      { id: 'job-1', job_spec_pdf_url: 'https://www.hse.ie/jobspecs/missing.pdf' },
+      { id: 'job-2', job_spec_pdf_url: specUrl },
+      { id: 'job-3', job_spec_pdf_url: 'https://www.hse.ie/jobspecs/cuh-spr-cardiology.pdf' },
+      { id: 'job-4' },
+    ], { maxDownloads: 2 });
+
+    expect(summary).toMatchObject({ checked: 3, downloaded: 2, failed: 1, parsed: 1, deferred: 1 });
+  });
+});
@@ -0,0 +1,89 @@
+import { describe, it, expect } from 'vitest';
+import {
+  extractDuration,
+  extractOnCall,
+  extractSalary,
+  extractStartDate,
+  parseJobTerms,
+  withTermFallbacks,
+} from '../job-terms';
+import { fillFromSpec } from '../job-specs';
+
+// ─── Extraction ─────────────────────────────────────────────────────────────
+
+describe('parseJobTerms', () => {
+  it('reads every stated term from spec text', () => {
+    const text = `Salary: €60,810 - €84,973 per annum, starting at point 3 of the scale.
+      This is a specified purpose contract commencing 12th January 2027 for a period of 12 months.
+      Rostered hours are 39 hours per week. The post holder will participate in the on-call rota, 1 in 5.`;
+
+    expect(parseJobTerms(text)).toEqual({
+      salary_range: '€60,810 - €84,973 (point 3)',
+      hours_per_week: 39,
+      on_call: true,
+      on_call_frequency: '1 in 5',
+      duration_months: 12,
+      start_date: '2027-01-12',
+      contract_type: 'Specified Purpose',
+    });
+  });
+
+  it('leaves out terms the text does not state', () => {
+    expect(parseJobTerms('Registrar in General Medicine, Cavan General Hospital')).toEqual({});
+  });
+
+  it('tells a post without on-call from one with an unstated rota', () => {
+    expect(extractOnCall('There is no on-call commitment with this post.')).toEqual({ on_call: false });
+    expect(extractOnCall('On-call duties as rostered.')).toEqual({ on_call: true });
+    expect(extractOnCall('1:8 on call')).toEqual({ on_call: true, on_call_frequency: '1 in 8' });
+  });
+
+  it('does not mistake rotation months for the post duration', () => {
+    expect(extractDuration('Rotation: 6 months Cardiology / 6 months Respiratory')).toBeUndefined();
+    expect(extractDuration('A six month post in General Surgery')).toBe(6);
+    expect(extractDuration('Tenure: 2 years')).toBe(24);
+  });
+
+  it('takes the first of the month when only a month is given', () => {
+    expect(extractStartDate('Start date: July 2026')).toBe('2026-07-01');
+    expect(extractStartDate('The post starts on 13/07/2026.')).toBe('2026-07-13');
+  });
+
+  it('reads a single salary', () => {
+    expect(extractSalary('€46,895 per annum')).toBe('€46,895');
+  });
+});
+
+// ─── Fallbacks ──────────────────────────────────────────────────────────────
+
+describe('withTermFallbacks', () => {
+  it('labels defaulted terms as estimated', () => {
+    const job = withTermFallbacks({
+      application_deadline: '2026-03-20T12:00:00.000Z',
+      scheme_type: 'NON_TRAINING_SERVICE',
+      duration_months: 12,
+    });
+
+    expect(job).toMatchObject({
+      start_date: '2026-07-13',
+      duration_months: 12,
+      contract_type: 'Specified Purpose',
+      estimated_fields: ['start_date', 'contract_type'],
+    });
+  });
+
+  it('lets a parsed spec replace estimated terms but not stated ones', () => {
+    const job = withTermFallbacks({
+      application_deadline: '2026-03-20T12:00:00.000Z',
+      scheme_type: 'TRAINING_BST',
+      contract_type: 'Locum',
+    });
+
+    const updates = fillFromSpec(job, { start_date: '2026-07-06', duration_months: 12, contract_type: 'Specified Purpose' });
+    expect(updates).toEqual({
+      start_date: '2026-07-06',
+      duration_months: 12,
+      estimated_fields: [],
+    });
+  });
+});
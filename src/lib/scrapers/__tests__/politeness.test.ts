@@ -0,0 +1,156 @@
+import { describe, it, expect } from 'vitest';
+import {
+  isPathAllowed,
+  parseRetryAfter,
+  parseRobotsTxt,
+  RequestScheduler,
+  RobotsDisallowedError,
+} from '../politeness';
+
+const ROBOTS = `
+User-agent: *
+Disallow: /admin/
+Disallow: /*.pdf$
+Allow: /admin/public/
+Crawl-delay: 5
+
+User-agent: BadBot
+Disallow: /
+`;
+
+/**
+ * Scheduler wired to a fake clock and a scripted fetch. Responses are
+ * served per URL in order (then 200 OK); robots.txt serves `robots`, as a
+ * 200 body or as the given response.
+ */
+function fakeScheduler(responses: Record<string, Response[]>, robots: string | Response = ROBOTS) {
+  let clock = 0;
+  const calls: { url: string; at: number }[] = [];
+
+  const scheduler = new RequestScheduler({
+    now: () => clock,
+    sleep: async ms => { clock += ms; },
+    fetchImpl: async url => {
+      if (url.endsWith('/robots.txt')) return typeof robots === 'string' ? new Response(robots) : robots.clone();
+      calls.push({ url, at: clock });
+      return responses[url]?.shift() ?? new Response('ok');
+    },
+  });
+
+  return { scheduler, calls };
+}
+
+describe('parseRobotsTxt', () => {
+  it('keeps the * group when no group names us', () => {
+    const robots = parseRobotsTxt(ROBOTS);
+    expect(robots.crawlDelayMs).toBe(5000);
+    expect(isPathAllowed(robots, '/jobs/')).toBe(true);
+    expect(isPathAllowed(robots, '/admin/settings')).toBe(false);
+    expect(isPathAllowed(robots, '/admin/public/list')).toBe(true);
+    expect(isPathAllowed(robots, '/docs/spec.pdf')).toBe(false);
+    expect(isPathAllowed(robots, '/docs/spec.pdf?download=1')).toBe(true);
+  });
+
+  it('prefers a group naming our agent token', () => {
+    const robots = parseRobotsTxt(`${ROBOTS}\nUser-agent: MedJob-IE\nDisallow: /jobs/\n`);
+    expect(robots.crawlDelayMs).toBeNull();
+    expect(isPathAllowed(robots, '/jobs/')).toBe(false);
+    expect(isPathAllowed(robots, '/admin/settings')).toBe(true);
+  });
+
+  it("doesn't take a group for part of our agent token as ours", () => {
+    const robots = parseRobotsTxt(`${ROBOTS}
+User-agent: job
+Disallow: /jobs/
+`);
+    expect(robots.crawlDelayMs).toBe(5000);
+    expect(isPathAllowed(robots, '/jobs/')).toBe(true);
+  });
+});
+
+describe('parseRetryAfter', () => {
+  it('reads seconds and HTTP dates', () => {
+    const now = Date.parse('2026-03-01T12:00:00Z');
+    expect(parseRetryAfter('30', now)).toBe(30000);
+    expect(parseRetryAfter('Sun, 01 Mar 2026 12:01:00 GMT', now)).toBe(60000);
+    expect(parseRetryAfter('soon', now)).toBeNull();
+    expect(parseRetryAfter(null, now)).toBeNull();
+  });
+});
+
+describe('RequestScheduler', () => {
+  it('spaces requests to a host by the robots.txt crawl delay', async () => {
+    const { scheduler, calls } = fakeScheduler({});
+
+    await scheduler.fetch('https://example.ie/jobs?page=1');
+    await scheduler.fetch('https://example.ie/jobs?page=2');
+    await scheduler.fetch('https://other.ie/jobs');
+
+    expect(calls.map(c => c.at)).toEqual([0, 5000, 5000]);
+    const [example] = scheduler.getStats();
+    expect(example).toMatchObject({ host: 'example.ie', requests: 2, crawl_delay_ms: 5000, wait_ms: 5000 });
+  });
+
+  it('refuses URLs disallowed by robots.txt', async () => {
+    const { scheduler, calls } = fakeScheduler({});
+
+    await expect(scheduler.fetch('https://example.ie/admin/users')).rejects.toBeInstanceOf(RobotsDisallowedError);
+    expect(calls).toEqual([]);
+    expect(scheduler.getStats()[0].blocked_by_robots).toBe(1);
+  });
+
+  it('waits out Retry-After on 429 before retrying', async () => {
+    const url = 'https://example.ie/jobs';
+    const { scheduler, calls } = fakeScheduler({
+      [url]: [new Response('', { status: 429, headers: { 'Retry-After': '30' } }), new Response('ok')],
+    }, '');
+
+    const response = await scheduler.fetch(url);
+
+    expect(response.status).toBe(200);
+    expect(calls.map(c => c.at)).toEqual([0, 30000]);
+    expect(scheduler.getStats()[0]).toMatchObject({ throttled: 1, retries: 1 });
+  });
+
+  it('returns the last throttled response once retries run out', async () => {
+    const url = 'https://example.ie/jobs';
+    const { scheduler, calls } = fakeScheduler({
+      [url]: [1, 2, 3].map(() => new Response('', { status: 503 })),
+    }, '');
+
+    const response = await scheduler.fetch(url);
+
+    expect(response.status).toBe(503);
+    // Backoff of 1s then 2s, never sooner than the 2s request interval
+    expect(calls.map(c => c.at)).toEqual([0, 2000, 4000]);
+    expect(scheduler.getStats()[0]).toMatchObject({ throttled: 3, retries: 2 });
+  });
+
+  it('stops retrying when the next attempt would start after the deadline', async () => {
+    const url = 'https://example.ie/jobs';
+    const { scheduler, calls } = fakeScheduler({
+      [url]: [new Response('', { status: 429, headers: { 'Retry-After': '30' } }), new Response('ok')],
+    }, '');
+
+    const response = await scheduler.fetch(url, {}, 10000);
+
+    expect(response.status).toBe(429);
+    expect(calls.map(c => c.at)).toEqual([0]);
+    expect(scheduler.getStats()[0]).toMatchObject({ throttled: 1, retries: 0 });
+  });
+
+  it('treats a robots.txt server error as disallowing the host', async () => {
+    const { scheduler, calls } = fakeScheduler({}, new Response('', { status: 503 }));
+
+    await expect(scheduler.fetch('https://example.ie/jobs')).rejects.toBeInstanceOf(RobotsDisallowedError);
+    expect(calls).toEqual([]);
+  });
+
+  it('treats a missing robots.txt as no restrictions', async () => {
+    const { scheduler, calls } = fakeScheduler({}, new Response('', { status: 404 }));
+
+    await scheduler.fetch('https://example.ie/jobs');
+
+    expect(calls).toHaveLength(1);
+  });
+});
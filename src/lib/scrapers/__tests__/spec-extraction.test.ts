@@ -0,0 +1,150 @@
+import { describe, it, expect } from 'vitest';
+import * as fs from 'fs';
+import * as path from 'path';
+import { extractPdfText } from '@/lib/pdfParser';
+import {
+  compareProviders,
+  HttpExtractionProvider,
+  MemoryExtractionCache,
+  RegexExtractionProvider,
+  SpecExtractor,
+  StubExtractionProvider,
+  validateExtraction,
+  type LabelledSpec,
+} from '../spec-extraction';
+
+const SPEC_DIR = path.join(__dirname, 'fixtures', 'job-specs');
+
+async function labelledSpecs(): Promise<LabelledSpec[]> {
+  const files = fs.readdirSync(SPEC_DIR).filter(file => file.endsWith('.pdf'));
+  return Promise.all(files.map(async file => ({
+    name: file,
+    text: await extractPdfText(new Uint8Array(fs.readFileSync(path.join(SPEC_DIR, file)))),
+    expected: JSON.parse(
+      fs.readFileSync(path.join(SPEC_DIR, file.replace(/\.pdf$/, '.expected.json')), 'utf-8')
+    ).fields,
+  })));
+}
+
+// ─── Schema ─────────────────────────────────────────────────────────────────
+
+describe('validateExtraction', () => {
+  it('keeps valid fields, rejects malformed ones and ignores unknown keys', () => {
+    const { values, rejected } = validateExtraction({
+      informal_enquiries_email: ' niamh.oconnor@hse.ie ',
+      clinical_lead: null,
+      hours_per_week: '39',
+      on_call_frequency: 'one in eight',
+      duration_months: 12,
+      contract_type: 'Specified Purpose',
+      favourite_colour: 'green',
+    });
+
+    expect(values).toEqual({
+      informal_enquiries_email: 'niamh.oconnor@hse.ie',
+      duration_months: 12,
+      contract_type: 'Specified Purpose',
+    });
+    expect(rejected).toEqual(['hours_per_week', 'on_call_frequency']);
+  });
+
+  it('treats a reply that is not an object as empty', () => {
+    expect(validateExtraction(['a', 'b'])).toEqual({ values: {}, rejected: [] });
+  });
+});
+
+// ─── Extractor ──────────────────────────────────────────────────────────────
+
+describe('SpecExtractor', () => {
+  it('fills gaps from later providers and records where each field came from', async () => {
+    const llm = new StubExtractionProvider('llm', () => ({
+      clinical_lead: 'Dr Aoife Byrne',
+      closing_date: '26th March 2026 at 12 noon',
+    }));
+    const regex = new StubExtractionProvider('regex', () => ({
+      clinical_lead: 'Dr Paul Walsh',
+      hours_per_week: 39,
+    }));
+
+    const result = await new SpecExtractor([llm, regex]).extract('spec text');
+    expect(result.fields).toEqual({
+      clinical_lead: 'Dr Aoife Byrne',
+      hours_per_week: 39,
+      application_deadline: '2026-03-26T12:00:00.000Z',
+      deadline_precision: 'DATETIME',
+    });
+    expect(result.sources).toEqual({
+      clinical_lead: 'llm',
+      hours_per_week: 'regex',
+      application_deadline: 'llm',
+      deadline_precision: 'llm',
+    });
+  });
+
+  it('skips a failing provider', async () => {
+    const broken = new StubExtractionProvider('broken', () => { throw new Error('timed out'); });
+    const result = await new SpecExtractor([broken, new RegexExtractionProvider()])
+      .extract('Clinical Lead: Dr Paul Walsh, Consultant Physician.');
+
+    expect(result.failed).toEqual(['broken']);
+    expect(result.sources.clinical_lead).toBe('regex');
+  });
+
+  it('caches LLM replies by text hash', async () => {
+    const requests: unknown[] = [];
+    const llm = new HttpExtractionProvider({
+      url: 'https://llm.example/v1/chat/completions',
+      model: 'test-model',
+      format: 'openai',
+      fetchImpl: async (_url, init) => {
+        requests.push(JSON.parse(String(init?.body)));
+        return Response.json({
+          choices: [{ message: { content: 'Here you go: {"on_call": true, "on_call_frequency": "1 in 6"}' } }],
+        });
+      },
+    });
+    const extractor = new SpecExtractor([llm], new MemoryExtractionCache());
+
+    const first = await extractor.extract('On call 1 in 6.');
+    const second = await extractor.extract('On  call 1 in 6.\n');
+    expect(requests).toHaveLength(1);
+    expect(first.fields).toEqual({ on_call: true, on_call_frequency: '1 in 6' });
+    expect(second.sources.on_call).toBe('llm:test-model');
+  });
+
+  it('reads Anthropic-format replies', async () => {
+    const llm = new HttpExtractionProvider({
+      url: 'https://api.anthropic.com/v1/messages',
+      model: 'test-model',
+      format: 'anthropic',
+      apiKey: 'key',
+      fetchImpl: async (_url, init) => {
+        expect((init?.headers as Record<string, string>)['x-api-key']).toBe('key');
+        return Response.json({ content: [{ type: 'text', text: '{"duration_months": 6}' }] });
+      },
+    });
+
+    expect((await new SpecExtractor([llm]).extract('six month post')).fields).toEqual({ duration_months: 6 });
+  });
+});
+
+// ─── Comparison ─────────────────────────────────────────────────────────────
+
+describe('compareProviders', () => {
+  it('scores providers field by field against labelled specs', async () => {
+    const samples = await labelledSpecs();
+    const expectedFields = samples.reduce((total, sample) => total + Object.keys(sample.expected).length, 0);
+    const guesser = new StubExtractionProvider('guesser', () => ({
+      duration_months: 6,
+      contract_type: 'Locum',
+    }));
+
+    const [regex, stub] = await compareProviders([new RegexExtractionProvider(), guesser], samples);
+
+    expect(regex).toMatchObject({ provider: 'regex', correct: expectedFields, expected: expectedFields, accuracy: 1, spurious: 0 });
+    expect(stub.provider).toBe('guesser');
+    expect(stub.fields.duration_months).toEqual({ correct: 1, wrong: 1, missed: 0, spurious: 1 });
+    expect(stub.fields.clinical_lead?.missed).toBe(samples.length);
+    expect(stub.accuracy).toBeLessThan(0.1);
+  });
+});
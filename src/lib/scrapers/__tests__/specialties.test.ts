@@ -0,0 +1,40 @@
+import { describe, it, expect } from 'vitest';
+import {
+  matchesSpecialties,
+  parentSpecialty,
+  SPECIALTY_TAXONOMY,
+  specialtyFilterOptions,
+  subSpecialties,
+  withSubSpecialties,
+} from '@/lib/specialties';
+import { SPECIALTY_LABELS, type SpecialtyType } from '@/types/database.types';
+
+describe('specialty taxonomy', () => {
+  it('is two levels deep', () => {
+    for (const node of Object.values(SPECIALTY_TAXONOMY)) {
+      if (node.parent) expect(SPECIALTY_TAXONOMY[node.parent].parent).toBeNull();
+    }
+    expect(Object.keys(SPECIALTY_TAXONOMY).sort()).toEqual(Object.keys(SPECIALTY_LABELS).sort());
+  });
+
+  it('finds parents and sub-specialties', () => {
+    expect(parentSpecialty('NEPHROLOGY')).toBe('GENERAL_MEDICINE');
+    expect(parentSpecialty('PSYCHIATRY')).toBe('PSYCHIATRY');
+    expect(subSpecialties('ANAESTHETICS')).toEqual(['INTENSIVE_CARE']);
+    expect(subSpecialties('GENERAL_SURGERY')).toContain('VASCULAR_SURGERY');
+  });
+
+  it('includes the sub-specialties of a selected parent', () => {
+    expect(withSubSpecialties(['PAEDIATRICS', 'NEONATOLOGY', 'RADIOLOGY'])).toEqual(['PAEDIATRICS', 'NEONATOLOGY', 'RADIOLOGY']);
+    expect(matchesSpecialties('CARDIOLOGY', ['GENERAL_MEDICINE'])).toBe(true);
+    expect(matchesSpecialties('GENERAL_MEDICINE', ['CARDIOLOGY'])).toBe(false);
+    expect(matchesSpecialties('CARDIOLOGY', ['GENERAL_SURGERY'])).toBe(false);
+  });
+
+  it('lists filter options with each parent before its sub-specialties', () => {
+    const present: SpecialtyType[] = ['CARDIOLOGY', 'PSYCHIATRY', 'NEUROSURGERY', 'GERIATRICS'];
+    expect(specialtyFilterOptions(present)).toEqual([
+      'PSYCHIATRY', 'GENERAL_MEDICINE', 'CARDIOLOGY', 'GERIATRICS', 'GENERAL_SURGERY', 'NEUROSURGERY',
+    ]);
+  });
+});
@@ -0,0 +1,56 @@
+import { describe, it, expect } from 'vitest';
+import { classifyStaleJobs, deactivationReason, groupByMissedRuns, onlyScrapedPlatforms, type ActiveJobRow } from '../stale-jobs';
+
+const rows: ActiveJobRow[] = [
+  { id: '1', title: 'SHO in Emergency Medicine', job_key: 'hse_nrs:ref:MW26EM01', missed_runs: 0 },
+  { id: '2', title: 'Registrar in Cardiology', job_key: 'hse_nrs:ref:DU26CA02', missed_runs: 1 },
+  { id: '3', title: 'Registrar in Nephrology', job_key: 'hse_nrs:ref:GW26NE03', missed_runs: 2 },
+  { id: '4', title: 'SHO Psychiatry', job_key: undefined, missed_runs: 0 },
+];
+
+describe('classifyStaleJobs', () => {
+  it('counts missed runs and only deactivates after the grace period', () => {
+    const stale = classifyStaleJobs('NRS', rows, { keys: new Set(['hse_nrs:ref:MW26EM01']), ids: new Set(['4']) }, null);
+
+    expect(stale.skipped).toBeNull();
+    expect(stale.missing).toEqual([{ id: '2', title: 'Registrar in Cardiology', job_key: 'hse_nrs:ref:DU26CA02', missed_runs: 2 }]);
+    expect(stale.deactivate).toEqual([{ id: '3', title: 'Registrar in Nephrology', job_key: 'hse_nrs:ref:GW26NE03', missed_runs: 3 }]);
+  });
+
+  it('matches on identity, not title', () => {
+    // Same title as a stored job, but a different posting
+    const stale = classifyStaleJobs('NRS', rows.slice(0, 1), { keys: new Set(['hse_nrs:ref:MW26EM99']), ids: new Set() }, null, 1);
+    expect(stale.deactivate.map(job => job.id)).toEqual(['1']);
+  });
+
+  it('leaves a skipped source alone without counting the run', () => {
+    const stale = classifyStaleJobs('NRS', rows, { keys: new Set(), ids: new Set() }, 'HSE run was PARTIAL');
+
+    expect(stale.skipped).toBe('HSE run was PARTIAL');
+    expect(stale.deactivate).toEqual([]);
+    expect(stale.missing.map(job => job.missed_runs)).toEqual([0, 1, 2, 0]);
+  });
+
+  it("leaves alone a source's jobs from platforms this run has no scraper for", () => {
+    const directRows: ActiveJobRow[] = [
+      { id: '5', title: 'SHO in Medicine', job_key: 'direct_hospital:url:beaumont.ie/careers/sho-medicine', missed_runs: 0 },
+      { id: '6', title: 'Registrar in Surgery', job_key: 'doctor_jobs:url:doctorjobs.ie/job/7', missed_runs: 2 },
+      { id: '7', title: 'SHO Paediatrics', job_key: undefined, missed_runs: 0 },
+    ];
+
+    // A run with the hospital site scrapers but not DoctorJobs
+    const rows = onlyScrapedPlatforms(directRows, new Set(['ABOUT_HSE', 'DIRECT_HOSPITAL']));
+    const stale = classifyStaleJobs('DIRECT_HOSPITAL', rows, { keys: new Set(), ids: new Set() }, null);
+
+    expect(stale.missing.map(job => job.id)).toEqual(['5', '7']);
+    expect(stale.deactivate).toEqual([]);
+  });
+});
+
+describe('stale job updates', () => {
+  it('groups ids by missed runs and explains deactivations', () => {
+    const stale = classifyStaleJobs('NRS', rows, { keys: new Set(), ids: new Set() }, null);
+    expect(Array.from(groupByMissedRuns(stale.missing))).toEqual([[1, ['1', '4']], [2, ['2']]]);
+    expect(deactivationReason('NRS', 3)).toBe('Not listed in 3 consecutive NRS scrapes');
+  });
+});
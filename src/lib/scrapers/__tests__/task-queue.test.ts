@@ -0,0 +1,141 @@
+import { describe, it, expect } from 'vitest';
+import * as path from 'path';
+import { BaseScraper, type ScrapedJob, type ScraperResult } from '../base';
+import { FixtureStore } from '../fixtures';
+import { ScraperOrchestrator } from '../orchestrator';
+import { MAX_TASK_ATTEMPTS, MemoryTaskStore, workTasks } from '../task-queue';
+
+const REPLAY_DIR = path.join(__dirname, 'fixtures', 'replay');
+
+/** Fails its first `failures` scrapes, then finds one job */
+class FlakyScraper extends BaseScraper {
+  calls = 0;
+
+  constructor(private failures: number) {
+    super('https://careers.example.ie', 'DIRECT_HOSPITAL');
+  }
+
+  async scrape(): Promise<ScraperResult> {
+    this.calls++;
+    if (this.calls <= this.failures) throw new Error('Connection reset');
+    const job: ScrapedJob = {
+      title: 'SHO in General Medicine',
+      grade: 'SHO',
+      specialty: 'GENERAL_MEDICINE',
+      scheme_type: 'NON_TRAINING_SERVICE',
+      hospital_name: 'Mater Misericordiae University Hospital',
+      hospital_group: 'IEHG',
+      county: 'Dublin',
+      application_deadline: '2026-11-12T12:00:00.000Z',
+      source_url: 'https://careers.example.ie/sho-general-medicine',
+      source_platform: 'DIRECT_HOSPITAL',
+      scraped_at: '2026-10-19T02:00:00.000Z',
+    };
+    return this.createResult([job]);
+  }
+}
+
+async function queueFlaky(failures: number) {
+  const store = new MemoryTaskStore();
+  const scraper = new FlakyScraper(failures);
+  const run = await store.createRun(['Flaky']);
+  await store.addTasks(run.id, scraper.planTasks().map(spec => ({ ...spec, scraper: 'Flaky', platform: scraper.platform })));
+  return { store, scraper, run, scrapers: new Map<string, BaseScraper>([['Flaky', scraper]]) };
+}
+
+// ─── Worker ─────────────────────────────────────────────────────────────────
+
+describe('workTasks', () => {
+  it('retries a failing task and checkpoints it once it succeeds', async () => {
+    const { store, scraper, run, scrapers } = await queueFlaky(MAX_TASK_ATTEMPTS - 1);
+
+    const claimed = await workTasks(store, run.id, scrapers, { deadline: Date.now() + 10_000 });
+
+    expect(claimed).toBe(MAX_TASK_ATTEMPTS);
+    expect(scraper.calls).toBe(MAX_TASK_ATTEMPTS);
+    const [task] = await store.loadResults(run.id);
+    expect(task).toMatchObject({ status: 'DONE', attempts: MAX_TASK_ATTEMPTS, job_count: 1, error: null });
+    expect(task.jobs[0].field_confidence?.grade).toBeDefined();
+  });
+
+  it('fails a task for good once its attempts are used up', async () => {
+    const { store, run, scrapers } = await queueFlaky(MAX_TASK_ATTEMPTS);
+
+    await workTasks(store, run.id, scrapers, { deadline: Date.now() + 10_000 });
+
+    expect(await store.listTasks(run.id)).toMatchObject([{ status: 'FAILED', error: 'Connection reset' }]);
+  });
+
+  it('gives up on a task whose runners keep dying instead of rerunning it', async () => {
+    const { store, scraper, run, scrapers } = await queueFlaky(0);
+    // Leases that have already run out, as if each claiming invocation was killed
+    for (let i = 0; i < MAX_TASK_ATTEMPTS; i++) {
+      await store.claim(run.id, ['Flaky'], 1, -1);
+    }
+
+    await workTasks(store, run.id, scrapers, { deadline: Date.now() + 10_000 });
+
+    expect(scraper.calls).toBe(0);
+    expect(await store.listTasks(run.id)).toMatchObject([
+      { status: 'FAILED', error: `Gave up after ${MAX_TASK_ATTEMPTS} attempts` },
+    ]);
+  });
+
+  it('leaves tasks leased by another invocation alone', async () => {
+    const { store, scraper, run, scrapers } = await queueFlaky(0);
+    await store.claim(run.id, ['Flaky'], 1, 60_000);
+
+    expect(await workTasks(store, run.id, scrapers, { deadline: Date.now() + 10_000 })).toBe(0);
+    expect(scraper.calls).toBe(0);
+  });
+});
+
+// ─── Queued runs ────────────────────────────────────────────────────────────
+
+describe('ScraperOrchestrator queued runs', () => {
+  it('resumes a run across invocations and saves it once every task is done', async () => {
+    const store = new MemoryTaskStore();
+    const orchestrator = new ScraperOrchestrator();
+    orchestrator.useFixtures(new FixtureStore('replay', REPLAY_DIR));
+    orchestrator.useTaskStore(store);
+
+    const first = await orchestrator.workQueue({ start: true, maxTasks: 3 });
+    expect(first).toMatchObject({ tasks_run: 3, result: null });
+    expect(first.progress).toMatchObject({ done: 3, running: 0, failed: 0 });
+    expect(first.progress!.pending).toBeGreaterThan(0);
+
+    const second = await orchestrator.workQueue();
+    expect(second.run_id).toBe(first.run_id);
+    expect(second.progress).toMatchObject({ pending: 0, running: 0, failed: 0, run: { status: 'COMPLETE' } });
+
+    // Same jobs as scraping in one go
+    const collected = await orchestrator.collectJobs();
+    expect(second.result).toMatchObject({
+      run_id: first.run_id,
+      status: 'SUCCESS',
+      scrapers_run: collected.scrapers_run,
+      total_jobs_scraped: collected.total_jobs_scraped,
+      duplicates_removed: collected.duplicates_removed,
+      errors: [],
+    });
+    const tasks = await store.loadResults(first.run_id!);
+    expect(new Set(tasks.flatMap(task => task.jobs).map(job => job.title)))
+      .toEqual(new Set(collected.jobs.map(job => job.title)));
+
+    // Nothing left to resume
+    expect(await orchestrator.workQueue()).toMatchObject({ run_id: null, tasks_run: 0 });
+  });
+
+  it('splits HSE into listing and detail page tasks', async () => {
+    const store = new MemoryTaskStore();
+    const orchestrator = new ScraperOrchestrator();
+    orchestrator.useFixtures(new FixtureStore('replay', REPLAY_DIR));
+    orchestrator.useTaskStore(store);
+
+    const { run_id } = await orchestrator.workQueue({ start: true, sources: ['HSE'] });
+
+    const tasks = await store.listTasks(run_id!);
+    expect(tasks.map(task => task.kind)).toEqual(['LISTING', 'LISTING', 'DETAIL', 'DETAIL', 'DETAIL']);
+    expect(tasks.every(task => task.status === 'DONE')).toBe(true);
+  });
+});
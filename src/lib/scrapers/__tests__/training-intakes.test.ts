@@ -0,0 +1,110 @@
+import { describe, it, expect } from 'vitest';
+import { parseIntakeImport } from '@/lib/trainingIntakes';
+import { alertDetails, checkIntakeDeadlines } from '@/lib/deadlineNotifications';
+import type { TrainingIntake } from '@/types/database.types';
+
+const REFERENCE = new Date('2026-10-19T12:00:00Z');
+
+const HEADER = 'body,programme,specialty,scheme_type,intake_year,opens,closes,interview_start,interview_end,eligibility,posts,application_url';
+
+// ─── Import ─────────────────────────────────────────────────────────────────
+
+describe('parseIntakeImport', () => {
+  it('reads a published timeline, dates in Irish time', () => {
+    const { intakes, errors } = parseIntakeImport([
+      HEADER,
+      'RCPI,Basic Specialist Training in General Internal Medicine,General Medicine,BST,2027,3 November 2026,'
+        + '"1st December 2026 at 5pm",2027-01-25,2027-01-29,"IMC registered, intern year complete","1,200",https://www.rcpi.ie/training/',
+    ].join('\n'), REFERENCE);
+
+    expect(errors).toEqual([]);
+    expect(intakes).toEqual([{
+      body: 'RCPI',
+      programme: 'Basic Specialist Training in General Internal Medicine',
+      specialty: 'GENERAL_MEDICINE',
+      scheme_type: 'TRAINING_BST',
+      intake_year: 2027,
+      opens_at: '2026-11-03T00:00:00.000Z',
+      application_deadline: '2026-12-01T17:00:00.000Z',
+      deadline_precision: 'DATETIME',
+      interview_start: '2027-01-25',
+      interview_end: '2027-01-29',
+      eligibility: 'IMC registered, intern year complete',
+      posts_available: 1200,
+      application_url: 'https://www.rcpi.ie/training/',
+    }]);
+  });
+
+  it('takes labels in any case and defaults the intake year to the July after closing', () => {
+    const { intakes, errors } = parseIntakeImport([
+      'Body,Programme,Specialty,Scheme Type,Closes',
+      'college of psychiatrists,Higher Specialist Training in Psychiatry,PSYCHIATRY,Training (HST),14/11/2026',
+    ].join('\r\n'), REFERENCE);
+
+    expect(errors).toEqual([]);
+    expect(intakes[0]).toMatchObject({
+      body: 'CPSYCHI',
+      specialty: 'PSYCHIATRY',
+      scheme_type: 'TRAINING_HST',
+      intake_year: 2027,
+      application_deadline: '2026-11-14T23:59:00.000Z',
+      deadline_precision: 'DATE',
+      opens_at: null,
+      posts_available: null,
+    });
+  });
+
+  it('reports every problem in a row instead of importing it', () => {
+    const { intakes, errors } = parseIntakeImport([
+      HEADER,
+      'RCSI,Core Surgical Training,General Surgery,BST,2027,,30 November 2026,,,,40,',
+      'RCS,Run-through,Podiatry,Service,,,,,,,lots,',
+      'ICGP,National GP Training Programme,Other,BST,2027,1 December 2026,30 November 2026,,,,,',
+    ].join('\n'), REFERENCE);
+
+    expect(intakes).toHaveLength(1);
+    expect(errors).toEqual([
+      'Row 3: unknown training body "RCS"; unknown specialty "Podiatry"; scheme must be BST or HST, not "Service"; '
+        + 'can\'t read closing date ""; posts must be a whole number, not "lots"',
+      'Row 4: opens after it closes',
+    ]);
+  });
+
+  it('needs the columns that identify an intake', () => {
+    expect(parseIntakeImport('body,programme,closes\nRCPI,BST,1 Dec 2026').errors)
+      .toEqual(['Missing columns: specialty, scheme_type']);
+  });
+});
+
+// ─── Deadline alerts ────────────────────────────────────────────────────────
+
+describe('checkIntakeDeadlines', () => {
+  const intake = (id: string, hoursLeft: number): TrainingIntake => ({
+    id,
+    body: 'ICGP',
+    programme: 'National GP Training Programme',
+    specialty: 'OTHER',
+    scheme_type: 'TRAINING_BST',
+    intake_year: 2027,
+    application_deadline: new Date(Date.now() + hoursLeft * 60 * 60 * 1000 + 60 * 1000).toISOString(),
+    deadline_precision: 'DATETIME',
+    application_url: 'https://www.gptraining.ie',
+    is_active: true,
+    created_at: '2026-10-01T00:00:00Z',
+    updated_at: '2026-10-01T00:00:00Z',
+  });
+
+  it('alerts on intakes closing soon, alongside jobs', () => {
+    const alerts = checkIntakeDeadlines([intake('later', 200), intake('soon', 20), intake('closed', -5)]);
+
+    expect(alerts.map(alert => alert.intake?.id)).toEqual(['soon']);
+    expect(alerts[0].urgency).toBe('critical');
+    expect(alerts[0].message).toContain('ICGP National GP Training Programme');
+    expect(alertDetails(alerts[0])).toMatchObject({
+      id: 'intake-soon',
+      title: 'National GP Training Programme',
+      offeredBy: 'ICGP',
+      application_url: 'https://www.gptraining.ie',
+    });
+  });
+});
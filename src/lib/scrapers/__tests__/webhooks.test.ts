@@ -0,0 +1,179 @@
+import { describe, it, expect } from 'vitest';
+import type { OrchestrationResult, SourceBreakdown } from '../orchestrator';
+import {
+  deliverWebhook,
+  dispatchWebhooks,
+  MAX_DELIVERY_ATTEMPTS,
+  runWebhookPayloads,
+  SIGNATURE_HEADER,
+  signWebhook,
+  verifyWebhookSignature,
+  type WebhookPayload,
+} from '../webhooks';
+
+const WEBHOOK = { id: 'hook-1', url: 'https://hooks.example.ie/medmatch', secret: 'whsec_test' };
+
+const RUN: OrchestrationResult = {
+  run_id: 'run-1',
+  status: 'PARTIAL',
+  deadline_reached: false,
+  total_jobs_scraped: 12,
+  total_jobs_saved: 12,
+  duplicates_removed: 1,
+  scrapers_run: ['HSE', 'HealthcareJobs'],
+  errors: ['HealthcareJobs: Connection reset'],
+  anomalies: [],
+  host_stats: [],
+  job_specs: null,
+  scrape_started_at: '2026-10-19T02:00:00.000Z',
+  scrape_completed_at: '2026-10-19T02:03:00.000Z',
+  duration_seconds: 180,
+};
+
+function breakdown(source: string, status: SourceBreakdown['status']): SourceBreakdown {
+  return {
+    source,
+    platform: source === 'HSE' ? 'HSE_NRS' : 'HEALTHCARE_JOBS',
+    status,
+    pages_fetched: 4,
+    jobs_found: status === 'FAILURE' ? 0 : 12,
+    jobs_new: 2,
+    jobs_updated: 10,
+    jobs_deactivated: 0,
+    error_message: status === 'FAILURE' ? 'Connection reset' : null,
+    anomalies: [],
+    captures: [],
+    started_at: RUN.scrape_started_at,
+    completed_at: RUN.scrape_completed_at,
+    duration_seconds: 180,
+  };
+}
+
+const PAYLOAD: WebhookPayload = runWebhookPayloads(RUN, [breakdown('HSE', 'SUCCESS')], { added: [], deactivated: [] })[0];
+
+/** Answers with each status in turn, recording the requests */
+function respondWith(...statuses: number[]) {
+  const requests: RequestInit[] = [];
+  const fetchImpl = (async (_url: string, init: RequestInit) => {
+    requests.push(init);
+    const status = statuses[Math.min(requests.length, statuses.length) - 1];
+    return new Response(null, { status });
+  }) as unknown as typeof fetch;
+  return { requests, fetchImpl };
+}
+
+// ─── Signatures ─────────────────────────────────────────────────────────────
+
+describe('webhook signatures', () => {
+  it('verifies a body signed with the same secret', () => {
+    const body = JSON.stringify(PAYLOAD);
+    const header = signWebhook(WEBHOOK.secret, body);
+
+    expect(header).toMatch(/^t=\d+,v1=[0-9a-f]{64}$/);
+    expect(verifyWebhookSignature(WEBHOOK.secret, body, header)).toBe(true);
+  });
+
+  it('rejects a tampered body, the wrong secret or an old timestamp', () => {
+    const body = JSON.stringify(PAYLOAD);
+    const header = signWebhook(WEBHOOK.secret, body, 1_790_000_000);
+
+    expect(verifyWebhookSignature(WEBHOOK.secret, body.replace('run-1', 'run-2'), header, 1_790_000_000)).toBe(false);
+    expect(verifyWebhookSignature('whsec_other', body, header, 1_790_000_000)).toBe(false);
+    expect(verifyWebhookSignature(WEBHOOK.secret, body, header, 1_790_000_000 + 3600)).toBe(false);
+  });
+});
+
+// ─── Delivery ───────────────────────────────────────────────────────────────
+
+describe('deliverWebhook', () => {
+  it('retries server errors with backoff until the endpoint accepts', async () => {
+    const { requests, fetchImpl } = respondWith(503, 502, 200);
+    const waits: number[] = [];
+
+    const delivery = await deliverWebhook(WEBHOOK, PAYLOAD, { fetchImpl, sleep: async ms => { waits.push(ms); } });
+
+    expect(delivery).toMatchObject({ status: 'DELIVERED', attempts: 3, response_status: 200, error: null, run_id: 'run-1' });
+    expect(waits).toEqual([1000, 4000]);
+    const headers = requests[0].headers as Record<string, string>;
+    expect(headers['X-MedMatch-Event']).toBe('run.completed');
+    expect(verifyWebhookSignature(WEBHOOK.secret, requests[0].body as string, headers[SIGNATURE_HEADER])).toBe(true);
+  });
+
+  it('gives up after the last attempt', async () => {
+    const { requests, fetchImpl } = respondWith(500);
+
+    const delivery = await deliverWebhook(WEBHOOK, PAYLOAD, { fetchImpl, sleep: async () => {} });
+
+    expect(requests).toHaveLength(MAX_DELIVERY_ATTEMPTS);
+    expect(delivery).toMatchObject({ status: 'FAILED', attempts: MAX_DELIVERY_ATTEMPTS, response_status: 500 });
+  });
+
+  it("doesn't start a retry that would wait past the deadline", async () => {
+    const { requests, fetchImpl } = respondWith(503);
+    const waits: number[] = [];
+
+    const delivery = await deliverWebhook(WEBHOOK, PAYLOAD, {
+      fetchImpl,
+      sleep: async ms => { waits.push(ms); },
+      deadline: Date.now() + 3000,
+    });
+
+    expect(waits).toEqual([1000]);
+    expect(requests).toHaveLength(2);
+    expect(delivery).toMatchObject({ status: 'FAILED', attempts: 2, response_status: 503 });
+  });
+
+  it("doesn't retry a request the endpoint rejected", async () => {
+    const { requests, fetchImpl } = respondWith(400);
+
+    const delivery = await deliverWebhook(WEBHOOK, PAYLOAD, { fetchImpl, sleep: async () => {} });
+
+    expect(requests).toHaveLength(1);
+    expect(delivery).toMatchObject({ status: 'FAILED', attempts: 1, response_status: 400 });
+  });
+});
+
+describe('dispatchWebhooks', () => {
+  it('sends every payload at once and records all the deliveries', async () => {
+    const payloads = runWebhookPayloads(RUN, [breakdown('HealthcareJobs', 'FAILURE')], { added: [], deactivated: [] });
+    const { fetchImpl } = respondWith(200);
+    let inFlight = 0;
+    let maxInFlight = 0;
+    const recorded: string[] = [];
+
+    await dispatchWebhooks({
+      endpointsFor: async event => [{
+        ...WEBHOOK, description: null, events: [event], is_active: true, created_by: null, created_at: RUN.scrape_started_at,
+      }],
+      recordDeliveries: async deliveries => { recorded.push(...deliveries.map(d => d.event)); },
+    }, payloads, {
+      fetchImpl: (async (url: string, init: RequestInit) => {
+        maxInFlight = Math.max(maxInFlight, ++inFlight);
+        await new Promise(resolve => setTimeout(resolve, 5));
+        inFlight--;
+        return fetchImpl(url, init);
+      }) as unknown as typeof fetch,
+    });
+
+    expect(maxInFlight).toBe(2);
+    expect(recorded).toEqual(['run.completed', 'source.failed']);
+  });
+});
+
+// ─── Payloads ───────────────────────────────────────────────────────────────
+
+describe('runWebhookPayloads', () => {
+  it('sends run.completed and a source.failed for each failed or partial source', () => {
+    const sources = [breakdown('HSE', 'SUCCESS'), breakdown('HealthcareJobs', 'FAILURE'), breakdown('Rezoomo', 'PARTIAL')];
+
+    const payloads = runWebhookPayloads(RUN, sources, { added: [], deactivated: [] });
+
+    expect(payloads.map(payload => payload.event)).toEqual(['run.completed', 'source.failed', 'source.failed']);
+    expect(payloads[0]).toMatchObject({ run: { run_id: 'run-1' }, sources });
+    expect(payloads[1]).toMatchObject({
+      run_id: 'run-1',
+      source: { source: 'HealthcareJobs', status: 'FAILURE', error_message: 'Connection reset' },
+    });
+    expect(payloads[2]).toMatchObject({ source: { source: 'Rezoomo', status: 'PARTIAL' } });
+  });
+});
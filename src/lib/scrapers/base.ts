@@ -3,7 +3,17 @@
  * Common utilities and types for web scraping Irish medical job boards
  */
 
-import type { Job, SpecialtyType, SchemeType, HospitalGroup, HospitalTier } from '@/types/database.types';
+import type { Job, SpecialtyType, SchemeType, HospitalGroup, HealthRegion, HospitalTier, JobListing, ListingPlatform, DeadlinePrecision, FieldConfidenceMap } from '@/types/database.types';
+import type { FixtureStore } from './fixtures';
+import type { DetailCache } from './detail-cache';
+import type { FailureCapture } from './failure-captures';
+import { getScheduler, RobotsDisallowedError, type RequestScheduler } from './politeness';
+import { parseIrishDeadline, UNKNOWN_DEADLINE, type ParsedDeadline } from './deadline-parser';
+import { classifyGrade, classifySchemeType, classifySpecialty, scoreTitleFields } from './field-confidence';
+import { resolveHealthRegion } from './hospital-matcher';
+
+/** Boards usually close a post about three weeks after listing it */
+const ESTIMATED_DEADLINE_DAYS = 21;
 
 export interface ScrapedJob {
   title: string;
@@ -11,9 +21,13 @@ export interface ScrapedJob {
   specialty: SpecialtyType;
   scheme_type: SchemeType;
   hospital_name: string;
-  hospital_group: HospitalGroup;
+  hospital_group: HospitalGroup | null; // Null for locations outside the hospital groups
+  /** Filled in from the hospital, text or county when a scraper leaves it out */
+  health_region?: HealthRegion | null;
   county: string;
   application_deadline: string;
+  deadline_precision?: DeadlinePrecision;
+  reference_number?: string;
   application_url?: string;
   job_spec_pdf_url?: string;
   informal_enquiries_email?: string;
@@ -25,10 +39,16 @@ export interface ScrapedJob {
   salary_range?: string;
   hours_per_week?: number;
   on_call?: boolean;
+  on_call_frequency?: string;
+  duration_months?: number;
+  start_date?: string; // YYYY-MM-DD, only when the posting states it
+  contract_type?: string;
   historical_centile_tier?: HospitalTier;
   source_url: string;
-  source_platform: 'HSE_NRS' | 'REZOOMO' | 'ABOUT_HSE' | 'HEALTHCARE_JOBS' | 'GLOBAL_MEDICS' | 'DOCTOR_JOBS' | 'IRISH_JOBS' | 'DIRECT_HOSPITAL';
+  source_platform: ListingPlatform;
   scraped_at: string;
+  listings?: JobListing[]; // Set by entity resolution when the same post appears on several platforms
+  field_confidence?: FieldConfidenceMap; // Scrapers set hospital_name; createResult() scores the title fields
 }
 
 export interface ScraperResult {
@@ -39,149 +59,282 @@ export interface ScraperResult {
   job_count: number;
 }
 
+/**
+ * A unit of work in a queued run, e.g. one listing page or one detail page.
+ * `key` (usually the URL) must be unique for the kind within the scraper.
+ */
+export interface ScrapeTaskSpec {
+  kind: string;
+  key: string;
+  payload?: Record<string, unknown>;
+}
+
+/**
+ * What running a task produced: its jobs and the tasks it leads to
+ */
+export interface TaskOutcome {
+  jobs: ScrapedJob[];
+  tasks?: ScrapeTaskSpec[];
+  error?: string; // Finished, but with a problem worth logging
+}
+
+/**
+ * Per-run counters a scraper reports to the orchestrator's telemetry
+ */
+export interface ScraperStats {
+  pages_fetched: number;
+  listing_pages: number;  // Listing pages parsed for job cards
+  fallback_pages: number; // ...of which fell back to bare link extraction
+  skipped_pages: number;  // Pages not fetched because the run deadline had passed
+}
+
 /**
  * Base scraper class with common functionality
  */
 export abstract class BaseScraper {
   protected baseUrl: string;
   protected platformName: ScrapedJob['source_platform'];
+  protected fixtures: FixtureStore | null = null;
+  protected detailCache: DetailCache | null = null;
+  protected scheduler: RequestScheduler = getScheduler();
+  protected deadline: number | null = null;
+  protected stats: ScraperStats = { pages_fetched: 0, listing_pages: 0, fallback_pages: 0, skipped_pages: 0 };
+  protected captures: FailureCapture[] = [];
 
   constructor(baseUrl: string, platformName: ScrapedJob['source_platform']) {
     this.baseUrl = baseUrl;
     this.platformName = platformName;
   }
 
+  get platform(): ScrapedJob['source_platform'] {
+    return this.platformName;
+  }
+
+  get host(): string {
+    return new URL(this.baseUrl).host;
+  }
+
+  /**
+   * Counters since the last resetStats() call
+   */
+  getStats(): ScraperStats {
+    return { ...this.stats };
+  }
+
+  resetStats(): void {
+    this.stats = { pages_fetched: 0, listing_pages: 0, fallback_pages: 0, skipped_pages: 0 };
+  }
+
+  /**
+   * Page captures taken on failures since the last call, for the run's log
+   */
+  takeCaptures(): FailureCapture[] {
+    const captures = this.captures;
+    this.captures = [];
+    return captures;
+  }
+
   /**
    * Main scraping method - to be implemented by each scraper
    */
   abstract scrape(): Promise<ScraperResult>;
 
   /**
-   * Parse grade from job title or description
+   * The first tasks of a queued run. By default the whole scrape is one
+   * task; scrapers with many pages split it so a run can resume part way.
    */
-  protected parseGrade(title: string, description?: string): ScrapedJob['grade'] {
-    const text = `${title} ${description || ''}`.toLowerCase();
+  planTasks(): ScrapeTaskSpec[] {
+    return [{ kind: 'SCRAPE', key: this.baseUrl }];
+  }
 
-    if (text.includes('specialist registrar') || text.includes('spr')) {
-      return 'SPECIALIST_REGISTRAR';
-    }
-    if (text.includes('registrar') || text.includes('reg ')) {
-      return 'REGISTRAR';
-    }
-    if (text.includes('sho') || text.includes('senior house officer')) {
-      return 'SHO';
-    }
+  /**
+   * Run one queued task. Throws if the task should be retried.
+   */
+  async runTask(task: ScrapeTaskSpec): Promise<TaskOutcome> {
+    const outcome = await this.performTask(task);
+    return { ...outcome, jobs: this.withTitleScores(outcome.jobs) };
+  }
 
-    // Default to SHO if unclear
-    return 'SHO';
-  }
-
-  /**
-   * Parse specialty from job title or description
-   */
-  protected parseSpecialty(title: string, description?: string): SpecialtyType {
-    const text = `${title} ${description || ''}`.toLowerCase();
-
-    // Specific specialties checked first
-    const specificSpecialties: [string, SpecialtyType][] = [
-      ['emergency medicine', 'EMERGENCY_MEDICINE'],
-      ['a&e', 'EMERGENCY_MEDICINE'],
-      ['anaesthesia', 'ANAESTHETICS'],
-      ['anaesthetic', 'ANAESTHETICS'],
-      ['paediatric', 'PAEDIATRICS'],
-      ['paediatrics', 'PAEDIATRICS'],
-      ['obstetrics', 'OBSTETRICS_GYNAECOLOGY'],
-      ['gynaecology', 'OBSTETRICS_GYNAECOLOGY'],
-      ['psychiatry', 'PSYCHIATRY'],
-      ['radiology', 'RADIOLOGY'],
-      ['pathology', 'PATHOLOGY'],
-      ['cardiology', 'CARDIOLOGY'],
-      ['respiratory', 'RESPIRATORY'],
-      ['gastroenterology', 'GASTROENTEROLOGY'],
-      ['endocrinology', 'ENDOCRINOLOGY'],
-      ['neurology', 'NEUROLOGY'],
-      ['dermatology', 'DERMATOLOGY'],
-      ['orthopaedic', 'ORTHOPAEDICS'],
-      ['urology', 'UROLOGY'],
-      ['otolaryngology', 'ENT'],
-      ['ear nose', 'ENT'],
-      ['oncology', 'ONCOLOGY'],
-      ['ophthalmology', 'OPHTHALMOLOGY'],
-    ];
-
-    for (const [keyword, specialty] of specificSpecialties) {
-      if (text.includes(keyword)) {
-        return specialty;
-      }
+  /**
+   * Task work for runTask() — scrapers that split their work override this
+   */
+  protected async performTask(task: ScrapeTaskSpec): Promise<TaskOutcome> {
+    if (task.kind !== 'SCRAPE') {
+      throw new Error(`${this.platformName} has no "${task.kind}" task`);
     }
+    const result = await this.scrape();
+    if (result.error && result.job_count === 0) throw new Error(result.error);
+    return { jobs: result.jobs, error: result.error };
+  }
 
-    // Word-boundary check for 'ENT' — before generic fallbacks so
-    // "ENT Surgery" matches ENT, not GENERAL_SURGERY
-    if (/\bent\b/.test(text)) {
-      return 'ENT';
-    }
+  /**
+   * Run planTasks() and every task they lead to in this process, for
+   * scrapers whose scrape() is built from tasks. The first task failing
+   * fails the scrape; later failures are reported alongside the jobs.
+   */
+  protected async runTasksInline(): Promise<ScraperResult> {
+    const queue = this.planTasks();
+    const jobs: ScrapedJob[] = [];
+    const errors: string[] = [];
 
-    // Generic fallbacks
-    const genericFallbacks: [string, SpecialtyType][] = [
-      ['general medicine', 'GENERAL_MEDICINE'],
-      ['general surgery', 'GENERAL_SURGERY'],
-      ['emergency', 'EMERGENCY_MEDICINE'],
-      ['medicine', 'GENERAL_MEDICINE'],
-      ['surgery', 'GENERAL_SURGERY'],
-    ];
-
-    for (const [keyword, specialty] of genericFallbacks) {
-      if (text.includes(keyword)) {
-        return specialty;
+    for (let i = 0; i < queue.length; i++) {
+      try {
+        const outcome = await this.runTask(queue[i]);
+        jobs.push(...outcome.jobs);
+        queue.push(...(outcome.tasks || []));
+        if (outcome.error) errors.push(outcome.error);
+      } catch (error) {
+        if (i === 0) return this.createResult([], (error as Error).message);
+        errors.push((error as Error).message);
       }
     }
 
-    return 'GENERAL_MEDICINE'; // Default
+    return this.createResult(jobs, errors.length > 0 ? errors.join('; ') : undefined);
   }
 
   /**
-   * Parse scheme type from job title or description
+   * Attach a fixture store (record or replay). Pass null to go back to live scraping.
    */
-  protected parseSchemeType(title: string, description?: string): SchemeType {
-    const text = `${title} ${description || ''}`.toLowerCase();
+  setFixtureStore(store: FixtureStore | null): void {
+    this.fixtures = store;
+  }
 
-    if (text.includes('bst') || text.includes('basic specialist training')) {
-      return 'TRAINING_BST';
-    }
-    if (text.includes('hst') || text.includes('higher specialist training')) {
-      return 'TRAINING_HST';
+  /**
+   * Attach a cache of parsed detail pages, for scrapers that enrich
+   * listings from them. Pass null to always fetch detail pages.
+   */
+  setDetailCache(cache: DetailCache | null): void {
+    this.detailCache = cache;
+  }
+
+  /**
+   * Use a different request scheduler (the shared one is used by default)
+   */
+  setScheduler(scheduler: RequestScheduler): void {
+    this.scheduler = scheduler;
+  }
+
+  /**
+   * Stop fetching new pages after this time (epoch ms); null for no limit
+   */
+  setDeadline(deadline: number | null): void {
+    this.deadline = deadline;
+  }
+
+  /**
+   * Whether the run deadline has passed. Pages requested after it are
+   * skipped, so a scraper winds down with whatever it already parsed.
+   */
+  protected pastDeadline(): boolean {
+    return this.deadline !== null && Date.now() >= this.deadline;
+  }
+
+  /**
+   * Fetch a page's HTML. In replay mode the page is served from fixtures;
+   * in record mode the live response is also written to fixtures.
+   */
+  protected async fetchPage(url: string): Promise<string | null> {
+    if (this.pastDeadline()) {
+      this.stats.skipped_pages++;
+      return null;
     }
-    if (text.includes('training')) {
-      return 'TRAINING_BST'; // Default to BST if training mentioned
+
+    if (this.fixtures?.isReplay) {
+      const html = this.fixtures.load(url);
+      if (html === null) {
+        console.warn(`${this.platformName} replay: no fixture recorded for ${url}`);
+      } else {
+        this.stats.pages_fetched++;
+      }
+      return html;
     }
-    if (text.includes('stand alone') || text.includes('standalone')) {
-      return 'STAND_ALONE';
+
+    try {
+      const response = await this.scheduler.fetch(url, {
+        headers: { 'Accept': 'text/html' },
+      }, this.deadline);
+      if (!response.ok) {
+        console.error(`${this.platformName} fetch failed: ${response.status} ${response.statusText} for ${url}`);
+        return null;
+      }
+      const html = await response.text();
+      this.stats.pages_fetched++;
+      if (this.fixtures?.isRecording) {
+        this.fixtures.save(url, html, this.platformName);
+      }
+      return html;
+    } catch (error) {
+      if (error instanceof RobotsDisallowedError) {
+        console.warn(`${this.platformName}: ${error.message}, skipping`);
+        return null;
+      }
+      console.error(`${this.platformName} fetch error for ${url}:`, error);
+      return null;
     }
+  }
 
-    return 'NON_TRAINING_SERVICE';
+  /**
+   * Wait for a page to settle (e.g. after "load more") — skipped when replaying
+   * fixtures. Request spacing is handled by the scheduler, not here.
+   */
+  protected async pause(ms: number): Promise<void> {
+    if (this.fixtures?.isReplay) return;
+    await delay(ms);
   }
 
   /**
-   * Parse deadline from various date formats
+   * Parse grade from job title. A scraper classifying other text too calls
+   * classifyGrade() itself and sets the score it returns.
    */
-  protected parseDeadline(dateString: string): string {
-    try {
-      // Handle common Irish date formats
-      const formats = [
-        /(\d{1,2})\s+(January|February|March|April|May|June|July|August|September|October|November|December)\s+(\d{4})/i,
-        /(\d{1,2})\/(\d{1,2})\/(\d{4})/,
-        /(\d{4})-(\d{2})-(\d{2})/,
-      ];
-
-      const date = new Date(dateString);
-      if (!isNaN(date.getTime())) {
-        return date.toISOString();
-      }
+  protected parseGrade(title: string): ScrapedJob['grade'] {
+    return classifyGrade(title).value;
+  }
+
+  /**
+   * Parse specialty from job title (see parseGrade)
+   */
+  protected parseSpecialty(title: string): SpecialtyType {
+    return classifySpecialty(title).value;
+  }
+
+  /**
+   * Parse scheme type from job title (see parseGrade)
+   */
+  protected parseSchemeType(title: string): SchemeType {
+    return classifySchemeType(title).value;
+  }
 
-      return new Date().toISOString(); // Fallback to now if parsing fails
-    } catch {
-      return new Date().toISOString();
+  /**
+   * Parse a deadline from Irish date formats, in Europe/Dublin time
+   */
+  protected parseDeadline(text: string | null | undefined): ParsedDeadline | typeof UNKNOWN_DEADLINE {
+    return parseIrishDeadline(text);
+  }
+
+  /**
+   * Deadline fields for a job. When the text has no recognisable date, the
+   * deadline is estimated from `estimateFrom` (posting date, default now) and
+   * marked ESTIMATED rather than passed off as a real closing date.
+   */
+  protected resolveDeadline(
+    text: string | null | undefined,
+    estimateFrom: Date = new Date()
+  ): Pick<ScrapedJob, 'application_deadline' | 'deadline_precision'> {
+    const parsed = this.parseDeadline(text);
+    if (parsed !== UNKNOWN_DEADLINE) {
+      return { application_deadline: parsed.iso, deadline_precision: parsed.precision };
     }
+
+    return this.estimatedDeadline(estimateFrom);
+  }
+
+  /**
+   * Deadline fields for a job whose source gives no closing date
+   */
+  protected estimatedDeadline(from: Date = new Date()): Pick<ScrapedJob, 'application_deadline' | 'deadline_precision'> {
+    const estimate = new Date(from);
+    estimate.setDate(estimate.getDate() + ESTIMATED_DEADLINE_DAYS);
+    return { application_deadline: estimate.toISOString(), deadline_precision: 'ESTIMATED' };
   }
 
   /**
@@ -196,42 +349,32 @@ export abstract class BaseScraper {
    */
   protected createResult(jobs: ScrapedJob[], error?: string): ScraperResult {
     return {
-      jobs,
+      jobs: this.withTitleScores(jobs),
       success: !error,
       error,
       scraped_at: new Date().toISOString(),
       job_count: jobs.length,
     };
   }
+
+  /**
+   * Grade, specialty and scheme type parsed from the title alone are scored
+   * here, the way the parse methods classified them; scores a scraper set
+   * for fields it classified from more than the title win.
+   * The Health Region is resolved here too, for the same reason.
+   */
+  private withTitleScores(jobs: ScrapedJob[]): ScrapedJob[] {
+    return jobs.map(job => ({
+      ...job,
+      health_region: job.health_region ?? resolveHealthRegion(job.hospital_name, job.title, job.county),
+      field_confidence: { ...scoreTitleFields(job.title), ...job.field_confidence },
+    }));
+  }
 }
 
 /**
- * Utility function to delay execution (for rate limiting)
+ * Utility function to delay execution
  */
 export function delay(ms: number): Promise<void> {
   return new Promise(resolve => setTimeout(resolve, ms));
 }
-
-/**
- * Retry wrapper for scraping operations
- */
-export async function withRetry<T>(
-  fn: () => Promise<T>,
-  maxRetries: number = 3,
-  delayMs: number = 1000
-): Promise<T> {
-  let lastError: Error | undefined;
-
-  for (let i = 0; i < maxRetries; i++) {
-    try {
-      return await fn();
-    } catch (error) {
-      lastError = error as Error;
-      if (i < maxRetries - 1) {
-        await delay(delayMs * (i + 1)); // Exponential backoff
-      }
-    }
-  }
-
-  throw lastError;
-}
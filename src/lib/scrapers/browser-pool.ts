@@ -0,0 +1,170 @@
+/**
+ * Browser Pool
+ * One Chromium shared by every Playwright scraper in a run, with a fresh
+ * context per scraper. Images, media, fonts and tracking scripts are
+ * blocked: the scrapers only read the DOM, and analytics beacons keep
+ * `networkidle` from settling.
+ */
+
+import type { Browser, BrowserContext } from 'playwright';
+
+/** Contexts open at once; further scrapers wait for one to be released */
+const MAX_CONTEXTS = 2;
+
+/** Resource types no scraper needs */
+export const BLOCKED_RESOURCE_TYPES = new Set(['image', 'media', 'font']);
+
+/** Analytics, ad and chat widget hosts (subdomains included) */
+export const BLOCKED_HOSTS = [
+  'google-analytics.com',
+  'googletagmanager.com',
+  'doubleclick.net',
+  'googlesyndication.com',
+  'googleadservices.com',
+  'facebook.net',
+  'facebook.com',
+  'hotjar.com',
+  'clarity.ms',
+  'licdn.com',
+  'bat.bing.com',
+  'segment.io',
+  'intercom.io',
+  'hs-analytics.net',
+  'hs-scripts.com',
+  'nr-data.net',
+  'newrelic.com',
+];
+
+/**
+ * Whether a page request can be aborted without changing what gets scraped
+ */
+export function shouldBlockRequest(resourceType: string, url: string): boolean {
+  if (BLOCKED_RESOURCE_TYPES.has(resourceType)) return true;
+
+  let host: string;
+  try {
+    host = new URL(url).hostname;
+  } catch {
+    return false;
+  }
+  return BLOCKED_HOSTS.some(blocked => host === blocked || host.endsWith(`.${blocked}`));
+}
+
+export type BrowserLauncher = () => Promise<Browser>;
+
+// Dynamic import — Playwright is only available in the GitHub Actions environment
+async function launchChromium(): Promise<Browser> {
+  try {
+    const pw = await import('playwright');
+    return await pw.chromium.launch({
+      headless: true,
+      args: ['--no-sandbox', '--disable-setuid-sandbox'],
+    });
+  } catch (error) {
+    throw new Error(
+      'Playwright is not available. Playwright-based scrapers only run in GitHub Actions. ' +
+      `Error: ${(error as Error).message}`
+    );
+  }
+}
+
+export class BrowserPool {
+  private browser: Promise<Browser> | null = null;
+  private open = 0;
+  private waiting: (() => void)[] = [];
+  private blockedRequests = 0;
+
+  constructor(
+    private launch: BrowserLauncher = launchChromium,
+    private maxContexts: number = MAX_CONTEXTS
+  ) {}
+
+  /**
+   * A new context on the shared browser, launching it on first use.
+   * Give it back with release().
+   */
+  async acquire(): Promise<BrowserContext> {
+    if (this.open < this.maxContexts) {
+      this.open++;
+    } else {
+      // release() hands its slot straight to the next waiter
+      await new Promise<void>(resolve => this.waiting.push(resolve));
+    }
+
+    try {
+      const browser = await this.getBrowser();
+      const context = await browser.newContext({ viewport: { width: 1280, height: 800 } });
+      await context.route('**/*', route => {
+        const request = route.request();
+        if (shouldBlockRequest(request.resourceType(), request.url())) {
+          this.blockedRequests++;
+          return route.abort();
+        }
+        return route.continue();
+      });
+      return context;
+    } catch (error) {
+      this.releaseSlot();
+      throw error;
+    }
+  }
+
+  async release(context: BrowserContext): Promise<void> {
+    await context.close().catch(() => {});
+    this.releaseSlot();
+  }
+
+  /**
+   * Close the browser. The next acquire() launches a new one.
+   */
+  async close(): Promise<void> {
+    const pending = this.browser;
+    this.browser = null;
+    if (!pending) return;
+
+    try {
+      await (await pending).close();
+    } catch {
+      // Never launched, or already gone
+    }
+    if (this.blockedRequests > 0) {
+      console.log(`Browser pool: blocked ${this.blockedRequests} non-essential requests`);
+      this.blockedRequests = 0;
+    }
+  }
+
+  private async getBrowser(): Promise<Browser> {
+    if (this.browser) {
+      const browser = await this.browser;
+      if (browser.isConnected()) return browser;
+      this.browser = null; // Crashed — launch another
+    }
+
+    this.browser = this.launch().catch(error => {
+      this.browser = null;
+      throw error;
+    });
+    return this.browser;
+  }
+
+  private releaseSlot(): void {
+    const next = this.waiting.shift();
+    if (next) {
+      next();
+    } else {
+      this.open--;
+    }
+  }
+}
+
+let poolInstance: BrowserPool | null = null;
+
+/**
+ * Shared pool so every Playwright scraper in a run uses the same browser
+ */
+export function getBrowserPool(): BrowserPool {
+  if (!poolInstance) {
+    poolInstance = new BrowserPool();
+  }
+  return poolInstance;
+}
@@ -0,0 +1,277 @@
+/**
+ * Scraper CLI
+ * Runs the orchestrator from a terminal so a selector fix can be tried
+ * locally: `dry-run` and `diff` only read the database, `export` doesn't
+ * touch it at all. scripts/scrape.ts is the entry point.
+ */
+
+import type { ScrapedJob } from './base';
+import type { FixtureMode } from './fixtures';
+import type { RunPreview, SavePlan } from './orchestrator';
+import { STALE_RUNS_BEFORE_DEACTIVATION, type StaleJob } from './stale-jobs';
+import type { QueueProgress } from './task-queue';
+import { describeChange } from '@/lib/jobRevisions';
+
+export type CliCommand = 'run' | 'dry-run' | 'diff' | 'export' | 'list' | 'queue';
+
+export type ExportFormat = 'json' | 'csv';
+
+export interface CliOptions {
+  command: CliCommand;
+  sources: string[]; // Scraper names; every registered scraper when empty
+  format: ExportFormat;
+  out: string | null; // Export file; stdout when null
+  playwright: boolean; // Also register the Playwright scrapers
+  fixtures: { mode: FixtureMode; dir: string } | null;
+  budgetMs?: number;
+  maxTasks?: number; // queue: stop after this many tasks
+}
+
+export const CLI_USAGE = `Usage: npm run scrape -- <command> [options]
+
+Commands:
+  run        Scrape and save to Supabase
+  dry-run    Scrape and print the inserts, updates and deactivations a save would make
+  diff       Scrape and print field-by-field differences from the stored jobs
+  export     Scrape and write the jobs as JSON or CSV, without touching the database
+  list       List the registered scrapers
+  queue      Start or resume the queued run and work its tasks (needs Supabase)
+
+Options:
+  --source <name>      Only run this scraper (repeatable, or comma-separated)
+  --format json|csv    Export format (default json, or from --out's extension)
+  --out <file>         Write the export to a file instead of stdout
+  --playwright         Also run the Playwright scrapers (needs a local browser)
+  --replay <dir>       Read pages from recorded fixtures instead of the network
+  --record <dir>       Record fetched pages as fixtures
+  --budget <seconds>   Time allowed for scraping (default 240)
+  --max-tasks <n>      With queue, stop after n tasks — to try resuming`;
+
+const COMMANDS: CliCommand[] = ['run', 'dry-run', 'diff', 'export', 'list', 'queue'];
+
+/**
+ * Parse command-line arguments (without the node and script paths).
+ * Throws with a message for the user when they don't make sense.
+ */
+export function parseCliArgs(argv: string[]): CliOptions {
+  const [command, ...rest] = argv;
+  if (!command || !COMMANDS.includes(command as CliCommand)) {
+    throw new Error(command ? `Unknown command "${command}"` : 'No command given');
+  }
+
+  const options: CliOptions = {
+    command: command as CliCommand,
+    sources: [],
+    format: 'json',
+    out: null,
+    playwright: false,
+    fixtures: null,
+  };
+  let formatGiven = false;
+
+  for (let i = 0; i < rest.length; i++) {
+    const arg = rest[i];
+    const [flag, inlineValue] = arg.startsWith('--') && arg.includes('=')
+      ? [arg.slice(0, arg.indexOf('=')), arg.slice(arg.indexOf('=') + 1)]
+      : [arg, undefined];
+    const value = (): string => {
+      const next = inlineValue ?? rest[++i];
+      if (next === undefined || next.startsWith('--')) throw new Error(`${flag} needs a value`);
+      return next;
+    };
+
+    switch (flag) {
+      case '--source':
+        options.sources.push(...value().split(',').map(source => source.trim()).filter(Boolean));
+        break;
+      case '--format': {
+        const format = value();
+        if (format !== 'json' && format !== 'csv') throw new Error(`--format must be json or csv, not "${format}"`);
+        options.format = format;
+        formatGiven = true;
+        break;
+      }
+      case '--out':
+        options.out = value();
+        break;
+      case '--playwright':
+        options.playwright = true;
+        break;
+      case '--replay':
+      case '--record':
+        if (options.fixtures) throw new Error('Use only one of --replay and --record');
+        options.fixtures = { mode: flag === '--replay' ? 'replay' : 'record', dir: value() };
+        break;
+      case '--budget': {
+        const seconds = Number(value());
+        if (!(seconds > 0)) throw new Error('--budget must be a number of seconds');
+        options.budgetMs = seconds * 1000;
+        break;
+      }
+      case '--max-tasks': {
+        const count = Number(value());
+        if (!Number.isInteger(count) || count < 1) throw new Error('--max-tasks must be a whole number of tasks');
+        options.maxTasks = count;
+        break;
+      }
+      default:
+        throw new Error(`Unknown option "${arg}"`);
+    }
+  }
+
+  if (!formatGiven && options.out?.toLowerCase().endsWith('.csv')) options.format = 'csv';
+  if (options.command !== 'export' && (formatGiven || options.out)) {
+    throw new Error('--format and --out only apply to export');
+  }
+  if (options.command !== 'queue' && options.maxTasks !== undefined) {
+    throw new Error('--max-tasks only applies to queue');
+  }
+  return options;
+}
+
+/** Columns written by a CSV export, in order */
+export const EXPORT_COLUMNS: (keyof ScrapedJob)[] = [
+  'title',
+  'grade',
+  'specialty',
+  'scheme_type',
+  'hospital_name',
+  'hospital_group',
+  'health_region',
+  'county',
+  'application_deadline',
+  'deadline_precision',
+  'reference_number',
+  'application_url',
+  'job_spec_pdf_url',
+  'informal_enquiries_name',
+  'informal_enquiries_email',
+  'clinical_lead',
+  'source_platform',
+  'source_url',
+  'scraped_at',
+];
+
+function csvCell(value: unknown): string {
+  if (value === undefined || value === null) return '';
+  const text = String(value);
+  return /[",\r\n]/.test(text) ? `"${text.replace(/"/g, '""')}"` : text;
+}
+
+/**
+ * Scraped jobs as JSON (every field) or CSV (the flat EXPORT_COLUMNS)
+ */
+export function exportJobs(jobs: ScrapedJob[], format: ExportFormat): string {
+  if (format === 'json') return JSON.stringify(jobs, null, 2) + '\n';
+
+  const lines = [EXPORT_COLUMNS.join(',')];
+  for (const job of jobs) {
+    lines.push(EXPORT_COLUMNS.map(column => csvCell(job[column])).join(','));
+  }
+  return lines.join('\n') + '\n';
+}
+
+function jobLine(job: { title?: string; hospital_name?: string }): string {
+  return job.hospital_name ? `${job.title} — ${job.hospital_name}` : `${job.title}`;
+}
+
+function missedLine(job: StaleJob): string {
+  return `${job.title} (missed ${job.missed_runs} of ${STALE_RUNS_BEFORE_DEACTIVATION} runs)`;
+}
+
+/**
+ * One-line counts for a save plan, e.g. "3 new, 2 updated, 40 unchanged, 1 deactivated"
+ */
+export function summarizePlan(plan: SavePlan): string {
+  const deactivated = plan.stale.reduce((total, s) => total + s.deactivate.length, 0);
+  const kept = plan.stale.reduce((total, s) => total + s.missing.length, 0);
+  return `${plan.inserts.length} new, ${plan.updates.length} updated, ${plan.unchanged} unchanged, ` +
+    `${deactivated} deactivated` + (kept ? `, ${kept} unseen but kept active` : '');
+}
+
+/**
+ * What a dry run would write: each insert, update and deactivation by title
+ */
+export function formatDryRun({ collected, plan }: RunPreview): string[] {
+  const lines = [
+    `Scrapers: ${collected.scrapers_run.join(', ') || 'none'} (${collected.status})`,
+    `Jobs: ${collected.total_jobs_scraped} scraped, ${collected.jobs.length} after deduplication`,
+    `Would save: ${summarizePlan(plan)}`,
+  ];
+
+  if (plan.inserts.length > 0) {
+    lines.push('', 'Insert:');
+    lines.push(...plan.inserts.map(job => `  + ${jobLine(job)}`));
+  }
+  if (plan.updates.length > 0) {
+    lines.push('', 'Update:');
+    lines.push(...plan.updates.map(({ job, changes }) =>
+      `  ~ ${jobLine(job)} (${changes.map(change => change.field).join(', ')})`
+    ));
+  }
+  for (const { source, skipped, missing, deactivate } of plan.stale) {
+    if (deactivate.length > 0) {
+      lines.push('', `Deactivate (${source}):`);
+      lines.push(...deactivate.map(job => `  - ${missedLine(job)}`));
+    }
+    if (missing.length > 0) {
+      lines.push('', skipped
+        ? `Not seen but left alone (${source}: ${skipped}):`
+        : `Not seen, kept active for now (${source}):`);
+      lines.push(...missing.map(job => `  ? ${skipped ? job.title : missedLine(job)}`));
+    }
+  }
+  lines.push(...formatErrors(collected.errors));
+  return lines;
+}
+
+/**
+ * Field-by-field differences between the run and the stored jobs
+ */
+export function formatDiff({ collected, plan }: RunPreview): string[] {
+  const lines = [`Diff against the database: ${summarizePlan(plan)}`];
+
+  for (const job of plan.inserts) {
+    lines.push('', `+ ${jobLine(job)}`, `    deadline ${job.application_deadline}`);
+    if (job.application_url) lines.push(`    ${job.application_url}`);
+  }
+  for (const { job, changes } of plan.updates) {
+    lines.push('', `~ ${jobLine(job)}`);
+    for (const change of changes) {
+      lines.push(`    ${describeChange(change)}`);
+      lines.push(`      - ${change.old_value ?? '(empty)'}`, `      + ${change.new_value ?? '(empty)'}`);
+    }
+  }
+  for (const { source, skipped, missing, deactivate } of plan.stale) {
+    for (const job of deactivate) {
+      lines.push('', `- ${missedLine(job)} [${source}]`);
+    }
+    for (const job of missing) {
+      lines.push('', `? ${skipped ? job.title : missedLine(job)} [${source}, kept active]`);
+    }
+  }
+  lines.push(...formatErrors(collected.errors));
+  return lines;
+}
+
+/**
+ * Where a queued run has got to, overall and per scraper
+ */
+export function formatQueueProgress(progress: QueueProgress): string[] {
+  const { run } = progress;
+  const finished = progress.done + progress.failed;
+  const lines = [
+    `Run ${run.id} (${run.status === 'COMPLETE' ? 'complete' : 'in progress'}, started ${run.created_at})`,
+    `Tasks: ${finished} of ${progress.total} finished (${progress.failed} failed), ` +
+      `${progress.running} running, ${progress.pending} pending; ${progress.jobs} jobs`,
+  ];
+  for (const s of progress.scrapers) {
+    lines.push(`  ${s.scraper.padEnd(16)} ${s.done + s.failed}/${s.total} tasks` +
+      (s.failed ? ` (${s.failed} failed)` : '') + `, ${s.jobs} jobs`);
+  }
+  return lines;
+}
+
+function formatErrors(errors: string[]): string[] {
+  return errors.length > 0 ? ['', 'Errors:', ...errors.map(error => `  - ${error}`)] : [];
+}
@@ -0,0 +1,168 @@
+/**
+ * Irish Deadline Parser
+ * Parses closing dates as Irish job boards write them — "Friday 14th March
+ * 2026 at 12 noon", "14/03/2026 17:00", "14.03.26", "Márta 14" — and
+ * interprets them as Europe/Dublin wall-clock time, DST included.
+ *
+ * Text that holds no recognisable date is reported as UNKNOWN_DEADLINE,
+ * never silently turned into "now".
+ */
+
+export const UNKNOWN_DEADLINE = 'unknown' as const;
+
+export interface ParsedDeadline {
+  iso: string;
+  precision: 'DATETIME' | 'DATE'; // DATE when no closing time was given
+}
+
+/** A date with no closing time is open until the end of that day */
+const END_OF_DAY = { hour: 23, minute: 59 };
+
+/** A year-less date more than this far in the past is taken to be next year's */
+const PAST_TOLERANCE_DAYS = 60;
+
+const MONTHS: Record<string, number> = {
+  january: 1, february: 2, march: 3, april: 4, may: 5, june: 6,
+  july: 7, august: 8, september: 9, october: 10, november: 11, december: 12,
+  jan: 1, feb: 2, mar: 3, apr: 4, jun: 6, jul: 7, aug: 8, sep: 9, sept: 9, oct: 10, nov: 11, dec: 12,
+  // Irish month names and their usual abbreviations
+  'eanáir': 1, feabhra: 2, 'márta': 3, 'aibreán': 4, bealtaine: 5, meitheamh: 6,
+  'iúil': 7, 'lúnasa': 8, 'meán fómhair': 9, 'deireadh fómhair': 10, samhain: 11, nollaig: 12,
+  ean: 1, feabh: 2, 'már': 3, aib: 4, beal: 5, meith: 6, 'lún': 8, samh: 11, noll: 12,
+};
+
+const MONTH_PATTERN = Object.keys(MONTHS)
+  .sort((a, b) => b.length - a.length)
+  .join('|');
+
+/** Word boundary that also works after accented letters */
+const END = '(?![a-z\\u00c0-\\u024f])';
+
+const DATE_PATTERNS: { regex: RegExp; read: (m: RegExpMatchArray) => [number | null, number, number] }[] = [
+  // 2026-03-14
+  { regex: /\b(\d{4})-(\d{2})-(\d{2})t?/, read: m => [+m[1], +m[2], +m[3]] },
+  // 14/03/2026, 14-03-2026, 14.03.26
+  { regex: /\b(\d{1,2})[/.-](\d{1,2})[/.-](\d{4}|\d{2})(?!\d)/, read: m => [fullYear(m[3]), +m[2], +m[1]] },
+  // 14 March 2026, 14 Mar '26, 14 March
+  {
+    regex: new RegExp(`\\b(\\d{1,2})\\s+(?:of\\s+)?(${MONTH_PATTERN})${END}\\.?(?:\\s+(\\d{4}|'\\d{2})(?!\\d))?`),
+    read: m => [m[3] ? fullYear(m[3]) : null, MONTHS[m[2]], +m[1]],
+  },
+  // March 14 2026, March 14
+  {
+    regex: new RegExp(`(?<![a-z\\u00c0-\\u024f])(${MONTH_PATTERN})${END}\\.?\\s+(\\d{1,2})(?!\\d)(?:\\s+(\\d{4})(?!\\d))?`),
+    read: m => [m[3] ? +m[3] : null, MONTHS[m[1]], +m[2]],
+  },
+];
+
+function fullYear(text: string): number {
+  const year = +text.replace("'", '');
+  return year < 100 ? 2000 + year : year;
+}
+
+/**
+ * Closing time in 24h form, from "12 noon", "5pm", "5.30 p.m.", "17:00", "1700hrs"
+ */
+function parseTime(text: string): { hour: number; minute: number } | null {
+  if (/\b(?:12\s*)?(?:noon|midday)\b/.test(text)) return { hour: 12, minute: 0 };
+  if (/\bmidnight\b/.test(text)) return END_OF_DAY;
+
+  const twelveHour = text.match(/\b(\d{1,2})(?:[:.](\d{2}))?\s*([ap])\.?\s*m\b/);
+  if (twelveHour) {
+    const hour = +twelveHour[1];
+    const minute = twelveHour[2] ? +twelveHour[2] : 0;
+    if (hour >= 1 && hour <= 12 && minute < 60) {
+      return { hour: (hour % 12) + (twelveHour[3] === 'p' ? 12 : 0), minute };
+    }
+  }
+
+  const twentyFourHour = text.match(/\b(\d{1,2})[:.](\d{2})\b/) || text.match(/\b(\d{2})(\d{2})\s*(?:hrs|hours|h)\b/);
+  if (twentyFourHour) {
+    const hour = +twentyFourHour[1];
+    const minute = +twentyFourHour[2];
+    if (hour < 24 && minute < 60) return { hour, minute };
+  }
+
+  return null;
+}
+
+const dublinFormat = new Intl.DateTimeFormat('en-GB', {
+  timeZone: 'Europe/Dublin',
+  hourCycle: 'h23',
+  year: 'numeric',
+  month: '2-digit',
+  day: '2-digit',
+  hour: '2-digit',
+  minute: '2-digit',
+  second: '2-digit',
+});
+
+/** Dublin's UTC offset (ms) at a given instant — 0 in winter, +1h in summer */
+function dublinOffset(utcMs: number): number {
+  const parts: Record<string, number> = {};
+  for (const part of dublinFormat.formatToParts(new Date(utcMs))) {
+    parts[part.type] = Number(part.value);
+  }
+  const wallMs = Date.UTC(parts.year, parts.month - 1, parts.day, parts.hour, parts.minute, parts.second);
+  return wallMs - Math.floor(utcMs / 1000) * 1000;
+}
+
+/**
+ * Convert a Europe/Dublin wall-clock time to a UTC Date
+ */
+export function dublinTimeToUtc(year: number, month: number, day: number, hour: number, minute: number): Date {
+  const wallMs = Date.UTC(year, month - 1, day, hour, minute);
+  // The offset at the wall time read as UTC is right except within an hour of
+  // a DST switch, so check it again at the corrected instant
+  const firstGuess = wallMs - dublinOffset(wallMs);
+  return new Date(wallMs - dublinOffset(firstGuess));
+}
+
+/**
+ * Parse a deadline from free text. `reference` (default now) is used to
+ * pick the year when the text doesn't give one.
+ */
+export function parseIrishDeadline(
+  text: string | null | undefined,
+  reference: Date = new Date()
+): ParsedDeadline | typeof UNKNOWN_DEADLINE {
+  if (!text) return UNKNOWN_DEADLINE;
+
+  const normalized = text
+    .toLowerCase()
+    .replace(/(\d)(?:st|nd|rd|th)\b/g, '$1')
+    .replace(/,/g, ' ')
+    .replace(/\s+/g, ' ');
+
+  // Earliest date in the text wins
+  let best: { index: number; length: number; parts: [number | null, number, number] } | null = null;
+  for (const { regex, read } of DATE_PATTERNS) {
+    const match = normalized.match(regex);
+    if (match && match.index !== undefined && (!best || match.index < best.index)) {
+      best = { index: match.index, length: match[0].length, parts: read(match) };
+    }
+  }
+  if (!best) return UNKNOWN_DEADLINE;
+
+  const [year, month, day] = best.parts;
+  if (month < 1 || month > 12 || day < 1 || day > 31) return UNKNOWN_DEADLINE;
+
+  const rest = normalized.slice(0, best.index) + ' ' + normalized.slice(best.index + best.length);
+  const time = parseTime(rest);
+  const { hour, minute } = time || END_OF_DAY;
+
+  let resolvedYear = year ?? reference.getUTCFullYear();
+  if (year === null) {
+    const cutoff = reference.getTime() - PAST_TOLERANCE_DAYS * 24 * 60 * 60 * 1000;
+    if (dublinTimeToUtc(resolvedYear, month, day, hour, minute).getTime() < cutoff) resolvedYear++;
+  }
+
+  // Reject dates that roll over, e.g. 31 February
+  const check = new Date(Date.UTC(resolvedYear, month - 1, day));
+  if (check.getUTCMonth() !== month - 1 || check.getUTCDate() !== day) return UNKNOWN_DEADLINE;
+
+  return {
+    iso: dublinTimeToUtc(resolvedYear, month, day, hour, minute).toISOString(),
+    precision: time ? 'DATETIME' : 'DATE',
+  };
+}
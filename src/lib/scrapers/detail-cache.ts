@@ -0,0 +1,129 @@
+/**
+ * Detail Page Cache
+ * Remembers what was parsed from each job's detail page, keyed by posting
+ * URL and a hash of its listing card. A job whose card hasn't changed is
+ * enriched from the cache instead of refetching its detail page.
+ */
+
+import { createHash } from 'crypto';
+import type { ScrapedJob } from './base';
+import { supabaseAdmin } from '@/lib/supabase';
+
+/** Refetch a detail page at least this often, even if its card is unchanged */
+export const DETAIL_CACHE_MAX_AGE_MS = 7 * 24 * 60 * 60 * 1000;
+
+/** Fields a detail page can fill in */
+export type JobDetails = Partial<Pick<ScrapedJob,
+  | 'application_deadline'
+  | 'deadline_precision'
+  | 'reference_number'
+  | 'job_spec_pdf_url'
+  | 'informal_enquiries_name'
+  | 'informal_enquiries_email'
+  | 'medical_manpower_email'
+  | 'clinical_lead'
+  | 'rotational_detail'
+  | 'salary_range'
+  | 'hours_per_week'
+  | 'on_call'
+  | 'on_call_frequency'
+  | 'duration_months'
+  | 'start_date'
+  | 'contract_type'
+>>;
+
+export interface DetailCacheEntry {
+  url: string;
+  content_hash: string; // Hash of the listing card the details were fetched for
+  details: JobDetails;
+  fetched_at: string;
+}
+
+export interface DetailCache {
+  load(urls: string[]): Promise<Map<string, DetailCacheEntry>>;
+  save(entries: DetailCacheEntry[]): Promise<void>;
+}
+
+/**
+ * Hash of listing text, ignoring whitespace differences
+ */
+export function hashContent(text: string): string {
+  return createHash('sha1').update(text.replace(/\s+/g, ' ').trim()).digest('hex');
+}
+
+/**
+ * Whether a cached entry can stand in for fetching the page again
+ */
+export function isFresh(entry: DetailCacheEntry | undefined, contentHash: string, now: number = Date.now()): boolean {
+  if (!entry || entry.content_hash !== contentHash) return false;
+  return now - new Date(entry.fetched_at).getTime() < DETAIL_CACHE_MAX_AGE_MS;
+}
+
+/**
+ * In-process cache — lives as long as the orchestrator
+ */
+export class MemoryDetailCache implements DetailCache {
+  private entries = new Map<string, DetailCacheEntry>();
+
+  async load(urls: string[]): Promise<Map<string, DetailCacheEntry>> {
+    const found = new Map<string, DetailCacheEntry>();
+    for (const url of urls) {
+      const entry = this.entries.get(url);
+      if (entry) found.set(url, entry);
+    }
+    return found;
+  }
+
+  async save(entries: DetailCacheEntry[]): Promise<void> {
+    for (const entry of entries) {
+      this.entries.set(entry.url, entry);
+    }
+  }
+}
+
+/**
+ * Cache stored in the job_detail_cache table, shared between runs
+ */
+export class SupabaseDetailCache implements DetailCache {
+  /**
+   * Returns null when the service role key isn't configured
+   */
+  static fromEnv(): SupabaseDetailCache | null {
+    if (!process.env.NEXT_PUBLIC_SUPABASE_URL || !process.env.SUPABASE_SERVICE_ROLE_KEY) return null;
+    return new SupabaseDetailCache();
+  }
+
+  async load(urls: string[]): Promise<Map<string, DetailCacheEntry>> {
+    const found = new Map<string, DetailCacheEntry>();
+    const batchSize = 100;
+
+    for (let i = 0; i < urls.length; i += batchSize) {
+      const { data, error } = await supabaseAdmin
+        .from('job_detail_cache')
+        .select('url, content_hash, details, fetched_at')
+        .in('url', urls.slice(i, i + batchSize));
+
+      if (error) {
+        console.error('Error loading detail page cache:', error);
+        continue;
+      }
+      for (const row of (data || []) as DetailCacheEntry[]) {
+        found.set(row.url, row);
+      }
+    }
+
+    return found;
+  }
+
+  async save(entries: DetailCacheEntry[]): Promise<void> {
+    if (entries.length === 0) return;
+
+    const { error } = await supabaseAdmin
+      .from('job_detail_cache')
+      .upsert(entries, { onConflict: 'url' });
+
+    if (error) {
+      console.error('Error saving detail page cache:', error);
+    }
+  }
+}
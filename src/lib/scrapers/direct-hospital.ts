@@ -0,0 +1,243 @@
+/**
+ * Direct Hospital Scrapers
+ * Voluntary hospitals post many NCHD roles only on their own careers pages.
+ * Each hospital is one definition — its listing URL and the selectors that
+ * read its job cards — and runs as its own scraper. Jobs belong to the
+ * hospital the page does, so they're resolved by id instead of matched
+ * from the title.
+ */
+
+import * as cheerio from 'cheerio';
+import { BaseScraper, type ScrapedJob, type ScraperResult } from './base';
+import { classifySpecialty } from './field-confidence';
+import { getHospitalById, type MatchedHospital } from './hospital-matcher';
+import { getHospitalTier } from '@/lib/matchProbability';
+
+/** Keywords that indicate an NCHD job */
+const NCHD_KEYWORDS = [
+  'sho', 'registrar', 'senior house officer', 'nchd',
+  'intern', 'doctor', 'medical officer', 'spr',
+];
+
+/** Keywords that indicate a non-NCHD job — exclude these */
+const EXCLUDE_KEYWORDS = [
+  'consultant', 'nurse', 'nursing', 'midwife', 'midwifery',
+  'admin', 'clerical', 'porter', 'housekeeper', 'chef',
+  'physiotherapist', 'occupational therapist', 'social worker',
+  'pharmacist', 'radiographer', 'dietitian', 'speech',
+  'healthcare assistant', 'psychologist', 'manager', 'director',
+];
+
+/** Listing pages followed per hospital, at most */
+const DEFAULT_MAX_PAGES = 5;
+
+/**
+ * Where a hospital lists its vacancies and how to read them. Selectors
+ * other than `card` are looked up inside each card.
+ */
+export interface DirectHospitalSite {
+  key: string; // Scraper name, e.g. 'StJames'
+  name: string; // As the hospital calls itself, for logs
+  hospitalId: string; // id in hospitals.json
+  listingUrl: string;
+  selectors: {
+    card: string;
+    title: string;
+    link?: string; // Defaults to the title's link, or the card itself when it's a link
+    deadline?: string;
+    reference?: string;
+    department?: string; // Extra text for the specialty, e.g. "Department of Medicine"
+    spec?: string; // Link to the job spec PDF
+  };
+  nextPage?: string; // Link to the next listing page
+  maxPages?: number;
+}
+
+export const DIRECT_HOSPITAL_SITES: DirectHospitalSite[] = [
+  {
+    key: 'StJames',
+    name: "St. James's Hospital",
+    hospitalId: 'stjames',
+    listingUrl: 'https://www.stjames.ie/careers/currentvacancies/',
+    selectors: {
+      card: '.vacancy-list .vacancy',
+      title: '.vacancy-title',
+      deadline: '.vacancy-closing',
+      reference: '.vacancy-ref',
+      department: '.vacancy-department',
+      spec: 'a[href$=".pdf"]',
+    },
+    nextPage: '.pagination a[rel="next"]',
+  },
+  {
+    key: 'Beaumont',
+    name: 'Beaumont Hospital',
+    hospitalId: 'beaumont',
+    listingUrl: 'https://www.beaumont.ie/careers/current-vacancies',
+    selectors: {
+      card: 'table.vacancies tbody tr',
+      title: 'td.title a',
+      reference: 'td.reference',
+      deadline: 'td.closing-date',
+    },
+  },
+  {
+    key: 'Tallaght',
+    name: 'Tallaght University Hospital',
+    hospitalId: 'tallaght',
+    listingUrl: 'https://www.tuh.ie/Careers/Current-Vacancies/',
+    selectors: {
+      card: '.job-listing .job',
+      title: 'h3',
+      link: 'a.job-link',
+      deadline: '.closing-date',
+      department: '.department',
+    },
+    nextPage: 'a.next-page',
+  },
+  {
+    key: 'Coombe',
+    name: 'Coombe Hospital',
+    hospitalId: 'coombe',
+    listingUrl: 'https://www.coombe.ie/careers/current-vacancies',
+    selectors: {
+      card: 'ul.vacancies > li',
+      title: 'a',
+      deadline: '.closes',
+    },
+  },
+  {
+    key: 'Rotunda',
+    name: 'Rotunda Hospital',
+    hospitalId: 'rotunda',
+    listingUrl: 'https://rotunda.ie/careers/vacancies/',
+    selectors: {
+      card: 'article.vacancy',
+      title: 'h2 a',
+      deadline: '.vacancy-meta .closing',
+      reference: '.vacancy-meta .ref',
+      spec: 'a.job-spec',
+    },
+  },
+];
+
+function slugify(text: string): string {
+  return text.toLowerCase().replace(/[^a-z0-9]+/g, '-').replace(/^-|-$/g, '');
+}
+
+export class DirectHospitalScraper extends BaseScraper {
+  private site: DirectHospitalSite;
+  private hospital: MatchedHospital;
+
+  constructor(site: DirectHospitalSite) {
+    super(new URL(site.listingUrl).origin, 'DIRECT_HOSPITAL');
+    const hospital = getHospitalById(site.hospitalId);
+    if (!hospital) {
+      throw new Error(`${site.key}: no hospital with id "${site.hospitalId}" in hospitals.json`);
+    }
+    this.site = site;
+    this.hospital = hospital;
+  }
+
+  async scrape(): Promise<ScraperResult> {
+    try {
+      const jobs: ScrapedJob[] = [];
+      const visited = new Set<string>();
+      let url: string | null = this.site.listingUrl;
+
+      while (url && !visited.has(url) && visited.size < (this.site.maxPages ?? DEFAULT_MAX_PAGES)) {
+        visited.add(url);
+        const html = await this.fetchPage(url);
+        if (!html) {
+          if (visited.size === 1) return this.createResult([], 'Failed to fetch listing page');
+          break;
+        }
+
+        const $ = cheerio.load(html);
+        const pageJobs = this.parseListingPage($, url);
+        jobs.push(...pageJobs);
+        console.log(`${this.site.key} page ${visited.size}: ${pageJobs.length} NCHD jobs`);
+
+        const next = this.site.nextPage ? $(this.site.nextPage).first().attr('href') : undefined;
+        url = next ? new URL(next, url).toString() : null;
+      }
+
+      // The same post can be pinned to more than one page
+      const seen = new Set<string>();
+      const unique = jobs.filter(job => {
+        if (seen.has(job.source_url)) return false;
+        seen.add(job.source_url);
+        return true;
+      });
+
+      console.log(`${this.site.key} scraper complete: ${unique.length} NCHD jobs found`);
+      return this.createResult(unique);
+    } catch (error) {
+      console.error(`${this.site.key} scraper error:`, error);
+      return this.createResult([], (error as Error).message);
+    }
+  }
+
+  private parseListingPage($: cheerio.CheerioAPI, pageUrl: string): ScrapedJob[] {
+    this.stats.listing_pages++;
+    const { selectors } = this.site;
+    const jobs: ScrapedJob[] = [];
+
+    $(selectors.card).each((_, el) => {
+      const $card = $(el);
+      const $title = $card.find(selectors.title).first();
+      const title = this.cleanText($title.text());
+      if (!title || title.length < 5 || !this.isNCHDJob(title)) return;
+
+      const href = (selectors.link ? $card.find(selectors.link).first().attr('href') : undefined)
+        || $title.attr('href')
+        || $title.find('a').first().attr('href')
+        || $card.attr('href');
+      const specHref = selectors.spec ? $card.find(selectors.spec).first().attr('href') : undefined;
+
+      const department = selectors.department ? this.cleanText($card.find(selectors.department).text()) : '';
+      const deadlineText = selectors.deadline ? $card.find(selectors.deadline).text() : '';
+      const reference = selectors.reference
+        ? this.cleanText($card.find(selectors.reference).text()).replace(/^ref(?:erence)?(?:\s+no\.?)?\s*[:.]?\s*/i, '')
+        : '';
+
+      // A card with no link of its own is applied for from the listing page;
+      // its reference (or title) tells it apart from the page's other cards
+      const url = href ? new URL(href, pageUrl).toString() : pageUrl;
+      const sourceUrl = href ? url : `${pageUrl}#${slugify(reference || title)}`;
+
+      const specialty = classifySpecialty(title, department);
+
+      jobs.push({
+        title,
+        grade: this.parseGrade(title),
+        specialty: specialty.value,
+        scheme_type: this.parseSchemeType(title),
+        hospital_name: this.hospital.name,
+        field_confidence: {
+          specialty: specialty.confidence,
+          hospital_name: { score: 1, reason: 'SOURCE_CONFIG', matched: this.site.name },
+        },
+        hospital_group: this.hospital.hospitalGroup,
+        county: this.hospital.county,
+        ...this.resolveDeadline(deadlineText),
+        reference_number: reference || undefined,
+        application_url: url,
+        job_spec_pdf_url: specHref ? new URL(specHref, pageUrl).toString() : undefined,
+        historical_centile_tier: getHospitalTier(this.hospital.name),
+        source_url: sourceUrl,
+        source_platform: 'DIRECT_HOSPITAL',
+        scraped_at: new Date().toISOString(),
+      });
+    });
+
+    return jobs;
+  }
+
+  private isNCHDJob(title: string): boolean {
+    // "Non-Consultant Hospital Doctor" names the NCHD grade, not a consultant post
+    const lower = title.toLowerCase().replace(/non[\s-]consultant/g, '');
+    if (EXCLUDE_KEYWORDS.some(keyword => lower.includes(keyword))) return false;
+    return NCHD_KEYWORDS.some(keyword => new RegExp(`\\b${keyword}\\b`).test(lower));
+  }
+}
@@ -5,11 +5,19 @@
 
 import * as cheerio from 'cheerio';
 import type { Element } from 'domhandler';
-import { type ScrapedJob, type ScraperResult, delay } from './base';
+import { type ScrapedJob, type ScraperResult, type ScrapeTaskSpec, type TaskOutcome } from './base';
 import { PlaywrightBaseScraper } from './playwright-base';
-import { matchHospital, matchHospitalByCounty, inferCounty } from './hospital-matcher';
+import { inferCounty } from './hospital-matcher';
+import { resolveHospital } from './field-confidence';
 import { getHospitalTier } from '@/lib/matchProbability';
 
+/** Search pages listing NCHD posts */
+const SEARCH_URLS = [
+  'https://www.doctorjobs.ie/jobs/nchd-doctors/',
+  'https://www.doctorjobs.ie/disciplines/nchd-doctors',
+  'https://www.doctorjobs.ie/jobs/',
+];
+
 export class DoctorJobsScraper extends PlaywrightBaseScraper {
   constructor() {
     super('https://www.doctorjobs.ie', 'DOCTOR_JOBS');
@@ -19,38 +27,12 @@ export class DoctorJobsScraper extends PlaywrightBaseScraper {
     const jobs: ScrapedJob[] = [];
     const seenUrls = new Set<string>();
 
-    // Main search pages
-    const searchUrls = [
-      'https://www.doctorjobs.ie/jobs/nchd-doctors/',
-      'https://www.doctorjobs.ie/disciplines/nchd-doctors',
-      'https://www.doctorjobs.ie/jobs/',
-    ];
-
-    for (const url of searchUrls) {
+    for (const url of SEARCH_URLS) {
       try {
-        console.log(`DoctorJobs: Scraping ${url}...`);
-        await this.navigateTo(url, '.job-listing, .vacancy, [class*="job"]');
-        await this.scrollToBottom();
-
-        // Try "Load More" buttons
-        let loadMoreClicks = 0;
-        while (loadMoreClicks < 5) {
-          const clicked = await this.clickIfExists(
-            'button[class*="load-more"], a[class*="load-more"], .pagination a:last-child'
-          );
-          if (!clicked) break;
-          loadMoreClicks++;
-          await delay(2000);
-        }
-
-        const html = await this.getPageContent();
-        const pageJobs = this.parseJobListings(html, seenUrls);
-        jobs.push(...pageJobs);
-        console.log(`DoctorJobs ${url}: ${pageJobs.length} NCHD jobs`);
-
-        await delay(3000);
+        jobs.push(...await this.scrapeSearchPage(url, seenUrls));
       } catch (error) {
         console.error(`DoctorJobs error for ${url}:`, error);
+        await this.captureFailure((error as Error).message);
       }
     }
 
@@ -58,8 +40,41 @@ export class DoctorJobsScraper extends PlaywrightBaseScraper {
     return this.createResult(jobs);
   }
 
+  /** A queued run scrapes each search page as its own task */
+  planTasks(): ScrapeTaskSpec[] {
+    return SEARCH_URLS.map(url => ({ kind: 'SEARCH', key: url }));
+  }
+
+  protected async performBrowserTask(task: ScrapeTaskSpec): Promise<TaskOutcome> {
+    if (task.kind !== 'SEARCH') return super.performBrowserTask(task);
+    return { jobs: await this.scrapeSearchPage(task.key, new Set()) };
+  }
+
+  private async scrapeSearchPage(url: string, seenUrls: Set<string>): Promise<ScrapedJob[]> {
+    console.log(`DoctorJobs: Scraping ${url}...`);
+    await this.navigateTo(url, '.job-listing, .vacancy, [class*="job"]');
+    await this.scrollToBottom();
+
+    // Try "Load More" buttons
+    let loadMoreClicks = 0;
+    while (loadMoreClicks < 5) {
+      const clicked = await this.clickIfExists(
+        'button[class*="load-more"], a[class*="load-more"], .pagination a:last-child'
+      );
+      if (!clicked) break;
+      loadMoreClicks++;
+      await this.pause(2000);
+    }
+
+    const html = await this.getPageContent();
+    const pageJobs = this.parseJobListings(html, seenUrls);
+    console.log(`DoctorJobs ${url}: ${pageJobs.length} NCHD jobs`);
+    return pageJobs;
+  }
+
   private parseJobListings(html: string, seenUrls: Set<string>): ScrapedJob[] {
     const $ = cheerio.load(html);
+    this.stats.listing_pages++;
     const jobs: ScrapedJob[] = [];
 
     // Try structured elements
@@ -74,6 +89,7 @@ export class DoctorJobsScraper extends PlaywrightBaseScraper {
 
     // Fallback: look for links
     if (jobs.length === 0) {
+      this.stats.fallback_pages++;
       $('a[href*="/job/"], a[href*="/jobs/"], a[href*="/vacancy/"]').each((_, el) => {
         const $a = $(el);
         const title = this.cleanText($a.text());
@@ -85,7 +101,7 @@ export class DoctorJobsScraper extends PlaywrightBaseScraper {
         seenUrls.add(href);
 
         const county = inferCounty(title);
-        const hospital = matchHospital(title) || matchHospitalByCounty(county);
+        const { hospital, confidence: hospitalConfidence } = resolveHospital(title, county);
         const hospitalName = hospital?.name || 'Irish Healthcare Facility';
 
         jobs.push({
@@ -94,9 +110,10 @@ export class DoctorJobsScraper extends PlaywrightBaseScraper {
           specialty: this.parseSpecialty(title),
           scheme_type: this.parseSchemeType(title),
           hospital_name: hospitalName,
-          hospital_group: hospital?.hospitalGroup || 'IEHG',
+          field_confidence: { hospital_name: hospitalConfidence },
+          hospital_group: hospital?.hospitalGroup ?? null,
           county,
-          application_deadline: this.defaultDeadline(),
+          ...this.estimatedDeadline(),
           application_url: href,
           historical_centile_tier: getHospitalTier(hospitalName),
           source_url: href,
@@ -127,9 +144,9 @@ export class DoctorJobsScraper extends PlaywrightBaseScraper {
     const county = inferCounty(`${title} ${locationText}`);
 
     const deadlineText = $el.find('[class*="date"], [class*="deadline"], time').text();
-    const deadline = this.extractDate(deadlineText) || this.defaultDeadline();
+    const deadline = this.resolveDeadline(deadlineText);
 
-    const hospital = matchHospital(`${title} ${locationText}`) || matchHospitalByCounty(county);
+    const { hospital, confidence: hospitalConfidence } = resolveHospital(`${title} ${locationText}`, county);
     const hospitalName = hospital?.name || 'Irish Healthcare Facility';
 
     return {
@@ -138,9 +155,10 @@ export class DoctorJobsScraper extends PlaywrightBaseScraper {
       specialty: this.parseSpecialty(title),
       scheme_type: this.parseSchemeType(title),
       hospital_name: hospitalName,
-      hospital_group: hospital?.hospitalGroup || 'IEHG',
+      field_confidence: { hospital_name: hospitalConfidence },
+      hospital_group: hospital?.hospitalGroup ?? null,
       county,
-      application_deadline: deadline,
+      ...deadline,
       application_url: url,
       historical_centile_tier: getHospitalTier(hospitalName),
       source_url: url || 'https://www.doctorjobs.ie',
@@ -170,21 +188,4 @@ export class DoctorJobsScraper extends PlaywrightBaseScraper {
     }
     return false;
   }
-
-  private extractDate(text: string): string | null {
-    const match = text.match(
-      /(\d{1,2})\s+(January|February|March|April|May|June|July|August|September|October|November|December)\s+(\d{4})/i
-    );
-    if (match) {
-      const date = new Date(`${match[2]} ${match[1]}, ${match[3]}`);
-      if (!isNaN(date.getTime())) return date.toISOString();
-    }
-    return null;
-  }
-
-  private defaultDeadline(): string {
-    const d = new Date();
-    d.setDate(d.getDate() + 21);
-    return d.toISOString();
-  }
 }
@@ -0,0 +1,197 @@
+/**
+ * Cross-Source Entity Resolution
+ * Merges the same posting scraped from different platforms (e.g. a Mater SHO
+ * post on HSE, Rezoomo and DoctorJobs) into one job carrying every listing.
+ *
+ * Two jobs are the same entity when they come from different platforms and:
+ * - share an HSE reference code, or
+ * - resolve to the same hospital, grade and specialty, close in deadline,
+ *   with similar titles.
+ */
+
+import type { JobListing } from '@/types/database.types';
+import type { ScrapedJob } from './base';
+import { matchHospital } from './hospital-matcher';
+import { extractRefCode, normalizeTitle } from './job-identity';
+
+/** Deadlines this many days apart can still be the same posting (re-advertised / extended) */
+const DEADLINE_WINDOW_DAYS = 7;
+
+/** Minimum Jaccard similarity between title tokens */
+const TITLE_SIMILARITY_THRESHOLD = 0.5;
+
+/**
+ * Primary listing of a merged posting — official sources first. The primary
+ * gives the job its key, so it mustn't depend on which listings were most
+ * complete in a run.
+ */
+const PLATFORM_PRIORITY: ScrapedJob['source_platform'][] = [
+  'ABOUT_HSE',
+  'HSE_NRS',
+  'DIRECT_HOSPITAL',
+  'REZOOMO',
+  'HEALTHCARE_JOBS',
+  'DOCTOR_JOBS',
+  'IRISH_JOBS',
+  'GLOBAL_MEDICS',
+];
+
+/** Words that carry no identity — grade/hospital words are compared separately */
+const STOPWORDS = new Set([
+  'in', 'of', 'the', 'and', 'for', 'at', 'to', 'a', 'an', 'with',
+  'sho', 'registrar', 'specialist', 'senior', 'house', 'officer', 'nchd',
+  'hospital', 'university', 'general', 'regional', 'post', 'posts', 'job',
+]);
+
+/** Optional fields filled from secondary listings when the primary lacks them */
+const MERGEABLE_FIELDS = [
+  'application_url',
+  'job_spec_pdf_url',
+  'informal_enquiries_email',
+  'informal_enquiries_name',
+  'informal_contact_email',
+  'medical_manpower_email',
+  'clinical_lead',
+  'rotational_detail',
+  'salary_range',
+  'hours_per_week',
+  'on_call',
+  'on_call_frequency',
+  'duration_months',
+  'start_date',
+  'contract_type',
+  'historical_centile_tier',
+] as const;
+
+interface EntityFeatures {
+  job: ScrapedJob;
+  refCode: string | null;
+  hospitalKey: string;
+  tokens: Set<string>;
+  deadline: number;
+}
+
+/**
+ * Tokenize a title for similarity: normalized, stopwords and hospital-name words removed
+ */
+export function titleTokens(title: string, hospitalName = ''): Set<string> {
+  const hospitalWords = new Set(hospitalName.toLowerCase().split(/[^a-z0-9]+/));
+  return new Set(
+    normalizeTitle(title)
+      .split(/[^a-z0-9]+/)
+      .filter(t => t.length > 1 && !STOPWORDS.has(t) && !hospitalWords.has(t) && !/^\d+$/.test(t))
+  );
+}
+
+/**
+ * Jaccard similarity of two token sets
+ */
+export function tokenSimilarity(a: Set<string>, b: Set<string>): number {
+  if (a.size === 0 && b.size === 0) return 1;
+  let shared = 0;
+  for (const t of a) {
+    if (b.has(t)) shared++;
+  }
+  return shared / (a.size + b.size - shared);
+}
+
+function toFeatures(job: ScrapedJob): EntityFeatures {
+  const hospital = matchHospital(job.hospital_name) || matchHospital(job.title);
+  return {
+    job,
+    refCode: extractRefCode(job.title),
+    hospitalKey: hospital?.id || job.hospital_name.toLowerCase().trim(),
+    tokens: titleTokens(job.title, hospital?.name || job.hospital_name),
+    deadline: new Date(job.application_deadline).getTime(),
+  };
+}
+
+function isSameEntity(a: EntityFeatures, b: EntityFeatures): boolean {
+  if (a.job.source_platform === b.job.source_platform) return false;
+
+  // Reference codes are authoritative either way
+  if (a.refCode && b.refCode) return a.refCode === b.refCode;
+
+  if (a.hospitalKey !== b.hospitalKey) return false;
+  if (a.job.grade !== b.job.grade) return false;
+  if (a.job.specialty !== b.job.specialty) return false;
+
+  const daysApart = Math.abs(a.deadline - b.deadline) / (1000 * 60 * 60 * 24);
+  if (isNaN(daysApart) || daysApart > DEADLINE_WINDOW_DAYS) return false;
+
+  return tokenSimilarity(a.tokens, b.tokens) >= TITLE_SIMILARITY_THRESHOLD;
+}
+
+function completeness(job: ScrapedJob): number {
+  let score = extractRefCode(job.title) ? 2 : 0;
+  for (const field of MERGEABLE_FIELDS) {
+    if (job[field] !== undefined && job[field] !== null && job[field] !== '') score++;
+  }
+  return score;
+}
+
+function platformRank(job: ScrapedJob): number {
+  const rank = PLATFORM_PRIORITY.indexOf(job.source_platform);
+  return rank === -1 ? PLATFORM_PRIORITY.length : rank;
+}
+
+function toListing(job: ScrapedJob): JobListing {
+  return {
+    platform: job.source_platform,
+    url: job.source_url,
+    application_url: job.application_url,
+    title: job.title,
+    last_seen_at: job.scraped_at,
+  };
+}
+
+/**
+ * Merge a cluster of matching jobs into one, keeping the highest-priority
+ * listing as primary, filling its gaps from the most complete of the others
+ * and recording every source in `listings`.
+ */
+function mergeCluster(cluster: ScrapedJob[]): ScrapedJob {
+  const ranked = [...cluster].sort((a, b) => platformRank(a) - platformRank(b));
+  const merged: ScrapedJob = { ...ranked[0] };
+  const donors = ranked.slice(1).sort((a, b) => completeness(b) - completeness(a) || platformRank(a) - platformRank(b));
+
+  for (const other of donors) {
+    for (const field of MERGEABLE_FIELDS) {
+      if (merged[field] === undefined || merged[field] === null || merged[field] === '') {
+        (merged as unknown as Record<string, unknown>)[field] = other[field];
+      }
+    }
+  }
+
+  merged.listings = ranked.map(toListing);
+  return merged;
+}
+
+/**
+ * Group jobs that describe the same posting across sources.
+ * Greedy: each job joins the first cluster it matches that doesn't
+ * already hold a listing from the same platform.
+ */
+export function resolveEntities(jobs: ScrapedJob[]): ScrapedJob[] {
+  const clusters: EntityFeatures[][] = [];
+
+  for (const job of jobs) {
+    const features = toFeatures(job);
+    const cluster = clusters.find(c =>
+      c.every(m => m.job.source_platform !== job.source_platform) &&
+      c.some(m => isSameEntity(m, features))
+    );
+
+    if (cluster) {
+      cluster.push(features);
+    } else {
+      clusters.push([features]);
+    }
+  }
+
+  return clusters.map(c =>
+    c.length === 1
+      ? { ...c[0].job, listings: [toListing(c[0].job)] }
+      : mergeCluster(c.map(m => m.job))
+  );
+}
@@ -0,0 +1,89 @@
+/**
+ * Failure Captures
+ * What a Playwright page looked like when its scraper broke: a screenshot
+ * and the rendered HTML, taken on a selector miss or an exception. They're
+ * uploaded to storage and listed on the run's scraping_logs row.
+ */
+
+import type { ScrapeCapture } from '@/types/database.types';
+import { supabaseAdmin } from '@/lib/supabase';
+
+/** Storage bucket the screenshots and HTML are uploaded to */
+export const CAPTURE_BUCKET = 'scraper-captures';
+
+/** Captures kept per scraper per run, so a site that's down can't fill the bucket */
+export const MAX_CAPTURES_PER_RUN = 5;
+
+export interface FailureCapture {
+  reason: string; // e.g. 'Selector ".vacancy" not found' or the exception message
+  url: string | null;
+  captured_at: string;
+  screenshot: Buffer | null; // PNG; null if the page couldn't be screenshotted
+  html: string | null;
+}
+
+export interface CaptureStore {
+  /** Store one scraper's captures from a run and return what to list on its log row */
+  save(runId: string, scraper: string, captures: FailureCapture[]): Promise<ScrapeCapture[]>;
+}
+
+/**
+ * Storage path for one file of a capture, e.g. `<run id>/doctorjobs/1.png`
+ */
+export function capturePath(runId: string, scraper: string, index: number, extension: 'png' | 'html'): string {
+  return `${runId}/${scraper.toLowerCase().replace(/[^a-z0-9]+/g, '-')}/${index + 1}.${extension}`;
+}
+
+/**
+ * Log row entries for captures that weren't uploaded anywhere
+ */
+export function unstoredCaptures(captures: FailureCapture[]): ScrapeCapture[] {
+  return captures.map(({ reason, url, captured_at }) => ({
+    reason,
+    url,
+    captured_at,
+    screenshot_path: null,
+    html_path: null,
+  }));
+}
+
+/**
+ * Captures uploaded to the scraper-captures bucket
+ */
+export class SupabaseCaptureStore implements CaptureStore {
+  /**
+   * Returns null when the service role key isn't configured
+   */
+  static fromEnv(): SupabaseCaptureStore | null {
+    if (!process.env.NEXT_PUBLIC_SUPABASE_URL || !process.env.SUPABASE_SERVICE_ROLE_KEY) return null;
+    return new SupabaseCaptureStore();
+  }
+
+  async save(runId: string, scraper: string, captures: FailureCapture[]): Promise<ScrapeCapture[]> {
+    const saved = unstoredCaptures(captures);
+
+    for (let i = 0; i < captures.length; i++) {
+      const { screenshot, html } = captures[i];
+      if (screenshot) {
+        saved[i].screenshot_path = await this.upload(capturePath(runId, scraper, i, 'png'), screenshot, 'image/png');
+      }
+      if (html !== null) {
+        saved[i].html_path = await this.upload(capturePath(runId, scraper, i, 'html'), html, 'text/html');
+      }
+    }
+
+    return saved;
+  }
+
+  private async upload(path: string, body: Buffer | string, contentType: string): Promise<string | null> {
+    const { error } = await supabaseAdmin.storage
+      .from(CAPTURE_BUCKET)
+      .upload(path, body, { contentType, upsert: true });
+
+    if (error) {
+      console.error(`Error uploading scraper capture ${path}:`, error.message);
+      return null;
+    }
+    return path;
+  }
+}
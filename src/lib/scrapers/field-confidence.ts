@@ -0,0 +1,197 @@
+/**
+ * Field Confidence
+ * Grade, specialty, scheme type and hospital are inferred from free text, so
+ * each comes with a score and the reason it was chosen. Jobs with a field
+ * below REVIEW_THRESHOLD are queued for an admin to check.
+ */
+
+import type {
+  FieldConfidence,
+  FieldConfidenceMap,
+  SchemeType,
+  ScoredField,
+  SpecialtyType,
+} from '@/types/database.types';
+import {
+  CONFIDENT_MATCH_SCORE,
+  getHospitalById,
+  MATCH_THRESHOLD,
+  matchHospitalByCounty,
+  rankHospitals,
+  type MatchedHospital,
+} from './hospital-matcher';
+import { getHospitalNameLog } from './hospital-names';
+import { SPECIALTY_MATCH_ORDER, SPECIALTY_TAXONOMY } from '@/lib/specialties';
+
+/** Fields scoring below this put the job in the review queue */
+export const REVIEW_THRESHOLD = 0.5;
+
+export const SCORED_FIELDS: ScoredField[] = ['grade', 'specialty', 'scheme_type', 'hospital_name'];
+
+export interface Classified<T> {
+  value: T;
+  confidence: FieldConfidence;
+}
+
+type Grade = 'SHO' | 'REGISTRAR' | 'SPECIALIST_REGISTRAR';
+
+function keyword<T>(value: T, score: number, matched: string): Classified<T> {
+  return { value, confidence: { score, reason: 'KEYWORD', matched } };
+}
+
+function fallback<T>(value: T, score: number): Classified<T> {
+  return { value, confidence: { score, reason: 'DEFAULT' } };
+}
+
+/**
+ * Grade from job title or description
+ */
+export function classifyGrade(title: string, description?: string): Classified<Grade> {
+  const text = `${title} ${description || ''}`.toLowerCase();
+
+  if (text.includes('specialist registrar')) return keyword('SPECIALIST_REGISTRAR', 0.95, 'specialist registrar');
+  if (text.includes('spr')) return keyword('SPECIALIST_REGISTRAR', 0.8, 'spr');
+  if (text.includes('registrar')) return keyword('REGISTRAR', 0.9, 'registrar');
+  if (text.includes('reg ')) return keyword('REGISTRAR', 0.7, 'reg');
+  if (text.includes('senior house officer')) return keyword('SHO', 0.95, 'senior house officer');
+  if (text.includes('sho')) return keyword('SHO', 0.85, 'sho');
+
+  // Default to SHO if unclear
+  return fallback('SHO', 0.3);
+}
+
+// Broad terms — "medicine" alone could be any medical specialty
+const GENERIC_SPECIALTIES: [string, SpecialtyType, number][] = [
+  ['general medicine', 'GENERAL_MEDICINE', 0.85],
+  ['general surgery', 'GENERAL_SURGERY', 0.85],
+  ['emergency', 'EMERGENCY_MEDICINE', 0.6],
+  ['medicine', 'GENERAL_MEDICINE', 0.55],
+  ['surgery', 'GENERAL_SURGERY', 0.55],
+];
+
+/**
+ * Specialty from job title or description, using the taxonomy's synonyms:
+ * the most specific specialty named wins
+ */
+export function classifySpecialty(title: string, description?: string): Classified<SpecialtyType> {
+  const text = `${title} ${description || ''}`.toLowerCase();
+
+  const synonymIn = (specialty: SpecialtyType) =>
+    SPECIALTY_TAXONOMY[specialty].synonyms.find(synonym => text.includes(synonym));
+
+  for (const specialty of SPECIALTY_MATCH_ORDER) {
+    const word = synonymIn(specialty);
+    if (!word) continue;
+    // Named alongside its parent ("Anaesthesia and Intensive Care"), the post is the parent's
+    const parent = SPECIALTY_TAXONOMY[specialty].parent;
+    const parentWord = parent && synonymIn(parent);
+    return parentWord ? keyword(parent, 0.9, parentWord) : keyword(specialty, 0.9, word);
+  }
+
+  // Abbreviations as whole words — before generic fallbacks so
+  // "ENT Surgery" matches ENT, not GENERAL_SURGERY
+  for (const specialty of SPECIALTY_MATCH_ORDER) {
+    const abbreviation = SPECIALTY_TAXONOMY[specialty].abbreviations?.find(a => new RegExp(`\\b${a}\\b`).test(text));
+    if (abbreviation) return keyword(specialty, 0.85, abbreviation);
+  }
+
+  for (const [word, specialty, score] of GENERIC_SPECIALTIES) {
+    if (text.includes(word)) {
+      return { value: specialty, confidence: { score, reason: score >= 0.8 ? 'KEYWORD' : 'GENERIC_KEYWORD', matched: word } };
+    }
+  }
+
+  return fallback('GENERAL_MEDICINE', 0.2);
+}
+
+/**
+ * Scheme type from job title or description
+ */
+export function classifySchemeType(title: string, description?: string): Classified<SchemeType> {
+  const text = `${title} ${description || ''}`.toLowerCase();
+
+  if (text.includes('basic specialist training')) return keyword('TRAINING_BST', 0.95, 'basic specialist training');
+  if (text.includes('bst')) return keyword('TRAINING_BST', 0.85, 'bst');
+  if (text.includes('higher specialist training')) return keyword('TRAINING_HST', 0.95, 'higher specialist training');
+  if (text.includes('hst')) return keyword('TRAINING_HST', 0.85, 'hst');
+  if (text.includes('training')) {
+    // Default to BST if training mentioned
+    return { value: 'TRAINING_BST', confidence: { score: 0.45, reason: 'GENERIC_KEYWORD', matched: 'training' } };
+  }
+  if (text.includes('stand alone')) return keyword('STAND_ALONE', 0.9, 'stand alone');
+  if (text.includes('standalone')) return keyword('STAND_ALONE', 0.9, 'standalone');
+
+  // Most NCHD posts are non-training, so the default is a fair guess
+  return fallback('NON_TRAINING_SERVICE', 0.5);
+}
+
+/**
+ * Resolve a job's hospital: the best-ranked hospital in the text, else the
+ * likeliest hospital in the inferred county (its mental health service for a
+ * psychiatry post), else the hospital the board page belongs to (if any).
+ * Text that isn't confidently matched is recorded in the hospital name log
+ * for an admin to alias.
+ */
+export function resolveHospital(
+  text: string,
+  county: string,
+  sourceHospitalId?: string
+): { hospital: MatchedHospital | null; confidence: FieldConfidence } {
+  const candidates = rankHospitals(text);
+  const [best] = candidates;
+  if (!best || best.score < CONFIDENT_MATCH_SCORE) {
+    getHospitalNameLog().record(text, county, candidates);
+  }
+
+  // A psychiatry post with no named location belongs to the county's mental health service
+  const specialty = classifySpecialty(text).value;
+
+  if (best && best.strategy === 'REF_CODE' && best.score >= MATCH_THRESHOLD) {
+    const hospital = matchHospitalByCounty(best.hospital.county, specialty) || best.hospital;
+    return { hospital, confidence: { score: best.score, reason: 'REF_CODE', matched: hospital.name } };
+  }
+
+  if (best && best.score >= MATCH_THRESHOLD) {
+    const reason = best.strategy === 'TOKENS' || best.strategy === 'TOWN' ? 'FUZZY_MATCH' : 'HOSPITAL_NAME';
+    return { hospital: best.hospital, confidence: { score: best.score, reason, matched: best.hospital.name } };
+  }
+
+  // A weak candidate in the county beats that county's primary hospital
+  const byCounty = candidates.find(c => c.hospital.county === county)?.hospital || matchHospitalByCounty(county, specialty);
+  if (byCounty) {
+    return { hospital: byCounty, confidence: { score: 0.3, reason: 'COUNTY_FALLBACK', matched: county } };
+  }
+
+  const fromSource = sourceHospitalId ? getHospitalById(sourceHospitalId) : null;
+  if (fromSource) {
+    return { hospital: fromSource, confidence: { score: 0.7, reason: 'SOURCE_CONFIG', matched: sourceHospitalId } };
+  }
+
+  return { hospital: null, confidence: { score: 0, reason: 'DEFAULT' } };
+}
+
+/**
+ * Scores for the title-derived fields
+ */
+export function scoreTitleFields(title: string): FieldConfidenceMap {
+  return {
+    grade: classifyGrade(title).confidence,
+    specialty: classifySpecialty(title).confidence,
+    scheme_type: classifySchemeType(title).confidence,
+  };
+}
+
+/**
+ * Scored fields below the review threshold
+ */
+export function lowConfidenceFields(confidence: FieldConfidenceMap | undefined): ScoredField[] {
+  if (!confidence) return [];
+  return SCORED_FIELDS.filter(field => {
+    const entry = confidence[field];
+    return entry !== undefined && entry.score < REVIEW_THRESHOLD;
+  });
+}
+
+export function needsReview(confidence: FieldConfidenceMap | undefined): boolean {
+  return lowConfidenceFields(confidence).length > 0;
+}
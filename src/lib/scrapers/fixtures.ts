@@ -0,0 +1,147 @@
+/**
+ * Scraper Fixtures
+ * Record/replay support for scraper page fetches.
+ *
+ * - record: every page a scraper fetches is written to a fixture directory
+ * - replay: pages are served back from that directory instead of the network
+ *
+ * A fixture directory holds one HTML file per URL plus a manifest.json that
+ * maps each URL to its file, so a bad parse can be reproduced offline later.
+ */
+
+import * as fs from 'fs';
+import * as path from 'path';
+import { createHash } from 'crypto';
+
+export type FixtureMode = 'record' | 'replay';
+
+export interface FixtureEntry {
+  url: string;
+  file: string;
+  platform: string;
+  recorded_at: string;
+}
+
+interface FixtureManifest {
+  version: 1;
+  entries: Record<string, FixtureEntry>;
+}
+
+const MANIFEST_FILE = 'manifest.json';
+
+export class FixtureStore {
+  readonly mode: FixtureMode;
+  readonly dir: string;
+  private manifest: FixtureManifest;
+
+  constructor(mode: FixtureMode, dir: string) {
+    this.mode = mode;
+    this.dir = path.resolve(dir);
+    this.manifest = this.readManifest();
+
+    if (mode === 'replay' && Object.keys(this.manifest.entries).length === 0) {
+      console.warn(`Fixture replay: no recorded pages found in ${this.dir}`);
+    }
+  }
+
+  /**
+   * Build a store from SCRAPER_FIXTURE_MODE / SCRAPER_FIXTURE_DIR.
+   * Returns null when fixtures are not configured (normal live scraping).
+   */
+  static fromEnv(): FixtureStore | null {
+    const mode = process.env.SCRAPER_FIXTURE_MODE;
+    if (mode !== 'record' && mode !== 'replay') return null;
+
+    const dir = process.env.SCRAPER_FIXTURE_DIR || path.join('fixtures', 'scrapers');
+    return new FixtureStore(mode, dir);
+  }
+
+  get isReplay(): boolean {
+    return this.mode === 'replay';
+  }
+
+  get isRecording(): boolean {
+    return this.mode === 'record';
+  }
+
+  has(url: string): boolean {
+    return url in this.manifest.entries;
+  }
+
+  /**
+   * Load a recorded page. Returns null if the URL was never recorded.
+   */
+  load(url: string): string | null {
+    const entry = this.manifest.entries[url];
+    if (!entry) return null;
+
+    const filePath = path.join(this.dir, entry.file);
+    if (!fs.existsSync(filePath)) {
+      console.warn(`Fixture file missing for ${url}: ${entry.file}`);
+      return null;
+    }
+    return fs.readFileSync(filePath, 'utf8');
+  }
+
+  /**
+   * Record a fetched page. Re-recording a URL overwrites the previous snapshot.
+   */
+  save(url: string, html: string, platform: string): void {
+    const file = this.manifest.entries[url]?.file || this.fileNameFor(url, platform);
+    const filePath = path.join(this.dir, file);
+
+    fs.mkdirSync(path.dirname(filePath), { recursive: true });
+    fs.writeFileSync(filePath, html, 'utf8');
+
+    this.manifest.entries[url] = {
+      url,
+      file,
+      platform,
+      recorded_at: new Date().toISOString(),
+    };
+    this.writeManifest();
+  }
+
+  /**
+   * All recorded entries, optionally filtered by platform
+   */
+  list(platform?: string): FixtureEntry[] {
+    return Object.values(this.manifest.entries)
+      .filter(e => !platform || e.platform === platform);
+  }
+
+  private fileNameFor(url: string, platform: string): string {
+    let slug = url;
+    try {
+      const parsed = new URL(url);
+      slug = `${parsed.hostname}${parsed.pathname}${parsed.search}`;
+    } catch {
+      // Not a valid URL — slug the raw string
+    }
+    slug = slug
+      .toLowerCase()
+      .replace(/[^a-z0-9]+/g, '-')
+      .replace(/^-+|-+$/g, '')
+      .substring(0, 60);
+
+    const hash = createHash('sha1').update(url).digest('hex').substring(0, 8);
+    return path.join(platform.toLowerCase(), `${slug}-${hash}.html`);
+  }
+
+  private readManifest(): FixtureManifest {
+    const manifestPath = path.join(this.dir, MANIFEST_FILE);
+    if (!fs.existsSync(manifestPath)) {
+      return { version: 1, entries: {} };
+    }
+    return JSON.parse(fs.readFileSync(manifestPath, 'utf8')) as FixtureManifest;
+  }
+
+  private writeManifest(): void {
+    fs.mkdirSync(this.dir, { recursive: true });
+    fs.writeFileSync(
+      path.join(this.dir, MANIFEST_FILE),
+      JSON.stringify(this.manifest, null, 2) + '\n',
+      'utf8'
+    );
+  }
+}
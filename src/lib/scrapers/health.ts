@@ -0,0 +1,146 @@
+/**
+ * Scraper Health Checks
+ * Compares each source's run against its recent history and flags runs that
+ * look like a broken scraper rather than a quiet day on the job boards.
+ *
+ * Critical anomalies stop the orchestrator from deactivating that source's
+ * jobs, so a broken selector can't wipe a source off the dashboard.
+ */
+
+import type { ScrapeAnomaly, ScrapingLog } from '@/types/database.types';
+import type { ScrapedJob, ScraperStats } from './base';
+
+/** Runs needed before count comparisons are trusted */
+const MIN_HISTORY_RUNS = 3;
+
+/** Below this fraction of the recent median, a count drop is flagged */
+const COUNT_DROP_WARNING = 0.4;
+const COUNT_DROP_CRITICAL = 0.2;
+
+/** Content checks only make sense with enough jobs */
+const MIN_JOBS_FOR_CONTENT_CHECKS = 5;
+
+/** Share of jobs with an estimated deadline that counts as "all" */
+const DEFAULT_DEADLINE_SHARE = 0.9;
+
+/**
+ * What a single source's run produced, reduced to the numbers health checks need
+ */
+export interface SourceSignals {
+  jobs_found: number;
+  listing_pages: number;
+  fallback_pages: number;
+  defaulted_deadlines: number;
+  distinct_hospitals: number;
+  top_hospital: string | null;
+}
+
+/**
+ * Summarize a source's scraped jobs and scraper counters
+ */
+export function summarizeJobs(jobs: ScrapedJob[], stats: ScraperStats): SourceSignals {
+  const hospitalCounts = new Map<string, number>();
+  let defaulted = 0;
+
+  for (const job of jobs) {
+    hospitalCounts.set(job.hospital_name, (hospitalCounts.get(job.hospital_name) || 0) + 1);
+    // Scrapers estimate the deadline when they can't find one
+    if (job.deadline_precision === 'ESTIMATED') defaulted++;
+  }
+
+  const top = [...hospitalCounts.entries()].sort((a, b) => b[1] - a[1])[0];
+
+  return {
+    jobs_found: jobs.length,
+    listing_pages: stats.listing_pages,
+    fallback_pages: stats.fallback_pages,
+    defaulted_deadlines: defaulted,
+    distinct_hospitals: hospitalCounts.size,
+    top_hospital: top ? top[0] : null,
+  };
+}
+
+function median(values: number[]): number {
+  const sorted = [...values].sort((a, b) => a - b);
+  const mid = Math.floor(sorted.length / 2);
+  return sorted.length % 2 ? sorted[mid] : (sorted[mid - 1] + sorted[mid]) / 2;
+}
+
+/**
+ * Flag anomalies in a source's run. `history` is that source's recent
+ * scraping_logs rows (newest first); failed runs are ignored as a baseline.
+ */
+export function detectAnomalies(
+  source: string,
+  signals: SourceSignals,
+  history: Pick<ScrapingLog, 'status' | 'jobs_found'>[]
+): ScrapeAnomaly[] {
+  const anomalies: ScrapeAnomaly[] = [];
+  const flag = (kind: ScrapeAnomaly['kind'], severity: ScrapeAnomaly['severity'], message: string) =>
+    anomalies.push({ source, kind, severity, message });
+
+  const baseline = history
+    .filter(h => h.status !== 'FAILURE' && (h.jobs_found || 0) > 0)
+    .map(h => h.jobs_found!);
+  const typical = baseline.length >= MIN_HISTORY_RUNS ? median(baseline) : null;
+
+  // Counts
+  if (signals.jobs_found === 0) {
+    flag('NO_JOBS', 'critical', typical
+      ? `${source} yielded no jobs; recent runs yielded ~${typical}`
+      : `${source} yielded no jobs`);
+  } else if (typical !== null && signals.jobs_found < typical * COUNT_DROP_WARNING) {
+    const severity = signals.jobs_found < typical * COUNT_DROP_CRITICAL ? 'critical' : 'warning';
+    flag('COUNT_DROP', severity, `${source} yielded ${signals.jobs_found} jobs; recent runs yielded ~${typical}`);
+  }
+
+  // Parsing strategy
+  if (signals.listing_pages > 0 && signals.fallback_pages === signals.listing_pages) {
+    flag('ALL_FALLBACK', 'warning',
+      `Every ${source} listing page (${signals.listing_pages}) fell back to link extraction — card selectors may be broken`);
+  }
+
+  // Content
+  if (signals.jobs_found >= MIN_JOBS_FOR_CONTENT_CHECKS) {
+    if (signals.defaulted_deadlines >= signals.jobs_found * DEFAULT_DEADLINE_SHARE) {
+      flag('DEFAULT_DEADLINES', 'warning',
+        `${signals.defaulted_deadlines}/${signals.jobs_found} ${source} deadlines were estimated rather than parsed`);
+    }
+    if (signals.distinct_hospitals === 1) {
+      flag('SINGLE_HOSPITAL', 'warning',
+        `All ${signals.jobs_found} ${source} jobs resolved to ${signals.top_hospital}`);
+    }
+  }
+
+  return anomalies;
+}
+
+/**
+ * Post anomalies to a webhook. The payload carries a Slack-style `text`
+ * summary plus the structured anomalies for other consumers.
+ */
+export async function sendHealthAlert(
+  webhookUrl: string,
+  runId: string,
+  anomalies: ScrapeAnomaly[]
+): Promise<void> {
+  if (anomalies.length === 0) return;
+
+  const lines = anomalies.map(a => `• [${a.severity.toUpperCase()}] ${a.message}`);
+  try {
+    const response = await fetch(webhookUrl, {
+      method: 'POST',
+      headers: { 'Content-Type': 'application/json' },
+      body: JSON.stringify({
+        text: `MedMatch-IE scraper health: ${anomalies.length} anomal${anomalies.length === 1 ? 'y' : 'ies'} in run ${runId}\n${lines.join('\n')}`,
+        run_id: runId,
+        anomalies,
+      }),
+    });
+    if (!response.ok) {
+      console.error(`Health alert webhook failed: ${response.status} ${response.statusText}`);
+    }
+  } catch (error) {
+    console.error('Health alert webhook error:', (error as Error).message);
+  }
+}
@@ -5,8 +5,9 @@
 
 import * as cheerio from 'cheerio';
 import type { Element } from 'domhandler';
-import { BaseScraper, type ScrapedJob, type ScraperResult, delay, withRetry } from './base';
-import { matchHospital, matchHospitalByCounty, inferCounty } from './hospital-matcher';
+import { BaseScraper, type ScrapedJob, type ScraperResult } from './base';
+import { inferCounty } from './hospital-matcher';
+import { resolveHospital } from './field-confidence';
 import { getHospitalTier } from '@/lib/matchProbability';
 
 export class HealthcareJobsScraper extends BaseScraper {
@@ -41,7 +42,6 @@ export class HealthcareJobsScraper extends BaseScraper {
             allJobs.push(...pageJobs);
             console.log(`HealthcareJobs "${new URL(searchUrl).searchParams.get('query')}" page ${page}: ${pageJobs.length} jobs`);
             page++;
-            await delay(2000);
           }
         }
       }
@@ -63,29 +63,9 @@ export class HealthcareJobsScraper extends BaseScraper {
     }
   }
 
-  private async fetchPage(url: string): Promise<string | null> {
-    try {
-      const response = await withRetry(() =>
-        fetch(url, {
-          headers: {
-            'User-Agent': 'MedJob-IE/1.0 (NCHD Job Aggregator)',
-            'Accept': 'text/html',
-          },
-        })
-      );
-      if (!response.ok) {
-        console.error(`HealthcareJobs fetch failed: ${response.status} for ${url}`);
-        return null;
-      }
-      return await response.text();
-    } catch (error) {
-      console.error(`HealthcareJobs fetch error for ${url}:`, error);
-      return null;
-    }
-  }
-
   private parseListingPage(html: string): ScrapedJob[] {
     const $ = cheerio.load(html);
+    this.stats.listing_pages++;
     const jobs: ScrapedJob[] = [];
 
     // HealthcareJobs uses job listing cards with various structures
@@ -100,6 +80,7 @@ export class HealthcareJobsScraper extends BaseScraper {
 
     // Fallback: look for job links
     if (jobs.length === 0) {
+      this.stats.fallback_pages++;
       $('a[href*="/job/"], a[href*="/vacancy/"], a[href*="/jobs/"]').each((_, el) => {
         const $a = $(el);
         const href = $a.attr('href') || '';
@@ -112,7 +93,7 @@ export class HealthcareJobsScraper extends BaseScraper {
         const parent = $a.closest('li, div, tr, article');
         const contextText = parent.length ? parent.text() : '';
         const county = inferCounty(`${title} ${contextText}`);
-        const hospital = matchHospital(title) || matchHospitalByCounty(county);
+        const { hospital, confidence: hospitalConfidence } = resolveHospital(title, county);
         const hospitalName = hospital?.name || 'Healthcare Facility';
 
         jobs.push({
@@ -121,9 +102,10 @@ export class HealthcareJobsScraper extends BaseScraper {
           specialty: this.parseSpecialty(title),
           scheme_type: this.parseSchemeType(title),
           hospital_name: hospitalName,
-          hospital_group: hospital?.hospitalGroup || 'IEHG',
+          field_confidence: { hospital_name: hospitalConfidence },
+          hospital_group: hospital?.hospitalGroup ?? null,
           county,
-          application_deadline: this.defaultDeadline(),
+          ...this.estimatedDeadline(),
           application_url: fullUrl,
           historical_centile_tier: getHospitalTier(hospitalName),
           source_url: fullUrl,
@@ -151,9 +133,9 @@ export class HealthcareJobsScraper extends BaseScraper {
 
     // Try to extract deadline from card
     const deadlineText = $el.find('[class*="date"], [class*="deadline"], time').text();
-    const deadline = this.extractDate(deadlineText) || this.defaultDeadline();
+    const deadline = this.resolveDeadline(deadlineText);
 
-    const hospital = matchHospital(`${title} ${locationText}`) || matchHospitalByCounty(county);
+    const { hospital, confidence: hospitalConfidence } = resolveHospital(`${title} ${locationText}`, county);
     const hospitalName = hospital?.name || 'Healthcare Facility';
 
     return {
@@ -162,9 +144,10 @@ export class HealthcareJobsScraper extends BaseScraper {
       specialty: this.parseSpecialty(title),
       scheme_type: this.parseSchemeType(title),
       hospital_name: hospitalName,
-      hospital_group: hospital?.hospitalGroup || 'IEHG',
+      field_confidence: { hospital_name: hospitalConfidence },
+      hospital_group: hospital?.hospitalGroup ?? null,
       county,
-      application_deadline: deadline,
+      ...deadline,
       application_url: url,
       historical_centile_tier: getHospitalTier(hospitalName),
       source_url: url || this.searchUrls[0],
@@ -195,26 +178,4 @@ export class HealthcareJobsScraper extends BaseScraper {
     }
     return false;
   }
-
-  private extractDate(text: string): string | null {
-    const match = text.match(
-      /(\d{1,2})\s+(January|February|March|April|May|June|July|August|September|October|November|December)\s+(\d{4})/i
-    );
-    if (match) {
-      const date = new Date(`${match[2]} ${match[1]}, ${match[3]}`);
-      if (!isNaN(date.getTime())) return date.toISOString();
-    }
-    const dmyMatch = text.match(/(\d{1,2})[\/\-](\d{1,2})[\/\-](\d{4})/);
-    if (dmyMatch) {
-      const date = new Date(`${dmyMatch[3]}-${dmyMatch[2]}-${dmyMatch[1]}`);
-      if (!isNaN(date.getTime())) return date.toISOString();
-    }
-    return null;
-  }
-
-  private defaultDeadline(): string {
-    const d = new Date();
-    d.setDate(d.getDate() + 21);
-    return d.toISOString();
-  }
 }
@@ -1,11 +1,14 @@
 /**
  * Hospital Matcher Utility
- * Resolves hospital names from scraped text to our canonical hospital database.
- * Used by all scrapers for consistent hospital/group/county resolution.
+ * Resolves hospital names from scraped text to our canonical location registry:
+ * acute hospitals plus maternity and children's hospitals, mental health
+ * services, CHOs, private hospitals, hospices, national centres and GP
+ * training programmes. Used by all scrapers for consistent
+ * hospital/group/county resolution.
  */
 
 import hospitalsData from '@/data/hospitals.json';
-import type { HospitalGroup } from '@/types/database.types';
+import type { HealthRegion, HospitalGroup, LocationType, SpecialtyType } from '@/types/database.types';
 
 const hospitals = hospitalsData.hospitals;
 
@@ -14,7 +17,9 @@ export interface MatchedHospital {
   name: string;
   shortName: string;
   county: string;
-  hospitalGroup: HospitalGroup;
+  hospitalGroup: HospitalGroup | null;
+  healthRegion: HealthRegion;
+  type: LocationType;
 }
 
 /** Common abbreviations and aliases for Irish hospitals */
@@ -96,16 +101,27 @@ const HOSPITAL_ALIASES: Record<string, string> = {
   'cavan': 'cavan',
 
   // Children's/Maternity hospitals
-  'temple street': 'mater',
-  'rotunda': 'mater',
-  'holles street': 'stvincents',
-  'nmh': 'stvincents',
-  'national maternity': 'stvincents',
-  'coombe': 'stjames',
-  'crumlin': 'stjames',
-  'chi': 'stjames',
-  "children's health ireland": 'stjames',
-  'childrens health ireland': 'stjames',
+  'temple street': 'chitemplestreet',
+  'nmh': 'nmh',
+  'national maternity': 'nmh',
+  'crumlin': 'chicrumlin',
+  'chi': 'chicrumlin',
+  "children's health ireland": 'chicrumlin',
+  'childrens health ireland': 'chicrumlin',
+
+  // Mental health services and national centres
+  'central mental hospital': 'nfmhs',
+  'portrane': 'nfmhs',
+  "st patrick's mental health": 'stpatricks',
+  'st john of god': 'sjog',
+  'rveeh': 'rveeh',
+  'eye and ear': 'rveeh',
+  'eye & ear': 'rveeh',
+  'national rehabilitation': 'nrh',
+  'national orthopaedic': 'cappagh',
+  "st luke's radiation": 'slron',
+  'st lukes rathgar': 'slron',
+  'forensic mental health': 'nfmhs',
 };
 
 /**
@@ -166,85 +182,380 @@ export function inferCountyFromRefCode(text: string): string | null {
 }
 
 /**
- * Match a hospital name/text to our canonical hospital database.
- * If the text contains a reference code (e.g. MW26MOB2), the ref code county
- * takes priority — text-matched hospitals are only used if they're in the same county.
- * Tries multiple strategies: exact name, short name, aliases.
+ * How job text names a Health Region (normalised). Only the regions' own
+ * names: "South/South West Hospital Group" mustn't read as HSE South West.
  */
-export function matchHospital(text: string): MatchedHospital | null {
-  if (!text) return null;
-  const normalized = text.toLowerCase().trim();
+const HEALTH_REGION_NAMES: Record<HealthRegion, string[]> = {
+  DUBLIN_NORTH_EAST: ['dublin and north east', 'dublin north east'],
+  DUBLIN_MIDLANDS: ['dublin and midlands', 'dublin midlands'],
+  DUBLIN_SOUTH_EAST: ['dublin and south east', 'dublin south east'],
+  SOUTH_WEST: ['hse south west', 'south west health region'],
+  MID_WEST: ['hse mid west', 'mid west health region'],
+  WEST_NORTH_WEST: ['west and north west', 'west north west'],
+};
 
-  // Check if text contains a reference code that indicates a specific county
-  const refCounty = inferCountyFromRefCode(text);
+/** Counties wholly inside one Health Region; Dublin, Wicklow and Tipperary are split */
+const COUNTY_HEALTH_REGIONS: Record<string, HealthRegion> = {
+  Louth: 'DUBLIN_NORTH_EAST', Meath: 'DUBLIN_NORTH_EAST', Cavan: 'DUBLIN_NORTH_EAST', Monaghan: 'DUBLIN_NORTH_EAST',
+  Kildare: 'DUBLIN_MIDLANDS', Laois: 'DUBLIN_MIDLANDS', Offaly: 'DUBLIN_MIDLANDS', Longford: 'DUBLIN_MIDLANDS',
+  Westmeath: 'DUBLIN_MIDLANDS',
+  Wexford: 'DUBLIN_SOUTH_EAST', Waterford: 'DUBLIN_SOUTH_EAST', Kilkenny: 'DUBLIN_SOUTH_EAST', Carlow: 'DUBLIN_SOUTH_EAST',
+  Cork: 'SOUTH_WEST', Kerry: 'SOUTH_WEST',
+  Limerick: 'MID_WEST', Clare: 'MID_WEST',
+  Galway: 'WEST_NORTH_WEST', Mayo: 'WEST_NORTH_WEST', Roscommon: 'WEST_NORTH_WEST', Sligo: 'WEST_NORTH_WEST',
+  Leitrim: 'WEST_NORTH_WEST', Donegal: 'WEST_NORTH_WEST',
+};
+
+/** Where a job that names only its Health Region is most likely to be */
+const HEALTH_REGION_COUNTIES: Record<HealthRegion, string> = {
+  DUBLIN_NORTH_EAST: 'Dublin',
+  DUBLIN_MIDLANDS: 'Dublin',
+  DUBLIN_SOUTH_EAST: 'Dublin',
+  SOUTH_WEST: 'Cork',
+  MID_WEST: 'Limerick',
+  WEST_NORTH_WEST: 'Galway',
+};
+
+/** How a hospital was found in text, strongest first */
+export type HospitalMatchStrategy = 'NAME' | 'SHORT_NAME' | 'ALIAS' | 'TOKENS' | 'TOWN' | 'REF_CODE';
 
-  // Strategy 1: Exact full name match
-  for (const h of hospitals) {
-    if (normalized === h.name.toLowerCase()) {
-      if (!refCounty || h.county === refCounty) return toMatch(h);
+/** Confidence for each strategy. TOKENS is scaled by how much of the name was found. */
+const STRATEGY_SCORES: Record<HospitalMatchStrategy, number> = {
+  NAME: 0.95,
+  SHORT_NAME: 0.85,
+  ALIAS: 0.8,
+  TOKENS: 0.75,
+  TOWN: 0.6,
+  REF_CODE: 0.5,
+};
+
+/** A town with more than one acute hospital (Cork) only suggests them */
+const SHARED_TOWN_SCORE = 0.4;
+
+/** A name word misspelt by one letter counts this much of a match */
+const TYPO_TOKEN_WEIGHT = 0.8;
+
+/** Words only this long are matched despite a typo, so "Kerry" doesn't match "Terry" */
+const MIN_TYPO_TOKEN_LENGTH = 6;
+
+/** Candidates scoring less than this aren't worth suggesting */
+const MIN_CANDIDATE_SCORE = 0.2;
+
+/** The best candidate is taken as the hospital from this score */
+export const MATCH_THRESHOLD = 0.5;
+
+/** Below this a match is a guess worth an admin's look: fuzzy, town-only or ref code */
+export const CONFIDENT_MATCH_SCORE = 0.8;
+
+/** Name words shared by too many locations to identify one */
+const GENERIC_NAME_WORDS = new Set([
+  'university', 'hospital', 'general', 'regional', 'midland', 'st', 'our', 'lady', 'of', 'the', 'and', 'at',
+  'national', 'maternity', 'children', 'women', 'infants', 'health', 'ireland', 'mental', 'services', 'service',
+  'community', 'healthcare', 'private', 'clinic', 'hospice', 'care', 'centre', 'upmc',
+  'gp', 'training', 'programme', 'north', 'south', 'east', 'west', 'mid', 'city', 'county',
+]);
+
+/** County names in a location's name (Louth Meath Mental Health Services) say where it is, not which it is */
+const COUNTY_NAMES = new Set([
+  'carlow', 'cavan', 'clare', 'cork', 'donegal', 'dublin', 'galway', 'kerry', 'kildare', 'kilkenny', 'laois',
+  'leitrim', 'limerick', 'longford', 'louth', 'mayo', 'meath', 'monaghan', 'offaly', 'roscommon', 'sligo',
+  'tipperary', 'waterford', 'westmeath', 'wexford', 'wicklow',
+]);
+
+/**
+ * Specialties whose posts are mostly away from the general hospital, and the
+ * kind of location a county's posts in them default to
+ */
+const SPECIALTY_LOCATION_TYPES: Partial<Record<SpecialtyType, LocationType>> = {
+  PSYCHIATRY: 'MENTAL_HEALTH_SERVICE',
+  OBSTETRICS_GYNAECOLOGY: 'MATERNITY_HOSPITAL',
+  PAEDIATRICS: 'PAEDIATRIC_HOSPITAL',
+  NEONATOLOGY: 'MATERNITY_HOSPITAL',
+  PALLIATIVE_MEDICINE: 'HOSPICE',
+  GENERAL_PRACTICE: 'GP_TRAINING',
+};
+
+export interface HospitalMatch {
+  hospital: MatchedHospital;
+  strategy: HospitalMatchStrategy;
+  score: number; // 0–1
+  matched: string; // The name, alias, town or words that were found
+}
+
+/** Aliases admins added from the unmatched-name log, by normalised alias */
+let customAliases: Array<[string, string]> = [];
+
+interface HospitalTerms {
+  hospital: (typeof hospitals)[number];
+  phrases: { term: string; strategy: HospitalMatchStrategy; score: number }[];
+  tokens: string[];
+}
+
+let termsCache: HospitalTerms[] | null = null;
+
+/**
+ * Lowercase, accents, apostrophes and punctuation dropped, "Saint" as "St":
+ * "St. James's" and "Saint James" both become "st james"
+ */
+export function normalizeHospitalText(text: string): string {
+  return text
+    .normalize('NFD')
+    .replace(/[\u0300-\u036f]/g, '')
+    .toLowerCase()
+    .replace(/['’]s\b/g, '')
+    .replace(/['’]/g, '')
+    .replace(/[^a-z0-9]+/g, ' ')
+    .replace(/\bsaint\b/g, 'st')
+    .trim();
+}
+
+/**
+ * Use these aliases (from hospital_aliases) alongside the built-in ones.
+ * Aliases for unknown hospital ids are ignored.
+ */
+export function setCustomAliases(aliases: { alias: string; hospital_id: string }[]): void {
+  customAliases = aliases
+    .filter(({ hospital_id }) => hospitals.some(h => h.id === hospital_id))
+    .map(({ alias, hospital_id }) => [normalizeHospitalText(alias), hospital_id] as [string, string])
+    .filter(([alias]) => alias.length > 0);
+  termsCache = null;
+}
+
+function hospitalTerms(): HospitalTerms[] {
+  if (termsCache) return termsCache;
+
+  // Only acute hospitals are found by their town alone: a post "in Tralee" is
+  // at the hospital there, not the mental health service or the hospice
+  const acuteHospitalsPerTown = countByTown(hospitals.filter(isAcute));
+  const sharedTowns = new Set(Array.from(countByTown(hospitals)).filter(([, count]) => count > 1).map(([town]) => town));
+  const aliases = [
+    ...Object.entries(HOSPITAL_ALIASES).map(([alias, id]) => [normalizeHospitalText(alias), id]),
+    ...customAliases,
+  ];
+
+  termsCache = hospitals.map(hospital => {
+    const name = normalizeHospitalText(hospital.name);
+    const town = normalizeHospitalText(hospital.location.city);
+    const phrases: HospitalTerms['phrases'] = [
+      { term: name, strategy: 'NAME', score: STRATEGY_SCORES.NAME },
+      { term: normalizeHospitalText(hospital.shortName), strategy: 'SHORT_NAME', score: STRATEGY_SCORES.SHORT_NAME },
+      ...aliases
+        .filter(([, id]) => id === hospital.id)
+        .map(([alias]) => ({ term: alias, strategy: 'ALIAS' as const, score: STRATEGY_SCORES.ALIAS })),
+    ];
+    if (isAcute(hospital)) {
+      phrases.push({
+        term: town,
+        strategy: 'TOWN',
+        score: acuteHospitalsPerTown.get(town)! > 1 ? SHARED_TOWN_SCORE : STRATEGY_SCORES.TOWN,
+      });
     }
+    // A county, or a town with several locations, in the name (Cork University
+    // Hospital) doesn't single the location out either
+    const tokens = name
+      .split(' ')
+      .filter(word => !GENERIC_NAME_WORDS.has(word) && !COUNTY_NAMES.has(word) && !sharedTowns.has(word));
+    return { hospital, phrases, tokens };
+  });
+  return termsCache;
+}
+
+function isAcute(h: (typeof hospitals)[number]): boolean {
+  return h.type === 'ACUTE_HOSPITAL';
+}
+
+/** How many of the locations are in each (normalised) town */
+function countByTown(locations: (typeof hospitals)[number][]): Map<string, number> {
+  const counts = new Map<string, number>();
+  for (const h of locations) {
+    const town = normalizeHospitalText(h.location.city);
+    counts.set(town, (counts.get(town) || 0) + 1);
   }
+  return counts;
+}
 
-  // Strategy 2: Full name contained in text
-  for (const h of hospitals) {
-    if (normalized.includes(h.name.toLowerCase())) {
-      if (!refCounty || h.county === refCounty) return toMatch(h);
+/** Whether two words are at most one edit apart */
+function withinOneEdit(a: string, b: string): boolean {
+  if (Math.abs(a.length - b.length) > 1) return false;
+  let i = 0;
+  let j = 0;
+  let edits = 0;
+  while (i < a.length && j < b.length) {
+    if (a[i] === b[j]) {
+      i++;
+      j++;
+      continue;
+    }
+    if (++edits > 1) return false;
+    if (a.length > b.length) i++;
+    else if (b.length > a.length) j++;
+    else {
+      i++;
+      j++;
     }
   }
+  return edits + (a.length - i) + (b.length - j) <= 1;
+}
 
-  // Strategy 3: Short name match (word-boundary to prevent "Mater" matching inside "maternity")
-  for (const h of hospitals) {
-    if (h.shortName) {
-      const escaped = h.shortName.toLowerCase().replace(/[.*+?^${}()|[\]\\]/g, '\\$&');
-      if (new RegExp(`\\b${escaped}\\b`).test(normalized)) {
-        if (!refCounty || h.county === refCounty) return toMatch(h);
+/**
+ * How well a hospital's distinctive name words are covered by the text:
+ * 1 for each word present, TYPO_TOKEN_WEIGHT for one a letter out
+ */
+function tokenCoverage(nameTokens: string[], textTokens: Set<string>): { coverage: number; found: string[] } {
+  let total = 0;
+  const found: string[] = [];
+  for (const token of nameTokens) {
+    if (textTokens.has(token)) {
+      total += 1;
+      found.push(token);
+    } else if (token.length >= MIN_TYPO_TOKEN_LENGTH) {
+      const typo = Array.from(textTokens).find(word => word.length >= MIN_TYPO_TOKEN_LENGTH && withinOneEdit(word, token));
+      if (typo) {
+        total += TYPO_TOKEN_WEIGHT;
+        found.push(typo);
       }
     }
   }
+  return { coverage: nameTokens.length > 0 ? total / nameTokens.length : 0, found };
+}
 
-  // Strategy 4: Alias/abbreviation lookup (sorted longest-first so
-  // "national maternity" matches before "mater" inside "maternity")
-  const sortedAliases = Object.entries(HOSPITAL_ALIASES)
-    .sort((a, b) => b[0].length - a[0].length);
-  for (const [alias, hospitalId] of sortedAliases) {
-    const escaped = alias.replace(/[.*+?^${}()|[\]\\]/g, '\\$&');
-    if (new RegExp(`\\b${escaped}\\b`).test(normalized)) {
-      const h = hospitals.find(h => h.id === hospitalId);
-      if (h && (!refCounty || h.county === refCounty)) return toMatch(h);
+/**
+ * Every hospital the text could refer to, best first. Each is scored on its
+ * strongest signal: full name, short name, alias, the distinctive words of
+ * its name (allowing a typo), or its town. If the text carries an HSE
+ * reference code, hospitals outside that code's county are dropped and the
+ * county's primary hospital is offered as a REF_CODE candidate. A named
+ * Health Region likewise drops hospitals outside it.
+ */
+export function rankHospitals(text: string, limit = 5): HospitalMatch[] {
+  if (!text) return [];
+  const region = inferHealthRegion(text);
+  // A region's name ("Dublin and Midlands") isn't a hospital's
+  const normalized = withoutHealthRegionNames(normalizeHospitalText(text));
+  const padded = ` ${normalized} `;
+  const textTokens = new Set(normalized.split(' '));
+  const refCounty = inferCountyFromRefCode(text);
+
+  const candidates: HospitalMatch[] = [];
+  for (const { hospital, phrases, tokens } of hospitalTerms()) {
+    if (refCounty && hospital.county !== refCounty) continue;
+    if (region && hospital.healthRegion !== region) continue;
+
+    const matches: HospitalMatch[] = phrases
+      .filter(({ term }) => term && padded.includes(` ${term} `))
+      .map(({ term, strategy, score }) => ({ hospital: toMatch(hospital), strategy, score, matched: term }));
+    const { coverage, found } = tokenCoverage(tokens, textTokens);
+    if (coverage > 0) {
+      const score = Math.round(STRATEGY_SCORES.TOKENS * coverage * 100) / 100;
+      matches.push({ hospital: toMatch(hospital), strategy: 'TOKENS', score, matched: found.join(' ') });
     }
+
+    const [best] = matches.sort(byStrength);
+    if (best && best.score >= MIN_CANDIDATE_SCORE) candidates.push(best);
   }
 
-  // If ref code found a county but no hospital text matched it, return the primary hospital for that county
-  if (refCounty) {
-    return matchHospitalByCounty(refCounty);
+  // A ref code with no hospital named in its county falls back to the county's primary hospital
+  if (refCounty && !candidates.some(c => c.score >= MATCH_THRESHOLD)) {
+    const primary = matchHospitalByCounty(refCounty);
+    if (primary) {
+      const index = candidates.findIndex(c => c.hospital.id === primary.id);
+      if (index !== -1) candidates.splice(index, 1);
+      candidates.push({ hospital: primary, strategy: 'REF_CODE', score: STRATEGY_SCORES.REF_CODE, matched: refCounty });
+    }
   }
 
-  return null;
+  // Stable, so equal scores keep hospitals.json order
+  return candidates.sort(byStrength).slice(0, limit);
+}
+
+/** Higher score first; on a tie the longer match, e.g. "national maternity" over "mater" */
+function byStrength(a: HospitalMatch, b: HospitalMatch): number {
+  return b.score - a.score || b.matched.length - a.matched.length;
+}
+
+/**
+ * Match a hospital name/text to our canonical hospital database.
+ * If the text contains a reference code (e.g. MW26MOB2), the ref code county
+ * takes priority — text-matched hospitals are only used if they're in the same county.
+ * Null unless the best candidate scores at least MATCH_THRESHOLD.
+ */
+export function matchHospital(text: string): MatchedHospital | null {
+  return findHospital(text)?.hospital || null;
 }
 
 /**
- * Match by county name — returns the primary hospital in that county.
+ * matchHospital(), also reporting how the hospital was found and how sure the match is
  */
-export function matchHospitalByCounty(county: string): MatchedHospital | null {
+export function findHospital(text: string): HospitalMatch | null {
+  const [best] = rankHospitals(text, 1);
+  return best && best.score >= MATCH_THRESHOLD ? best : null;
+}
+
+/**
+ * Look up a hospital by its id in hospitals.json
+ */
+export function getHospitalById(id: string): MatchedHospital | null {
+  const h = hospitals.find(h => h.id === id);
+  return h ? toMatch(h) : null;
+}
+
+/**
+ * Match by county name — returns the primary acute hospital in that county.
+ * For a specialty mostly practised elsewhere (psychiatry) the county's
+ * location of that kind comes first, if it has one.
+ */
+export function matchHospitalByCounty(county: string, specialty?: SpecialtyType): MatchedHospital | null {
   if (!county) return null;
   const normalized = county.toLowerCase().trim();
+  const inCounty = hospitals.filter(h => h.county.toLowerCase() === normalized);
 
-  // Prefer teaching hospitals in the county
-  const teaching = hospitals.find(
-    h => h.county.toLowerCase() === normalized && h.isTeachingHospital
-  );
-  if (teaching) return toMatch(teaching);
+  const preferred = specialty && SPECIALTY_LOCATION_TYPES[specialty];
+  const types: LocationType[] = preferred ? [preferred, 'ACUTE_HOSPITAL'] : ['ACUTE_HOSPITAL'];
+  for (const type of types) {
+    const ofType = inCounty.filter(h => h.type === type);
+    // Prefer teaching hospitals in the county
+    const primary = ofType.find(h => h.isTeachingHospital) || ofType[0];
+    if (primary) return toMatch(primary);
+  }
 
-  // Fall back to any hospital in the county
-  const any = hospitals.find(h => h.county.toLowerCase() === normalized);
-  if (any) return toMatch(any);
+  return null;
+}
 
+/**
+ * The Health Region named in text, e.g. "HSE West and North West" or
+ * "Dublin & Midlands". Null when no region is named.
+ */
+export function inferHealthRegion(text: string): HealthRegion | null {
+  if (!text) return null;
+  const padded = ` ${normalizeHospitalText(text)} `;
+  for (const [region, names] of Object.entries(HEALTH_REGION_NAMES) as [HealthRegion, string[]][]) {
+    if (names.some(name => padded.includes(` ${name} `))) return region;
+  }
   return null;
 }
 
+function withoutHealthRegionNames(normalized: string): string {
+  let padded = ` ${normalized} `;
+  for (const name of Object.values(HEALTH_REGION_NAMES).flat()) {
+    padded = padded.split(` ${name} `).join(' ');
+  }
+  return padded.trim();
+}
+
+/**
+ * A job's Health Region: its hospital's, else the region its text names,
+ * else its county's when the county lies in a single region
+ */
+export function resolveHealthRegion(hospitalName: string, text: string, county: string): HealthRegion | null {
+  const hospital = hospitals.find(h => h.name === hospitalName);
+  if (hospital) return hospital.healthRegion as HealthRegion;
+  return inferHealthRegion(text) || COUNTY_HEALTH_REGIONS[county] || null;
+}
+
 /**
  * Infer county from text (title, location field, etc.)
- * Priority: reference code prefix → hospital name match → county name mention → fallback.
+ * Priority: reference code prefix → hospital name match → county name mention →
+ * Health Region → fallback.
  * Reference codes (e.g. MW26MOB2 → Mid-West → Limerick) are the most reliable signal.
  */
 export function inferCounty(text: string): string {
@@ -264,7 +575,7 @@ export function inferCounty(text: string): string {
     'Dublin', 'Cork', 'Galway', 'Limerick', 'Waterford', 'Kerry',
     'Sligo', 'Donegal', 'Mayo', 'Meath', 'Kilkenny', 'Tipperary',
     'Wexford', 'Westmeath', 'Laois', 'Kildare', 'Louth', 'Cavan',
-    'Clare', 'Roscommon',
+    'Clare', 'Roscommon', 'Offaly', 'Monaghan',
   ];
 
   for (const county of counties) {
@@ -273,6 +584,10 @@ export function inferCounty(text: string): string {
     }
   }
 
+  // 4. A named Health Region (e.g. "HSE South West" → Cork)
+  const region = inferHealthRegion(text);
+  if (region) return HEALTH_REGION_COUNTIES[region];
+
   return 'Dublin'; // Default fallback
 }
 
@@ -282,6 +597,8 @@ function toMatch(h: (typeof hospitals)[number]): MatchedHospital {
     name: h.name,
     shortName: h.shortName,
     county: h.county,
-    hospitalGroup: h.hospitalGroup as HospitalGroup,
+    hospitalGroup: h.hospitalGroup as HospitalGroup | null,
+    healthRegion: h.healthRegion as HealthRegion,
+    type: h.type as LocationType,
   };
 }
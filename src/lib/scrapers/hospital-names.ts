@@ -0,0 +1,103 @@
+/**
+ * Hospital Name Log
+ * Hospital text the matcher couldn't place, or only guessed at, is collected
+ * while scrapers run and written to hospital_name_log with the ranked
+ * candidates. Admins turn entries into aliases in /admin/hospitals; those
+ * are loaded from hospital_aliases before each run.
+ */
+
+import type { HospitalAlias, HospitalNameCandidate, HospitalNameLogEntry } from '@/types/database.types';
+import { normalizeHospitalText, type HospitalMatch } from './hospital-matcher';
+import { supabaseAdmin } from '@/lib/supabase';
+
+/** Scraped text is cut to this length before it's logged */
+const MAX_SAMPLE_LENGTH = 300;
+
+/** Candidates kept with each logged name */
+const LOGGED_CANDIDATES = 3;
+
+export type LoggedHospitalName = Pick<
+  HospitalNameLogEntry,
+  'normalized_text' | 'sample_text' | 'county' | 'best_score' | 'candidates' | 'occurrences'
+>;
+
+/**
+ * Names seen during one run, counted by their normalised text
+ */
+export class HospitalNameLog {
+  private names = new Map<string, LoggedHospitalName>();
+
+  record(text: string, county: string | null, candidates: HospitalMatch[]): void {
+    const normalized = normalizeHospitalText(text).slice(0, MAX_SAMPLE_LENGTH);
+    if (!normalized) return;
+
+    const existing = this.names.get(normalized);
+    if (existing) {
+      existing.occurrences++;
+      return;
+    }
+    this.names.set(normalized, {
+      normalized_text: normalized,
+      sample_text: text.trim().slice(0, MAX_SAMPLE_LENGTH),
+      county,
+      best_score: candidates[0]?.score ?? 0,
+      candidates: candidates.slice(0, LOGGED_CANDIDATES).map((c): HospitalNameCandidate => ({
+        hospital_id: c.hospital.id,
+        score: c.score,
+        strategy: c.strategy,
+      })),
+      occurrences: 1,
+    });
+  }
+
+  /**
+   * Everything recorded since the last drain, emptying the log
+   */
+  drain(): LoggedHospitalName[] {
+    const names = Array.from(this.names.values());
+    this.names.clear();
+    return names;
+  }
+}
+
+let logInstance: HospitalNameLog | null = null;
+
+/**
+ * Shared log so every scraper's unmatched names end up in the same run
+ */
+export function getHospitalNameLog(): HospitalNameLog {
+  if (!logInstance) {
+    logInstance = new HospitalNameLog();
+  }
+  return logInstance;
+}
+
+export interface HospitalNameStore {
+  loadAliases(): Promise<Pick<HospitalAlias, 'alias' | 'hospital_id'>[]>;
+  /** Add names to the log, counting repeats of ones already there */
+  logNames(names: LoggedHospitalName[]): Promise<void>;
+}
+
+/**
+ * Aliases in hospital_aliases, names logged to hospital_name_log
+ */
+export class SupabaseHospitalNameStore implements HospitalNameStore {
+  /**
+   * Returns null when the service role key isn't configured
+   */
+  static fromEnv(): SupabaseHospitalNameStore | null {
+    if (!process.env.NEXT_PUBLIC_SUPABASE_URL || !process.env.SUPABASE_SERVICE_ROLE_KEY) return null;
+    return new SupabaseHospitalNameStore();
+  }
+
+  async loadAliases(): Promise<Pick<HospitalAlias, 'alias' | 'hospital_id'>[]> {
+    const { data, error } = await supabaseAdmin.from('hospital_aliases').select('alias, hospital_id');
+    if (error) throw error;
+    return data || [];
+  }
+
+  async logNames(names: LoggedHospitalName[]): Promise<void> {
+    const { error } = await supabaseAdmin.rpc('log_hospital_names', { p_names: names });
+    if (error) throw error;
+  }
+}
@@ -6,8 +6,13 @@
 
 import * as cheerio from 'cheerio';
 import type { Element } from 'domhandler';
-import { BaseScraper, type ScrapedJob, type ScraperResult, delay, withRetry } from './base';
-import { matchHospital, matchHospitalByCounty, inferCounty } from './hospital-matcher';
+import { BaseScraper, type ScrapedJob, type ScraperResult, type ScrapeTaskSpec, type TaskOutcome } from './base';
+import { inferCounty } from './hospital-matcher';
+import { resolveHospital } from './field-confidence';
+import { parseIrishDeadline, UNKNOWN_DEADLINE } from './deadline-parser';
+import { hashContent, isFresh, type JobDetails } from './detail-cache';
+import { parseJobTerms } from './job-terms';
+import { extractRefCode, normalizePostingUrl } from './job-identity';
 import { getHospitalTier } from '@/lib/matchProbability';
 
 /** Keywords that indicate an NCHD-relevant job */
@@ -27,68 +32,85 @@ const EXCLUDE_KEYWORDS = [
   'psychologist', 'manager', 'director', 'chief',
 ];
 
+const EMAIL_PATTERN = /[a-zA-Z0-9._%+-]+@[a-zA-Z0-9.-]+\.[a-zA-Z]{2,}/;
+
+/** "Dr Jane Murphy", "Prof. Seán O'Brien" */
+const CONTACT_NAME_PATTERN = /\b(?:Dr|Prof|Professor|Mr|Ms|Mrs)\.?\s+[A-Z][\w'’-]+(?:\s+[A-Z][\w'’-]+){1,2}/;
+
+/** A posting whose detail page needs fetching, with its listing card hash */
+interface DetailTask {
+  job: ScrapedJob;
+  content_hash: string;
+}
+
 export class HSEScraper extends BaseScraper {
   private readonly medicalJobsUrl = 'https://about.hse.ie/jobs/job-search/?category=medical+and+dental';
+  /** Listing card hash per posting URL, for the detail page cache */
+  private listingHashes = new Map<string, string>();
 
   constructor() {
     super('https://about.hse.ie', 'ABOUT_HSE');
   }
 
+  /**
+   * Listing pages, then a detail page for each posting whose listing
+   * changed — the same tasks a queued run checkpoints one at a time
+   */
   async scrape(): Promise<ScraperResult> {
     try {
-      const jobs: ScrapedJob[] = [];
-
-      // First, figure out how many pages there are
-      const firstPageHtml = await this.fetchPage(`${this.medicalJobsUrl}&page=1`);
-      if (!firstPageHtml) {
-        return this.createResult([], 'Failed to fetch first page');
-      }
-
-      const totalPages = this.getTotalPages(firstPageHtml);
-      console.log(`HSE scraper: Found ${totalPages} pages of medical & dental jobs`);
-
-      // Parse first page
-      const firstPageJobs = await this.parseListingPage(firstPageHtml);
-      jobs.push(...firstPageJobs);
-
-      // Scrape remaining pages
-      for (let page = 2; page <= totalPages; page++) {
-        await delay(2000); // Rate limit
-        const html = await this.fetchPage(`${this.medicalJobsUrl}&page=${page}`);
-        if (html) {
-          const pageJobs = await this.parseListingPage(html);
-          jobs.push(...pageJobs);
-          console.log(`HSE page ${page}/${totalPages}: ${pageJobs.length} NCHD jobs (${jobs.length} total)`);
-        }
-      }
-
-      console.log(`HSE scraper complete: ${jobs.length} NCHD jobs found`);
-      return this.createResult(jobs);
+      const result = await this.runTasksInline();
+      console.log(`HSE scraper complete: ${result.job_count} NCHD jobs found`);
+      return result;
     } catch (error) {
       console.error('HSE scraper error:', error);
       return this.createResult([], (error as Error).message);
     }
   }
 
-  private async fetchPage(url: string): Promise<string | null> {
-    try {
-      const response = await withRetry(() =>
-        fetch(url, {
-          headers: {
-            'User-Agent': 'MedJob-IE/1.0 (NCHD Job Aggregator)',
-            'Accept': 'text/html',
-          },
-        })
-      );
-      if (!response.ok) {
-        console.error(`HSE fetch failed: ${response.status} ${response.statusText} for ${url}`);
-        return null;
+  planTasks(): ScrapeTaskSpec[] {
+    return [{ kind: 'LISTING', key: this.listingUrl(1), payload: { page: 1 } }];
+  }
+
+  protected async performTask(task: ScrapeTaskSpec): Promise<TaskOutcome> {
+    if (task.kind === 'LISTING') return this.scrapeListingPage(task.payload?.page as number);
+    if (task.kind === 'DETAIL') return this.scrapeDetailPage(task.payload as unknown as DetailTask);
+    return super.performTask(task);
+  }
+
+  private listingUrl(page: number): string {
+    return `${this.medicalJobsUrl}&page=${page}`;
+  }
+
+  /**
+   * One listing page. Page 1 also queues the rest of the pages; every page
+   * queues a detail task for each posting the detail cache can't fill.
+   */
+  private async scrapeListingPage(page: number): Promise<TaskOutcome> {
+    const html = await this.fetchPage(this.listingUrl(page));
+    if (!html) {
+      throw new Error(page === 1 ? 'Failed to fetch first page' : `Failed to fetch listing page ${page}`);
+    }
+
+    const tasks: ScrapeTaskSpec[] = [];
+    if (page === 1) {
+      const totalPages = this.getTotalPages(html);
+      console.log(`HSE scraper: Found ${totalPages} pages of medical & dental jobs`);
+      for (let next = 2; next <= totalPages; next++) {
+        tasks.push({ kind: 'LISTING', key: this.listingUrl(next), payload: { page: next } });
       }
-      return await response.text();
-    } catch (error) {
-      console.error(`HSE fetch error for ${url}:`, error);
-      return null;
     }
+
+    this.listingHashes.clear();
+    const pageJobs = await this.parseListingPage(html);
+    const { ready, needDetails } = await this.applyCachedDetails(pageJobs);
+    console.log(`HSE page ${page}: ${pageJobs.length} NCHD jobs, ${needDetails.length} detail pages to fetch`);
+
+    tasks.push(...needDetails.map(detail => ({
+      kind: 'DETAIL',
+      key: detail.job.application_url!,
+      payload: detail as unknown as Record<string, unknown>,
+    })));
+    return { jobs: ready, tasks };
   }
 
   /**
@@ -126,6 +148,7 @@ export class HSEScraper extends BaseScraper {
    */
   private async parseListingPage(html: string): Promise<ScrapedJob[]> {
     const $ = cheerio.load(html);
+    this.stats.listing_pages++;
     const jobs: ScrapedJob[] = [];
 
     // Find job cards — HSE uses various card structures
@@ -137,6 +160,7 @@ export class HSEScraper extends BaseScraper {
 
     // If no structured elements found, fall back to finding all job links
     if (jobElements.length === 0) {
+      this.stats.fallback_pages++;
       return this.parseJobLinks($);
     }
 
@@ -148,6 +172,7 @@ export class HSEScraper extends BaseScraper {
 
     // If card parsing got nothing, fall back to link extraction
     if (jobs.length === 0) {
+      this.stats.fallback_pages++;
       return this.parseJobLinks($);
     }
 
@@ -171,6 +196,7 @@ export class HSEScraper extends BaseScraper {
 
     // Check NCHD relevance
     if (!this.isNCHDJob(title)) return null;
+    this.rememberListing(url, $el.text());
 
     // Extract county/location
     const locationText = $el.find('[class*="location"], [class*="county"], .meta, .details').text();
@@ -180,15 +206,14 @@ export class HSEScraper extends BaseScraper {
     const dateText = $el.find('[class*="date"], time, .meta').text();
     const postedDate = this.extractDate(dateText) || new Date();
 
-    // Calculate deadline (typically 2-3 weeks from posting)
-    const deadline = new Date(postedDate);
-    deadline.setDate(deadline.getDate() + 21);
+    // Listings only show the posting date, so the deadline is an estimate
+    const deadline = this.estimatedDeadline(postedDate);
 
     // Match hospital — search title + location text, fall back to county
     const searchText = `${title} ${locationText}`;
-    const hospital = matchHospital(searchText) || matchHospitalByCounty(county);
+    const { hospital, confidence: hospitalConfidence } = resolveHospital(searchText, county);
     const hospitalName = hospital?.name || 'HSE Facility';
-    const hospitalGroup = hospital?.hospitalGroup || 'IEHG';
+    const hospitalGroup = hospital?.hospitalGroup ?? null;
 
     return {
       title,
@@ -196,9 +221,10 @@ export class HSEScraper extends BaseScraper {
       specialty: this.parseSpecialty(title),
       scheme_type: this.parseSchemeType(title),
       hospital_name: hospitalName,
+      field_confidence: { hospital_name: hospitalConfidence },
       hospital_group: hospitalGroup,
       county: hospital?.county || county,
-      application_deadline: deadline.toISOString(),
+      ...deadline,
       application_url: url,
       historical_centile_tier: getHospitalTier(hospitalName),
       source_url: url || this.medicalJobsUrl,
@@ -238,14 +264,14 @@ export class HSEScraper extends BaseScraper {
       // Find surrounding context for county/date
       const parent = $a.closest('article, li, div, tr');
       const contextText = parent.length ? parent.text() : '';
+      this.rememberListing(href, contextText || title);
       const county = inferCounty(`${title} ${contextText}`);
 
       const postedDate = this.extractDate(contextText) || new Date();
-      const deadline = new Date(postedDate);
-      deadline.setDate(deadline.getDate() + 21);
+      const deadline = this.estimatedDeadline(postedDate);
 
       const searchText = `${title} ${contextText}`;
-      const hospital = matchHospital(searchText) || matchHospitalByCounty(county);
+      const { hospital, confidence: hospitalConfidence } = resolveHospital(searchText, county);
       const hospitalName = hospital?.name || 'HSE Facility';
 
       jobs.push({
@@ -254,9 +280,10 @@ export class HSEScraper extends BaseScraper {
         specialty: this.parseSpecialty(title),
         scheme_type: this.parseSchemeType(title),
         hospital_name: hospitalName,
-        hospital_group: hospital?.hospitalGroup || 'IEHG',
+        field_confidence: { hospital_name: hospitalConfidence },
+        hospital_group: hospital?.hospitalGroup ?? null,
         county: hospital?.county || county,
-        application_deadline: deadline.toISOString(),
+        ...deadline,
         application_url: href,
         historical_centile_tier: getHospitalTier(hospitalName),
         source_url: href,
@@ -268,6 +295,15 @@ export class HSEScraper extends BaseScraper {
     return jobs;
   }
 
+  /**
+   * Record a posting's listing text so unchanged postings can skip their detail page
+   */
+  private rememberListing(url: string, listingText: string): void {
+    if (normalizePostingUrl(url)) {
+      this.listingHashes.set(url, hashContent(listingText));
+    }
+  }
+
   /**
    * Check if a job title is relevant to NCHD roles
    */
@@ -300,84 +336,122 @@ export class HSEScraper extends BaseScraper {
    * Extract a date from text
    */
   private extractDate(text: string): Date | null {
-    // Pattern: "13 February 2026"
-    const match = text.match(
-      /(\d{1,2})\s+(January|February|March|April|May|June|July|August|September|October|November|December)\s+(\d{4})/i
-    );
-    if (match) {
-      const date = new Date(`${match[2]} ${match[1]}, ${match[3]}`);
-      if (!isNaN(date.getTime())) return date;
-    }
+    const parsed = parseIrishDeadline(text);
+    return parsed === UNKNOWN_DEADLINE ? null : new Date(parsed.iso);
+  }
 
-    // Pattern: "13/02/2026" or "13-02-2026"
-    const dmyMatch = text.match(/(\d{1,2})[\/\-](\d{1,2})[\/\-](\d{4})/);
-    if (dmyMatch) {
-      const date = new Date(`${dmyMatch[3]}-${dmyMatch[2]}-${dmyMatch[1]}`);
-      if (!isNaN(date.getTime())) return date;
+  /**
+   * Fill jobs whose listing card is unchanged since the cached visit from
+   * the cache. The rest need their posting page fetched.
+   */
+  private async applyCachedDetails(jobs: ScrapedJob[]): Promise<{ ready: ScrapedJob[]; needDetails: DetailTask[] }> {
+    const postings = jobs.filter(job => job.application_url && this.listingHashes.has(job.application_url));
+    const ready = jobs.filter(job => !postings.includes(job));
+    const needDetails: DetailTask[] = [];
+    if (postings.length === 0) return { ready, needDetails };
+
+    // Recording needs every page fetched, so the cache is bypassed
+    const cache = this.fixtures?.isRecording ? null : this.detailCache;
+    const cached = cache ? await cache.load(postings.map(job => job.application_url!)) : new Map();
+
+    for (const job of postings) {
+      const contentHash = this.listingHashes.get(job.application_url!)!;
+      const entry = cached.get(job.application_url!);
+      if (isFresh(entry, contentHash)) {
+        ready.push({ ...job, ...entry!.details });
+      } else {
+        needDetails.push({ job, content_hash: contentHash });
+      }
     }
 
-    return null;
+    return { ready, needDetails };
   }
 
   /**
-   * Fetch individual job detail page for additional info (PDF, email, etc.)
+   * Fill one job from its posting page. The listing data is complete
+   * without it, so a page that can't be fetched (or the run deadline)
+   * just leaves the job as listed.
    */
-  async fetchJobDetails(jobUrl: string): Promise<{
-    pdfUrl?: string;
-    informalEnquiriesEmail?: string;
-    informalEnquiriesName?: string;
-    clinicalLead?: string;
-    rotationalDetail?: string;
-    salaryRange?: string;
-    deadline?: string;
-  }> {
-    try {
-      const html = await this.fetchPage(jobUrl);
-      if (!html) return {};
-
-      const $ = cheerio.load(html);
-      const bodyText = $('body').text();
-
-      return {
-        pdfUrl: this.extractPdfUrl($),
-        informalEnquiriesEmail: this.extractEmail(bodyText),
-        informalEnquiriesName: this.extractContactName(bodyText),
-        clinicalLead: this.extractField(bodyText, /clinical lead:?\s*(.+)/i),
-        rotationalDetail: this.extractField(bodyText, /rotation:?\s*(.+)/i),
-        salaryRange: this.extractSalary(bodyText),
-        deadline: this.extractField(bodyText, /closing date:?\s*(.+)/i) ||
-                  this.extractField(bodyText, /deadline:?\s*(.+)/i),
-      };
-    } catch (error) {
-      console.error('Error fetching job details:', error);
-      return {};
+  private async scrapeDetailPage({ job, content_hash }: DetailTask): Promise<TaskOutcome> {
+    const url = job.application_url!;
+    if (this.pastDeadline()) return { jobs: [job] };
+
+    const html = await this.fetchPage(url);
+    if (!html) return { jobs: [job] };
+
+    const details = this.parseJobDetails(html);
+    if (this.detailCache && !this.fixtures?.isRecording) {
+      await this.detailCache.save([{ url, content_hash, details, fetched_at: new Date().toISOString() }]);
     }
+    return { jobs: [{ ...job, ...details }] };
   }
 
-  private extractPdfUrl($: cheerio.CheerioAPI): string | undefined {
-    const pdfLink = $('a[href$=".pdf"]').first();
-    const href = pdfLink.attr('href');
-    if (!href) return undefined;
-    return href.startsWith('http') ? href : `https://about.hse.ie${href}`;
-  }
+  /**
+   * Read the contact, closing time, reference, spec and employment terms from a posting page
+   */
+  private parseJobDetails(html: string): JobDetails {
+    const $ = cheerio.load(html);
+    const lines = this.textLines($);
+    const details: JobDetails = {};
+
+    const closing = this.labelledValue(lines, /^(?:closing date(?: and time)?|closing|deadline|applications? close)\b/i);
+    const deadline = parseIrishDeadline(closing);
+    if (deadline !== UNKNOWN_DEADLINE) {
+      details.application_deadline = deadline.iso;
+      details.deadline_precision = deadline.precision;
+    }
 
-  private extractEmail(text: string): string | undefined {
-    const match = text.match(/([a-zA-Z0-9._%+-]+@[a-zA-Z0-9.-]+\.[a-zA-Z]{2,})/);
-    return match ? match[1] : undefined;
-  }
+    const reference = this.labelledValue(lines, /^(?:campaign )?ref(?:erence)?(?:\.|\s+(?:number|no\.?|code))?(?=[\s:]|$)/i);
+    if (reference) details.reference_number = extractRefCode(reference) || reference;
+
+    const enquiriesIndex = lines.findIndex(line => /informal enquiries/i.test(line));
+    if (enquiriesIndex >= 0) {
+      const enquiries = lines.slice(enquiriesIndex, enquiriesIndex + 2).join(' ');
+      details.informal_enquiries_name = enquiries.match(CONTACT_NAME_PATTERN)?.[0];
+      details.informal_enquiries_email = enquiries.match(EMAIL_PATTERN)?.[0];
+    }
+
+    const manpower = lines.find(line => /medical manpower|recruitment/i.test(line) && EMAIL_PATTERN.test(line));
+    details.medical_manpower_email = manpower?.match(EMAIL_PATTERN)?.[0];
+
+    details.clinical_lead = this.labelledValue(lines, /^clinical (?:lead|director)\b/i);
+    details.rotational_detail = this.labelledValue(lines, /^rotation(?:al)?(?: details?)?\b/i);
+    Object.assign(details, parseJobTerms(lines.join(' ')));
 
-  private extractContactName(text: string): string | undefined {
-    const match = text.match(/(?:Dr\.?|Contact:?|Enquiries:?)\s+([A-Z][a-z]+\s+[A-Z][a-z]+)/);
-    return match ? match[1] : undefined;
+    const pdfHref = $('a[href$=".pdf" i], a[href*=".pdf?" i]').first().attr('href');
+    if (pdfHref) details.job_spec_pdf_url = new URL(pdfHref, this.baseUrl).toString();
+
+    // Leave out what the page didn't have, so it doesn't blank listing data
+    for (const key of Object.keys(details) as (keyof JobDetails)[]) {
+      if (!details[key]) delete details[key];
+    }
+    return details;
   }
 
-  private extractField(text: string, pattern: RegExp): string | undefined {
-    const match = text.match(pattern);
-    return match ? this.cleanText(match[1]) : undefined;
+  /**
+   * Text of each block element, in document order
+   */
+  private textLines($: cheerio.CheerioAPI): string[] {
+    return $('main, body').first()
+      .find('h1, h2, h3, h4, p, li, dt, dd, th, td')
+      .toArray()
+      .map(el => this.cleanText($(el).text()))
+      .filter(Boolean);
   }
 
-  private extractSalary(text: string): string | undefined {
-    const match = text.match(/€([\d,]+)\s*[-–]\s*€([\d,]+)/);
-    return match ? `€${match[1]} - €${match[2]}` : undefined;
+  /**
+   * Value after a label — on the same line ("Closing date: ...") or, for
+   * definition lists and tables, on the next one
+   */
+  private labelledValue(lines: string[], label: RegExp): string | undefined {
+    for (let i = 0; i < lines.length; i++) {
+      const match = lines[i].match(label);
+      if (!match) continue;
+
+      const rest = lines[i].slice(match[0].length).replace(/^[\s:\-–]+/, '').trim();
+      if (rest) return rest;
+      if (lines[i + 1]) return lines[i + 1];
+    }
+    return undefined;
   }
 }
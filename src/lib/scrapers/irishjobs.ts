@@ -5,9 +5,10 @@
 
 import * as cheerio from 'cheerio';
 import type { Element } from 'domhandler';
-import { type ScrapedJob, type ScraperResult, delay } from './base';
+import { type ScrapedJob, type ScraperResult } from './base';
 import { PlaywrightBaseScraper } from './playwright-base';
-import { matchHospital, matchHospitalByCounty, inferCounty } from './hospital-matcher';
+import { inferCounty } from './hospital-matcher';
+import { resolveHospital } from './field-confidence';
 import { getHospitalTier } from '@/lib/matchProbability';
 
 const SEARCH_URLS = [
@@ -31,7 +32,6 @@ export class IrishJobsScraper extends PlaywrightBaseScraper {
         console.log(`IrishJobs: Scraping ${searchUrl}...`);
         const jobs = await this.scrapeSearchPage(searchUrl, seenUrls);
         allJobs.push(...jobs);
-        await delay(3000);
       } catch (error) {
         console.error(`IrishJobs error for ${searchUrl}:`, error);
       }
@@ -56,6 +56,7 @@ export class IrishJobsScraper extends PlaywrightBaseScraper {
 
     const html = await this.getPageContent();
     const $ = cheerio.load(html);
+    this.stats.listing_pages++;
 
     // Parse job listings
     $(
@@ -69,6 +70,7 @@ export class IrishJobsScraper extends PlaywrightBaseScraper {
 
     // Fallback: parse links
     if (jobs.length === 0) {
+      this.stats.fallback_pages++;
       $('a[href*="/job/"], a[href*="/Jobs/"]').each((_, el) => {
         const $a = $(el);
         const title = this.cleanText($a.text());
@@ -80,7 +82,7 @@ export class IrishJobsScraper extends PlaywrightBaseScraper {
         seenUrls.add(href);
 
         const county = inferCounty(title);
-        const hospital = matchHospital(title) || matchHospitalByCounty(county);
+        const { hospital, confidence: hospitalConfidence } = resolveHospital(title, county);
         const hospitalName = hospital?.name || 'Irish Healthcare Facility';
 
         jobs.push({
@@ -89,9 +91,10 @@ export class IrishJobsScraper extends PlaywrightBaseScraper {
           specialty: this.parseSpecialty(title),
           scheme_type: this.parseSchemeType(title),
           hospital_name: hospitalName,
-          hospital_group: hospital?.hospitalGroup || 'IEHG',
+          field_confidence: { hospital_name: hospitalConfidence },
+          hospital_group: hospital?.hospitalGroup ?? null,
           county,
-          application_deadline: this.defaultDeadline(),
+          ...this.estimatedDeadline(),
           application_url: href,
           historical_centile_tier: getHospitalTier(hospitalName),
           source_url: href,
@@ -122,9 +125,9 @@ export class IrishJobsScraper extends PlaywrightBaseScraper {
     const county = inferCounty(`${title} ${locationText}`);
 
     const deadlineText = $el.find('[class*="date"], [class*="deadline"], time, [class*="posted"]').text();
-    const deadline = this.extractDate(deadlineText) || this.defaultDeadline();
+    const deadline = this.resolveDeadline(deadlineText);
 
-    const hospital = matchHospital(`${title} ${locationText}`) || matchHospitalByCounty(county);
+    const { hospital, confidence: hospitalConfidence } = resolveHospital(`${title} ${locationText}`, county);
     const hospitalName = hospital?.name || 'Irish Healthcare Facility';
 
     return {
@@ -133,9 +136,10 @@ export class IrishJobsScraper extends PlaywrightBaseScraper {
       specialty: this.parseSpecialty(title),
       scheme_type: this.parseSchemeType(title),
       hospital_name: hospitalName,
-      hospital_group: hospital?.hospitalGroup || 'IEHG',
+      field_confidence: { hospital_name: hospitalConfidence },
+      hospital_group: hospital?.hospitalGroup ?? null,
       county,
-      application_deadline: deadline,
+      ...deadline,
       application_url: url,
       historical_centile_tier: getHospitalTier(hospitalName),
       source_url: url || 'https://www.irishjobs.ie',
@@ -165,21 +169,4 @@ export class IrishJobsScraper extends PlaywrightBaseScraper {
     }
     return false;
   }
-
-  private extractDate(text: string): string | null {
-    const match = text.match(
-      /(\d{1,2})\s+(January|February|March|April|May|June|July|August|September|October|November|December)\s+(\d{4})/i
-    );
-    if (match) {
-      const date = new Date(`${match[2]} ${match[1]}, ${match[3]}`);
-      if (!isNaN(date.getTime())) return date.toISOString();
-    }
-    return null;
-  }
-
-  private defaultDeadline(): string {
-    const d = new Date();
-    d.setDate(d.getDate() + 21);
-    return d.toISOString();
-  }
 }
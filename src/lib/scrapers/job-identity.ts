@@ -0,0 +1,85 @@
+/**
+ * Job Identity
+ * Computes a stable key for a scraped posting so re-scrapes update the same
+ * row even when the title, deadline or contacts change.
+ *
+ * Priority: HSE reference code → posting URL → normalized title + hospital.
+ */
+
+import type { ScrapedJob } from './base';
+
+/** HSE campaign reference codes, e.g. MW26MOB2, DU26AB12 */
+const REF_CODE_PATTERN = /\b([A-Za-z]{2}\d{2}[A-Za-z]{1,3}\d{1,3})\b/;
+
+/** Query params that mark a URL as a search/listing page rather than a posting */
+const LISTING_QUERY_PARAMS = ['query', 'category', 'keywords', 'page', 'q'];
+
+/**
+ * Extract an HSE reference code from text (title, description, etc.)
+ */
+export function extractRefCode(text: string): string | null {
+  if (!text) return null;
+  const match = text.match(REF_CODE_PATTERN);
+  return match ? match[1].toUpperCase() : null;
+}
+
+/**
+ * Normalize a title for comparison: strip ref codes, lowercase, collapse whitespace
+ */
+export function normalizeTitle(title: string): string {
+  return title
+    .toLowerCase()
+    .replace(/[A-Z]{2}\d{2}[A-Z]{1,3}\d{1,3}/gi, '') // Remove ref codes like MW26KR10
+    .replace(/ref:?\s*\S+/gi, '')                    // Remove "ref: XYZ"
+    .replace(/\s+/g, ' ')
+    .trim();
+}
+
+/**
+ * Normalize a posting URL, or return null if it is a listing/search page
+ * (several jobs share those, so they can't identify a single posting).
+ */
+export function normalizePostingUrl(url: string | undefined): string | null {
+  if (!url) return null;
+
+  let parsed: URL;
+  try {
+    parsed = new URL(url);
+  } catch {
+    return null;
+  }
+
+  for (const param of LISTING_QUERY_PARAMS) {
+    if (parsed.searchParams.has(param)) return null;
+  }
+
+  const pathname = parsed.pathname.replace(/\/+$/, '');
+  // Bare listing roots like /jobs, /jobs/job-search or /careers/current-vacancies
+  if (/\/(jobs|job-search|vacancies|current-?vacancies)$/i.test(pathname) || pathname === '') return null;
+
+  return `${parsed.hostname.replace(/^www\./, '')}${pathname}`.toLowerCase();
+}
+
+/**
+ * The listing platform a job key was computed for, e.g. DOCTOR_JOBS
+ */
+export function jobKeyPlatform(jobKey: string | null | undefined): string | null {
+  return jobKey ? jobKey.split(':')[0].toUpperCase() : null;
+}
+
+/**
+ * Compute the stable identity key for a scraped job
+ */
+export function computeJobKey(
+  job: Pick<ScrapedJob, 'title' | 'hospital_name' | 'source_url' | 'source_platform'>
+): string {
+  const platform = job.source_platform.toLowerCase();
+
+  const refCode = extractRefCode(job.title);
+  if (refCode) return `${platform}:ref:${refCode}`;
+
+  const url = normalizePostingUrl(job.source_url);
+  if (url) return `${platform}:url:${url}`;
+
+  return `${platform}:title:${normalizeTitle(job.title)}|${job.hospital_name.toLowerCase()}`;
+}
@@ -0,0 +1,340 @@
+/**
+ * Job Spec Ingestion
+ * Downloads each active job's spec PDF, extracts its text and reads out the
+ * contact, closing date, clinical lead, rotation and employment terms with
+ * the configured extraction providers. Results are stored per job with the
+ * PDF's hash, so a spec is only re-parsed when its bytes change.
+ */
+
+import type { Job } from '@/types/database.types';
+import { extractPdfText, hashPdf, type ParsedJobSpec } from '@/lib/pdfParser';
+import { ESTIMATED_FIELDS, type JobTerms } from './job-terms';
+import { getScheduler, RobotsDisallowedError, type RequestScheduler } from './politeness';
+import {
+  fromParsedSpec,
+  RegexExtractionProvider,
+  SpecExtractor,
+  toJobSpecFields,
+  type FieldSources,
+} from './spec-extraction';
+import { supabaseAdmin } from '@/lib/supabase';
+
+/** Download a spec again at least this often to see whether it changed */
+export const JOB_SPEC_RECHECK_MS = 7 * 24 * 60 * 60 * 1000;
+
+/** Default cap on PDF downloads per run — the rest wait for the next run */
+const DEFAULT_MAX_DOWNLOADS = 25;
+
+/** Job fields a spec can fill in */
+export type JobSpecFields = JobTerms & Partial<Pick<Job,
+  | 'application_deadline'
+  | 'deadline_precision'
+  | 'informal_enquiries_name'
+  | 'informal_enquiries_email'
+  | 'clinical_lead'
+  | 'rotational_detail'
+  | 'estimated_fields'
+>>;
+
+/** Spec fields that only fill a job's empty columns */
+const GAP_FIELDS = [
+  'informal_enquiries_name',
+  'informal_enquiries_email',
+  'clinical_lead',
+  'rotational_detail',
+  'salary_range',
+  'hours_per_week',
+  'on_call',
+  'on_call_frequency',
+] as const;
+
+/** The job columns the ingester reads */
+export const JOB_SPEC_TARGET_COLUMNS = [
+  'id',
+  'job_spec_pdf_url',
+  'application_deadline',
+  'deadline_precision',
+  'estimated_fields',
+  ...GAP_FIELDS,
+  ...ESTIMATED_FIELDS,
+] as const;
+
+export type JobSpecTarget = Pick<Job, 'id'> & Partial<Pick<Job, (typeof JOB_SPEC_TARGET_COLUMNS)[number]>>;
+
+export interface JobSpecRecord {
+  job_id: string;
+  pdf_url: string;
+  pdf_hash: string;
+  raw_text: string;
+  extracted: JobSpecFields;
+  field_sources: FieldSources; // Extraction provider behind each field
+  parsed_at: string;
+  checked_at: string; // Last time the PDF was downloaded and hashed
+}
+
+export interface JobSpecStore {
+  load(jobIds: string[]): Promise<Map<string, JobSpecRecord>>;
+  save(records: JobSpecRecord[]): Promise<void>;
+}
+
+export interface IngestOptions {
+  deadline?: number | null; // Stop downloading at this time (ms since epoch)
+  maxDownloads?: number;
+  now?: number;
+}
+
+export interface JobSpecSummary {
+  checked: number; // Jobs with a spec PDF
+  downloaded: number;
+  parsed: number; // New or changed PDFs
+  unchanged: number; // Downloaded, but the hash matched the stored spec
+  failed: number;
+  deferred: number; // Due a download but left for the next run
+  jobs_updated: number;
+}
+
+/**
+ * Map the regex parser's output onto job fields. A closing date that can't
+ * be read is left out rather than guessed.
+ */
+export function specFields(parsed: ParsedJobSpec): JobSpecFields {
+  const fields = toJobSpecFields(fromParsedSpec(parsed));
+
+  return Object.fromEntries(
+    Object.entries(fields).filter(([, value]) => value !== undefined)
+  ) as JobSpecFields;
+}
+
+/**
+ * The spec values a job is missing. Scraped values win; the spec only
+ * replaces a deadline, start date, duration or contract type that was
+ * estimated.
+ */
+export function fillFromSpec(job: Partial<Job>, fields: JobSpecFields): JobSpecFields {
+  const updates: JobSpecFields = {};
+
+  for (const field of GAP_FIELDS) {
+    if (fields[field] != null && job[field] == null) Object.assign(updates, { [field]: fields[field] });
+  }
+
+  if (fields.application_deadline && (!job.application_deadline || job.deadline_precision === 'ESTIMATED')) {
+    updates.application_deadline = fields.application_deadline;
+    updates.deadline_precision = fields.deadline_precision;
+  }
+
+  const estimated = job.estimated_fields || [];
+  const stated = ESTIMATED_FIELDS.filter(field => fields[field] != null && (job[field] == null || estimated.includes(field)));
+  if (stated.length > 0) {
+    for (const field of stated) Object.assign(updates, { [field]: fields[field] });
+    updates.estimated_fields = estimated.filter(field => !stated.includes(field));
+  }
+
+  return updates;
+}
+
+/**
+ * Whether a stored spec can be reused without downloading the PDF again
+ */
+export function isSpecFresh(record: JobSpecRecord | undefined, pdfUrl: string, now: number = Date.now()): boolean {
+  if (!record || record.pdf_url !== pdfUrl) return false;
+  return now - new Date(record.checked_at).getTime() < JOB_SPEC_RECHECK_MS;
+}
+
+/**
+ * In-process store — lives as long as the orchestrator
+ */
+export class MemoryJobSpecStore implements JobSpecStore {
+  private records = new Map<string, JobSpecRecord>();
+
+  async load(jobIds: string[]): Promise<Map<string, JobSpecRecord>> {
+    const found = new Map<string, JobSpecRecord>();
+    for (const id of jobIds) {
+      const record = this.records.get(id);
+      if (record) found.set(id, record);
+    }
+    return found;
+  }
+
+  async save(records: JobSpecRecord[]): Promise<void> {
+    for (const record of records) {
+      this.records.set(record.job_id, record);
+    }
+  }
+}
+
+/**
+ * Specs stored in the job_specs table
+ */
+export class SupabaseJobSpecStore implements JobSpecStore {
+  /**
+   * Returns null when the service role key isn't configured
+   */
+  static fromEnv(): SupabaseJobSpecStore | null {
+    if (!process.env.NEXT_PUBLIC_SUPABASE_URL || !process.env.SUPABASE_SERVICE_ROLE_KEY) return null;
+    return new SupabaseJobSpecStore();
+  }
+
+  async load(jobIds: string[]): Promise<Map<string, JobSpecRecord>> {
+    const found = new Map<string, JobSpecRecord>();
+    const batchSize = 100;
+
+    for (let i = 0; i < jobIds.length; i += batchSize) {
+      const { data, error } = await supabaseAdmin
+        .from('job_specs')
+        .select('job_id, pdf_url, pdf_hash, raw_text, extracted, field_sources, parsed_at, checked_at')
+        .in('job_id', jobIds.slice(i, i + batchSize));
+
+      if (error) {
+        console.error('Error loading job specs:', error);
+        continue;
+      }
+      for (const row of (data || []) as JobSpecRecord[]) {
+        found.set(row.job_id, row);
+      }
+    }
+
+    return found;
+  }
+
+  async save(records: JobSpecRecord[]): Promise<void> {
+    if (records.length === 0) return;
+
+    const { error } = await supabaseAdmin
+      .from('job_specs')
+      .upsert(records, { onConflict: 'job_id' });
+
+    if (error) {
+      console.error('Error saving job specs:', error);
+    }
+  }
+}
+
+/**
+ * Brings stored specs up to date for a set of jobs and works out which job
+ * fields they fill in. Writing those fields back is left to the caller.
+ */
+export class JobSpecIngester {
+  private store: JobSpecStore;
+  private scheduler: RequestScheduler;
+  private extractor: SpecExtractor;
+
+  constructor(
+    store: JobSpecStore,
+    scheduler: RequestScheduler = getScheduler(),
+    extractor: SpecExtractor = new SpecExtractor([new RegexExtractionProvider()])
+  ) {
+    this.store = store;
+    this.scheduler = scheduler;
+    this.extractor = extractor;
+  }
+
+  async ingest(
+    jobs: JobSpecTarget[],
+    options: IngestOptions = {}
+  ): Promise<{ summary: JobSpecSummary; updates: Map<string, JobSpecFields> }> {
+    const now = options.now ?? Date.now();
+    const maxDownloads = options.maxDownloads ?? DEFAULT_MAX_DOWNLOADS;
+    const summary: JobSpecSummary = {
+      checked: 0, downloaded: 0, parsed: 0, unchanged: 0, failed: 0, deferred: 0, jobs_updated: 0,
+    };
+    const updates = new Map<string, JobSpecFields>();
+
+    const withSpecs = jobs.filter(job => job.job_spec_pdf_url);
+    summary.checked = withSpecs.length;
+    const stored = await this.store.load(withSpecs.map(job => job.id));
+
+    // Several postings can share one spec — download it once per run
+    const downloads = new Map<string, Promise<{ hash: string; data: Uint8Array } | null>>();
+    const parses = new Map<string, Promise<{ text: string; fields: JobSpecFields; sources: FieldSources } | null>>();
+    const toSave: JobSpecRecord[] = [];
+
+    for (const job of withSpecs) {
+      const url = job.job_spec_pdf_url!;
+      let record = stored.get(job.id);
+
+      if (!isSpecFresh(record, url, now)) {
+        const pastDeadline = options.deadline != null && Date.now() >= options.deadline;
+        if (!downloads.has(url) && (pastDeadline || downloads.size >= maxDownloads)) {
+          summary.deferred++;
+        } else {
+          if (!downloads.has(url)) downloads.set(url, this.download(url, options.deadline ?? null));
+          const pdf = await downloads.get(url)!;
+
+          if (!pdf) {
+            summary.failed++;
+          } else if (record && record.pdf_url === url && record.pdf_hash === pdf.hash) {
+            summary.unchanged++;
+            record = { ...record, checked_at: new Date(now).toISOString() };
+            toSave.push(record);
+          } else {
+            if (!parses.has(pdf.hash)) parses.set(pdf.hash, this.parse(url, pdf.data));
+            const parsed = await parses.get(pdf.hash)!;
+            if (!parsed) {
+              summary.failed++;
+            } else {
+              summary.parsed++;
+              const timestamp = new Date(now).toISOString();
+              record = {
+                job_id: job.id,
+                pdf_url: url,
+                pdf_hash: pdf.hash,
+                raw_text: parsed.text,
+                extracted: parsed.fields,
+                field_sources: parsed.sources,
+                parsed_at: timestamp,
+                checked_at: timestamp,
+              };
+              toSave.push(record);
+            }
+          }
+        }
+      }
+
+      // Until it can be checked again, the last spec read from this URL still fills gaps
+      if (!record || record.pdf_url !== url) continue;
+      const filled = fillFromSpec(job, record.extracted);
+      if (Object.keys(filled).length > 0) updates.set(job.id, filled);
+    }
+
+    summary.downloaded = downloads.size;
+    summary.jobs_updated = updates.size;
+    await this.store.save(toSave);
+
+    return { summary, updates };
+  }
+
+  private async download(url: string, deadline: number | null): Promise<{ hash: string; data: Uint8Array } | null> {
+    try {
+      const response = await this.scheduler.fetch(url, {
+        headers: { 'Accept': 'application/pdf' },
+      }, deadline);
+      if (!response.ok) {
+        console.error(`Job spec fetch failed: ${response.status} ${response.statusText} for ${url}`);
+        return null;
+      }
+      const data = new Uint8Array(await response.arrayBuffer());
+      return { hash: hashPdf(data), data };
+    } catch (error) {
+      if (error instanceof RobotsDisallowedError) {
+        console.warn(`Job spec: ${error.message}, skipping`);
+        return null;
+      }
+      console.error(`Job spec fetch error for ${url}:`, (error as Error).message);
+      return null;
+    }
+  }
+
+  private async parse(
+    url: string,
+    data: Uint8Array
+  ): Promise<{ text: string; fields: JobSpecFields; sources: FieldSources } | null> {
+    try {
+      const text = await extractPdfText(data);
+      const { fields, sources } = await this.extractor.extract(text);
+      return { text, fields, sources };
+    } catch (error) {
+      console.error(`Job spec parse error for ${url}:`, (error as Error).message);
+      return null;
+    }
+  }
+}
@@ -0,0 +1,172 @@
+/**
+ * Employment Terms
+ * Reads pay, rostered hours, on-call, post duration, start date and contract
+ * type from job spec text — a posting page or a spec PDF. Where nothing is
+ * stated, the start date, duration and contract fall back to the usual NCHD
+ * rotation defaults and are recorded in `estimated_fields`.
+ */
+
+import type { EstimatedField, Job } from '@/types/database.types';
+import { parseIrishDeadline, UNKNOWN_DEADLINE } from './deadline-parser';
+
+/** Fields the spec text can give */
+export type JobTerms = Partial<Pick<Job,
+  | 'salary_range'
+  | 'hours_per_week'
+  | 'on_call'
+  | 'on_call_frequency'
+  | 'duration_months'
+  | 'start_date'
+  | 'contract_type'
+>>;
+
+export const ESTIMATED_FIELDS: EstimatedField[] = ['start_date', 'duration_months', 'contract_type'];
+
+/** Rotations change over in January and July; a post usually runs one rotation */
+const DEFAULT_DURATION_MONTHS = 6;
+
+const NUMBER_WORDS: Record<string, number> = {
+  one: 1, two: 2, three: 3, four: 4, six: 6, nine: 9,
+  twelve: 12, eighteen: 18, 'twenty-four': 24, 'twenty four': 24,
+};
+
+const COUNT = `(\\d{1,2}|${Object.keys(NUMBER_WORDS).join('|')})`;
+const DAY_DATE = '\\d{1,2}(?:st|nd|rd|th)?\\s+[A-Za-z]+,?\\s+\\d{4}|\\d{1,2}[/.-]\\d{1,2}[/.-]\\d{2,4}';
+const MONTH_DATE = '(?:January|February|March|April|May|June|July|August|September|October|November|December)\\s+\\d{4}';
+
+/**
+ * Salary range or single salary, with the pay scale point when one is given
+ */
+export function extractSalary(text: string): string | undefined {
+  const range = text.match(/€\s?([\d,]{5,})\s*(?:[-–]|to)\s*€\s?([\d,]{5,})/i);
+  const single = range ? null : text.match(/€\s?([\d,]{5,})\s*(?:per annum|p\.a\.|a year)/i);
+  if (!range && !single) return undefined;
+
+  const salary = range ? `€${range[1]} - €${range[2]}` : `€${single![1]}`;
+  const point = text.match(/\bpoint\s+(\d{1,2})\b(?!\s*[-–])/i) || text.match(/\b(\d{1,2})(?:st|nd|rd|th)\s+point\b/i);
+  return point ? `${salary} (point ${point[1]})` : salary;
+}
+
+/**
+ * Rostered hours per week — "39 hours per week", "a 39-hour week"
+ */
+export function extractHours(text: string): number | undefined {
+  const match = text.match(/(\d{2}(?:\.\d)?)\s*(?:hours?|hrs?)\s*(?:per|a|each|\/)\s*week/i)
+    || text.match(/(\d{2}(?:\.\d)?)[\s-]hour\s+(?:working\s+)?week/i);
+  if (!match) return undefined;
+
+  const hours = parseFloat(match[1]);
+  return hours >= 20 && hours <= 80 ? hours : undefined;
+}
+
+/**
+ * Whether the post carries on-call, and how often — "on-call 1 in 6", "1:8 rota"
+ */
+export function extractOnCall(text: string): Pick<JobTerms, 'on_call' | 'on_call_frequency'> {
+  if (/\bno\s+on[\s-]?call\b|\bnon[\s-]on[\s-]?call\b|\bnot\s+(?:be\s+)?required\s+to\s+(?:participate\s+in\s+|do\s+)?(?:an?\s+)?on[\s-]?call/i.test(text)) {
+    return { on_call: false };
+  }
+
+  const frequency = text.match(/on[\s-]?call[^.]{0,40}?\b1\s*(?:in|:)\s*(\d{1,2})\b/i)
+    || text.match(/\b1\s*(?:in|:)\s*(\d{1,2})\b[^.]{0,20}?on[\s-]?call/i);
+  if (frequency) return { on_call: true, on_call_frequency: `1 in ${frequency[1]}` };
+
+  if (/\bon[\s-]?call\s+(?:rota|roster|commitment|duties|is\s+required)|participate\s+in\s+(?:the\s+|an?\s+)?on[\s-]?call/i.test(text)) {
+    return { on_call: true };
+  }
+  return {};
+}
+
+/**
+ * Length of the post in months — "for 12 months", "a six month post", "term of 2 years"
+ */
+export function extractDuration(text: string): number | undefined {
+  const match = text.match(new RegExp(
+    `\\b(?:for|period\\s+of|duration(?:\\s+of)?:?|term\\s+of|tenure(?:\\s+of)?:?)\\s+(?:a\\s+|an\\s+)?(?:period\\s+of\\s+)?${COUNT}[\\s-]*(months?|years?)\\b`, 'i'
+  )) || text.match(new RegExp(
+    `\\b${COUNT}[\\s-]*(month|year)\\s+(?:post|contract|appointment|placement|rotation|specified\\s+purpose)`, 'i'
+  ));
+  if (!match) return undefined;
+
+  const count = /^\d+$/.test(match[1]) ? parseInt(match[1], 10) : NUMBER_WORDS[match[1].toLowerCase()];
+  const months = /^year/i.test(match[2]) ? count * 12 : count;
+  return months >= 1 && months <= 72 ? months : undefined;
+}
+
+/**
+ * Start date as YYYY-MM-DD — "commencing 13th July 2026", "Start date: July 2026"
+ */
+export function extractStartDate(text: string): string | undefined {
+  const lead = '(?:start(?:ing)?\\s+date|commenc(?:ing|ement(?:\\s+date)?|es)|start(?:ing|s)?(?:\\s+on)?|(?:post|contract|appointment)[^.]{0,40}?\\bfrom)';
+  const match = text.match(new RegExp(`${lead}[\\s:]+(?:on\\s+|from\\s+)?(${DAY_DATE}|${MONTH_DATE})`, 'i'));
+  if (!match) return undefined;
+
+  const dateText = new RegExp(`^${MONTH_DATE}$`, 'i').test(match[1]) ? `1 ${match[1]}` : match[1];
+  const parsed = parseIrishDeadline(dateText);
+  if (parsed === UNKNOWN_DEADLINE) return undefined;
+
+  return new Date(parsed.iso).toLocaleDateString('en-CA', { timeZone: 'Europe/Dublin' });
+}
+
+/**
+ * Contract type as HSE specs word it
+ */
+export function extractContractType(text: string): string | undefined {
+  if (/\blocum\b/i.test(text)) return 'Locum';
+  if (/specified\s+purpose/i.test(text)) return 'Specified Purpose';
+  if (/fixed[\s-]term/i.test(text)) return 'Fixed Term';
+  if (/\bpermanent\s+(?:post|contract|appointment|whole[\s-]time)/i.test(text)) return 'Permanent';
+  if (/\btemporary\s+(?:post|contract|appointment|whole[\s-]time)/i.test(text)) return 'Temporary';
+  return undefined;
+}
+
+/**
+ * Every term the text states. Missing terms are left out.
+ */
+export function parseJobTerms(text: string): JobTerms {
+  const normalized = text.replace(/\s+/g, ' ');
+  const terms: JobTerms = {
+    salary_range: extractSalary(normalized),
+    hours_per_week: extractHours(normalized),
+    ...extractOnCall(normalized),
+    duration_months: extractDuration(normalized),
+    start_date: extractStartDate(normalized),
+    contract_type: extractContractType(normalized),
+  };
+
+  return Object.fromEntries(
+    Object.entries(terms).filter(([, value]) => value !== undefined)
+  ) as JobTerms;
+}
+
+/**
+ * Next rotation changeover after the deadline: 13 July for deadlines in the
+ * first half of the year, 13 January otherwise
+ */
+export function estimateStartDate(deadline: string): string {
+  const deadlineDate = new Date(deadline);
+  const year = deadlineDate.getFullYear();
+  const month = deadlineDate.getMonth();
+
+  if (month < 6) {
+    return `${year}-07-13`;
+  } else {
+    return `${year + 1}-01-13`;
+  }
+}
+
+/**
+ * Fill the start date, duration and contract type from the usual defaults
+ * where the job doesn't state them, and record which were estimated
+ */
+export function withTermFallbacks<T extends Partial<Job>>(
+  job: T
+): T & Pick<Job, 'start_date' | 'duration_months' | 'contract_type' | 'estimated_fields'> {
+  return {
+    ...job,
+    start_date: job.start_date || estimateStartDate(job.application_deadline!),
+    duration_months: job.duration_months || DEFAULT_DURATION_MONTHS,
+    contract_type: job.contract_type || (job.scheme_type?.startsWith('TRAINING') ? 'Training' : 'Specified Purpose'),
+    estimated_fields: ESTIMATED_FIELDS.filter(field => !job[field]),
+  };
+}
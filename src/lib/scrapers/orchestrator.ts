@@ -5,31 +5,340 @@
 
 import { HSEScraper } from './hse';
 import { HealthcareJobsScraper } from './healthcarejobs';
-import { BaseScraper, type ScrapedJob, type ScraperResult } from './base';
-import type { Job } from '@/types/database.types';
+import { DIRECT_HOSPITAL_SITES, DirectHospitalScraper } from './direct-hospital';
+import { BaseScraper, type ScrapedJob, type ScraperResult, type ScraperStats } from './base';
+import { FixtureStore } from './fixtures';
+import { SupabaseDetailCache, type DetailCache } from './detail-cache';
+import { getBrowserPool, type BrowserPool } from './browser-pool';
+import { SupabaseCaptureStore, unstoredCaptures, type CaptureStore, type FailureCapture } from './failure-captures';
+import {
+  summarizeProgress,
+  SupabaseTaskStore,
+  TASK_MAX_WAIT_MS,
+  workTasks,
+  type QueuedTask,
+  type QueueProgress,
+  type TaskStore,
+} from './task-queue';
+import {
+  fillFromSpec,
+  JOB_SPEC_TARGET_COLUMNS,
+  JobSpecIngester,
+  SupabaseJobSpecStore,
+  type JobSpecRecord,
+  type JobSpecStore,
+  type JobSpecSummary,
+  type JobSpecTarget,
+} from './job-specs';
+import { computeJobKey, normalizeTitle } from './job-identity';
+import {
+  classifyStaleJobs,
+  deactivationReason,
+  groupByMissedRuns,
+  onlyScrapedPlatforms,
+  type ActiveJobRow,
+  type DeactivatedJob,
+  type StaleJob,
+  type StaleJobs,
+} from './stale-jobs';
+import { resolveEntities } from './entity-resolution';
+import { setCustomAliases } from './hospital-matcher';
+import { getHospitalNameLog, SupabaseHospitalNameStore, type HospitalNameStore } from './hospital-names';
+import { needsReview } from './field-confidence';
+import { withTermFallbacks } from './job-terms';
+import { SpecExtractor } from './spec-extraction';
+import { detectAnomalies, sendHealthAlert, summarizeJobs, type SourceSignals } from './health';
+import { getScheduler, type HostStats, type RequestScheduler } from './politeness';
+import { dispatchWebhooks, runWebhookPayloads, SupabaseWebhookStore, toWebhookJob, type WebhookStore } from './webhooks';
+import { diffJobFields, TRACKED_FIELDS } from '@/lib/jobRevisions';
+import { applyOverrides } from '@/lib/jobOverrides';
+import type {
+  Job,
+  JobFieldChange,
+  JobOverride,
+  JobRevision,
+  ScrapeAnomaly,
+  ScrapeCapture,
+  ScrapeRun,
+  ScrapingLog,
+} from '@/types/database.types';
 import { supabaseAdmin } from '@/lib/supabase';
 
+/**
+ * Default time for scrapers in a run — leaves /api/scrape's 300s
+ * maxDuration room to save and log what was collected
+ */
+const DEFAULT_RUN_BUDGET_MS = 240_000;
+
+/** How long after the deadline to wait for scrapers to wind down */
+const DEADLINE_GRACE_MS = 20_000;
+
+/** Time allowed for downloading job spec PDFs once the jobs are saved */
+const JOB_SPEC_BUDGET_MS = 30_000;
+
+/** Time allowed for sending webhooks once a run is final, retries included */
+const WEBHOOK_BUDGET_MS = 20_000;
+
+/** A queued run still open after this long is wound up before the next one starts */
+const QUEUED_RUN_MAX_AGE_MS = 12 * 60 * 60 * 1000;
+
+export interface RunOptions {
+  budgetMs?: number; // Time allowed for scraping before the run saves what it has
+  sources?: string[]; // Scraper names to run, e.g. ['HSE']; all when omitted
+}
+
+export interface QueueOptions extends RunOptions {
+  start?: boolean; // Start a run if none is in progress; otherwise only resume one
+  maxTasks?: number; // Stop after this many tasks, e.g. to try resuming locally
+}
+
+/**
+ * What one invocation did for the queued run
+ */
+export interface QueueWorkResult {
+  run_id: string | null; // null when there was no run to resume
+  tasks_run: number;
+  progress: QueueProgress | null;
+  result: OrchestrationResult | null; // Set when this invocation finished and saved the run
+}
+
 export interface OrchestrationResult {
+  run_id: string;
+  status: ScrapingLog['status']; // PARTIAL when a source failed or was cut short
+  deadline_reached: boolean;
   total_jobs_scraped: number;
   total_jobs_saved: number;
   duplicates_removed: number;
   scrapers_run: string[];
   errors: string[];
+  anomalies: ScrapeAnomaly[];
+  host_stats: HostStats[]; // Per-host request scheduler counters for this run
+  job_specs: JobSpecSummary | null; // null when spec PDFs weren't checked this run
   scrape_started_at: string;
   scrape_completed_at: string;
   duration_seconds: number;
 }
 
+/**
+ * Telemetry for one scraper within a run — written as one scraping_logs row
+ */
+export interface SourceRun {
+  scraper: string;
+  platform: ScrapedJob['source_platform'];
+  status: ScrapingLog['status'];
+  started_at: string;
+  completed_at: string;
+  pages_fetched: number;
+  jobs_found: number;
+  error: string | null;
+  signals: SourceSignals | null;
+  anomalies: ScrapeAnomaly[];
+  captures: FailureCapture[]; // Playwright page captures from selector misses and errors
+  stored_captures: ScrapeCapture[]; // ...already uploaded, by a queued task
+}
+
+/**
+ * Deduplicated jobs from one pass over the registered scrapers, before saving
+ */
+export interface CollectedJobs {
+  status: ScrapingLog['status'];
+  deadline_reached: boolean;
+  jobs: ScrapedJob[];
+  total_jobs_scraped: number;
+  duplicates_removed: number;
+  scrapers_run: string[];
+  errors: string[];
+  source_runs: SourceRun[];
+}
+
+/**
+ * What saving a run would change, worked out against the stored jobs
+ */
+export interface SavePlan {
+  jobs: Partial<Job>[]; // Rows to upsert, with spec fields and overrides applied
+  inserts: Partial<Job>[];
+  updates: { job: Partial<Job>; existing: Partial<Job>; changes: JobFieldChange[] }[];
+  unchanged: number;
+  stale: StaleJobs[];
+}
+
+/**
+ * A run's jobs and the changes saving them would make, without saving
+ */
+export interface RunPreview {
+  collected: CollectedJobs;
+  plan: SavePlan;
+}
+
+/**
+ * What a save did, broken down so each source's log row gets its own counts
+ */
+interface SaveOutcome {
+  saved: number;
+  newByPlatform: Map<ScrapedJob['source_platform'], number>;
+  updatedByPlatform: Map<ScrapedJob['source_platform'], number>;
+  deactivatedBySource: Map<Job['source'], number>;
+  added: Partial<Job>[]; // Inserted rows, with their ids
+  deactivated: DeactivatedJob[];
+  error: string | null;
+}
+
+/**
+ * One source's part in a run, as logged to scraping_logs and sent in
+ * run webhooks
+ */
+export interface SourceBreakdown {
+  source: string; // Scraper name, e.g. 'HSE'
+  platform: ScrapedJob['source_platform'];
+  status: ScrapingLog['status'];
+  pages_fetched: number;
+  jobs_found: number;
+  jobs_new: number;
+  jobs_updated: number;
+  jobs_deactivated: number;
+  error_message: string | null;
+  anomalies: ScrapeAnomaly[];
+  captures: ScrapeCapture[];
+  started_at: string;
+  completed_at: string;
+  duration_seconds: number;
+}
+
+function emptySaveOutcome(): SaveOutcome {
+  return {
+    saved: 0,
+    newByPlatform: new Map(),
+    updatedByPlatform: new Map(),
+    deactivatedBySource: new Map(),
+    added: [],
+    deactivated: [],
+    error: null,
+  };
+}
+
 export class ScraperOrchestrator {
   private scrapers: Map<string, BaseScraper> = new Map();
+  private fixtureStore: FixtureStore | null = null;
+  private detailCache: DetailCache | null = null;
+  private jobSpecStore: JobSpecStore | null = null;
+  private specExtractor: SpecExtractor = SpecExtractor.fromEnv();
+  private scheduler: RequestScheduler = getScheduler();
+  private browserPool: BrowserPool | null = null;
+  private captureStore: CaptureStore | null = null;
+  private taskStore: TaskStore | null = null;
+  private webhookStore: WebhookStore | null = null;
+  private hospitalNameStore: HospitalNameStore | null = null;
 
   constructor() {
     // Register fetch-based scrapers (work on Vercel)
-    this.scrapers.set('HSE', new HSEScraper());
-    this.scrapers.set('HealthcareJobs', new HealthcareJobsScraper());
+    this.register('HSE', new HSEScraper());
+    this.register('HealthcareJobs', new HealthcareJobsScraper());
+
+    // Voluntary hospitals' own careers pages, one scraper per hospital
+    for (const site of DIRECT_HOSPITAL_SITES) {
+      this.register(site.key, new DirectHospitalScraper(site));
+    }
 
     // Playwright scrapers are registered conditionally via registerPlaywrightScrapers()
     // They only work in GitHub Actions, not on Vercel
+
+    // Record/replay fixtures are opt-in via SCRAPER_FIXTURE_MODE
+    this.useFixtures(FixtureStore.fromEnv());
+
+    // Parsed detail pages are cached in Supabase between runs when it's configured
+    this.useDetailCache(SupabaseDetailCache.fromEnv());
+
+    // Job spec PDFs are read after each save when Supabase is configured
+    this.useJobSpecStore(SupabaseJobSpecStore.fromEnv());
+
+    // Playwright failure captures are uploaded to storage when Supabase is configured
+    this.useCaptureStore(SupabaseCaptureStore.fromEnv());
+
+    // Queued runs keep their tasks in Supabase when it's configured
+    this.useTaskStore(SupabaseTaskStore.fromEnv());
+
+    // Run webhooks go to the endpoints registered in Supabase when it's configured
+    this.useWebhookStore(SupabaseWebhookStore.fromEnv());
+
+    // Admin-added hospital aliases and the unmatched-name log live in Supabase when it's configured
+    this.useHospitalNameStore(SupabaseHospitalNameStore.fromEnv());
+  }
+
+  private register(name: string, scraper: BaseScraper): void {
+    scraper.setFixtureStore(this.fixtureStore);
+    scraper.setDetailCache(this.detailCache);
+    scraper.setScheduler(this.scheduler);
+    this.scrapers.set(name, scraper);
+  }
+
+  /**
+   * Record every fetched page to a fixture store, or replay pages from it
+   * instead of hitting the network. Pass null to go back to live scraping.
+   */
+  useFixtures(store: FixtureStore | null): void {
+    this.fixtureStore = store;
+    for (const scraper of this.scrapers.values()) {
+      scraper.setFixtureStore(store);
+    }
+    if (store) {
+      console.log(`Scraper fixtures: ${store.mode} mode (${store.dir})`);
+    }
+  }
+
+  /**
+   * Cache parsed detail pages so postings with unchanged listings aren't
+   * refetched. Pass null to fetch every detail page.
+   */
+  useDetailCache(cache: DetailCache | null): void {
+    this.detailCache = cache;
+    for (const scraper of this.scrapers.values()) {
+      scraper.setDetailCache(cache);
+    }
+  }
+
+  /**
+   * Store parsed job spec PDFs here. Pass null to skip reading specs.
+   */
+  useJobSpecStore(store: JobSpecStore | null): void {
+    this.jobSpecStore = store;
+  }
+
+  /**
+   * Upload Playwright failure captures here when a run is logged. Pass null
+   * to list them on the log without the screenshot and HTML.
+   */
+  useCaptureStore(store: CaptureStore | null): void {
+    this.captureStore = store;
+  }
+
+  /**
+   * Keep queued runs' tasks here. Pass null to turn queued runs off.
+   */
+  useTaskStore(store: TaskStore | null): void {
+    this.taskStore = store;
+  }
+
+  /**
+   * Send run webhooks to the endpoints in this store. Pass null to send none.
+   */
+  useWebhookStore(store: WebhookStore | null): void {
+    this.webhookStore = store;
+  }
+
+  /**
+   * Load hospital aliases from this store and log unmatched hospital names
+   * to it. Pass null to match on the built-in aliases only.
+   */
+  useHospitalNameStore(store: HospitalNameStore | null): void {
+    this.hospitalNameStore = store;
+  }
+
+  /**
+   * Read spec PDFs with these extraction providers. By default they come
+   * from SPEC_EXTRACTION_PROVIDERS, falling back to the regex parser.
+   */
+  useSpecExtractor(extractor: SpecExtractor): void {
+    this.specExtractor = extractor;
   }
 
   /**
@@ -40,8 +349,15 @@ export class ScraperOrchestrator {
       const { RezoomoScraper } = await import('./rezoomo');
       const { DoctorJobsScraper } = await import('./doctorjobs');
 
-      this.scrapers.set('Rezoomo', new RezoomoScraper());
-      this.scrapers.set('DoctorJobs', new DoctorJobsScraper());
+      // One browser for all of them, closed at the end of each run
+      this.browserPool = getBrowserPool();
+      const rezoomo = new RezoomoScraper();
+      const doctorJobs = new DoctorJobsScraper();
+      rezoomo.setBrowserPool(this.browserPool);
+      doctorJobs.setBrowserPool(this.browserPool);
+
+      this.register('Rezoomo', rezoomo);
+      this.register('DoctorJobs', doctorJobs);
       // IrishJobs.ie removed — site blocks all automated connections (ECONNREFUSED)
 
       console.log('Playwright scrapers registered successfully');
@@ -51,67 +367,445 @@ export class ScraperOrchestrator {
   }
 
   /**
-   * Run all registered scrapers
+   * Run all registered scrapers and save the results
    */
-  async scrapeAll(): Promise<OrchestrationResult> {
+  async scrapeAll(options: RunOptions = {}): Promise<OrchestrationResult> {
     const startTime = new Date();
+    const runId = crypto.randomUUID();
+    this.scheduler.resetStats();
+    const collected = await this.collectJobs(options);
+    return this.finishRun(runId, startTime, collected, this.unselectedSources(options.sources));
+  }
+
+  /**
+   * Check, save and log a run's collected jobs
+   */
+  private async finishRun(
+    runId: string,
+    startTime: Date,
+    collected: CollectedJobs,
+    unselected: Map<Job['source'], string>
+  ): Promise<OrchestrationResult> {
     const results: OrchestrationResult = {
-      total_jobs_scraped: 0,
+      run_id: runId,
+      status: collected.status,
+      deadline_reached: collected.deadline_reached,
+      total_jobs_scraped: collected.total_jobs_scraped,
       total_jobs_saved: 0,
-      duplicates_removed: 0,
-      scrapers_run: [],
-      errors: [],
+      duplicates_removed: collected.duplicates_removed,
+      scrapers_run: collected.scrapers_run,
+      errors: collected.errors,
+      anomalies: [],
+      host_stats: [],
+      job_specs: null,
       scrape_started_at: startTime.toISOString(),
       scrape_completed_at: '',
       duration_seconds: 0,
     };
 
-    const allJobs: ScrapedJob[] = [];
+    await this.checkHealth(collected.source_runs);
+    results.anomalies = collected.source_runs.flatMap(run => run.anomalies);
 
-    // Run each scraper sequentially (to be respectful to servers)
-    for (const [name, scraper] of this.scrapers.entries()) {
-      try {
-        console.log(`Running ${name} scraper...`);
-
-        // Per-scraper timeout of 120 seconds
-        const result: ScraperResult = await Promise.race([
-          scraper.scrape(),
-          new Promise<ScraperResult>((_, reject) =>
-            setTimeout(() => reject(new Error(`${name} scraper timed out after 120s`)), 120000)
-          ),
-        ]);
-
-        results.scrapers_run.push(name);
-        results.total_jobs_scraped += result.job_count;
-        allJobs.push(...result.jobs);
-
-        if (result.error) {
-          results.errors.push(`${name}: ${result.error}`);
-        }
+    let outcome: SaveOutcome | null = null;
+    let sources: SourceBreakdown[] | null = null;
 
-        console.log(`${name} scraper completed: ${result.job_count} jobs found`);
-      } catch (error) {
-        const errorMsg = `${name} scraper failed: ${(error as Error).message}`;
-        results.errors.push(errorMsg);
-        console.error(errorMsg);
+    // Replayed runs must never write fixture data over live jobs
+    if (this.fixtureStore?.isReplay) {
+      console.log(`Replay mode: skipping save of ${collected.jobs.length} jobs`);
+    } else {
+      outcome = await this.saveJobs(collected.jobs, this.skippedSources(collected, unselected));
+      results.total_jobs_saved = outcome.saved;
+      if (typeof window === 'undefined') {
+        results.job_specs = await this.ingestJobSpecs();
+        sources = await this.logRun(runId, collected.source_runs, outcome);
+        await this.logHospitalNames();
+
+        const webhookUrl = process.env.SCRAPER_ALERT_WEBHOOK_URL;
+        if (webhookUrl && results.anomalies.length > 0) {
+          await sendHealthAlert(webhookUrl, runId, results.anomalies);
+        }
       }
     }
 
-    // Deduplicate jobs
-    const uniqueJobs = this.deduplicateJobs(allJobs);
-    results.duplicates_removed = allJobs.length - uniqueJobs.length;
-
-    // Save to database/storage
-    const savedCount = await this.saveJobs(uniqueJobs);
-    results.total_jobs_saved = savedCount;
+    results.host_stats = this.scheduler.getStats();
 
     const endTime = new Date();
     results.scrape_completed_at = endTime.toISOString();
     results.duration_seconds = Math.round((endTime.getTime() - startTime.getTime()) / 1000);
 
+    // Sent once the result is final, so endpoints see the same run the caller does
+    if (sources && outcome && this.webhookStore) {
+      await dispatchWebhooks(this.webhookStore, runWebhookPayloads(results, sources, {
+        added: outcome.added.map(toWebhookJob),
+        deactivated: outcome.deactivated,
+      }), { deadline: Date.now() + WEBHOOK_BUDGET_MS });
+    }
+
     return results;
   }
 
+  /**
+   * Run scrapers and work out what saving their jobs would insert, update
+   * and deactivate, without writing anything
+   */
+  async previewRun(options: RunOptions = {}): Promise<RunPreview> {
+    this.scheduler.resetStats();
+    const collected = await this.collectJobs(options);
+    await this.checkHealth(collected.source_runs);
+
+    const skippedSources = this.skippedSources(collected, this.unselectedSources(options.sources));
+    const plan = await this.planSave(collected.jobs, skippedSources, { adoptLegacy: false });
+    return { collected, plan };
+  }
+
+  /**
+   * Sources whose stale jobs a run must leave alone, with the reason: one
+   * that looks broken, was cut short and didn't see all its listings, or
+   * shares its source with a scraper that didn't run
+   */
+  private skippedSources(collected: CollectedJobs, unselected: Map<Job['source'], string>): Map<Job['source'], string> {
+    const reasons = new Map<Job['source'], string[]>();
+    const add = (source: Job['source'], reason: string) => reasons.set(source, [...(reasons.get(source) || []), reason]);
+
+    for (const run of collected.source_runs) {
+      const source = this.mapSourcePlatform(run.platform);
+      if (run.status !== 'SUCCESS') add(source, `${run.scraper} run was ${run.status}`);
+      for (const anomaly of run.anomalies.filter(a => a.severity === 'critical')) {
+        add(source, `${run.scraper}: ${anomaly.message}`);
+      }
+    }
+    for (const [source, reason] of unselected) add(source, reason);
+
+    return new Map(Array.from(reasons, ([source, list]) => [source, list.join('; ')]));
+  }
+
+  /**
+   * Registered scrapers matching `sources` (case-insensitive), in registration order
+   */
+  private selectScrapers(sources?: string[]): [string, BaseScraper][] {
+    const entries = Array.from(this.scrapers.entries());
+    if (!sources || sources.length === 0) return entries;
+
+    const wanted = new Set(sources.map(source => source.toLowerCase()));
+    const unknown = sources.filter(source => !entries.some(([name]) => name.toLowerCase() === source.toLowerCase()));
+    if (unknown.length > 0) {
+      throw new Error(`Unknown scraper "${unknown.join('", "')}". Available: ${Array.from(this.scrapers.keys()).join(', ')}`);
+    }
+    return entries.filter(([name]) => wanted.has(name.toLowerCase()));
+  }
+
+  /** Sources with a registered scraper left out of the run, and which scrapers */
+  private unselectedSources(sources?: string[]): Map<Job['source'], string> {
+    const selected = new Set((sources || []).map(source => source.toLowerCase()));
+    const unselected = new Map<Job['source'], string[]>();
+    for (const [name, scraper] of this.scrapers) {
+      if (selected.size === 0 || selected.has(name.toLowerCase())) continue;
+      const source = this.mapSourcePlatform(scraper.platform);
+      unselected.set(source, [...(unselected.get(source) || []), name]);
+    }
+    return new Map(Array.from(unselected, ([source, names]) => [source, `${names.join(', ')} didn't run`]));
+  }
+
+  /**
+   * Run the registered scrapers (or those named in `options.sources`) and
+   * return the deduplicated jobs without saving.
+   * Combined with replay fixtures this runs the full pipeline offline.
+   *
+   * Scrapers on different hosts run concurrently; scrapers sharing a host run
+   * one after another, and the scheduler keeps each host's requests polite.
+   * At the deadline scrapers stop fetching and return what they have; any
+   * still running after a short grace period are given up on.
+   */
+  async collectJobs(options: RunOptions = {}): Promise<CollectedJobs> {
+    const deadline = Date.now() + (options.budgetMs ?? DEFAULT_RUN_BUDGET_MS);
+    const entries = this.selectScrapers(options.sources);
+    await this.prepareHospitalMatching();
+
+    const byHost = new Map<string, number[]>();
+    entries.forEach(([, scraper], index) => {
+      byHost.set(scraper.host, [...(byHost.get(scraper.host) || []), index]);
+    });
+
+    // Results are slotted by registration order so output doesn't depend on timing
+    const outcomes: { run: SourceRun; result: ScraperResult | null }[] = new Array(entries.length);
+    await Promise.all(Array.from(byHost.values()).map(async indexes => {
+      for (const index of indexes) {
+        const [name, scraper] = entries[index];
+        outcomes[index] = await this.runScraper(name, scraper, deadline);
+      }
+    }));
+    // Also ends any Playwright scraper given up on at the deadline
+    await this.browserPool?.close();
+
+    return this.combineOutcomes(outcomes, Date.now() >= deadline);
+  }
+
+  /**
+   * Merge the scrapers' results into one deduplicated set of jobs
+   */
+  private combineOutcomes(
+    outcomes: { run: SourceRun; result: ScraperResult | null }[],
+    deadlineReached: boolean
+  ): CollectedJobs {
+    const collected: CollectedJobs = {
+      status: 'SUCCESS',
+      deadline_reached: deadlineReached,
+      jobs: [],
+      total_jobs_scraped: 0,
+      duplicates_removed: 0,
+      scrapers_run: [],
+      errors: [],
+      source_runs: outcomes.map(o => o.run),
+    };
+
+    const allJobs: ScrapedJob[] = [];
+    for (const { run, result } of outcomes) {
+      if (run.error) collected.errors.push(`${run.scraper}: ${run.error}`);
+      if (!result) continue;
+      collected.scrapers_run.push(run.scraper);
+      collected.total_jobs_scraped += result.job_count;
+      allJobs.push(...result.jobs);
+    }
+
+    if (collected.source_runs.length > 0 && collected.source_runs.every(run => run.status === 'FAILURE')) {
+      collected.status = 'FAILURE';
+    } else if (collected.source_runs.some(run => run.status !== 'SUCCESS')) {
+      collected.status = 'PARTIAL';
+    }
+
+    // Deduplicate exact repeats, then merge the same posting across sources
+    collected.jobs = resolveEntities(this.deduplicateJobs(allJobs));
+    collected.duplicates_removed = allJobs.length - collected.jobs.length;
+
+    return collected;
+  }
+
+  /**
+   * Run one scraper against the run deadline. The result is null if the
+   * scraper threw or was still running when the grace period ran out.
+   */
+  private async runScraper(
+    name: string,
+    scraper: BaseScraper,
+    deadline: number
+  ): Promise<{ run: SourceRun; result: ScraperResult | null }> {
+    const run: SourceRun = {
+      scraper: name,
+      platform: scraper.platform,
+      status: 'SUCCESS',
+      started_at: new Date().toISOString(),
+      completed_at: '',
+      pages_fetched: 0,
+      jobs_found: 0,
+      error: null,
+      signals: null,
+      anomalies: [],
+      captures: [],
+      stored_captures: [],
+    };
+    scraper.resetStats();
+    scraper.setDeadline(deadline);
+    let result: ScraperResult | null = null;
+    let timer: ReturnType<typeof setTimeout> | undefined;
+
+    try {
+      console.log(`Running ${name} scraper...`);
+
+      result = await Promise.race([
+        scraper.scrape(),
+        new Promise<ScraperResult>((_, reject) => {
+          timer = setTimeout(
+            () => reject(new Error(`${name} scraper was still running at the run deadline`)),
+            Math.max(0, deadline - Date.now()) + DEADLINE_GRACE_MS
+          );
+        }),
+      ]);
+
+      run.jobs_found = result.job_count;
+      const skipped = scraper.getStats().skipped_pages;
+
+      // A deadline cut-off explains any fetch error that followed it
+      if (skipped > 0) {
+        run.error = `Stopped at the run deadline with ${skipped} page(s) unfetched`;
+        run.status = result.job_count > 0 ? 'PARTIAL' : 'FAILURE';
+      } else if (result.error) {
+        run.error = result.error;
+        run.status = result.job_count > 0 ? 'PARTIAL' : 'FAILURE';
+      }
+
+      console.log(`${name} scraper completed: ${result.job_count} jobs found`);
+    } catch (error) {
+      console.error(`${name} scraper failed: ${(error as Error).message}`);
+      run.status = 'FAILURE';
+      run.error = (error as Error).message;
+    } finally {
+      clearTimeout(timer);
+    }
+
+    run.completed_at = new Date().toISOString();
+    run.pages_fetched = scraper.getStats().pages_fetched;
+    run.signals = summarizeJobs(result?.jobs || [], scraper.getStats());
+    run.captures = scraper.takeCaptures();
+    return { run, result };
+  }
+
+  /**
+   * Work the queued run: resume the one in progress (or with `start`, begin
+   * one), run its tasks until the budget runs out, and save and log it once
+   * every task has finished. Safe to call from several places at once —
+   * tasks are leased, and only one invocation saves the run.
+   */
+  async workQueue(options: QueueOptions = {}): Promise<QueueWorkResult> {
+    const store = this.taskStore;
+    if (!store) throw new Error('Queued runs need Supabase — set SUPABASE_SERVICE_ROLE_KEY');
+    const deadline = Date.now() + (options.budgetMs ?? DEFAULT_RUN_BUDGET_MS);
+    const maxTasks = options.maxTasks ?? Infinity;
+    this.scheduler.resetStats();
+
+    let run = await store.activeRun();
+    if (run && options.start && Date.now() - new Date(run.created_at).getTime() > QUEUED_RUN_MAX_AGE_MS) {
+      console.warn(`Queued run ${run.id} is over 12 hours old — saving what it has before starting another`);
+      await store.failWaitingTasks(run.id, new Date(), 'Abandoned: the run was started over 12 hours ago');
+      await this.finishQueuedRun(store, run);
+      run = null;
+    }
+
+    if (options.start) {
+      run = await this.joinQueuedRun(store, run, options.sources);
+    } else if (!run) {
+      return { run_id: null, tasks_run: 0, progress: null, result: null };
+    }
+
+    await this.prepareHospitalMatching();
+    const tasksRun = await workTasks(store, run.id, this.scrapers, { deadline, maxTasks, captureStore: this.captureStore });
+    await this.browserPool?.close();
+    if (!this.fixtureStore?.isReplay) await this.logHospitalNames();
+
+    // Nothing left that this invocation can run — stop waiting on tasks for
+    // scrapers no runner has picked up, e.g. after the Playwright runner died
+    if (Date.now() < deadline && tasksRun < maxTasks) {
+      const before = new Date(Date.now() - TASK_MAX_WAIT_MS);
+      const abandoned = await store.failWaitingTasks(run.id, before, 'No runner picked the task up within an hour');
+      if (abandoned > 0) console.warn(`Gave up on ${abandoned} queued task(s) no runner picked up`);
+    }
+
+    const progress = summarizeProgress(run, await store.listTasks(run.id));
+    console.log(`Queued run ${run.id}: ${progress.done + progress.failed} of ${progress.total} tasks finished`);
+    if (progress.pending + progress.running > 0) {
+      return { run_id: run.id, tasks_run: tasksRun, progress, result: null };
+    }
+
+    const result = await this.finishQueuedRun(store, run);
+    return {
+      run_id: run.id,
+      tasks_run: tasksRun,
+      progress: { ...progress, run: { ...run, status: 'COMPLETE', completed_at: new Date().toISOString() } },
+      result,
+    };
+  }
+
+  /** Whether full runs can go through the task queue */
+  get queueEnabled(): boolean {
+    return this.taskStore !== null;
+  }
+
+  /**
+   * Task counts for the latest queued run; null if there hasn't been one
+   */
+  async queueProgress(): Promise<QueueProgress | null> {
+    if (!this.taskStore) return null;
+    const run = await this.taskStore.latestRun();
+    return run ? summarizeProgress(run, await this.taskStore.listTasks(run.id)) : null;
+  }
+
+  /**
+   * Start a queued run with the selected scrapers' first tasks, or add the
+   * scrapers the run in progress lacks — e.g. the Playwright runner joining
+   * the cron's run. Scrapers that already have tasks are left as they are.
+   */
+  private async joinQueuedRun(store: TaskStore, run: ScrapeRun | null, sources?: string[]): Promise<ScrapeRun> {
+    const selected = this.selectScrapers(sources);
+    const active = run ?? await store.createRun(selected.map(([name]) => name));
+
+    const queued = new Set((await store.listTasks(active.id)).map(task => task.scraper));
+    const joining = selected.filter(([name]) => !queued.has(name));
+    if (joining.length === 0) return active;
+
+    const names = joining.map(([name]) => name);
+    const newScrapers = names.filter(name => !active.scrapers.includes(name));
+    if (newScrapers.length > 0) {
+      await store.addScrapers(active.id, newScrapers);
+      active.scrapers = [...active.scrapers, ...newScrapers];
+    }
+    await store.addTasks(active.id, joining.flatMap(([name, scraper]) =>
+      scraper.planTasks().map(spec => ({ ...spec, scraper: name, platform: scraper.platform }))
+    ));
+    console.log(`Queued run ${active.id}: planned tasks for ${names.join(', ')}`);
+    return active;
+  }
+
+  /**
+   * Save and log a queued run from its checkpointed tasks. Returns null if
+   * another invocation got to it first.
+   */
+  private async finishQueuedRun(store: TaskStore, run: ScrapeRun): Promise<OrchestrationResult | null> {
+    if (!(await store.completeRun(run.id))) return null;
+
+    const tasks = await store.loadResults(run.id);
+    const outcomes = run.scrapers
+      .map(name => tasks.filter(task => task.scraper === name))
+      .filter(own => own.length > 0)
+      .map(own => this.outcomeFromTasks(own));
+
+    console.log(`Saving queued run ${run.id} (${tasks.length} tasks)`);
+    return this.finishRun(run.id, new Date(run.created_at), this.combineOutcomes(outcomes, false), this.unselectedSources(run.scrapers));
+  }
+
+  /**
+   * One scraper's share of a queued run, put back together from its tasks
+   * as if it had run in one go. The result is null if no task succeeded.
+   */
+  private outcomeFromTasks(tasks: QueuedTask[]): { run: SourceRun; result: ScraperResult | null } {
+    const jobs = tasks.flatMap(task => task.jobs);
+    const failed = tasks.filter(task => task.status === 'FAILED');
+    const stats: ScraperStats = { pages_fetched: 0, listing_pages: 0, fallback_pages: 0, skipped_pages: 0 };
+    for (const task of tasks) {
+      if (!task.stats) continue;
+      stats.pages_fetched += task.stats.pages_fetched;
+      stats.listing_pages += task.stats.listing_pages;
+      stats.fallback_pages += task.stats.fallback_pages;
+    }
+
+    const errors = Array.from(new Set(tasks.map(task => task.error).filter((error): error is string => !!error)));
+    let error: string | null = null;
+    if (errors.length > 0) {
+      error = errors.slice(0, 3).join('; ') + (errors.length > 3 ? ` (and ${errors.length - 3} more)` : '');
+      if (failed.length > 0) error = `${failed.length} of ${tasks.length} tasks failed: ${error}`;
+    }
+
+    const completed = tasks.map(task => task.completed_at).filter((at): at is string => !!at).sort();
+    const run: SourceRun = {
+      scraper: tasks[0].scraper,
+      platform: tasks[0].platform,
+      status: !error ? 'SUCCESS' : jobs.length > 0 ? 'PARTIAL' : 'FAILURE',
+      started_at: tasks[0].created_at,
+      completed_at: completed[completed.length - 1] || new Date().toISOString(),
+      pages_fetched: stats.pages_fetched,
+      jobs_found: jobs.length,
+      error,
+      signals: summarizeJobs(jobs, stats),
+      anomalies: [],
+      captures: [],
+      stored_captures: tasks.flatMap(task => task.captures || []),
+    };
+
+    if (failed.length === tasks.length) return { run, result: null };
+    return {
+      run,
+      result: { jobs, success: !error, error: error ?? undefined, scraped_at: run.completed_at, job_count: jobs.length },
+    };
+  }
+
   /**
    * Run a specific scraper by name
    */
@@ -121,7 +815,45 @@ export class ScraperOrchestrator {
       throw new Error(`Scraper "${scraperName}" not found. Available: ${Array.from(this.scrapers.keys()).join(', ')}`);
     }
 
-    return await scraper.scrape();
+    try {
+      return await scraper.scrape();
+    } finally {
+      await this.browserPool?.close();
+    }
+  }
+
+  /**
+   * Flag anomalous source runs against each source's recent scraping_logs.
+   * Without a database (replay, browser) only the history-free checks run.
+   */
+  private async checkHealth(sourceRuns: SourceRun[]): Promise<void> {
+    let history: Pick<ScrapingLog, 'source' | 'status' | 'jobs_found'>[] = [];
+
+    if (typeof window === 'undefined' && !this.fixtureStore?.isReplay) {
+      try {
+        const { data, error } = await supabaseAdmin
+          .from('scraping_logs')
+          .select('source, status, jobs_found')
+          .in('source', sourceRuns.map(run => run.scraper))
+          .order('started_at', { ascending: false })
+          .limit(sourceRuns.length * 10);
+
+        if (error) throw error;
+        history = data || [];
+      } catch (error) {
+        console.error('Error loading scrape history for health checks:', (error as Error).message);
+      }
+    }
+
+    for (const run of sourceRuns) {
+      if (!run.signals) continue;
+      const sourceHistory = history.filter(h => h.source === run.scraper).slice(0, 10);
+      run.anomalies = detectAnomalies(run.scraper, run.signals, sourceHistory);
+
+      for (const anomaly of run.anomalies) {
+        console.warn(`Health ${anomaly.severity}: ${anomaly.message}`);
+      }
+    }
   }
 
   /**
@@ -132,14 +864,7 @@ export class ScraperOrchestrator {
     const unique: ScrapedJob[] = [];
 
     for (const job of jobs) {
-      // Normalize: strip ref codes, lowercase, trim whitespace
-      const normalizedTitle = job.title
-        .toLowerCase()
-        .replace(/[A-Z]{2}\d{2}[A-Z]{2}\d{2}/gi, '') // Remove ref codes like MW26KR10
-        .replace(/ref:?\s*\S+/gi, '')                  // Remove "ref: XYZ"
-        .replace(/\s+/g, ' ')
-        .trim();
-
+      const normalizedTitle = normalizeTitle(job.title);
       const key = `${normalizedTitle}|${job.hospital_name.toLowerCase()}|${job.application_deadline.substring(0, 10)}`;
 
       if (!seen.has(key)) {
@@ -154,16 +879,19 @@ export class ScraperOrchestrator {
   /**
    * Save scraped jobs to storage
    */
-  private async saveJobs(jobs: ScrapedJob[]): Promise<number> {
+  private async saveJobs(
+    jobs: ScrapedJob[],
+    skippedSources: Map<Job['source'], string> = new Map()
+  ): Promise<SaveOutcome> {
     try {
       if (typeof window !== 'undefined') {
-        return this.saveToLocalStorage(jobs);
+        return { ...emptySaveOutcome(), saved: this.saveToLocalStorage(jobs) };
       } else {
-        return this.saveToSupabase(jobs);
+        return this.saveToSupabase(jobs, skippedSources);
       }
     } catch (error) {
       console.error('Error saving jobs:', error);
-      return 0;
+      return { ...emptySaveOutcome(), error: (error as Error).message };
     }
   }
 
@@ -176,7 +904,7 @@ export class ScraperOrchestrator {
     const existingData = localStorage.getItem(STORAGE_KEY);
     const existingJobs: Job[] = existingData ? JSON.parse(existingData) : [];
 
-    const convertedJobs: Job[] = jobs.map((scrapedJob, index) => ({
+    const convertedJobs: Job[] = jobs.map((scrapedJob, index) => withTermFallbacks({
       id: `scraped_${Date.now()}_${index}`,
       title: scrapedJob.title,
       grade: scrapedJob.grade,
@@ -185,12 +913,19 @@ export class ScraperOrchestrator {
       hospital_id: scrapedJob.hospital_name.toLowerCase().replace(/[^a-z0-9]/g, '_'),
       hospital_name: scrapedJob.hospital_name,
       hospital_group: scrapedJob.hospital_group,
+      health_region: scrapedJob.health_region ?? null,
       county: scrapedJob.county,
-      start_date: this.calculateStartDate(scrapedJob.application_deadline),
-      duration_months: 6,
+      start_date: scrapedJob.start_date,
+      duration_months: scrapedJob.duration_months,
       rotational_detail: scrapedJob.rotational_detail,
-      contract_type: scrapedJob.scheme_type.includes('TRAINING') ? 'Training' : 'Specified Purpose',
+      contract_type: scrapedJob.contract_type,
+      salary_range: scrapedJob.salary_range,
+      hours_per_week: scrapedJob.hours_per_week,
+      on_call: scrapedJob.on_call,
+      on_call_frequency: scrapedJob.on_call_frequency,
       application_deadline: scrapedJob.application_deadline,
+      deadline_precision: scrapedJob.deadline_precision,
+      reference_number: scrapedJob.reference_number,
       application_url: scrapedJob.application_url,
       job_spec_pdf_url: scrapedJob.job_spec_pdf_url,
       informal_enquiries_email: scrapedJob.informal_enquiries_email,
@@ -199,6 +934,9 @@ export class ScraperOrchestrator {
       medical_manpower_email: scrapedJob.medical_manpower_email,
       clinical_lead: scrapedJob.clinical_lead,
       historical_centile_tier: scrapedJob.historical_centile_tier,
+      listings: scrapedJob.listings,
+      field_confidence: scrapedJob.field_confidence,
+      needs_review: needsReview(scrapedJob.field_confidence),
       source: this.mapSourcePlatform(scrapedJob.source_platform),
       external_id: `${scrapedJob.source_platform}_${scrapedJob.title.substring(0, 20)}`,
       is_active: true,
@@ -224,18 +962,6 @@ export class ScraperOrchestrator {
     return convertedJobs.length;
   }
 
-  private calculateStartDate(deadline: string): string {
-    const deadlineDate = new Date(deadline);
-    const year = deadlineDate.getFullYear();
-    const month = deadlineDate.getMonth();
-
-    if (month < 6) {
-      return `${year}-07-13`;
-    } else {
-      return `${year + 1}-01-13`;
-    }
-  }
-
   private mapSourcePlatform(platform: ScrapedJob['source_platform']): Job['source'] {
     if (platform === 'HSE_NRS' || platform === 'ABOUT_HSE') return 'NRS';
     if (platform === 'REZOOMO') return 'REZOOMO';
@@ -246,41 +972,31 @@ export class ScraperOrchestrator {
   /**
    * Save to Supabase database
    */
-  private async saveToSupabase(jobs: ScrapedJob[]): Promise<number> {
-    try {
-      const convertedJobs: Partial<Job>[] = jobs.map((scrapedJob) => ({
-        title: scrapedJob.title,
-        grade: scrapedJob.grade,
-        specialty: scrapedJob.specialty,
-        scheme_type: scrapedJob.scheme_type,
-        hospital_id: scrapedJob.hospital_name.toLowerCase().replace(/[^a-z0-9]/g, '_'),
-        hospital_name: scrapedJob.hospital_name,
-        hospital_group: scrapedJob.hospital_group,
-        county: scrapedJob.county,
-        start_date: this.calculateStartDate(scrapedJob.application_deadline),
-        duration_months: 6,
-        rotational_detail: scrapedJob.rotational_detail,
-        contract_type: scrapedJob.scheme_type.includes('TRAINING') ? 'Training' : 'Specified Purpose',
-        application_deadline: scrapedJob.application_deadline,
-        application_url: scrapedJob.application_url,
-        job_spec_pdf_url: scrapedJob.job_spec_pdf_url,
-        informal_enquiries_email: scrapedJob.informal_enquiries_email,
-        informal_enquiries_name: scrapedJob.informal_enquiries_name,
-        informal_contact_email: scrapedJob.informal_contact_email,
-        medical_manpower_email: scrapedJob.medical_manpower_email,
-        clinical_lead: scrapedJob.clinical_lead,
-        historical_centile_tier: scrapedJob.historical_centile_tier,
-        source: this.mapSourcePlatform(scrapedJob.source_platform),
-        external_id: `${scrapedJob.source_platform}_${scrapedJob.title.substring(0, 20)}_${scrapedJob.application_deadline.substring(0, 10)}`,
-        is_active: true,
-        last_scraped_at: scrapedJob.scraped_at,
-      }));
+  private async saveToSupabase(
+    jobs: ScrapedJob[],
+    skippedSources: Map<Job['source'], string>
+  ): Promise<SaveOutcome> {
+    const outcome = emptySaveOutcome();
 
+    try {
+      const plan = await this.planSave(jobs, skippedSources, { adoptLegacy: true });
+      const convertedJobs = plan.jobs;
       console.log(`Saving ${convertedJobs.length} jobs to Supabase...`);
 
+      // Field changes land in job_revisions
+      const pendingRevisions: Omit<JobRevision, 'id' | 'job_id' | 'created_at'>[] = plan.updates.map(
+        ({ job, existing, changes }) => ({
+          job_key: job.job_key!,
+          revision_type: existing.is_active === false ? 'REOPENED' : 'UPDATED',
+          changes,
+          scraped_at: job.last_scraped_at!,
+        })
+      );
+
       // Upsert in batches of 50 to avoid payload limits
       let totalSaved = 0;
       const batchSize = 50;
+      const savedIds = new Map<string, string>();
 
       for (let i = 0; i < convertedJobs.length; i += batchSize) {
         const batch = convertedJobs.slice(i, i + batchSize);
@@ -288,107 +1004,584 @@ export class ScraperOrchestrator {
         const { data, error } = await supabaseAdmin
           .from('jobs')
           .upsert(batch, {
-            onConflict: 'title,hospital_name,application_deadline',
+            onConflict: 'job_key',
             ignoreDuplicates: false,
           })
-          .select();
+          .select('id, job_key');
 
         if (error) {
           console.error(`Error upserting batch ${i / batchSize + 1}:`, error);
           // Continue with other batches
         } else {
           totalSaved += data?.length || 0;
+          for (const row of data || []) {
+            savedIds.set(row.job_key, row.id);
+          }
         }
       }
 
       console.log(`Successfully saved ${totalSaved} jobs to Supabase`);
+      outcome.saved = totalSaved;
 
-      // Deactivate stale jobs: any job from these sources that wasn't in this scrape
-      const scrapedSources = [...new Set(jobs.map(j => this.mapSourcePlatform(j.source_platform)))];
-      const scrapedTitles = new Set(jobs.map(j => j.title.toLowerCase()));
+      // New vs updated per platform (merged jobs count towards their primary listing)
+      const insertedKeys = new Set(plan.inserts.map(job => job.job_key!));
+      for (const scrapedJob of jobs) {
+        const key = computeJobKey(scrapedJob);
+        if (!savedIds.has(key)) continue;
+        const counts = insertedKeys.has(key) ? outcome.newByPlatform : outcome.updatedByPlatform;
+        counts.set(scrapedJob.source_platform, (counts.get(scrapedJob.source_platform) || 0) + 1);
+      }
 
-      for (const source of scrapedSources) {
-        const { data: existingJobs } = await supabaseAdmin
-          .from('jobs')
-          .select('id, title')
-          .eq('source', source)
-          .eq('is_active', true);
-
-        if (existingJobs) {
-          const staleIds = existingJobs
-            .filter(j => !scrapedTitles.has(j.title.toLowerCase()))
-            .map(j => j.id);
-
-          if (staleIds.length > 0) {
-            const { error: deactivateError } = await supabaseAdmin
-              .from('jobs')
-              .update({ is_active: false, updated_at: new Date().toISOString() })
-              .in('id', staleIds);
-
-            if (deactivateError) {
-              console.error(`Error deactivating stale ${source} jobs:`, deactivateError);
-            } else {
-              console.log(`Deactivated ${staleIds.length} stale ${source} jobs`);
-            }
+      outcome.added = plan.inserts
+        .filter(job => savedIds.has(job.job_key!))
+        .map(job => ({ ...job, id: savedIds.get(job.job_key!) }));
+
+      await this.saveRevisions(pendingRevisions, savedIds);
+
+      for (const stale of plan.stale) {
+        if (stale.skipped) {
+          if (stale.missing.length > 0) {
+            console.warn(`Left ${stale.missing.length} unseen ${stale.source} jobs active: ${stale.skipped}`);
           }
+          continue;
         }
+        await this.recordMissedRuns(stale.source, stale.missing);
+        const deactivated = await this.deactivateStaleJobs(stale.source, stale.deactivate);
+        if (deactivated.length > 0) outcome.deactivatedBySource.set(stale.source, deactivated.length);
+        outcome.deactivated.push(...deactivated);
       }
 
-      // Log the scraping operation
-      await this.logScrapingOperation(
-        jobs.length,
-        totalSaved,
-        'SUCCESS',
-        null
-      );
-
-      return totalSaved;
+      return outcome;
     } catch (error) {
       console.error('Failed to save to Supabase:', error);
-
-      await this.logScrapingOperation(
-        jobs.length,
-        0,
-        'FAILURE',
-        (error as Error).message
-      );
+      outcome.error = (error as Error).message;
 
       if (typeof window !== 'undefined') {
         console.log('Falling back to localStorage');
-        return this.saveToLocalStorage(jobs);
+        outcome.saved = this.saveToLocalStorage(jobs);
       }
-      return 0;
+      return outcome;
     }
   }
 
-  private async logScrapingOperation(
-    jobsFound: number,
-    jobsSaved: number,
-    status: 'SUCCESS' | 'FAILURE' | 'PARTIAL',
-    errorMessage: string | null
-  ) {
+  /**
+   * Count another missed run for jobs still within the grace period
+   */
+  private async recordMissedRuns(source: Job['source'], missing: StaleJob[]): Promise<void> {
+    for (const [missedRuns, ids] of groupByMissedRuns(missing)) {
+      const { error } = await supabaseAdmin
+        .from('jobs')
+        .update({ missed_runs: missedRuns })
+        .in('id', ids);
+
+      if (error) console.error(`Error recording missed runs for ${source} jobs:`, error);
+    }
+    if (missing.length > 0) {
+      console.log(`${missing.length} ${source} jobs not seen this run, kept active for now`);
+    }
+  }
+
+  /**
+   * Deactivate jobs missing for the whole grace period, noting why on each.
+   * Returns the jobs that were deactivated.
+   */
+  private async deactivateStaleJobs(source: Job['source'], stale: StaleJob[]): Promise<DeactivatedJob[]> {
+    const now = new Date().toISOString();
+    const deactivated: DeactivatedJob[] = [];
+    for (const [missedRuns, ids] of groupByMissedRuns(stale)) {
+      const reason = deactivationReason(source, missedRuns);
+      const { error } = await supabaseAdmin
+        .from('jobs')
+        .update({
+          is_active: false,
+          missed_runs: missedRuns,
+          deactivated_at: now,
+          deactivation_reason: reason,
+          updated_at: now,
+        })
+        .in('id', ids);
+
+      if (error) {
+        console.error(`Error deactivating stale ${source} jobs:`, error);
+      } else {
+        deactivated.push(...stale.filter(job => job.missed_runs === missedRuns).map(job => ({ ...job, source, reason })));
+      }
+    }
+
+    if (deactivated.length > 0) console.log(`Deactivated ${deactivated.length} stale ${source} jobs`);
+    return deactivated;
+  }
+
+  /**
+   * Work out the rows a save would upsert and what it would do to stored
+   * jobs the run didn't see. Only reads, except that with `adoptLegacy` rows
+   * saved before job keys existed are given their key.
+   */
+  async planSave(
+    jobs: ScrapedJob[],
+    skippedSources: Map<Job['source'], string> = new Map(),
+    { adoptLegacy }: { adoptLegacy: boolean } = { adoptLegacy: false }
+  ): Promise<SavePlan> {
+    const allConverted: Partial<Job>[] = jobs.map((scrapedJob) => withTermFallbacks({
+      title: scrapedJob.title,
+      grade: scrapedJob.grade,
+      specialty: scrapedJob.specialty,
+      scheme_type: scrapedJob.scheme_type,
+      hospital_id: scrapedJob.hospital_name.toLowerCase().replace(/[^a-z0-9]/g, '_'),
+      hospital_name: scrapedJob.hospital_name,
+      hospital_group: scrapedJob.hospital_group,
+      health_region: scrapedJob.health_region ?? null,
+      county: scrapedJob.county,
+      start_date: scrapedJob.start_date,
+      duration_months: scrapedJob.duration_months,
+      rotational_detail: scrapedJob.rotational_detail,
+      contract_type: scrapedJob.contract_type,
+      salary_range: scrapedJob.salary_range,
+      hours_per_week: scrapedJob.hours_per_week,
+      on_call: scrapedJob.on_call,
+      on_call_frequency: scrapedJob.on_call_frequency,
+      application_deadline: scrapedJob.application_deadline,
+      deadline_precision: scrapedJob.deadline_precision,
+      reference_number: scrapedJob.reference_number,
+      application_url: scrapedJob.application_url,
+      job_spec_pdf_url: scrapedJob.job_spec_pdf_url,
+      informal_enquiries_email: scrapedJob.informal_enquiries_email,
+      informal_enquiries_name: scrapedJob.informal_enquiries_name,
+      informal_contact_email: scrapedJob.informal_contact_email,
+      medical_manpower_email: scrapedJob.medical_manpower_email,
+      clinical_lead: scrapedJob.clinical_lead,
+      historical_centile_tier: scrapedJob.historical_centile_tier,
+      listings: scrapedJob.listings,
+      field_confidence: scrapedJob.field_confidence,
+      needs_review: needsReview(scrapedJob.field_confidence),
+      source: this.mapSourcePlatform(scrapedJob.source_platform),
+      external_id: `${scrapedJob.source_platform}_${scrapedJob.title.substring(0, 20)}_${scrapedJob.application_deadline.substring(0, 10)}`,
+      job_key: computeJobKey(scrapedJob),
+      is_active: true,
+      last_scraped_at: scrapedJob.scraped_at,
+      missed_runs: 0,
+      deactivated_at: null,
+      deactivation_reason: null,
+    }));
+
+    // Two postings can't share a key in one upsert — keep the first
+    const seenKeys = new Set<string>();
+    const convertedJobs = allConverted.filter(job => {
+      if (seenKeys.has(job.job_key!)) return false;
+      seenKeys.add(job.job_key!);
+      return true;
+    });
+
+    // Diff against the stored rows so changes can be recorded as revisions
+    const existingByKey = await this.loadExistingJobs(convertedJobs, adoptLegacy);
+    const overridesByJobId = await this.loadActiveOverrides(existingByKey);
+    const specsByJobId = await this.loadJobSpecs(existingByKey);
+    const plan: SavePlan = { jobs: convertedJobs, inserts: [], updates: [], unchanged: 0, stale: [] };
+
+    // Spec PDFs fill gaps in the listing; admin overrides win over both
+    for (let i = 0; i < convertedJobs.length; i++) {
+      const existing = existingByKey.get(convertedJobs[i].job_key!);
+      if (!existing) continue;
+      const spec = specsByJobId.get(existing.id!);
+      if (spec && spec.pdf_url === convertedJobs[i].job_spec_pdf_url) {
+        Object.assign(convertedJobs[i], fillFromSpec(convertedJobs[i], spec.extracted));
+      }
+      // An estimate is counted from the scrape date, so re-estimating would
+      // push the deadline back every run; keep whatever the row already has
+      if (convertedJobs[i].deadline_precision === 'ESTIMATED' && existing.application_deadline) {
+        convertedJobs[i].application_deadline = existing.application_deadline;
+        convertedJobs[i].deadline_precision = existing.deadline_precision ?? 'ESTIMATED';
+        convertedJobs[i].external_id = existing.external_id ?? convertedJobs[i].external_id;
+      }
+      convertedJobs[i] = applyOverrides(convertedJobs[i], overridesByJobId.get(existing.id!) || [], existing);
+    }
+
+    for (const job of convertedJobs) {
+      const existing = existingByKey.get(job.job_key!);
+      if (!existing) {
+        plan.inserts.push(job);
+        continue;
+      }
+
+      const changes = diffJobFields(existing, job);
+      if (changes.length === 0) {
+        plan.unchanged++;
+      } else {
+        plan.updates.push({ job, existing, changes });
+      }
+    }
+
+    // Stale jobs: active jobs from these sources that weren't in this scrape.
+    // Matched on job_key (or the legacy row it was matched to), never on the
+    // title, so a retitled post isn't mistaken for a vanished one.
+    const scrapedSources = [...new Set(jobs.map(j => this.mapSourcePlatform(j.source_platform)))];
+    const seen = {
+      keys: new Set(convertedJobs.map(j => j.job_key!)),
+      ids: new Set(Array.from(existingByKey.values()).map(j => j.id!)),
+    };
+    const scrapedPlatforms = new Set(Array.from(this.scrapers.values(), scraper => scraper.platform));
+
+    for (const source of scrapedSources) {
+      const { data: activeJobs, error } = await supabaseAdmin
+        .from('jobs')
+        .select('id, title, job_key, missed_runs')
+        .eq('source', source)
+        .eq('is_active', true);
+
+      if (error) {
+        console.error(`Error loading active ${source} jobs:`, error);
+        continue;
+      }
+
+      const rows = onlyScrapedPlatforms((activeJobs || []) as ActiveJobRow[], scrapedPlatforms);
+      plan.stale.push(classifyStaleJobs(source, rows, seen, skippedSources.get(source) ?? null));
+    }
+
+    return plan;
+  }
+
+  /**
+   * Load the stored rows for a set of job keys, for revision diffing.
+   * Rows stored under another listing's key of a merged posting, and rows
+   * saved before job keys existed (matched by title + hospital), are with
+   * `adopt` given the new key so their history continues under it instead
+   * of duplicating.
+   */
+  private async loadExistingJobs(jobs: Partial<Job>[], adopt: boolean): Promise<Map<string, Partial<Job>>> {
+    const existingByKey = new Map<string, Partial<Job>>();
+    const columns = ['id', 'job_key', 'external_id', 'deadline_precision', 'field_confidence', ...TRACKED_FIELDS].join(', ');
+    const batchSize = 100;
+
+    for (let i = 0; i < jobs.length; i += batchSize) {
+      const keys = jobs.slice(i, i + batchSize).map(j => j.job_key!);
+      const { data, error } = await supabaseAdmin
+        .from('jobs')
+        .select(columns)
+        .in('job_key', keys);
+
+      if (error) {
+        console.error('Error loading existing jobs for revision diff:', error);
+        continue;
+      }
+      for (const row of (data || []) as unknown as Partial<Job>[]) {
+        existingByKey.set(row.job_key!, row);
+      }
+    }
+
+    await this.matchListingKeys(jobs.filter(j => !existingByKey.has(j.job_key!)), existingByKey, columns, adopt);
+
+    const unmatched = jobs.filter(j => !existingByKey.has(j.job_key!));
+    if (unmatched.length === 0) return existingByKey;
+
+    // Only the sources being saved, so the lookup doesn't read the whole table
+    const { data: legacyRows, error: legacyError } = await supabaseAdmin
+      .from('jobs')
+      .select(columns)
+      .in('source', [...new Set(unmatched.map(j => j.source!))])
+      .is('job_key', null);
+
+    if (legacyError) {
+      console.error('Error loading jobs without a job key:', legacyError);
+      return existingByKey;
+    }
+
+    const legacyKey = (job: Partial<Job>) =>
+      `${job.title!.toLowerCase()}|${job.hospital_name!.toLowerCase()}`;
+    const legacyByTitle = new Map<string, Partial<Job>>();
+    for (const row of (legacyRows || []) as unknown as Partial<Job>[]) {
+      legacyByTitle.set(legacyKey(row), row);
+    }
+
+    for (const job of unmatched) {
+      const legacy = legacyByTitle.get(legacyKey(job));
+      if (legacy && await this.adoptRow(job, legacy, adopt, existingByKey)) {
+        legacyByTitle.delete(legacyKey(legacy));
+      }
+    }
+
+    return existingByKey;
+  }
+
+  /**
+   * A merged posting is keyed by its primary listing, so it can change key
+   * when a listing from a more official platform appears. Match it to a row
+   * stored under the key of any of its listings.
+   */
+  private async matchListingKeys(
+    jobs: Partial<Job>[],
+    existingByKey: Map<string, Partial<Job>>,
+    columns: string,
+    adopt: boolean
+  ): Promise<void> {
+    const jobsByListingKey = new Map<string, Partial<Job>>();
+    for (const job of jobs) {
+      for (const listing of job.listings || []) {
+        const key = computeJobKey({
+          title: listing.title,
+          hospital_name: job.hospital_name!,
+          source_url: listing.url,
+          source_platform: listing.platform,
+        });
+        if (key !== job.job_key) jobsByListingKey.set(key, job);
+      }
+    }
+
+    const keys = [...jobsByListingKey.keys()];
+    const batchSize = 100;
+    for (let i = 0; i < keys.length; i += batchSize) {
+      const { data, error } = await supabaseAdmin
+        .from('jobs')
+        .select(columns)
+        .in('job_key', keys.slice(i, i + batchSize));
+
+      if (error) {
+        console.error('Error loading jobs stored under a listing key:', error);
+        continue;
+      }
+      for (const row of (data || []) as unknown as Partial<Job>[]) {
+        const job = jobsByListingKey.get(row.job_key!)!;
+        if (!existingByKey.has(job.job_key!)) await this.adoptRow(job, row, adopt, existingByKey);
+      }
+    }
+  }
+
+  /**
+   * Take a stored row as the existing row of a job with a different key,
+   * with `adopt` moving the row to the job's key. False if that failed.
+   */
+  private async adoptRow(
+    job: Partial<Job>,
+    row: Partial<Job>,
+    adopt: boolean,
+    existingByKey: Map<string, Partial<Job>>
+  ): Promise<boolean> {
+    if (!adopt) {
+      existingByKey.set(job.job_key!, row);
+      return true;
+    }
+
+    const { error } = await supabaseAdmin
+      .from('jobs')
+      .update({ job_key: job.job_key })
+      .eq('id', row.id!);
+
+    if (error) {
+      console.error(`Error assigning job key to ${row.id}:`, error);
+      return false;
+    }
+    existingByKey.set(job.job_key!, { ...row, job_key: job.job_key });
+    return true;
+  }
+
+  /**
+   * Active admin overrides for the stored rows, by job id
+   */
+  private async loadActiveOverrides(
+    existingByKey: Map<string, Partial<Job>>
+  ): Promise<Map<string, Pick<JobOverride, 'field' | 'value'>[]>> {
+    const byJobId = new Map<string, Pick<JobOverride, 'field' | 'value'>[]>();
+    const ids = Array.from(existingByKey.values()).map(job => job.id!);
+    const batchSize = 100;
+
+    for (let i = 0; i < ids.length; i += batchSize) {
+      const { data, error } = await supabaseAdmin
+        .from('job_overrides')
+        .select('job_id, field, value')
+        .in('job_id', ids.slice(i, i + batchSize))
+        .is('reverted_at', null);
+
+      if (error) {
+        console.error('Error loading job overrides:', error);
+        continue;
+      }
+      for (const row of (data || []) as Pick<JobOverride, 'job_id' | 'field' | 'value'>[]) {
+        const list = byJobId.get(row.job_id) || [];
+        list.push({ field: row.field, value: row.value });
+        byJobId.set(row.job_id, list);
+      }
+    }
+
+    return byJobId;
+  }
+
+  /**
+   * Parsed spec PDFs for the stored rows, by job id
+   */
+  private async loadJobSpecs(existingByKey: Map<string, Partial<Job>>): Promise<Map<string, JobSpecRecord>> {
+    if (!this.jobSpecStore) return new Map();
+    return this.jobSpecStore.load(Array.from(existingByKey.values()).map(job => job.id!));
+  }
+
+  /**
+   * Read new or changed spec PDFs for active jobs and fill in what their
+   * listings left out. Unchanged PDFs are only re-downloaded weekly.
+   */
+  private async ingestJobSpecs(): Promise<JobSpecSummary | null> {
+    if (!this.jobSpecStore) return null;
+
+    try {
+      const { data, error } = await supabaseAdmin
+        .from('jobs')
+        .select(JOB_SPEC_TARGET_COLUMNS.join(', '))
+        .eq('is_active', true)
+        .not('job_spec_pdf_url', 'is', null);
+
+      if (error) {
+        console.error('Error loading jobs for spec ingestion:', error);
+        return null;
+      }
+
+      const ingester = new JobSpecIngester(this.jobSpecStore, this.scheduler, this.specExtractor);
+      const { summary, updates } = await ingester.ingest((data || []) as unknown as JobSpecTarget[], {
+        deadline: Date.now() + JOB_SPEC_BUDGET_MS,
+      });
+
+      for (const [jobId, fields] of updates) {
+        const { error: updateError } = await supabaseAdmin
+          .from('jobs')
+          .update({ ...fields, updated_at: new Date().toISOString() })
+          .eq('id', jobId);
+
+        if (updateError) {
+          console.error(`Error applying job spec to ${jobId}:`, updateError);
+        }
+      }
+
+      console.log(
+        `Job specs: ${summary.parsed} parsed, ${summary.unchanged} unchanged, ` +
+        `${summary.deferred} deferred, ${summary.jobs_updated} jobs filled in`
+      );
+      return summary;
+    } catch (error) {
+      console.error('Job spec ingestion failed:', (error as Error).message);
+      return null;
+    }
+  }
+
+  /**
+   * Record field-level revisions for jobs that changed since the last scrape
+   */
+  private async saveRevisions(
+    revisions: Omit<JobRevision, 'id' | 'job_id' | 'created_at'>[],
+    savedIds: Map<string, string>
+  ): Promise<void> {
+    const rows = revisions
+      .filter(rev => savedIds.has(rev.job_key))
+      .map(rev => ({ ...rev, job_id: savedIds.get(rev.job_key)! }));
+
+    if (rows.length === 0) return;
+
+    const { error } = await supabaseAdmin.from('job_revisions').insert(rows);
+    if (error) {
+      console.error('Error saving job revisions:', error);
+    } else {
+      console.log(`Recorded ${rows.length} job revisions`);
+    }
+  }
+
+  /**
+   * Write one scraping_logs row per scraper, grouped under the run id.
+   * Returns the rows' per-source breakdown.
+   */
+  private async logRun(runId: string, sourceRuns: SourceRun[], outcome: SaveOutcome): Promise<SourceBreakdown[]> {
+    // Several platforms can share a Job source (e.g. DIRECT_HOSPITAL) — credit
+    // deactivations to the first scraper for that source so totals add up
+    const creditedSources = new Set<Job['source']>();
+
+    const sources = await Promise.all(sourceRuns.map(async (run): Promise<SourceBreakdown> => {
+      const source = this.mapSourcePlatform(run.platform);
+      let deactivated = 0;
+      if (!creditedSources.has(source)) {
+        creditedSources.add(source);
+        deactivated = outcome.deactivatedBySource.get(source) || 0;
+      }
+
+      const saveFailed = outcome.error !== null && run.status !== 'FAILURE';
+      const durationMs = new Date(run.completed_at).getTime() - new Date(run.started_at).getTime();
+
+      return {
+        source: run.scraper,
+        platform: run.platform,
+        status: saveFailed ? 'FAILURE' : run.status,
+        pages_fetched: run.pages_fetched,
+        jobs_found: run.jobs_found,
+        jobs_new: outcome.newByPlatform.get(run.platform) || 0,
+        jobs_updated: outcome.updatedByPlatform.get(run.platform) || 0,
+        jobs_deactivated: deactivated,
+        error_message: saveFailed ? `Save failed: ${outcome.error}` : run.error,
+        anomalies: run.anomalies,
+        captures: await this.storeCaptures(runId, run),
+        started_at: run.started_at,
+        completed_at: run.completed_at,
+        duration_seconds: Math.round(durationMs / 1000),
+      };
+    }));
+
+    if (sources.length === 0) return sources;
+
     try {
-      const scrapersRun = Array.from(this.scrapers.keys()).join(', ');
-      await supabaseAdmin.from('scraping_logs').insert({
-        source: scrapersRun,
-        status,
-        jobs_found: jobsFound,
-        jobs_new: jobsSaved,
-        jobs_updated: 0,
-        error_message: errorMessage,
-        started_at: new Date().toISOString(),
-        completed_at: new Date().toISOString(),
-        duration_seconds: 0,
+      // The platform is only for webhooks; scraping_logs has no column for it
+      const rows = sources.map(row => {
+        const logRow: Partial<SourceBreakdown> & { run_id: string } = { run_id: runId, ...row };
+        delete logRow.platform;
+        return logRow;
       });
+      const { error } = await supabaseAdmin.from('scraping_logs').insert(rows);
+      if (error) console.error('Error logging scraping run:', error);
+    } catch (error) {
+      console.error('Error logging scraping run:', error);
+    }
+    return sources;
+  }
+
+  /**
+   * Pick up aliases admins have added since the last run, and start the
+   * hospital name log afresh
+   */
+  private async prepareHospitalMatching(): Promise<void> {
+    getHospitalNameLog().drain();
+    if (!this.hospitalNameStore) return;
+    try {
+      setCustomAliases(await this.hospitalNameStore.loadAliases());
+    } catch (error) {
+      console.error('Error loading hospital aliases:', (error as Error).message);
+    }
+  }
+
+  /**
+   * Add the hospital names scrapers couldn't confidently match to the log
+   */
+  private async logHospitalNames(): Promise<void> {
+    const names = getHospitalNameLog().drain();
+    if (!this.hospitalNameStore || names.length === 0) return;
+    try {
+      await this.hospitalNameStore.logNames(names);
+      console.log(`Logged ${names.length} unmatched or low-confidence hospital names`);
+    } catch (error) {
+      console.error('Error logging hospital names:', (error as Error).message);
+    }
+  }
+
+  /**
+   * Upload a source run's failure captures, returning what its log row lists
+   */
+  private async storeCaptures(runId: string, run: SourceRun): Promise<ScrapeCapture[]> {
+    if (run.captures.length === 0) return run.stored_captures;
+    try {
+      const stored = this.captureStore
+        ? await this.captureStore.save(runId, run.scraper, run.captures)
+        : unstoredCaptures(run.captures);
+      return [...run.stored_captures, ...stored];
     } catch (error) {
-      console.error('Error logging scraping operation:', error);
+      console.error(`Error storing ${run.scraper} failure captures:`, (error as Error).message);
+      return [...run.stored_captures, ...unstoredCaptures(run.captures)];
     }
   }
 
   getScraperInfo(): Array<{ name: string; platform: string }> {
     return Array.from(this.scrapers.entries()).map(([name, scraper]) => ({
       name,
-      platform: (scraper as any).platformName || 'Unknown',
+      platform: scraper.platform,
     }));
   }
 }
@@ -3,83 +3,165 @@
  * Extended BaseScraper for JS-rendered sites that require a real browser.
  * Used by Rezoomo, IrishJobs, and DoctorJobs scrapers.
  *
+ * Scrapers share one browser through a BrowserPool, each in its own context.
+ * On a selector miss or an exception the page's screenshot and HTML are
+ * kept as failure captures for the run's log.
+ *
  * NOTE: Playwright scrapers cannot run on Vercel (chromium binary is too large).
  * They run via GitHub Actions on a schedule and save directly to Supabase.
  */
 
-import { BaseScraper, type ScrapedJob, type ScraperResult, delay } from './base';
+import type { BrowserContext, Page } from 'playwright';
+import { BaseScraper, type ScraperResult, type ScrapeTaskSpec, type TaskOutcome, delay } from './base';
+import { getBrowserPool, type BrowserPool } from './browser-pool';
+import { MAX_CAPTURES_PER_RUN } from './failure-captures';
 
-// Dynamic import — Playwright is only available in the GitHub Actions environment
-let chromium: any;
-let Browser: any;
+/** Navigation attempts when the site answers 429/503 */
+const MAX_NAVIGATION_ATTEMPTS = 3;
 
-async function launchBrowser() {
-  try {
-    const pw = await import('playwright');
-    const browser = await pw.chromium.launch({
-      headless: true,
-      args: ['--no-sandbox', '--disable-setuid-sandbox'],
-    });
-    return browser;
-  } catch (error) {
-    throw new Error(
-      'Playwright is not available. Playwright-based scrapers only run in GitHub Actions. ' +
-      `Error: ${(error as Error).message}`
-    );
-  }
+/** The parts of Playwright's Response that navigateTo() needs */
+interface NavigationResponse {
+  status(): number;
+  headerValue(name: string): Promise<string | null>;
 }
 
 export abstract class PlaywrightBaseScraper extends BaseScraper {
-  protected browser: any = null;
-  protected page: any = null;
+  protected browserPool: BrowserPool = getBrowserPool();
+  protected context: BrowserContext | null = null;
+  protected page: Page | null = null;
+  /** URL passed to the last navigateTo() — used as the fixture key */
+  protected currentUrl: string | null = null;
+  /** Fixture HTML for the current URL when replaying */
+  private replayHtml: string | null = null;
+
+  /**
+   * Use a different browser pool (the shared one is used by default)
+   */
+  setBrowserPool(pool: BrowserPool): void {
+    this.browserPool = pool;
+  }
 
   /**
-   * Initialize browser and page
+   * Open a context and page on the pooled browser (none is needed when
+   * replaying fixtures)
    */
   protected async initBrowser(): Promise<void> {
-    this.browser = await launchBrowser();
-    this.page = await this.browser.newPage();
-    await this.page.setViewportSize({ width: 1280, height: 800 });
+    if (this.fixtures?.isReplay) return;
+    this.context = await this.browserPool.acquire();
+    this.page = await this.context.newPage();
   }
 
   /**
-   * Clean up browser resources
+   * Give the context back to the pool
    */
   protected async closeBrowser(): Promise<void> {
     if (this.page) {
       await this.page.close().catch(() => {});
       this.page = null;
     }
-    if (this.browser) {
-      await this.browser.close().catch(() => {});
-      this.browser = null;
+    if (this.context) {
+      await this.browserPool.release(this.context);
+      this.context = null;
     }
+    this.currentUrl = null;
+    this.replayHtml = null;
   }
 
   /**
-   * Navigate to a URL and wait for the page to load
+   * Navigate to a URL and wait for the page to load. Throws
+   * RobotsDisallowedError if robots.txt forbids the URL.
    */
   protected async navigateTo(url: string, waitFor?: string): Promise<void> {
-    await this.page.goto(url, { waitUntil: 'networkidle', timeout: 30000 });
+    if (this.pastDeadline()) {
+      this.stats.skipped_pages++;
+      throw new Error(`Run deadline reached, skipping ${url}`);
+    }
+    this.currentUrl = url;
+
+    if (this.fixtures?.isReplay) {
+      this.replayHtml = this.fixtures.load(url);
+      if (this.replayHtml === null) {
+        throw new Error(`No fixture recorded for ${url}`);
+      }
+      this.stats.pages_fetched++;
+      return;
+    }
+
+    // Navigations share the per-host scheduler with fetch-based scrapers
+    for (let attempt = 1; ; attempt++) {
+      const response = await this.scheduler.schedule<NavigationResponse | null>(url, () =>
+        this.activePage().goto(url, { waitUntil: 'networkidle', timeout: 30000 })
+      );
+      const status = response?.status();
+      if (response && (status === 429 || status === 503) && attempt < MAX_NAVIGATION_ATTEMPTS) {
+        const retryAfter = await response.headerValue('retry-after');
+        if (this.scheduler.backOff(url, retryAfter, attempt - 1, this.deadline)) continue;
+      }
+      break;
+    }
+    this.stats.pages_fetched++;
     if (waitFor) {
-      await this.page.waitForSelector(waitFor, { timeout: 15000 }).catch(() => {
+      const found = await this.activePage().waitForSelector(waitFor, { timeout: 15000 }).then(() => true, () => false);
+      if (!found) {
         console.warn(`Selector "${waitFor}" not found on ${url}, continuing anyway`);
-      });
+        await this.captureFailure(`Selector "${waitFor}" not found`);
+      }
     }
   }
 
   /**
-   * Get page HTML content
+   * Keep a screenshot and the HTML of the current page, to see what it
+   * looked like when scraping broke. Images and fonts are blocked, so the
+   * screenshot shows layout and text only. At most MAX_CAPTURES_PER_RUN are
+   * kept per run; nothing is captured when replaying fixtures.
+   */
+  protected async captureFailure(reason: string): Promise<void> {
+    if (this.fixtures?.isReplay || !this.page || this.captures.length >= MAX_CAPTURES_PER_RUN) return;
+
+    const page = this.page;
+    const [screenshot, html] = await Promise.all([
+      page.screenshot({ fullPage: true, timeout: 10000 }).catch(() => null),
+      page.content().catch(() => null),
+    ]);
+    this.captures.push({
+      reason,
+      url: page.url() === 'about:blank' ? this.currentUrl : page.url(),
+      captured_at: new Date().toISOString(),
+      screenshot,
+      html,
+    });
+  }
+
+  /**
+   * The open page; throws if initBrowser() hasn't run
+   */
+  private activePage(): Page {
+    if (!this.page) throw new Error(`${this.platformName}: browser page is not open`);
+    return this.page;
+  }
+
+  /**
+   * Get page HTML content. In record mode the rendered HTML (after any
+   * scrolling / "load more" clicks) is saved under the navigated URL.
    */
   protected async getPageContent(): Promise<string> {
-    return await this.page.content();
+    if (this.fixtures?.isReplay) {
+      return this.replayHtml || '';
+    }
+
+    const html = await this.activePage().content();
+    if (this.fixtures?.isRecording && this.currentUrl) {
+      this.fixtures.save(this.currentUrl, html, this.platformName);
+    }
+    return html;
   }
 
   /**
    * Scroll to bottom to trigger lazy-loaded content
    */
   protected async scrollToBottom(): Promise<void> {
-    await this.page.evaluate(() => {
+    if (this.fixtures?.isReplay) return;
+    await this.activePage().evaluate(() => {
       window.scrollTo(0, document.body.scrollHeight);
     });
     await delay(2000);
@@ -89,7 +171,8 @@ export abstract class PlaywrightBaseScraper extends BaseScraper {
    * Click a button/link if it exists
    */
   protected async clickIfExists(selector: string): Promise<boolean> {
-    const el = await this.page.$(selector);
+    if (this.fixtures?.isReplay) return false;
+    const el = await this.activePage().$(selector);
     if (el) {
       await el.click();
       await delay(1500);
@@ -108,12 +191,38 @@ export abstract class PlaywrightBaseScraper extends BaseScraper {
       return result;
     } catch (error) {
       console.error(`${this.platformName} scraper error:`, error);
+      await this.captureFailure((error as Error).message);
       return this.createResult([], (error as Error).message);
     } finally {
       await this.closeBrowser();
     }
   }
 
+  /**
+   * Run a queued task with its own browser context. The whole-scrape task
+   * goes through scrape(), which manages the browser itself.
+   */
+  protected async performTask(task: ScrapeTaskSpec): Promise<TaskOutcome> {
+    if (task.kind === 'SCRAPE') return super.performTask(task);
+
+    try {
+      await this.initBrowser();
+      return await this.performBrowserTask(task);
+    } catch (error) {
+      await this.captureFailure((error as Error).message);
+      throw error;
+    } finally {
+      await this.closeBrowser();
+    }
+  }
+
+  /**
+   * Task work with the browser open — scrapers that split their work override this
+   */
+  protected async performBrowserTask(task: ScrapeTaskSpec): Promise<TaskOutcome> {
+    throw new Error(`${this.platformName} has no "${task.kind}" task`);
+  }
+
   /**
    * Actual scraping logic — implemented by each Playwright scraper
    */
@@ -0,0 +1,407 @@
+/**
+ * Per-Host Politeness Scheduler
+ * Every scraper request goes through one shared scheduler, which:
+ * - honours robots.txt Disallow/Allow rules and Crawl-delay
+ * - limits concurrent requests and request rate per host
+ * - backs off the whole host on 429/503, using Retry-After when given
+ * - keeps per-host stats for run telemetry
+ */
+
+export const SCRAPER_USER_AGENT = 'MedJob-IE/1.0 (NCHD Job Aggregator)';
+
+/** robots.txt user-agent token we answer to (besides '*') */
+const ROBOTS_AGENT_TOKEN = 'medjob-ie';
+
+export interface HostPolicy {
+  minIntervalMs: number;  // Minimum gap between request starts
+  maxConcurrent: number;  // Requests in flight at once
+  maxRetries: number;     // Attempts per request, including the first
+  baseBackoffMs: number;  // Backoff when no Retry-After is given (doubles per attempt)
+  maxBackoffMs: number;   // Cap for Retry-After / backoff waits
+}
+
+export const DEFAULT_HOST_POLICY: HostPolicy = {
+  minIntervalMs: 2000,
+  maxConcurrent: 1,
+  maxRetries: 3,
+  baseBackoffMs: 1000,
+  maxBackoffMs: 60000,
+};
+
+/** Hosts that need more room than the default (JS-heavy boards, past blocks) */
+const HOST_POLICIES: Record<string, Partial<HostPolicy>> = {
+  'www.rezoomo.com': { minIntervalMs: 3000 },
+  'www.doctorjobs.ie': { minIntervalMs: 3000 },
+  'www.irishjobs.ie': { minIntervalMs: 3000 },
+};
+
+export interface HostStats {
+  host: string;
+  requests: number;
+  blocked_by_robots: number;
+  throttled: number;        // 429/503 responses
+  retries: number;
+  errors: number;           // Network errors
+  wait_ms: number;          // Time spent waiting for a rate slot or backoff
+  crawl_delay_ms: number | null;
+}
+
+export class RobotsDisallowedError extends Error {
+  constructor(url: string) {
+    super(`robots.txt disallows ${url}`);
+    this.name = 'RobotsDisallowedError';
+  }
+}
+
+// ─── robots.txt ──────────────────────────────────────────────────────────────
+
+export interface RobotsRules {
+  rules: { allow: boolean; path: string }[];
+  crawlDelayMs: number | null;
+}
+
+const ALLOW_ALL: RobotsRules = { rules: [], crawlDelayMs: null };
+const DISALLOW_ALL: RobotsRules = { rules: [{ allow: false, path: '/' }], crawlDelayMs: null };
+
+/**
+ * Parse robots.txt, keeping the groups that apply to us: groups naming our
+ * agent token if any exist, otherwise the '*' groups.
+ */
+export function parseRobotsTxt(text: string): RobotsRules {
+  const groups: { agents: string[]; rules: RobotsRules['rules']; crawlDelayMs: number | null }[] = [];
+  let current: (typeof groups)[number] | null = null;
+  let lastWasAgent = false;
+
+  for (const rawLine of text.split(/\r?\n/)) {
+    const line = rawLine.replace(/#.*$/, '').trim();
+    const sep = line.indexOf(':');
+    if (sep === -1) continue;
+
+    const key = line.substring(0, sep).trim().toLowerCase();
+    const value = line.substring(sep + 1).trim();
+
+    if (key === 'user-agent') {
+      if (!current || !lastWasAgent) {
+        current = { agents: [], rules: [], crawlDelayMs: null };
+        groups.push(current);
+      }
+      current.agents.push(value.toLowerCase());
+      lastWasAgent = true;
+      continue;
+    }
+
+    lastWasAgent = false;
+    if (!current) continue;
+
+    if (key === 'disallow' || key === 'allow') {
+      if (value) current.rules.push({ allow: key === 'allow', path: value });
+    } else if (key === 'crawl-delay') {
+      const seconds = parseFloat(value);
+      if (!isNaN(seconds)) current.crawlDelayMs = seconds * 1000;
+    }
+  }
+
+  // Agents are compared whole, so a group for "job" or "m" isn't taken for ours
+  const specific = groups.filter(g => g.agents.includes(ROBOTS_AGENT_TOKEN));
+  const matching = specific.length > 0 ? specific : groups.filter(g => g.agents.includes('*'));
+
+  return {
+    rules: matching.flatMap(g => g.rules),
+    crawlDelayMs: matching.reduce<number | null>(
+      (max, g) => (g.crawlDelayMs !== null && (max === null || g.crawlDelayMs > max) ? g.crawlDelayMs : max),
+      null
+    ),
+  };
+}
+
+function ruleMatches(pattern: string, path: string): boolean {
+  const anchored = pattern.endsWith('$');
+  const body = (anchored ? pattern.slice(0, -1) : pattern)
+    .split('*')
+    .map(part => part.replace(/[.+?^${}()|[\]\\]/g, '\\$&'))
+    .join('.*');
+  return new RegExp(`^${body}${anchored ? '$' : ''}`).test(path);
+}
+
+/**
+ * Longest matching rule wins; Allow wins a tie; no match means allowed
+ */
+export function isPathAllowed(robots: RobotsRules, path: string): boolean {
+  let best: { allow: boolean; length: number } | null = null;
+  for (const rule of robots.rules) {
+    if (!ruleMatches(rule.path, path)) continue;
+    if (!best || rule.path.length > best.length || (rule.path.length === best.length && rule.allow)) {
+      best = { allow: rule.allow, length: rule.path.length };
+    }
+  }
+  return best ? best.allow : true;
+}
+
+/**
+ * Parse a Retry-After header (seconds or HTTP date) into milliseconds
+ */
+export function parseRetryAfter(header: string | null | undefined, now: number = Date.now()): number | null {
+  if (!header) return null;
+  const seconds = Number(header);
+  if (!isNaN(seconds)) return Math.max(0, seconds * 1000);
+  const date = Date.parse(header);
+  return isNaN(date) ? null : Math.max(0, date - now);
+}
+
+// ─── Scheduler ───────────────────────────────────────────────────────────────
+
+interface HostState {
+  policy: HostPolicy;
+  active: number;
+  waiting: (() => void)[];
+  nextSlotAt: number;
+  blockedUntil: number;
+  robots: Promise<RobotsRules> | null;
+  stats: HostStats;
+}
+
+type FetchFn = (input: string, init?: RequestInit) => Promise<Response>;
+
+export interface SchedulerOptions {
+  policy?: Partial<HostPolicy>;
+  hostPolicies?: Record<string, Partial<HostPolicy>>;
+  fetchImpl?: FetchFn;
+  now?: () => number;
+  sleep?: (ms: number) => Promise<void>;
+  respectRobots?: boolean;
+}
+
+export class RequestScheduler {
+  private hosts = new Map<string, HostState>();
+  private policy: HostPolicy;
+  private hostPolicies: Record<string, Partial<HostPolicy>>;
+  private fetchImpl: FetchFn;
+  private now: () => number;
+  private sleep: (ms: number) => Promise<void>;
+  private respectRobots: boolean;
+
+  constructor(options: SchedulerOptions = {}) {
+    this.policy = { ...DEFAULT_HOST_POLICY, ...options.policy };
+    this.hostPolicies = options.hostPolicies ?? HOST_POLICIES;
+    this.fetchImpl = options.fetchImpl ?? ((input, init) => fetch(input, init));
+    this.now = options.now ?? Date.now;
+    this.sleep = options.sleep ?? (ms => new Promise(resolve => setTimeout(resolve, ms)));
+    this.respectRobots = options.respectRobots ?? true;
+  }
+
+  /**
+   * Fetch a URL politely. Retries network errors and 429/503 responses
+   * (waiting out Retry-After); returns the last response if retries run out
+   * or the next retry could not start before `deadline` (epoch ms).
+   * Throws RobotsDisallowedError if robots.txt forbids the URL.
+   */
+  async fetch(url: string, init: RequestInit = {}, deadline: number | null = null): Promise<Response> {
+    const state = this.hostState(url);
+    await this.assertAllowed(url, state);
+
+    for (let attempt = 0; ; attempt++) {
+      const isLastAttempt = attempt + 1 >= state.policy.maxRetries;
+      if (attempt > 0) state.stats.retries++;
+      await this.acquire(state);
+
+      let response: Response;
+      try {
+        response = await this.fetchImpl(url, {
+          ...init,
+          headers: { 'User-Agent': SCRAPER_USER_AGENT, ...init.headers },
+        });
+      } catch (error) {
+        state.stats.errors++;
+        if (isLastAttempt) throw error;
+        this.backOffState(state, null, attempt);
+        if (!this.startsBefore(state, deadline)) throw error;
+        continue;
+      } finally {
+        this.release(state);
+      }
+
+      state.stats.requests++;
+      if (response.status === 429 || response.status === 503) {
+        state.stats.throttled++;
+        if (!isLastAttempt) {
+          this.backOffState(state, response.headers.get('retry-after'), attempt);
+          if (this.startsBefore(state, deadline)) continue;
+        }
+      }
+      return response;
+    }
+  }
+
+  /**
+   * Run an arbitrary request (e.g. a Playwright navigation) under the host's
+   * robots rules, concurrency limit and rate.
+   */
+  async schedule<T>(url: string, task: () => Promise<T>): Promise<T> {
+    const state = this.hostState(url);
+    await this.assertAllowed(url, state);
+    await this.acquire(state);
+    try {
+      const result = await task();
+      state.stats.requests++;
+      return result;
+    } catch (error) {
+      state.stats.errors++;
+      throw error;
+    } finally {
+      this.release(state);
+    }
+  }
+
+  /**
+   * Record a throttling response seen outside fetch() (e.g. a Playwright
+   * navigation) so the whole host backs off. Returns whether a retry could
+   * start before `deadline`.
+   */
+  backOff(url: string, retryAfter: string | null, attempt: number = 0, deadline: number | null = null): boolean {
+    const state = this.hostState(url);
+    state.stats.throttled++;
+    this.backOffState(state, retryAfter, attempt);
+    if (!this.startsBefore(state, deadline)) return false;
+    state.stats.retries++;
+    return true;
+  }
+
+  /**
+   * Whether robots.txt lets us fetch this URL
+   */
+  async isAllowed(url: string): Promise<boolean> {
+    if (!this.respectRobots) return true;
+    const state = this.hostState(url);
+    const robots = await this.loadRobots(url, state);
+    const parsed = new URL(url);
+    return isPathAllowed(robots, `${parsed.pathname}${parsed.search}`);
+  }
+
+  getStats(): HostStats[] {
+    return Array.from(this.hosts.values()).map(s => ({ ...s.stats }));
+  }
+
+  resetStats(): void {
+    for (const state of this.hosts.values()) {
+      state.stats = { ...this.emptyStats(state.stats.host), crawl_delay_ms: state.stats.crawl_delay_ms };
+    }
+  }
+
+  private async assertAllowed(url: string, state: HostState): Promise<void> {
+    if (await this.isAllowed(url)) return;
+    state.stats.blocked_by_robots++;
+    throw new RobotsDisallowedError(url);
+  }
+
+  private hostState(url: string): HostState {
+    const host = new URL(url).host;
+    let state = this.hosts.get(host);
+    if (!state) {
+      state = {
+        policy: { ...this.policy, ...this.hostPolicies[host] },
+        active: 0,
+        waiting: [],
+        nextSlotAt: 0,
+        blockedUntil: 0,
+        robots: null,
+        stats: this.emptyStats(host),
+      };
+      this.hosts.set(host, state);
+    }
+    return state;
+  }
+
+  private emptyStats(host: string): HostStats {
+    return {
+      host,
+      requests: 0,
+      blocked_by_robots: 0,
+      throttled: 0,
+      retries: 0,
+      errors: 0,
+      wait_ms: 0,
+      crawl_delay_ms: null,
+    };
+  }
+
+  private loadRobots(url: string, state: HostState): Promise<RobotsRules> {
+    if (!state.robots) {
+      const robotsUrl = `${new URL(url).origin}/robots.txt`;
+      state.robots = this.fetchImpl(robotsUrl, { headers: { 'User-Agent': SCRAPER_USER_AGENT } })
+        .then(async response => {
+          // Missing or forbidden robots.txt means no restrictions; a server
+          // error means we can't know them, so the host is off limits (RFC 9309)
+          if (response.status >= 500) return DISALLOW_ALL;
+          if (!response.ok) return ALLOW_ALL;
+          const robots = parseRobotsTxt(await response.text());
+          if (robots.crawlDelayMs !== null) {
+            state.stats.crawl_delay_ms = robots.crawlDelayMs;
+            state.policy.minIntervalMs = Math.max(state.policy.minIntervalMs, robots.crawlDelayMs);
+          }
+          return robots;
+        })
+        .catch(error => {
+          console.warn(`Could not load ${robotsUrl}: ${(error as Error).message}`);
+          return ALLOW_ALL;
+        });
+    }
+    return state.robots;
+  }
+
+  /**
+   * Wait for a concurrency slot, then for the host's next rate slot
+   */
+  private async acquire(state: HostState): Promise<void> {
+    if (state.active >= state.policy.maxConcurrent) {
+      // release() hands its slot straight to us, so `active` is not re-incremented
+      await new Promise<void>(resolve => state.waiting.push(resolve));
+    } else {
+      state.active++;
+    }
+
+    const now = this.now();
+    const startAt = Math.max(now, state.nextSlotAt, state.blockedUntil);
+    state.nextSlotAt = startAt + state.policy.minIntervalMs;
+
+    if (startAt > now) {
+      state.stats.wait_ms += startAt - now;
+      await this.sleep(startAt - now);
+    }
+  }
+
+  private release(state: HostState): void {
+    const next = state.waiting.shift();
+    if (next) {
+      next();
+    } else {
+      state.active--;
+    }
+  }
+
+  private backOffState(state: HostState, retryAfter: string | null, attempt: number): void {
+    const wait = Math.min(
+      parseRetryAfter(retryAfter, this.now()) ?? state.policy.baseBackoffMs * 2 ** attempt,
+      state.policy.maxBackoffMs
+    );
+    state.blockedUntil = Math.max(state.blockedUntil, this.now() + wait);
+  }
+
+  /**
+   * Whether the host's next request could start before the deadline
+   */
+  private startsBefore(state: HostState, deadline: number | null): boolean {
+    return deadline === null || Math.max(this.now(), state.nextSlotAt, state.blockedUntil) < deadline;
+  }
+}
+
+let schedulerInstance: RequestScheduler | null = null;
+
+/**
+ * Shared scheduler so every scraper hitting a host shares its limits
+ */
+export function getScheduler(): RequestScheduler {
+  if (!schedulerInstance) {
+    schedulerInstance = new RequestScheduler();
+  }
+  return schedulerInstance;
+}
@@ -13,9 +13,10 @@
 
 import * as cheerio from 'cheerio';
 import type { Element } from 'domhandler';
-import { type ScrapedJob, type ScraperResult, delay } from './base';
+import { type ScrapedJob, type ScraperResult, type ScrapeTaskSpec, type TaskOutcome } from './base';
 import { PlaywrightBaseScraper } from './playwright-base';
-import { matchHospital, matchHospitalByCounty, inferCounty, inferCountyFromRefCode } from './hospital-matcher';
+import { inferCounty } from './hospital-matcher';
+import { resolveHospital } from './field-confidence';
 import { getHospitalTier } from '@/lib/matchProbability';
 
 /** Known Rezoomo employer pages with medical jobs */
@@ -23,7 +24,7 @@ const REZOOMO_SOURCES = [
   {
     name: 'CHI',
     url: 'https://www.rezoomo.com/company/childrens-health-ireland/jobs/',
-    hospitalId: 'stjames',
+    hospitalId: 'chicrumlin',
   },
   {
     name: 'Mater Hospital',
@@ -43,17 +44,17 @@ const REZOOMO_SOURCES = [
   {
     name: 'HSE Dublin North East',
     url: 'https://www.rezoomo.com/company/hse-community-healthcare-dublin-north-city-and-county/jobs/',
-    hospitalId: 'beaumont',
+    hospitalId: 'cho9',
   },
   {
     name: 'HSE West',
     url: 'https://www.rezoomo.com/company/community-healthcare-west/jobs/',
-    hospitalId: 'uhg',
+    hospitalId: 'cho2',
   },
   {
     name: 'National Maternity Hospital',
     url: 'https://www.rezoomo.com/company/the-national-maternity-hospital/jobs/',
-    hospitalId: 'stvincents',
+    hospitalId: 'nmh',
   },
   {
     name: 'Ireland East',
@@ -76,9 +77,9 @@ export class RezoomoScraper extends PlaywrightBaseScraper {
         const jobs = await this.scrapeEmployerPage(source);
         allJobs.push(...jobs);
         console.log(`Rezoomo ${source.name}: ${jobs.length} NCHD jobs`);
-        await delay(3000); // Be respectful between employers
       } catch (error) {
         console.error(`Rezoomo error for ${source.name}:`, error);
+        await this.captureFailure(`${source.name}: ${(error as Error).message}`);
       }
     }
 
@@ -86,6 +87,20 @@ export class RezoomoScraper extends PlaywrightBaseScraper {
     return this.createResult(allJobs);
   }
 
+  /** A queued run scrapes each employer page as its own task */
+  planTasks(): ScrapeTaskSpec[] {
+    return REZOOMO_SOURCES.map(source => ({ kind: 'EMPLOYER', key: source.url }));
+  }
+
+  protected async performBrowserTask(task: ScrapeTaskSpec): Promise<TaskOutcome> {
+    const source = REZOOMO_SOURCES.find(s => s.url === task.key);
+    if (task.kind !== 'EMPLOYER' || !source) return super.performBrowserTask(task);
+
+    const jobs = await this.scrapeEmployerPage(source);
+    console.log(`Rezoomo ${source.name}: ${jobs.length} NCHD jobs`);
+    return { jobs };
+  }
+
   private async scrapeEmployerPage(source: typeof REZOOMO_SOURCES[number]): Promise<ScrapedJob[]> {
     const jobs: ScrapedJob[] = [];
 
@@ -100,11 +115,12 @@ export class RezoomoScraper extends PlaywrightBaseScraper {
       );
       if (!clicked) break;
       loadMoreClicks++;
-      await delay(2000);
+      await this.pause(2000);
     }
 
     const html = await this.getPageContent();
     const $ = cheerio.load(html);
+    this.stats.listing_pages++;
 
     // Parse job listings
     $(
@@ -118,6 +134,7 @@ export class RezoomoScraper extends PlaywrightBaseScraper {
 
     // Fallback: look for job links
     if (jobs.length === 0) {
+      this.stats.fallback_pages++;
       $('a[href*="/job/"], a[href*="/vacancy/"]').each((_, el) => {
         const $a = $(el);
         const title = this.cleanText($a.text());
@@ -128,9 +145,7 @@ export class RezoomoScraper extends PlaywrightBaseScraper {
 
         const searchText = `${title} ${source.name}`;
         const county = inferCounty(searchText);
-        const hospital = matchHospital(searchText)
-          || matchHospitalByCounty(county)
-          || this.resolveSourceHospital(source.hospitalId);
+        const { hospital, confidence: hospitalConfidence } = resolveHospital(searchText, county, source.hospitalId);
         const hospitalName = hospital?.name || source.name;
 
         jobs.push({
@@ -139,9 +154,10 @@ export class RezoomoScraper extends PlaywrightBaseScraper {
           specialty: this.parseSpecialty(title),
           scheme_type: this.parseSchemeType(title),
           hospital_name: hospitalName,
-          hospital_group: hospital?.hospitalGroup || 'IEHG',
+          field_confidence: { hospital_name: hospitalConfidence },
+          hospital_group: hospital?.hospitalGroup ?? null,
           county: hospital?.county || county,
-          application_deadline: this.defaultDeadline(),
+          ...this.estimatedDeadline(),
           application_url: href,
           historical_centile_tier: getHospitalTier(hospitalName),
           source_url: href,
@@ -172,12 +188,10 @@ export class RezoomoScraper extends PlaywrightBaseScraper {
     const county = inferCounty(searchText);
 
     const deadlineText = $el.find('[class*="date"], [class*="deadline"], time').text();
-    const deadline = this.extractDate(deadlineText) || this.defaultDeadline();
+    const deadline = this.resolveDeadline(deadlineText);
 
     // Try text matching first, then fall back to the source's known hospitalId
-    const hospital = matchHospital(searchText)
-      || matchHospitalByCounty(county)
-      || this.resolveSourceHospital(source.hospitalId);
+    const { hospital, confidence: hospitalConfidence } = resolveHospital(searchText, county, source.hospitalId);
     const hospitalName = hospital?.name || source.name;
 
     return {
@@ -186,9 +200,10 @@ export class RezoomoScraper extends PlaywrightBaseScraper {
       specialty: this.parseSpecialty(title),
       scheme_type: this.parseSchemeType(title),
       hospital_name: hospitalName,
-      hospital_group: hospital?.hospitalGroup || 'IEHG',
+      field_confidence: { hospital_name: hospitalConfidence },
+      hospital_group: hospital?.hospitalGroup ?? null,
       county: hospital?.county || county,
-      application_deadline: deadline,
+      ...deadline,
       application_url: url,
       historical_centile_tier: getHospitalTier(hospitalName),
       source_url: url || source.url,
@@ -218,26 +233,4 @@ export class RezoomoScraper extends PlaywrightBaseScraper {
     }
     return false;
   }
-
-  /** Resolve hospital from the source config's hospitalId */
-  private resolveSourceHospital(hospitalId: string): ReturnType<typeof matchHospital> {
-    return matchHospital(hospitalId);
-  }
-
-  private extractDate(text: string): string | null {
-    const match = text.match(
-      /(\d{1,2})\s+(January|February|March|April|May|June|July|August|September|October|November|December)\s+(\d{4})/i
-    );
-    if (match) {
-      const date = new Date(`${match[2]} ${match[1]}, ${match[3]}`);
-      if (!isNaN(date.getTime())) return date.toISOString();
-    }
-    return null;
-  }
-
-  private defaultDeadline(): string {
-    const d = new Date();
-    d.setDate(d.getDate() + 21);
-    return d.toISOString();
-  }
 }
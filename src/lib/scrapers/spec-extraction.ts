@@ -0,0 +1,579 @@
+/**
+ * Job Spec Extraction Providers
+ * Reading fields out of spec text is done by providers — the regex parser,
+ * an LLM behind any HTTP endpoint, or a local stub. Their output is checked
+ * against a schema before use, cached by a hash of the text, and merged in
+ * priority order with each field credited to the provider that gave it.
+ * compareProviders scores providers against labelled specs, so accuracy can
+ * be measured offline before an LLM is put in front of every PDF.
+ */
+
+import { createHash } from 'crypto';
+import { parseJobSpecText, type ParsedJobSpec } from '@/lib/pdfParser';
+import { parseIrishDeadline, UNKNOWN_DEADLINE } from './deadline-parser';
+import type { JobSpecFields } from './job-specs';
+import { supabaseAdmin } from '@/lib/supabase';
+
+/** Contract types as the app shows them */
+export const CONTRACT_TYPES = ['Locum', 'Specified Purpose', 'Fixed Term', 'Permanent', 'Temporary', 'Training'];
+
+/**
+ * Fields as a provider reports them. The closing date is kept as written
+ * and only read as a deadline once the providers are merged.
+ */
+export type SpecExtraction = Omit<JobSpecFields, 'application_deadline' | 'deadline_precision' | 'estimated_fields'> & {
+  closing_date?: string;
+};
+
+export type SpecExtractionField = keyof SpecExtraction;
+
+/** Which provider gave each job field */
+export type FieldSources = Partial<Record<keyof JobSpecFields, string>>;
+
+const MAX_TEXT_LENGTH = 300;
+
+function isText(value: unknown): value is string {
+  return typeof value === 'string' && value.trim().length > 0 && value.length <= MAX_TEXT_LENGTH;
+}
+
+function isNumberBetween(min: number, max: number) {
+  return (value: unknown): value is number =>
+    typeof value === 'number' && Number.isFinite(value) && value >= min && value <= max;
+}
+
+/**
+ * What a valid value looks like for each field. Anything else a provider
+ * returns is rejected, and fields not listed here are ignored.
+ */
+export const SPEC_EXTRACTION_SCHEMA: Record<SpecExtractionField, (value: unknown) => boolean> = {
+  informal_enquiries_name: isText,
+  informal_enquiries_email: value => isText(value) && /^[^\s@]+@[^\s@]+\.[a-z]{2,}$/i.test(value),
+  clinical_lead: isText,
+  rotational_detail: isText,
+  closing_date: isText,
+  salary_range: value => isText(value) && /\d/.test(value),
+  hours_per_week: isNumberBetween(20, 80),
+  on_call: value => typeof value === 'boolean',
+  on_call_frequency: value => isText(value) && /^1 in \d{1,2}$/.test(value),
+  duration_months: value => isNumberBetween(1, 72)(value) && Number.isInteger(value),
+  start_date: value => typeof value === 'string' && /^\d{4}-\d{2}-\d{2}$/.test(value) && !isNaN(Date.parse(value)),
+  contract_type: value => typeof value === 'string' && CONTRACT_TYPES.includes(value),
+};
+
+/** How each field is described to an LLM */
+const FIELD_DESCRIPTIONS: Record<SpecExtractionField, string> = {
+  informal_enquiries_name: 'name of the person to contact for informal enquiries',
+  informal_enquiries_email: 'email address for informal enquiries',
+  clinical_lead: 'consultant or clinical lead, with title, e.g. "Dr Paul Walsh"',
+  rotational_detail: 'time spent in each sub-specialty, e.g. "6 months Cardiology / 6 months Respiratory"',
+  closing_date: 'closing date for applications exactly as written, including any time',
+  salary_range: 'salary or pay scale as written, e.g. "€55,965 - €76,079"',
+  hours_per_week: 'rostered hours per week, as a number',
+  on_call: 'true if the post has on-call duties, false if it states there are none',
+  on_call_frequency: 'on-call frequency in the form "1 in 6"',
+  duration_months: 'length of the post in months, as a whole number',
+  start_date: 'start date as YYYY-MM-DD',
+  contract_type: `one of: ${CONTRACT_TYPES.join(', ')}`,
+};
+
+export interface ValidatedExtraction {
+  values: SpecExtraction;
+  rejected: SpecExtractionField[]; // Returned, but not in a form the schema accepts
+}
+
+/**
+ * Keep the fields a provider returned that pass the schema. Nulls count as
+ * "not stated" rather than as rejections.
+ */
+export function validateExtraction(raw: unknown): ValidatedExtraction {
+  const values: Record<string, unknown> = {};
+  const rejected: SpecExtractionField[] = [];
+  if (!raw || typeof raw !== 'object' || Array.isArray(raw)) return { values, rejected };
+
+  for (const [field, isValid] of Object.entries(SPEC_EXTRACTION_SCHEMA) as [SpecExtractionField, (value: unknown) => boolean][]) {
+    let value = (raw as Record<string, unknown>)[field];
+    if (value == null || value === '') continue;
+    if (typeof value === 'string') value = value.trim();
+
+    if (isValid(value)) {
+      values[field] = value;
+    } else {
+      rejected.push(field);
+    }
+  }
+
+  return { values: values as SpecExtraction, rejected };
+}
+
+/**
+ * Read the closing date into a deadline. One that can't be read is left
+ * out rather than guessed.
+ */
+export function toJobSpecFields(values: SpecExtraction): JobSpecFields {
+  const { closing_date: closingDate, ...rest } = values;
+  const fields: JobSpecFields = { ...rest };
+
+  if (closingDate) {
+    const deadline = parseIrishDeadline(closingDate);
+    if (deadline !== UNKNOWN_DEADLINE) {
+      fields.application_deadline = deadline.iso;
+      fields.deadline_precision = deadline.precision;
+    }
+  }
+
+  return fields;
+}
+
+/**
+ * Fingerprint of spec text, ignoring whitespace differences
+ */
+export function hashSpecText(text: string): string {
+  return createHash('sha256').update(text.replace(/\s+/g, ' ').trim()).digest('hex');
+}
+
+// ─── Providers ──────────────────────────────────────────────────────────────
+
+export interface ExtractionProvider {
+  /** Identifies the provider in caches, field sources and comparisons */
+  readonly name: string;
+  /** Whether results are worth caching — false for cheap local providers */
+  readonly cacheable: boolean;
+  /** Raw output; the extractor validates it */
+  extract(text: string): Promise<unknown>;
+}
+
+/**
+ * Map the regex parser's output onto extraction fields
+ */
+export function fromParsedSpec(parsed: ParsedJobSpec): SpecExtraction {
+  return {
+    informal_enquiries_name: parsed.informalEnquiriesName,
+    informal_enquiries_email: parsed.informalEnquiriesEmail,
+    clinical_lead: parsed.clinicalLead,
+    rotational_detail: parsed.rotationalDetail,
+    closing_date: parsed.closingDate,
+    ...parsed.terms,
+  };
+}
+
+/**
+ * The pattern-based parser in pdfParser — free, fast and always available
+ */
+export class RegexExtractionProvider implements ExtractionProvider {
+  readonly name = 'regex';
+  readonly cacheable = false;
+
+  async extract(text: string): Promise<unknown> {
+    return fromParsedSpec(parseJobSpecText(text));
+  }
+}
+
+/**
+ * Local provider that answers from a function — for tests and for trying
+ * out a comparison without a network
+ */
+export class StubExtractionProvider implements ExtractionProvider {
+  readonly name: string;
+  readonly cacheable = false;
+  private respond: (text: string) => unknown;
+
+  constructor(name: string = 'stub', respond: (text: string) => unknown = () => ({})) {
+    this.name = name;
+    this.respond = respond;
+  }
+
+  async extract(text: string): Promise<unknown> {
+    return this.respond(text);
+  }
+}
+
+/** Request and response shape of the LLM endpoint */
+export type LlmApiFormat = 'anthropic' | 'openai';
+
+export interface HttpExtractionOptions {
+  url: string;
+  model: string;
+  format: LlmApiFormat;
+  apiKey?: string;
+  name?: string; // Defaults to llm:<model>
+  maxTokens?: number;
+  timeoutMs?: number;
+  fetchImpl?: typeof fetch;
+}
+
+const DEFAULT_LLM_TIMEOUT_MS = 60 * 1000;
+
+/** The parts of a Messages API reply that carry the text */
+interface AnthropicReply {
+  content?: { type?: string; text?: unknown }[];
+}
+
+/** The parts of a Chat Completions reply that carry the text */
+interface OpenAiReply {
+  choices?: { message?: { content?: unknown } }[];
+}
+
+/**
+ * Instructions for an LLM, listing every field the schema accepts
+ */
+export function buildExtractionPrompt(text: string): string {
+  const fields = (Object.keys(FIELD_DESCRIPTIONS) as SpecExtractionField[])
+    .map(field => `  "${field}": ${FIELD_DESCRIPTIONS[field]}`)
+    .join('\n');
+
+  return `Extract these fields from the HSE NCHD job specification below. Reply with a single JSON object using exactly these keys, and null for anything the specification doesn't state:
+{
+${fields}
+}
+
+Job Specification Text:
+${text}`;
+}
+
+/**
+ * Pull the first JSON object out of a model's reply
+ */
+export function parseJsonReply(reply: string): unknown {
+  const match = reply.match(/\{[\s\S]*\}/);
+  if (!match) throw new Error('No JSON object in reply');
+  return JSON.parse(match[0]);
+}
+
+/**
+ * Any LLM behind an HTTP endpoint that speaks the Anthropic Messages or
+ * OpenAI Chat Completions format
+ */
+export class HttpExtractionProvider implements ExtractionProvider {
+  readonly name: string;
+  readonly cacheable = true;
+  private options: HttpExtractionOptions;
+  private fetchImpl: typeof fetch;
+
+  constructor(options: HttpExtractionOptions) {
+    this.options = options;
+    this.name = options.name || `llm:${options.model}`;
+    this.fetchImpl = options.fetchImpl || fetch;
+  }
+
+  async extract(text: string): Promise<unknown> {
+    const { url, model, format, apiKey } = this.options;
+    const prompt = buildExtractionPrompt(text);
+    const maxTokens = this.options.maxTokens ?? 1024;
+
+    const headers: Record<string, string> = { 'Content-Type': 'application/json' };
+    if (format === 'anthropic') {
+      headers['anthropic-version'] = '2023-06-01';
+      if (apiKey) headers['x-api-key'] = apiKey;
+    } else if (apiKey) {
+      headers['Authorization'] = `Bearer ${apiKey}`;
+    }
+
+    const body = format === 'anthropic'
+      ? { model, max_tokens: maxTokens, messages: [{ role: 'user', content: prompt }] }
+      : { model, max_tokens: maxTokens, response_format: { type: 'json_object' }, messages: [{ role: 'user', content: prompt }] };
+
+    const response = await this.fetchImpl(url, {
+      method: 'POST',
+      headers,
+      body: JSON.stringify(body),
+      signal: AbortSignal.timeout(this.options.timeoutMs ?? DEFAULT_LLM_TIMEOUT_MS),
+    });
+    if (!response.ok) {
+      throw new Error(`${this.name} returned ${response.status} ${response.statusText}`);
+    }
+
+    // Parts may be missing; anything but a string reply is rejected below
+    const data: unknown = await response.json();
+    const reply = format === 'anthropic'
+      ? (data as AnthropicReply | null)?.content?.find(block => block?.type === 'text')?.text
+      : (data as OpenAiReply | null)?.choices?.[0]?.message?.content;
+    if (typeof reply !== 'string') {
+      throw new Error(`${this.name} reply has no text`);
+    }
+
+    return parseJsonReply(reply);
+  }
+}
+
+// ─── Cache ──────────────────────────────────────────────────────────────────
+
+export interface ExtractionCacheEntry {
+  provider: string;
+  text_hash: string;
+  extracted: SpecExtraction; // Already validated
+  rejected: SpecExtractionField[];
+  extracted_at: string;
+}
+
+export interface ExtractionCache {
+  get(provider: string, textHash: string): Promise<ExtractionCacheEntry | undefined>;
+  save(entry: ExtractionCacheEntry): Promise<void>;
+}
+
+/**
+ * In-process cache — lives as long as the extractor
+ */
+export class MemoryExtractionCache implements ExtractionCache {
+  private entries = new Map<string, ExtractionCacheEntry>();
+
+  async get(provider: string, textHash: string): Promise<ExtractionCacheEntry | undefined> {
+    return this.entries.get(`${provider}:${textHash}`);
+  }
+
+  async save(entry: ExtractionCacheEntry): Promise<void> {
+    this.entries.set(`${entry.provider}:${entry.text_hash}`, entry);
+  }
+}
+
+/**
+ * Cache stored in the spec_extractions table, shared between runs
+ */
+export class SupabaseExtractionCache implements ExtractionCache {
+  /**
+   * Returns null when the service role key isn't configured
+   */
+  static fromEnv(): SupabaseExtractionCache | null {
+    if (!process.env.NEXT_PUBLIC_SUPABASE_URL || !process.env.SUPABASE_SERVICE_ROLE_KEY) return null;
+    return new SupabaseExtractionCache();
+  }
+
+  async get(provider: string, textHash: string): Promise<ExtractionCacheEntry | undefined> {
+    const { data, error } = await supabaseAdmin
+      .from('spec_extractions')
+      .select('provider, text_hash, extracted, rejected, extracted_at')
+      .eq('provider', provider)
+      .eq('text_hash', textHash)
+      .maybeSingle();
+
+    if (error) {
+      console.error('Error loading spec extraction:', error);
+      return undefined;
+    }
+    return (data as ExtractionCacheEntry | null) ?? undefined;
+  }
+
+  async save(entry: ExtractionCacheEntry): Promise<void> {
+    const { error } = await supabaseAdmin
+      .from('spec_extractions')
+      .upsert(entry, { onConflict: 'provider,text_hash' });
+
+    if (error) {
+      console.error('Error saving spec extraction:', error);
+    }
+  }
+}
+
+// ─── Extractor ──────────────────────────────────────────────────────────────
+
+export interface SpecExtractionResult {
+  fields: JobSpecFields;
+  sources: FieldSources;
+  rejected: Record<string, SpecExtractionField[]>; // By provider
+  failed: string[]; // Providers that errored
+}
+
+/**
+ * Runs providers in priority order. The first provider to give a field
+ * wins; later ones only fill what earlier ones left out.
+ */
+export class SpecExtractor {
+  private providers: ExtractionProvider[];
+  private cache: ExtractionCache | null;
+
+  constructor(providers: ExtractionProvider[], cache: ExtractionCache | null = null) {
+    if (providers.length === 0) throw new Error('SpecExtractor needs at least one provider');
+    this.providers = providers;
+    this.cache = cache;
+  }
+
+  /**
+   * Providers from SPEC_EXTRACTION_PROVIDERS (e.g. "llm,regex"), caching
+   * LLM results in Supabase when it's configured. Regex only by default.
+   */
+  static fromEnv(): SpecExtractor {
+    const names = (process.env.SPEC_EXTRACTION_PROVIDERS || 'regex')
+      .split(',')
+      .map(name => name.trim())
+      .filter(Boolean);
+
+    const providers: ExtractionProvider[] = [];
+    for (const name of names) {
+      if (name === 'regex') {
+        providers.push(new RegexExtractionProvider());
+      } else if (name === 'llm') {
+        const llm = llmProviderFromEnv();
+        if (llm) providers.push(llm);
+      } else {
+        console.warn(`Unknown spec extraction provider "${name}", skipping`);
+      }
+    }
+    if (providers.length === 0) providers.push(new RegexExtractionProvider());
+
+    return new SpecExtractor(providers, SupabaseExtractionCache.fromEnv());
+  }
+
+  get providerNames(): string[] {
+    return this.providers.map(provider => provider.name);
+  }
+
+  async extract(text: string): Promise<SpecExtractionResult> {
+    const textHash = hashSpecText(text);
+    const merged: SpecExtraction = {};
+    const valueSources: Partial<Record<SpecExtractionField, string>> = {};
+    const result: SpecExtractionResult = { fields: {}, sources: {}, rejected: {}, failed: [] };
+
+    for (const provider of this.providers) {
+      const extraction = await this.run(provider, text, textHash);
+      if (!extraction) {
+        result.failed.push(provider.name);
+        continue;
+      }
+      if (extraction.rejected.length > 0) result.rejected[provider.name] = extraction.rejected;
+
+      for (const [field, value] of Object.entries(extraction.values) as [SpecExtractionField, unknown][]) {
+        if (field in merged) continue;
+        Object.assign(merged, { [field]: value });
+        valueSources[field] = provider.name;
+      }
+    }
+
+    result.fields = toJobSpecFields(merged);
+    for (const field of Object.keys(result.fields) as (keyof JobSpecFields)[]) {
+      const source = field === 'application_deadline' || field === 'deadline_precision'
+        ? valueSources.closing_date
+        : valueSources[field as SpecExtractionField];
+      if (source) result.sources[field] = source;
+    }
+
+    return result;
+  }
+
+  private async run(provider: ExtractionProvider, text: string, textHash: string): Promise<ValidatedExtraction | null> {
+    if (provider.cacheable && this.cache) {
+      const cached = await this.cache.get(provider.name, textHash);
+      if (cached) return { values: cached.extracted, rejected: cached.rejected };
+    }
+
+    let extraction: ValidatedExtraction;
+    try {
+      extraction = validateExtraction(await provider.extract(text));
+    } catch (error) {
+      console.error(`Spec extraction by ${provider.name} failed:`, (error as Error).message);
+      return null;
+    }
+
+    if (provider.cacheable && this.cache) {
+      await this.cache.save({
+        provider: provider.name,
+        text_hash: textHash,
+        extracted: extraction.values,
+        rejected: extraction.rejected,
+        extracted_at: new Date().toISOString(),
+      });
+    }
+    return extraction;
+  }
+}
+
+/**
+ * The LLM provider described by SPEC_LLM_* variables. Without a URL it
+ * defaults to the Anthropic API, keyed by ANTHROPIC_API_KEY.
+ */
+export function llmProviderFromEnv(): HttpExtractionProvider | null {
+  const format: LlmApiFormat = process.env.SPEC_LLM_FORMAT === 'openai' ? 'openai' : 'anthropic';
+  const url = process.env.SPEC_LLM_URL || (format === 'anthropic' ? 'https://api.anthropic.com/v1/messages' : undefined);
+  const model = process.env.SPEC_LLM_MODEL;
+  const apiKey = process.env.SPEC_LLM_API_KEY || (format === 'anthropic' ? process.env.ANTHROPIC_API_KEY : undefined);
+
+  if (!url || !model) {
+    console.warn('Spec extraction: SPEC_LLM_MODEL (and SPEC_LLM_URL for openai) not set, skipping the LLM provider');
+    return null;
+  }
+  return new HttpExtractionProvider({ url, model, format, apiKey });
+}
+
+// ─── Comparison ─────────────────────────────────────────────────────────────
+
+/** A spec's text with the fields a person read from it */
+export interface LabelledSpec {
+  name: string;
+  text: string;
+  expected: JobSpecFields;
+}
+
+export interface FieldScore {
+  correct: number;
+  wrong: number; // Gave a different value
+  missed: number; // Gave nothing where a value was expected
+  spurious: number; // Gave a value where none was expected
+}
+
+export interface ProviderScore {
+  provider: string;
+  fields: Partial<Record<keyof JobSpecFields, FieldScore>>;
+  correct: number;
+  expected: number;
+  accuracy: number; // correct / expected
+  spurious: number;
+  rejected: number; // Values that failed the schema
+  failed: number; // Specs the provider errored on
+}
+
+function sameValue(a: unknown, b: unknown): boolean {
+  if (typeof a === 'string' && typeof b === 'string') {
+    return a.replace(/\s+/g, ' ').trim().toLowerCase() === b.replace(/\s+/g, ' ').trim().toLowerCase();
+  }
+  return a === b;
+}
+
+/**
+ * Score each provider on its own against labelled specs, field by field
+ */
+export async function compareProviders(
+  providers: ExtractionProvider[],
+  samples: LabelledSpec[],
+  cache: ExtractionCache | null = null
+): Promise<ProviderScore[]> {
+  const scores: ProviderScore[] = [];
+
+  for (const provider of providers) {
+    const extractor = new SpecExtractor([provider], cache);
+    const score: ProviderScore = {
+      provider: provider.name, fields: {}, correct: 0, expected: 0, accuracy: 0, spurious: 0, rejected: 0, failed: 0,
+    };
+
+    for (const sample of samples) {
+      const result = await extractor.extract(sample.text);
+      if (result.failed.length > 0) score.failed++;
+      score.rejected += result.rejected[provider.name]?.length ?? 0;
+
+      const fields = new Set([...Object.keys(sample.expected), ...Object.keys(result.fields)] as (keyof JobSpecFields)[]);
+      fields.delete('estimated_fields');
+      for (const field of fields) {
+        const fieldScore = score.fields[field] ??= { correct: 0, wrong: 0, missed: 0, spurious: 0 };
+        const expected = sample.expected[field];
+        const actual = result.fields[field];
+
+        if (expected == null) {
+          fieldScore.spurious++;
+          score.spurious++;
+          continue;
+        }
+        score.expected++;
+        if (actual == null) {
+          fieldScore.missed++;
+        } else if (sameValue(actual, expected)) {
+          fieldScore.correct++;
+          score.correct++;
+        } else {
+          fieldScore.wrong++;
+        }
+      }
+    }
+
+    score.accuracy = score.expected > 0 ? score.correct / score.expected : 0;
+    scores.push(score);
+  }
+
+  return scores;
+}
@@ -0,0 +1,95 @@
+/**
+ * Stale Jobs
+ * Decides which stored jobs a source has stopped listing. Jobs are matched
+ * on job_key rather than title, and only taken down after missing from
+ * STALE_RUNS_BEFORE_DEACTIVATION clean runs in a row, so a bad page or a
+ * timeout can't close live posts.
+ */
+
+import type { Job, ListingPlatform } from '@/types/database.types';
+import { jobKeyPlatform } from './job-identity';
+
+/** Consecutive clean runs a job must be missing from before it's deactivated */
+export const STALE_RUNS_BEFORE_DEACTIVATION = 3;
+
+export type ActiveJobRow = Pick<Job, 'id' | 'title' | 'job_key' | 'missed_runs'>;
+
+export interface StaleJob extends Pick<Job, 'id' | 'title' | 'job_key'> {
+  missed_runs: number; // Including this run, unless the source was skipped
+}
+
+/** A job a save took down, and why */
+export interface DeactivatedJob extends StaleJob {
+  source: Job['source'];
+  reason: string;
+}
+
+/**
+ * Stored active jobs from one source that a run didn't see
+ */
+export interface StaleJobs {
+  source: Job['source'];
+  skipped: string | null; // Why this run leaves the source's jobs alone, e.g. "HSE run was PARTIAL"
+  missing: StaleJob[]; // Still within the grace period, or skipped
+  deactivate: StaleJob[]; // Missing for the whole grace period
+}
+
+/**
+ * Split a source's active rows into those the run saw, those missing but
+ * still within the grace period, and those to deactivate. A skipped source's
+ * missing jobs keep their count: only clean runs move a job towards closing.
+ */
+export function classifyStaleJobs(
+  source: Job['source'],
+  activeRows: ActiveJobRow[],
+  seen: { keys: Set<string>; ids: Set<string> },
+  skipped: string | null,
+  graceRuns: number = STALE_RUNS_BEFORE_DEACTIVATION
+): StaleJobs {
+  const stale: StaleJobs = { source, skipped, missing: [], deactivate: [] };
+
+  for (const row of activeRows) {
+    if (seen.ids.has(row.id) || (row.job_key && seen.keys.has(row.job_key))) continue;
+
+    const missedRuns = (row.missed_runs ?? 0) + (skipped ? 0 : 1);
+    const job: StaleJob = { id: row.id, title: row.title, job_key: row.job_key, missed_runs: missedRuns };
+    if (!skipped && missedRuns >= graceRuns) {
+      stale.deactivate.push(job);
+    } else {
+      stale.missing.push(job);
+    }
+  }
+
+  return stale;
+}
+
+/**
+ * Drop rows from platforms no scraper in this process covers: one source can
+ * span several platforms (DIRECT_HOSPITAL is the hospital sites and
+ * DoctorJobs), and a run without a platform's scraper can't tell whether its
+ * jobs are still listed. Rows without a job key can't be told apart and stay.
+ */
+export function onlyScrapedPlatforms(rows: ActiveJobRow[], scrapedPlatforms: Set<ListingPlatform>): ActiveJobRow[] {
+  return rows.filter(row => {
+    const platform = jobKeyPlatform(row.job_key);
+    return platform === null || scrapedPlatforms.has(platform as ListingPlatform);
+  });
+}
+
+/**
+ * Stale job ids grouped by their missed-run count, one update per group
+ */
+export function groupByMissedRuns(jobs: StaleJob[]): Map<number, string[]> {
+  const idsByCount = new Map<number, string[]>();
+  for (const job of jobs) {
+    idsByCount.set(job.missed_runs, [...(idsByCount.get(job.missed_runs) || []), job.id]);
+  }
+  return idsByCount;
+}
+
+/**
+ * Reason stored on a job when it's deactivated
+ */
+export function deactivationReason(source: Job['source'], missedRuns: number): string {
+  return `Not listed in ${missedRuns} consecutive ${source} scrapes`;
+}
@@ -0,0 +1,558 @@
+/**
+ * Scrape Task Queue
+ * A queued run is split into tasks — an HSE listing page, a detail page, a
+ * Rezoomo employer — stored as they're planned and checkpointed as each one
+ * finishes. Whichever invocation comes next (the cron, the admin button, the
+ * GitHub Actions runner) claims the pending tasks its scrapers can run, so a
+ * timeout loses the tasks in flight rather than the whole run.
+ */
+
+import type { BaseScraper, ScrapedJob, ScraperStats, ScrapeTaskSpec } from './base';
+import { unstoredCaptures, type CaptureStore } from './failure-captures';
+import type { ScrapeCapture, ScrapeRun, ScrapeTask } from '@/types/database.types';
+import { supabaseAdmin } from '@/lib/supabase';
+
+/** Attempts at a task before it's failed for good */
+export const MAX_TASK_ATTEMPTS = 3;
+
+/** How long a task's lease outlasts the claiming invocation's deadline */
+export const TASK_LEASE_MS = 5 * 60_000;
+
+/** Tasks no runner has picked up in this long are given up on, so the run can finish */
+export const TASK_MAX_WAIT_MS = 60 * 60_000;
+
+/** How long after the deadline to wait for a task to wind down */
+const TASK_GRACE_MS = 20_000;
+
+/** Tasks claimed at a time — small, so a crashed invocation strands few */
+const CLAIM_BATCH_SIZE = 10;
+
+/**
+ * A task as the worker sees it: the summary row plus what it needs to run
+ * and what it produced
+ */
+export interface QueuedTask extends ScrapeTask {
+  platform: ScrapedJob['source_platform'];
+  payload: Record<string, unknown> | null;
+  jobs: ScrapedJob[];
+  stats: ScraperStats | null;
+  captures: ScrapeCapture[];
+  locked_until: string | null;
+}
+
+export interface NewTask extends ScrapeTaskSpec {
+  scraper: string;
+  platform: ScrapedJob['source_platform'];
+}
+
+/** Fields written back when a claimed task is finished or released */
+export type TaskUpdate = Partial<Pick<QueuedTask,
+  | 'status'
+  | 'attempts'
+  | 'jobs'
+  | 'job_count'
+  | 'stats'
+  | 'captures'
+  | 'error'
+  | 'locked_until'
+  | 'completed_at'
+>>;
+
+export interface TaskStore {
+  /** The run still in progress, if any */
+  activeRun(): Promise<ScrapeRun | null>;
+  /** The most recently started run, finished or not */
+  latestRun(): Promise<ScrapeRun | null>;
+  /** Start a run, or return the active one if another invocation got there first */
+  createRun(scrapers: string[]): Promise<ScrapeRun>;
+  /** Add scrapers to a run's list — for a runner joining with scrapers the run lacks */
+  addScrapers(runId: string, scrapers: string[]): Promise<void>;
+  /** Mark a run complete; false if it already was, i.e. another invocation is saving it */
+  completeRun(runId: string): Promise<boolean>;
+  /** Queue tasks, ignoring any the run already has (same scraper, kind and key) */
+  addTasks(runId: string, tasks: NewTask[]): Promise<void>;
+  /**
+   * Lease up to `limit` of the run's pending tasks for these scrapers — or
+   * running ones whose lease ran out — counting an attempt on each
+   */
+  claim(runId: string, scrapers: string[], limit: number, leaseMs: number): Promise<QueuedTask[]>;
+  updateTask(taskId: string, update: TaskUpdate): Promise<void>;
+  /** Fail open tasks created before `before` that nobody holds a lease on */
+  failWaitingTasks(runId: string, before: Date, reason: string): Promise<number>;
+  /** A run's tasks in queue order, without their jobs */
+  listTasks(runId: string): Promise<ScrapeTask[]>;
+  /** A run's tasks in queue order, with their jobs, stats and captures */
+  loadResults(runId: string): Promise<QueuedTask[]>;
+}
+
+export interface QueueProgress {
+  run: ScrapeRun;
+  total: number;
+  pending: number;
+  running: number;
+  done: number;
+  failed: number;
+  jobs: number;
+  scrapers: { scraper: string; total: number; done: number; failed: number; jobs: number }[];
+}
+
+/**
+ * Task counts for a run, overall and per scraper (in the run's order)
+ */
+export function summarizeProgress(run: ScrapeRun, tasks: ScrapeTask[]): QueueProgress {
+  const count = (status: ScrapeTask['status']) => tasks.filter(task => task.status === status).length;
+  const names = [...run.scrapers, ...tasks.map(task => task.scraper).filter(name => !run.scrapers.includes(name))];
+
+  return {
+    run,
+    total: tasks.length,
+    pending: count('PENDING'),
+    running: count('RUNNING'),
+    done: count('DONE'),
+    failed: count('FAILED'),
+    jobs: tasks.reduce((total, task) => total + task.job_count, 0),
+    scrapers: Array.from(new Set(names), scraper => {
+      const own = tasks.filter(task => task.scraper === scraper);
+      return {
+        scraper,
+        total: own.length,
+        done: own.filter(task => task.status === 'DONE').length,
+        failed: own.filter(task => task.status === 'FAILED').length,
+        jobs: own.reduce((total, task) => total + task.job_count, 0),
+      };
+    }),
+  };
+}
+
+export interface WorkOptions {
+  deadline: number; // No task is started after this
+  maxTasks?: number; // Stop after claiming this many
+  captureStore?: CaptureStore | null;
+}
+
+/**
+ * Claim and run a run's tasks for these scrapers until none are left, the
+ * deadline passes or `maxTasks` have been claimed. Tasks for scrapers on
+ * different hosts run concurrently; those sharing a host run one after
+ * another. Returns how many tasks were claimed.
+ */
+export async function workTasks(
+  store: TaskStore,
+  runId: string,
+  scrapers: Map<string, BaseScraper>,
+  options: WorkOptions
+): Promise<number> {
+  const maxTasks = options.maxTasks ?? Infinity;
+  let claimedCount = 0;
+
+  while (Date.now() < options.deadline && claimedCount < maxTasks) {
+    // Leases cover the rest of this invocation, so nobody else reruns a task it has yet to reach
+    const leaseMs = options.deadline - Date.now() + TASK_LEASE_MS;
+    const limit = Math.min(CLAIM_BATCH_SIZE, maxTasks - claimedCount);
+    const claimed = await store.claim(runId, Array.from(scrapers.keys()), limit, leaseMs);
+    if (claimed.length === 0) break;
+    claimedCount += claimed.length;
+
+    const byHost = new Map<string, QueuedTask[]>();
+    for (const task of claimed) {
+      const host = scrapers.get(task.scraper)!.host;
+      byHost.set(host, [...(byHost.get(host) || []), task]);
+    }
+    await Promise.all(Array.from(byHost.values()).map(async tasks => {
+      for (const task of tasks) {
+        await runQueuedTask(store, task, scrapers.get(task.scraper)!, options);
+      }
+    }));
+  }
+
+  return claimedCount;
+}
+
+/**
+ * Run one claimed task and checkpoint it: DONE with its jobs, back to
+ * PENDING for a retry, or FAILED once its attempts are used up
+ */
+async function runQueuedTask(
+  store: TaskStore,
+  task: QueuedTask,
+  scraper: BaseScraper,
+  { deadline, captureStore = null }: WorkOptions
+): Promise<void> {
+  const label = `${task.scraper} ${task.kind} ${task.key}`;
+
+  // Back in the queue without using up an attempt
+  const release = () => store.updateTask(task.id, { status: 'PENDING', attempts: task.attempts - 1, locked_until: null });
+
+  // Claimed again after the invocation running it died
+  if (task.attempts > MAX_TASK_ATTEMPTS) {
+    await store.updateTask(task.id, {
+      status: 'FAILED',
+      error: task.error || `Gave up after ${MAX_TASK_ATTEMPTS} attempts`,
+      locked_until: null,
+      completed_at: new Date().toISOString(),
+    });
+    return;
+  }
+  // Claimed in this batch, but the deadline came first
+  if (Date.now() >= deadline) {
+    await release();
+    return;
+  }
+
+  scraper.resetStats();
+  scraper.setDeadline(deadline);
+  let timer: ReturnType<typeof setTimeout> | undefined;
+
+  try {
+    const outcome = await Promise.race([
+      scraper.runTask({ kind: task.kind, key: task.key, payload: task.payload ?? undefined }),
+      new Promise<never>((_, reject) => {
+        timer = setTimeout(
+          () => reject(new Error(`${label} was still running at the run deadline`)),
+          Math.max(0, deadline - Date.now()) + TASK_GRACE_MS
+        );
+      }),
+    ]);
+
+    // Cut short by the deadline: what it saw is incomplete, so run it again later
+    if (scraper.getStats().skipped_pages > 0) {
+      await release();
+      return;
+    }
+
+    // Follow-up tasks are queued before this one is checkpointed, so a crash
+    // in between reruns the task rather than losing them
+    await store.addTasks(task.run_id, (outcome.tasks || []).map(spec => ({
+      ...spec,
+      scraper: task.scraper,
+      platform: task.platform,
+    })));
+    await store.updateTask(task.id, {
+      status: 'DONE',
+      jobs: outcome.jobs,
+      job_count: outcome.jobs.length,
+      stats: scraper.getStats(),
+      captures: await storeCaptures(task, scraper, captureStore),
+      error: outcome.error || null,
+      locked_until: null,
+      completed_at: new Date().toISOString(),
+    });
+  } catch (error) {
+    if (scraper.getStats().skipped_pages > 0) {
+      await release();
+      return;
+    }
+
+    const retry = task.attempts < MAX_TASK_ATTEMPTS;
+    console.error(`${label} failed (attempt ${task.attempts}): ${(error as Error).message}`);
+    await store.updateTask(task.id, {
+      status: retry ? 'PENDING' : 'FAILED',
+      stats: scraper.getStats(),
+      captures: await storeCaptures(task, scraper, captureStore),
+      error: (error as Error).message,
+      locked_until: null,
+      completed_at: retry ? null : new Date().toISOString(),
+    });
+  } finally {
+    clearTimeout(timer);
+  }
+}
+
+/**
+ * Upload a task's failure captures straight away — the run may be logged
+ * by another invocation
+ */
+async function storeCaptures(
+  task: QueuedTask,
+  scraper: BaseScraper,
+  captureStore: CaptureStore | null
+): Promise<ScrapeCapture[]> {
+  const captures = scraper.takeCaptures();
+  if (captures.length === 0) return [];
+  try {
+    return captureStore
+      ? await captureStore.save(task.run_id, `${task.scraper}-${task.id}`, captures)
+      : unstoredCaptures(captures);
+  } catch (error) {
+    console.error(`Error storing ${task.scraper} failure captures:`, (error as Error).message);
+    return unstoredCaptures(captures);
+  }
+}
+
+function summaryRow(task: QueuedTask): ScrapeTask {
+  const { id, run_id, scraper, kind, key, status, attempts, job_count, error, created_at, completed_at } = task;
+  return { id, run_id, scraper, kind, key, status, attempts, job_count, error, created_at, completed_at };
+}
+
+/**
+ * In-process queue — the stand-in for Supabase in tests and local runs
+ */
+export class MemoryTaskStore implements TaskStore {
+  private runs: ScrapeRun[] = [];
+  private tasks: QueuedTask[] = [];
+
+  async activeRun(): Promise<ScrapeRun | null> {
+    return this.runs.find(run => run.status === 'RUNNING') || null;
+  }
+
+  async latestRun(): Promise<ScrapeRun | null> {
+    return this.runs[this.runs.length - 1] || null;
+  }
+
+  async createRun(scrapers: string[]): Promise<ScrapeRun> {
+    const active = await this.activeRun();
+    if (active) return active;
+
+    const run: ScrapeRun = {
+      id: crypto.randomUUID(),
+      status: 'RUNNING',
+      scrapers: [...scrapers],
+      created_at: new Date().toISOString(),
+      completed_at: null,
+    };
+    this.runs.push(run);
+    return run;
+  }
+
+  async addScrapers(runId: string, scrapers: string[]): Promise<void> {
+    const run = this.runs.find(r => r.id === runId);
+    if (run) run.scrapers = Array.from(new Set([...run.scrapers, ...scrapers]));
+  }
+
+  async completeRun(runId: string): Promise<boolean> {
+    const run = this.runs.find(r => r.id === runId);
+    if (!run || run.status !== 'RUNNING') return false;
+    run.status = 'COMPLETE';
+    run.completed_at = new Date().toISOString();
+    return true;
+  }
+
+  async addTasks(runId: string, tasks: NewTask[]): Promise<void> {
+    for (const { scraper, platform, kind, key, payload } of tasks) {
+      const exists = this.tasks.some(t => t.run_id === runId && t.scraper === scraper && t.kind === kind && t.key === key);
+      if (exists) continue;
+      this.tasks.push({
+        id: crypto.randomUUID(),
+        run_id: runId,
+        scraper,
+        platform,
+        kind,
+        key,
+        payload: payload ?? null,
+        status: 'PENDING',
+        attempts: 0,
+        jobs: [],
+        job_count: 0,
+        stats: null,
+        captures: [],
+        error: null,
+        locked_until: null,
+        created_at: new Date().toISOString(),
+        completed_at: null,
+      });
+    }
+  }
+
+  async claim(runId: string, scrapers: string[], limit: number, leaseMs: number): Promise<QueuedTask[]> {
+    const now = new Date();
+    const claimable = this.tasks.filter(task =>
+      task.run_id === runId &&
+      scrapers.includes(task.scraper) &&
+      (task.status === 'PENDING' || (task.status === 'RUNNING' && new Date(task.locked_until!) < now))
+    ).slice(0, limit);
+
+    for (const task of claimable) {
+      task.status = 'RUNNING';
+      task.attempts += 1;
+      task.locked_until = new Date(now.getTime() + leaseMs).toISOString();
+    }
+    return claimable.map(task => ({ ...task }));
+  }
+
+  async updateTask(taskId: string, update: TaskUpdate): Promise<void> {
+    const task = this.tasks.find(t => t.id === taskId);
+    if (task) Object.assign(task, update);
+  }
+
+  async failWaitingTasks(runId: string, before: Date, reason: string): Promise<number> {
+    const now = new Date();
+    const waiting = this.tasks.filter(task =>
+      task.run_id === runId &&
+      new Date(task.created_at) < before &&
+      (task.status === 'PENDING' || (task.status === 'RUNNING' && new Date(task.locked_until!) < now))
+    );
+
+    for (const task of waiting) {
+      Object.assign(task, { status: 'FAILED', error: task.error || reason, locked_until: null, completed_at: now.toISOString() });
+    }
+    return waiting.length;
+  }
+
+  async listTasks(runId: string): Promise<ScrapeTask[]> {
+    return this.tasks.filter(task => task.run_id === runId).map(summaryRow);
+  }
+
+  async loadResults(runId: string): Promise<QueuedTask[]> {
+    return this.tasks.filter(task => task.run_id === runId).map(task => ({ ...task }));
+  }
+}
+
+const SUMMARY_COLUMNS = 'id, run_id, scraper, kind, key, status, attempts, job_count, error, created_at, completed_at';
+
+/** Rows per request when reading a run's tasks — PostgREST caps responses at 1000 */
+const PAGE_SIZE = 500;
+
+/**
+ * The scrape_runs and scrape_tasks tables. Works the same against a local
+ * `supabase start` stack as against production.
+ */
+export class SupabaseTaskStore implements TaskStore {
+  /**
+   * Returns null when the service role key isn't configured
+   */
+  static fromEnv(): SupabaseTaskStore | null {
+    if (!process.env.NEXT_PUBLIC_SUPABASE_URL || !process.env.SUPABASE_SERVICE_ROLE_KEY) return null;
+    return new SupabaseTaskStore();
+  }
+
+  async activeRun(): Promise<ScrapeRun | null> {
+    const { data, error } = await supabaseAdmin
+      .from('scrape_runs')
+      .select('*')
+      .eq('status', 'RUNNING')
+      .maybeSingle();
+
+    if (error) throw error;
+    return data as ScrapeRun | null;
+  }
+
+  async latestRun(): Promise<ScrapeRun | null> {
+    const { data, error } = await supabaseAdmin
+      .from('scrape_runs')
+      .select('*')
+      .order('created_at', { ascending: false })
+      .limit(1)
+      .maybeSingle();
+
+    if (error) throw error;
+    return data as ScrapeRun | null;
+  }
+
+  async createRun(scrapers: string[]): Promise<ScrapeRun> {
+    const { data, error } = await supabaseAdmin
+      .from('scrape_runs')
+      .insert({ scrapers })
+      .select()
+      .single();
+
+    // Only one run can be RUNNING (unique index) — another invocation started it first
+    if (error?.code === '23505') {
+      const active = await this.activeRun();
+      if (active) return active;
+    }
+    if (error) throw error;
+    return data as ScrapeRun;
+  }
+
+  async addScrapers(runId: string, scrapers: string[]): Promise<void> {
+    const { data, error } = await supabaseAdmin.from('scrape_runs').select('scrapers').eq('id', runId).single();
+    if (error) throw error;
+
+    const merged = Array.from(new Set([...(data.scrapers as string[]), ...scrapers]));
+    const { error: updateError } = await supabaseAdmin.from('scrape_runs').update({ scrapers: merged }).eq('id', runId);
+    if (updateError) throw updateError;
+  }
+
+  async completeRun(runId: string): Promise<boolean> {
+    const { data, error } = await supabaseAdmin
+      .from('scrape_runs')
+      .update({ status: 'COMPLETE', completed_at: new Date().toISOString() })
+      .eq('id', runId)
+      .eq('status', 'RUNNING')
+      .select('id');
+
+    if (error) throw error;
+    return (data || []).length > 0;
+  }
+
+  async addTasks(runId: string, tasks: NewTask[]): Promise<void> {
+    if (tasks.length === 0) return;
+
+    const rows = tasks.map(({ scraper, platform, kind, key, payload }) => ({
+      run_id: runId,
+      scraper,
+      platform,
+      kind,
+      key,
+      payload: payload ?? null,
+    }));
+    const { error } = await supabaseAdmin
+      .from('scrape_tasks')
+      .upsert(rows, { onConflict: 'run_id,scraper,kind,key', ignoreDuplicates: true });
+
+    if (error) throw error;
+  }
+
+  async claim(runId: string, scrapers: string[], limit: number, leaseMs: number): Promise<QueuedTask[]> {
+    const { data, error } = await supabaseAdmin.rpc('claim_scrape_tasks', {
+      p_run_id: runId,
+      p_scrapers: scrapers,
+      p_limit: limit,
+      p_lease_seconds: Math.ceil(leaseMs / 1000),
+    });
+
+    if (error) throw error;
+    return (data || []) as QueuedTask[];
+  }
+
+  async updateTask(taskId: string, update: TaskUpdate): Promise<void> {
+    const { error } = await supabaseAdmin.from('scrape_tasks').update(update).eq('id', taskId);
+    if (error) throw error;
+  }
+
+  async failWaitingTasks(runId: string, before: Date, reason: string): Promise<number> {
+    const now = new Date().toISOString();
+    let failed = 0;
+
+    // Tasks that already failed an attempt keep that error; the rest get the reason
+    for (const hasError of [true, false]) {
+      const query = supabaseAdmin
+        .from('scrape_tasks')
+        .update(hasError
+          ? { status: 'FAILED', locked_until: null, completed_at: now }
+          : { status: 'FAILED', error: reason, locked_until: null, completed_at: now })
+        .eq('run_id', runId)
+        .lt('created_at', before.toISOString())
+        .or(`status.eq.PENDING,and(status.eq.RUNNING,locked_until.lt.${now})`);
+      const { data, error } = await (hasError ? query.not('error', 'is', null) : query.is('error', null)).select('id');
+
+      if (error) throw error;
+      failed += (data || []).length;
+    }
+    return failed;
+  }
+
+  async listTasks(runId: string): Promise<ScrapeTask[]> {
+    return this.selectTasks<ScrapeTask>(runId, SUMMARY_COLUMNS);
+  }
+
+  async loadResults(runId: string): Promise<QueuedTask[]> {
+    return this.selectTasks<QueuedTask>(runId, '*');
+  }
+
+  private async selectTasks<T>(runId: string, columns: string): Promise<T[]> {
+    const rows: T[] = [];
+    for (let from = 0; ; from += PAGE_SIZE) {
+      const { data, error } = await supabaseAdmin
+        .from('scrape_tasks')
+        .select(columns)
+        .eq('run_id', runId)
+        .order('created_at')
+        .range(from, from + PAGE_SIZE - 1);
+
+      if (error) throw error;
+      rows.push(...((data || []) as T[]));
+      if (!data || data.length < PAGE_SIZE) return rows;
+    }
+  }
+}
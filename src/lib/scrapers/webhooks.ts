@@ -0,0 +1,262 @@
+/**
+ * Run Webhooks
+ * Outbound notifications to the endpoints admins register in
+ * /admin/webhooks: `run.completed` after every saved run, and
+ * `source.failed` for each source that failed or only partly ran in it.
+ * Deliveries are signed with the endpoint's secret, retried with backoff,
+ * and recorded in scrape_webhook_deliveries.
+ */
+
+import { createHmac, randomUUID, timingSafeEqual } from 'crypto';
+import type { OrchestrationResult, SourceBreakdown } from './orchestrator';
+import type { DeactivatedJob } from './stale-jobs';
+import type { Job, ScrapeWebhook, ScrapeWebhookDelivery, ScrapeWebhookEvent } from '@/types/database.types';
+import { supabaseAdmin } from '@/lib/supabase';
+
+/** Attempts per delivery, the first included */
+export const MAX_DELIVERY_ATTEMPTS = 4;
+
+/** Wait before the first retry; each later retry waits four times as long (1s, 4s, 16s) */
+const RETRY_BASE_DELAY_MS = 1000;
+
+/** An endpoint taking longer than this counts as a failed attempt */
+const DELIVERY_TIMEOUT_MS = 10_000;
+
+/** Signatures older than this are rejected by verifyWebhookSignature() */
+const SIGNATURE_TOLERANCE_SECONDS = 5 * 60;
+
+export const SIGNATURE_HEADER = 'X-MedMatch-Signature';
+
+/** An added job as it appears in a webhook */
+export type WebhookJob = Pick<
+  Job,
+  'id' | 'job_key' | 'title' | 'grade' | 'specialty' | 'hospital_name' | 'county' | 'source' | 'application_deadline' | 'application_url'
+>;
+
+export function toWebhookJob(job: Partial<Job>): WebhookJob {
+  return {
+    id: job.id!,
+    job_key: job.job_key,
+    title: job.title!,
+    grade: job.grade!,
+    specialty: job.specialty!,
+    hospital_name: job.hospital_name!,
+    county: job.county!,
+    source: job.source!,
+    application_deadline: job.application_deadline!,
+    application_url: job.application_url,
+  };
+}
+
+export interface RunCompletedPayload {
+  event: 'run.completed';
+  sent_at: string;
+  run: OrchestrationResult;
+  sources: SourceBreakdown[];
+  jobs: { added: WebhookJob[]; deactivated: DeactivatedJob[] };
+}
+
+export interface SourceFailedPayload {
+  event: 'source.failed';
+  sent_at: string;
+  run_id: string;
+  source: SourceBreakdown;
+}
+
+export type WebhookPayload = RunCompletedPayload | SourceFailedPayload;
+
+export type NewDelivery = Omit<ScrapeWebhookDelivery, 'id'>;
+
+/**
+ * The webhooks a finished run sends: one `run.completed`, then one
+ * `source.failed` per source whose log row is FAILURE or PARTIAL
+ */
+export function runWebhookPayloads(
+  run: OrchestrationResult,
+  sources: SourceBreakdown[],
+  jobs: RunCompletedPayload['jobs']
+): WebhookPayload[] {
+  const sentAt = new Date().toISOString();
+  return [
+    { event: 'run.completed', sent_at: sentAt, run, sources, jobs },
+    ...sources
+      .filter(source => source.status !== 'SUCCESS')
+      .map(source => ({ event: 'source.failed' as const, sent_at: sentAt, run_id: run.run_id, source })),
+  ];
+}
+
+/**
+ * Signature header value for a body: `t=<unix seconds>,v1=<hex HMAC-SHA256 of "t.body">`
+ */
+export function signWebhook(secret: string, body: string, timestamp: number = Math.floor(Date.now() / 1000)): string {
+  const digest = createHmac('sha256', secret).update(`${timestamp}.${body}`).digest('hex');
+  return `t=${timestamp},v1=${digest}`;
+}
+
+/**
+ * Check a delivery's signature header the way a receiver should: the HMAC
+ * matches and the timestamp is recent
+ */
+export function verifyWebhookSignature(
+  secret: string,
+  body: string,
+  header: string,
+  now: number = Math.floor(Date.now() / 1000)
+): boolean {
+  const parts = new Map(header.split(',').map(part => part.split('=', 2) as [string, string]));
+  const timestamp = Number(parts.get('t'));
+  const signature = parts.get('v1');
+  if (!Number.isFinite(timestamp) || !signature) return false;
+  if (Math.abs(now - timestamp) > SIGNATURE_TOLERANCE_SECONDS) return false;
+
+  const expected = Buffer.from(signWebhook(secret, body, timestamp).split('v1=')[1], 'hex');
+  const given = Buffer.from(signature, 'hex');
+  return given.length === expected.length && timingSafeEqual(given, expected);
+}
+
+/** Worth another attempt: the endpoint is down, overloaded or timed out */
+function isRetryable(status: number): boolean {
+  return status === 408 || status === 429 || status >= 500;
+}
+
+export interface DeliveryOptions {
+  fetchImpl?: typeof fetch;
+  sleep?: (ms: number) => Promise<void>;
+  deadline?: number; // Epoch ms: no retry starts, and no attempt runs, past this
+}
+
+/**
+ * POST a payload to one endpoint, retrying network errors, timeouts, 429s
+ * and 5xx responses with backoff. Other 4xx responses fail straight away,
+ * and a retry that couldn't finish before the deadline isn't made.
+ */
+export async function deliverWebhook(
+  webhook: Pick<ScrapeWebhook, 'id' | 'url' | 'secret'>,
+  payload: WebhookPayload,
+  {
+    fetchImpl = fetch,
+    sleep = ms => new Promise(resolve => setTimeout(resolve, ms)),
+    deadline = Infinity,
+  }: DeliveryOptions = {}
+): Promise<NewDelivery> {
+  const deliveryId = randomUUID();
+  const body = JSON.stringify(payload);
+  const delivery: NewDelivery = {
+    webhook_id: webhook.id,
+    event: payload.event,
+    run_id: payload.event === 'run.completed' ? payload.run.run_id : payload.run_id,
+    status: 'FAILED',
+    attempts: 0,
+    response_status: null,
+    error: null,
+    created_at: new Date().toISOString(),
+    completed_at: '',
+  };
+
+  while (delivery.attempts < MAX_DELIVERY_ATTEMPTS) {
+    if (delivery.attempts > 0) {
+      const wait = RETRY_BASE_DELAY_MS * 4 ** (delivery.attempts - 1);
+      if (Date.now() + wait >= deadline) break;
+      await sleep(wait);
+    }
+    delivery.attempts++;
+
+    try {
+      const response = await fetchImpl(webhook.url, {
+        method: 'POST',
+        headers: {
+          'Content-Type': 'application/json',
+          'User-Agent': 'MedMatch-IE-Webhooks/1.0',
+          'X-MedMatch-Event': payload.event,
+          'X-MedMatch-Delivery': deliveryId,
+          [SIGNATURE_HEADER]: signWebhook(webhook.secret, body),
+        },
+        body,
+        signal: AbortSignal.timeout(Math.max(1, Math.min(DELIVERY_TIMEOUT_MS, deadline - Date.now()))),
+      });
+      delivery.response_status = response.status;
+
+      if (response.ok) {
+        delivery.status = 'DELIVERED';
+        delivery.error = null;
+        break;
+      }
+      delivery.error = `HTTP ${response.status} ${response.statusText}`.trim();
+      if (!isRetryable(response.status)) break;
+    } catch (error) {
+      delivery.response_status = null;
+      delivery.error = (error as Error).message;
+    }
+  }
+
+  delivery.completed_at = new Date().toISOString();
+  return delivery;
+}
+
+export interface WebhookStore {
+  /** Active endpoints subscribed to an event */
+  endpointsFor(event: ScrapeWebhookEvent): Promise<ScrapeWebhook[]>;
+  recordDeliveries(deliveries: NewDelivery[]): Promise<void>;
+}
+
+/**
+ * Send each payload to every endpoint subscribed to its event and record
+ * the deliveries. Payloads and endpoints are all sent to concurrently, so
+ * the whole dispatch takes no longer than its slowest delivery; failures
+ * are logged, never thrown, so a broken endpoint can't fail the run.
+ */
+export async function dispatchWebhooks(
+  store: WebhookStore,
+  payloads: WebhookPayload[],
+  options: DeliveryOptions = {}
+): Promise<NewDelivery[]> {
+  const perPayload = await Promise.all(payloads.map(async payload => {
+    try {
+      const endpoints = await store.endpointsFor(payload.event);
+      return await Promise.all(endpoints.map(endpoint => deliverWebhook(endpoint, payload, options)));
+    } catch (error) {
+      console.error(`Error sending ${payload.event} webhooks:`, (error as Error).message);
+      return [];
+    }
+  }));
+  const deliveries = perPayload.flat();
+
+  for (const failed of deliveries.filter(delivery => delivery.status === 'FAILED')) {
+    console.error(`Webhook ${failed.event} to ${failed.webhook_id} failed after ${failed.attempts} attempt(s): ${failed.error}`);
+  }
+  try {
+    if (deliveries.length > 0) await store.recordDeliveries(deliveries);
+  } catch (error) {
+    console.error('Error recording webhook deliveries:', (error as Error).message);
+  }
+  return deliveries;
+}
+
+/**
+ * Endpoints in scrape_webhooks, deliveries logged to scrape_webhook_deliveries
+ */
+export class SupabaseWebhookStore implements WebhookStore {
+  /**
+   * Returns null when the service role key isn't configured
+   */
+  static fromEnv(): SupabaseWebhookStore | null {
+    if (!process.env.NEXT_PUBLIC_SUPABASE_URL || !process.env.SUPABASE_SERVICE_ROLE_KEY) return null;
+    return new SupabaseWebhookStore();
+  }
+
+  async endpointsFor(event: ScrapeWebhookEvent): Promise<ScrapeWebhook[]> {
+    const { data, error } = await supabaseAdmin
+      .from('scrape_webhooks')
+      .select('*')
+      .eq('is_active', true)
+      .contains('events', [event]);
+
+    if (error) throw error;
+    return (data || []) as ScrapeWebhook[];
+  }
+
+  async recordDeliveries(deliveries: NewDelivery[]): Promise<void> {
+    const { error } = await supabaseAdmin.from('scrape_webhook_deliveries').insert(deliveries);
+    if (error) throw error;
+  }
+}
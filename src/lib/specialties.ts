@@ -0,0 +1,122 @@
+/**
+ * Specialty Taxonomy
+ * Specialties form a two-level tree: a parent specialty (General Medicine,
+ * General Surgery, Anaesthetics...) and its sub-specialties. Jobs are filed
+ * under the most specific specialty their title names, and filtering by a
+ * parent includes its sub-specialties.
+ */
+
+import type { SpecialtyType } from '@/types/database.types';
+
+export interface SpecialtyNode {
+  /** Null for a top-level specialty */
+  parent: SpecialtyType | null;
+  /** How job text names the specialty (lowercase), matched anywhere in the text */
+  synonyms: string[];
+  /** Matched only as whole words, so "ENT" doesn't match "treatment" */
+  abbreviations?: string[];
+}
+
+/**
+ * Every specialty with its parent and synonyms. Order matters: text is
+ * checked against sub-specialties, then top-level specialties, each in the
+ * order listed here. A post naming a specialty and one of its own
+ * sub-specialties ("Anaesthesia and Intensive Care") is the parent's.
+ */
+export const SPECIALTY_TAXONOMY: Record<SpecialtyType, SpecialtyNode> = {
+  EMERGENCY_MEDICINE: { parent: null, synonyms: ['emergency medicine', 'a&e'] },
+  ANAESTHETICS: { parent: null, synonyms: ['anaesthesia', 'anaesthetic'] },
+  PAEDIATRICS: { parent: null, synonyms: ['paediatric', 'paediatrics'] },
+  OBSTETRICS_GYNAECOLOGY: { parent: null, synonyms: ['obstetrics', 'gynaecology'] },
+  PSYCHIATRY: { parent: null, synonyms: ['psychiatry'] },
+  RADIOLOGY: { parent: null, synonyms: ['radiology'] },
+  PATHOLOGY: { parent: null, synonyms: ['pathology'] },
+  ONCOLOGY: { parent: null, synonyms: ['oncology'] },
+  OPHTHALMOLOGY: { parent: null, synonyms: ['ophthalmology'] },
+  GENERAL_PRACTICE: { parent: null, synonyms: ['general practice', 'gp training'], abbreviations: ['gp', 'icgp'] },
+  PUBLIC_HEALTH: { parent: null, synonyms: ['public health'] },
+  // "General medicine" and plain "medicine"/"surgery" are the broad terms in field-confidence.ts
+  GENERAL_MEDICINE: { parent: null, synonyms: ['internal medicine', 'acute medicine'] },
+  GENERAL_SURGERY: {
+    parent: null,
+    synonyms: ['colorectal', 'breast surgery', 'upper gi', 'hepatobiliary', 'endocrine surgery'],
+  },
+  OTHER: { parent: null, synonyms: [] },
+
+  CARDIOLOGY: { parent: 'GENERAL_MEDICINE', synonyms: ['cardiology'] },
+  RESPIRATORY: { parent: 'GENERAL_MEDICINE', synonyms: ['respiratory'] },
+  GASTROENTEROLOGY: { parent: 'GENERAL_MEDICINE', synonyms: ['gastroenterology'] },
+  ENDOCRINOLOGY: { parent: 'GENERAL_MEDICINE', synonyms: ['endocrinology'] },
+  NEUROLOGY: { parent: 'GENERAL_MEDICINE', synonyms: ['neurology'] },
+  DERMATOLOGY: { parent: 'GENERAL_MEDICINE', synonyms: ['dermatology'] },
+  GERIATRICS: {
+    parent: 'GENERAL_MEDICINE',
+    synonyms: ['geriatric', 'gerontology', 'medicine for the elderly', 'medicine of the elderly', 'care of the elderly', 'medicine for older'],
+  },
+  NEPHROLOGY: { parent: 'GENERAL_MEDICINE', synonyms: ['nephrology', 'renal medicine'] },
+  RHEUMATOLOGY: { parent: 'GENERAL_MEDICINE', synonyms: ['rheumatology'] },
+  HAEMATOLOGY: { parent: 'GENERAL_MEDICINE', synonyms: ['haematology', 'hematology'] },
+  PALLIATIVE_MEDICINE: { parent: 'GENERAL_MEDICINE', synonyms: ['palliative'] },
+  ORTHOPAEDICS: { parent: 'GENERAL_SURGERY', synonyms: ['orthopaedic'] },
+  UROLOGY: { parent: 'GENERAL_SURGERY', synonyms: ['urology'] },
+  ENT: { parent: 'GENERAL_SURGERY', synonyms: ['otolaryngology', 'ear nose'], abbreviations: ['ent'] },
+  PLASTIC_SURGERY: { parent: 'GENERAL_SURGERY', synonyms: ['plastic surgery', 'plastics', 'plastic and reconstructive'] },
+  VASCULAR_SURGERY: { parent: 'GENERAL_SURGERY', synonyms: ['vascular surgery'] },
+  NEUROSURGERY: { parent: 'GENERAL_SURGERY', synonyms: ['neurosurgery'] },
+  // Not plain "cardiothoracic": "Cardiothoracic Anaesthesia" is anaesthetics
+  CARDIOTHORACIC_SURGERY: { parent: 'GENERAL_SURGERY', synonyms: ['cardiothoracic surgery', 'cardiac surgery', 'thoracic surgery'] },
+  // Before intensive care, so "Neonatal Intensive Care" is neonatology
+  NEONATOLOGY: { parent: 'PAEDIATRICS', synonyms: ['neonatal', 'neonatology'], abbreviations: ['nicu'] },
+  INTENSIVE_CARE: { parent: 'ANAESTHETICS', synonyms: ['intensive care', 'critical care'], abbreviations: ['icu', 'itu'] },
+};
+
+const ALL_SPECIALTIES = Object.keys(SPECIALTY_TAXONOMY) as SpecialtyType[];
+
+/**
+ * The order job text is checked in: sub-specialties before parents, so
+ * "Registrar in Respiratory Medicine" is Respiratory, not General Medicine
+ */
+export const SPECIALTY_MATCH_ORDER: SpecialtyType[] = [
+  ...ALL_SPECIALTIES.filter(s => SPECIALTY_TAXONOMY[s].parent),
+  ...ALL_SPECIALTIES.filter(s => !SPECIALTY_TAXONOMY[s].parent),
+];
+
+/**
+ * The top-level specialty a specialty falls under (itself if it has no parent)
+ */
+export function parentSpecialty(specialty: SpecialtyType): SpecialtyType {
+  return SPECIALTY_TAXONOMY[specialty].parent ?? specialty;
+}
+
+/**
+ * A specialty's sub-specialties, in taxonomy order
+ */
+export function subSpecialties(specialty: SpecialtyType): SpecialtyType[] {
+  return ALL_SPECIALTIES.filter(s => SPECIALTY_TAXONOMY[s].parent === specialty);
+}
+
+/**
+ * The selected specialties plus the sub-specialties of any selected parent
+ */
+export function withSubSpecialties(selected: SpecialtyType[]): SpecialtyType[] {
+  return Array.from(new Set(selected.flatMap(s => [s, ...subSpecialties(s)])));
+}
+
+/**
+ * Whether a job's specialty passes a specialty filter; a parent matches its sub-specialties
+ */
+export function matchesSpecialties(specialty: SpecialtyType, selected: SpecialtyType[]): boolean {
+  return selected.includes(specialty) || selected.includes(parentSpecialty(specialty));
+}
+
+/**
+ * Specialties as the filters list them: each parent followed by its
+ * sub-specialties, keeping only those given and the parents they need
+ */
+export function specialtyFilterOptions(present: SpecialtyType[]): SpecialtyType[] {
+  const shown = new Set(present.flatMap(s => [s, parentSpecialty(s)]));
+  return ALL_SPECIALTIES
+    .filter(s => !SPECIALTY_TAXONOMY[s].parent)
+    .flatMap(parent => [parent, ...subSpecialties(parent)])
+    .filter(s => shown.has(s));
+}
@@ -4,7 +4,11 @@
  */
 
 import { createClient } from '@supabase/supabase-js';
-import type { Job, UserApplication, ApplicationStatus, AccommodationListing, AccommodationInquiry } from '@/types/database.types';
+import type { HospitalAlias, HospitalNameLogEntry, Job, JobFieldReview, JobOverride, JobRevision, OverridableField, ScoredField, ScrapeRun, ScrapeTask, ScrapeWebhook, ScrapeWebhookDelivery, ScrapeWebhookEvent, ScrapingLog, SpecialtyType, TrainingIntake, UserApplication, ApplicationStatus, AccommodationListing, AccommodationInquiry } from '@/types/database.types';
+import { applyOverrides, changedOverrides } from '@/lib/jobOverrides';
+import { needsReview } from '@/lib/scrapers/field-confidence';
+import { withSubSpecialties } from '@/lib/specialties';
+import type { TrainingIntakeInput } from '@/lib/trainingIntakes';
 
 const supabaseUrl = process.env.NEXT_PUBLIC_SUPABASE_URL || '';
 const supabaseAnonKey = process.env.NEXT_PUBLIC_SUPABASE_ANON_KEY || '';
@@ -82,7 +86,8 @@ export const supabaseJobsAPI = {
    * Filter jobs by criteria
    */
   async filterJobs(filters: {
-    specialties?: string[];
+    specialties?: SpecialtyType[];
+    health_regions?: string[];
     hospital_groups?: string[];
     counties?: string[];
     scheme_types?: string[];
@@ -93,7 +98,10 @@ export const supabaseJobsAPI = {
       .eq('is_active', true);
 
     if (filters.specialties?.length) {
-      query = query.in('specialty', filters.specialties);
+      query = query.in('specialty', withSubSpecialties(filters.specialties));
+    }
+    if (filters.health_regions?.length) {
+      query = query.in('health_region', filters.health_regions);
     }
     if (filters.hospital_groups?.length) {
       query = query.in('hospital_group', filters.hospital_groups);
@@ -119,7 +127,7 @@ export const supabaseJobsAPI = {
     const { data, error } = await supabase
       .from('jobs')
       .upsert(jobs, {
-        onConflict: 'title,hospital_name,application_deadline',
+        onConflict: 'job_key',
         ignoreDuplicates: false,
       })
       .select();
@@ -128,6 +136,20 @@ export const supabaseJobsAPI = {
     return (data || []) as Job[];
   },
 
+  /**
+   * Get the revision history for a job, newest first
+   */
+  async getJobRevisions(jobId: string): Promise<JobRevision[]> {
+    const { data, error } = await supabase
+      .from('job_revisions')
+      .select('*')
+      .eq('job_id', jobId)
+      .order('scraped_at', { ascending: false });
+
+    if (error) throw error;
+    return (data || []) as JobRevision[];
+  },
+
   /**
    * Get upcoming deadlines (within specified days)
    */
@@ -454,6 +476,495 @@ export const supabaseUserAPI = {
   },
 };
 
+// =====================================================
+// SCRAPING LOGS API (Admin only)
+// =====================================================
+
+export const supabaseScrapingLogsAPI = {
+  /**
+   * Get the most recent per-scraper log rows, newest first
+   */
+  async getRecentLogs(limit: number = 100): Promise<ScrapingLog[]> {
+    const { data, error } = await supabase
+      .from('scraping_logs')
+      .select('*')
+      .order('started_at', { ascending: false })
+      .limit(limit);
+
+    if (error) throw error;
+    return (data || []) as ScrapingLog[];
+  },
+
+  /**
+   * Short-lived link to a failure capture (screenshot or HTML) from a log row
+   */
+  async getCaptureUrl(path: string): Promise<string> {
+    const { data, error } = await supabase.storage
+      .from('scraper-captures')
+      .createSignedUrl(path, 600);
+
+    if (error) throw error;
+    return data.signedUrl;
+  },
+
+  /**
+   * The latest queued run and its tasks (without their jobs), or null if there hasn't been one
+   */
+  async getLatestQueuedRun(): Promise<{ run: ScrapeRun; tasks: ScrapeTask[] } | null> {
+    const { data: run, error } = await supabase
+      .from('scrape_runs')
+      .select('*')
+      .order('created_at', { ascending: false })
+      .limit(1)
+      .maybeSingle();
+
+    if (error) throw error;
+    if (!run) return null;
+
+    const { data: tasks, error: tasksError } = await supabase
+      .from('scrape_tasks')
+      .select('id, run_id, scraper, kind, key, status, attempts, job_count, error, created_at, completed_at')
+      .eq('run_id', run.id)
+      .order('created_at');
+
+    if (tasksError) throw tasksError;
+    return { run: run as ScrapeRun, tasks: (tasks || []) as ScrapeTask[] };
+  },
+};
+
+// =====================================================
+// JOB OVERRIDES API (Admin only)
+// =====================================================
+
+export const supabaseOverridesAPI = {
+  /**
+   * Every override set on a job, active and reverted, newest first
+   */
+  async getOverrides(jobId: string): Promise<JobOverride[]> {
+    const { data, error } = await supabase
+      .from('job_overrides')
+      .select('*')
+      .eq('job_id', jobId)
+      .order('set_at', { ascending: false });
+
+    if (error) throw error;
+    return (data || []) as JobOverride[];
+  },
+
+  /**
+   * Override the fields in `updates` that differ from the job. An existing
+   * override of the same field is replaced, keeping its scraped value.
+   * Scored fields in `reviewed` are marked REVIEWED in the same job update.
+   */
+  async setOverrides(job: Job, updates: Partial<Job>, reviewed: ScoredField[] = []): Promise<boolean> {
+    const changed = changedOverrides(job, updates);
+    const fields = Object.keys(changed) as OverridableField[];
+    if (fields.length === 0 && reviewed.length === 0) return true;
+
+    const { data: { user } } = await supabase.auth.getUser();
+    const now = new Date().toISOString();
+
+    if (fields.length > 0) {
+      const { data: active, error: activeError } = await supabase
+        .from('job_overrides')
+        .update({ reverted_at: now, reverted_by: user?.id || null, reverted_by_email: user?.email || null })
+        .eq('job_id', job.id)
+        .in('field', fields)
+        .is('reverted_at', null)
+        .select('field, scraped_value');
+
+      if (activeError) {
+        console.error('Error replacing job overrides:', activeError);
+        return false;
+      }
+
+      const scrapedValues = new Map((active || []).map(row => [row.field, row.scraped_value]));
+      const rows = fields.map(field => ({
+        job_id: job.id,
+        job_key: job.job_key || null,
+        field,
+        value: changed[field],
+        scraped_value: scrapedValues.has(field) ? scrapedValues.get(field) : job[field] ?? null,
+        set_by: user?.id || null,
+        set_by_email: user?.email || null,
+        set_at: now,
+      }));
+
+      const { error: insertError } = await supabase.from('job_overrides').insert(rows);
+      if (insertError) {
+        console.error('Error saving job overrides:', insertError);
+        return false;
+      }
+    }
+
+    const fieldConfidence = { ...job.field_confidence };
+    for (const field of reviewed) {
+      fieldConfidence[field] = { score: 1, reason: 'REVIEWED' };
+    }
+    const merged = applyOverrides(
+      { ...job, field_confidence: fieldConfidence },
+      fields.map(field => ({ field, value: changed[field] ?? null })),
+      job
+    );
+    const { error } = await supabase
+      .from('jobs')
+      .update({ ...changed, field_confidence: merged.field_confidence, needs_review: merged.needs_review })
+      .eq('id', job.id);
+
+    if (error) {
+      console.error('Error applying job overrides:', error);
+      return false;
+    }
+    return true;
+  },
+
+  /**
+   * Revert an override: restore the scraped value and let the next scrape
+   * score the field again. Until then the job is queued for review only if
+   * another field still needs it.
+   */
+  async revertOverride(job: Job, override: JobOverride): Promise<boolean> {
+    const { data: { user } } = await supabase.auth.getUser();
+
+    const { error: revertError } = await supabase
+      .from('job_overrides')
+      .update({
+        reverted_at: new Date().toISOString(),
+        reverted_by: user?.id || null,
+        reverted_by_email: user?.email || null,
+      })
+      .eq('id', override.id);
+
+    if (revertError) {
+      console.error('Error reverting job override:', revertError);
+      return false;
+    }
+
+    const fieldConfidence = { ...job.field_confidence };
+    delete fieldConfidence[override.field as ScoredField];
+
+    const { error } = await supabase
+      .from('jobs')
+      .update({
+        [override.field]: override.scraped_value,
+        field_confidence: fieldConfidence,
+        needs_review: needsReview(fieldConfidence),
+      })
+      .eq('id', job.id);
+
+    if (error) {
+      console.error('Error restoring scraped value:', error);
+      return false;
+    }
+    return true;
+  },
+};
+
+// =====================================================
+// FIELD REVIEW API (Admin only)
+// =====================================================
+
+export const supabaseReviewAPI = {
+  /**
+   * Active jobs with a low-confidence field, soonest deadline first
+   */
+  async getReviewQueue(limit: number = 50): Promise<Job[]> {
+    const { data, error } = await supabase
+      .from('jobs')
+      .select('*')
+      .eq('is_active', true)
+      .eq('needs_review', true)
+      .order('application_deadline', { ascending: true })
+      .limit(limit);
+
+    if (error) throw error;
+    return (data || []) as Job[];
+  },
+
+  /**
+   * Most recent corrections, newest first
+   */
+  async getRecentReviews(limit: number = 50): Promise<JobFieldReview[]> {
+    const { data, error } = await supabase
+      .from('job_field_reviews')
+      .select('*')
+      .order('reviewed_at', { ascending: false })
+      .limit(limit);
+
+    if (error) throw error;
+    return (data || []) as JobFieldReview[];
+  },
+
+  /**
+   * Override the job with `updates` and mark the reviewed `fields` REVIEWED
+   * in one job update, then record the review. Fields left out of `updates`
+   * are recorded as confirmed.
+   */
+  async submitReview(job: Job, fields: ScoredField[], updates: Partial<Job> = {}): Promise<boolean> {
+    // Corrections are stored as overrides so the next scrape keeps them
+    if (!(await supabaseOverridesAPI.setOverrides(job, updates, fields))) return false;
+
+    const { data: { user } } = await supabase.auth.getUser();
+    const reviews = fields.map(field => ({
+      job_id: job.id,
+      job_key: job.job_key || null,
+      field,
+      previous_value: String(job[field]),
+      corrected_value: String(updates[field] ?? job[field]),
+      previous_confidence: job.field_confidence?.[field] || null,
+      reviewed_by: user?.id || null,
+    }));
+
+    const { error } = await supabase.from('job_field_reviews').insert(reviews);
+    if (error) {
+      console.error('Error saving field reviews:', error);
+      return false;
+    }
+    return true;
+  },
+};
+
+// =====================================================
+// TRAINING INTAKES API
+// =====================================================
+
+export const supabaseTrainingIntakesAPI = {
+  /**
+   * Intakes still taking applications (or not yet open), soonest deadline first
+   */
+  async getOpenIntakes(): Promise<TrainingIntake[]> {
+    const { data, error } = await supabase
+      .from('training_intakes')
+      .select('*')
+      .eq('is_active', true)
+      .gte('application_deadline', new Date().toISOString())
+      .order('application_deadline', { ascending: true });
+
+    if (error) throw error;
+    return (data || []) as TrainingIntake[];
+  },
+
+  /**
+   * Every intake, including closed and withdrawn ones (admin only)
+   */
+  async getAllIntakes(): Promise<TrainingIntake[]> {
+    const { data, error } = await supabase
+      .from('training_intakes')
+      .select('*')
+      .order('application_deadline', { ascending: false });
+
+    if (error) throw error;
+    return (data || []) as TrainingIntake[];
+  },
+
+  /**
+   * Save imported intakes. A programme's intake for the same year is
+   * updated in place, and brought back if it had been withdrawn.
+   */
+  async importIntakes(intakes: TrainingIntakeInput[]): Promise<boolean> {
+    if (intakes.length === 0) return true;
+    const { data: { user } } = await supabase.auth.getUser();
+
+    const { error } = await supabase
+      .from('training_intakes')
+      .upsert(
+        intakes.map(intake => ({ ...intake, is_active: true, imported_by: user?.id || null })),
+        { onConflict: 'body,programme,intake_year' }
+      );
+
+    if (error) {
+      console.error('Error importing training intakes:', error);
+      return false;
+    }
+    return true;
+  },
+
+  /**
+   * Hide an intake from the feed, e.g. one imported by mistake
+   */
+  async withdrawIntake(id: string): Promise<boolean> {
+    const { error } = await supabase
+      .from('training_intakes')
+      .update({ is_active: false })
+      .eq('id', id);
+
+    if (error) {
+      console.error('Error withdrawing training intake:', error);
+      return false;
+    }
+    return true;
+  },
+};
+
+// =====================================================
+// SCRAPE WEBHOOKS API
+// =====================================================
+
+export const supabaseWebhooksAPI = {
+  /**
+   * Every registered endpoint, newest first (admin only)
+   */
+  async getWebhooks(): Promise<ScrapeWebhook[]> {
+    const { data, error } = await supabase
+      .from('scrape_webhooks')
+      .select('*')
+      .order('created_at', { ascending: false });
+
+    if (error) throw error;
+    return (data || []) as ScrapeWebhook[];
+  },
+
+  /**
+   * Register an endpoint with a freshly generated signing secret. Returns
+   * the new endpoint so the secret can be shown, or null on failure.
+   */
+  async createWebhook(url: string, events: ScrapeWebhookEvent[], description: string | null): Promise<ScrapeWebhook | null> {
+    const { data: { user } } = await supabase.auth.getUser();
+    const bytes = crypto.getRandomValues(new Uint8Array(24));
+    const secret = 'whsec_' + Array.from(bytes, byte => byte.toString(16).padStart(2, '0')).join('');
+
+    const { data, error } = await supabase
+      .from('scrape_webhooks')
+      .insert({ url, events, description, secret, created_by: user?.id || null })
+      .select()
+      .single();
+
+    if (error) {
+      console.error('Error creating webhook:', error);
+      return null;
+    }
+    return data as ScrapeWebhook;
+  },
+
+  /**
+   * Pause or resume deliveries to an endpoint
+   */
+  async setActive(id: string, isActive: boolean): Promise<boolean> {
+    const { error } = await supabase
+      .from('scrape_webhooks')
+      .update({ is_active: isActive })
+      .eq('id', id);
+
+    if (error) {
+      console.error('Error updating webhook:', error);
+      return false;
+    }
+    return true;
+  },
+
+  /**
+   * Remove an endpoint along with its delivery log
+   */
+  async deleteWebhook(id: string): Promise<boolean> {
+    const { error } = await supabase
+      .from('scrape_webhooks')
+      .delete()
+      .eq('id', id);
+
+    if (error) {
+      console.error('Error deleting webhook:', error);
+      return false;
+    }
+    return true;
+  },
+
+  /**
+   * Latest deliveries across all endpoints
+   */
+  async getRecentDeliveries(limit = 50): Promise<ScrapeWebhookDelivery[]> {
+    const { data, error } = await supabase
+      .from('scrape_webhook_deliveries')
+      .select('*')
+      .order('created_at', { ascending: false })
+      .limit(limit);
+
+    if (error) throw error;
+    return (data || []) as ScrapeWebhookDelivery[];
+  },
+};
+
+// =====================================================
+// HOSPITAL NAMES API
+// =====================================================
+
+export const supabaseHospitalNamesAPI = {
+  /**
+   * Unresolved names from the scrape log, most often seen first (admin only)
+   */
+  async getOpenNames(limit = 100): Promise<HospitalNameLogEntry[]> {
+    const { data, error } = await supabase
+      .from('hospital_name_log')
+      .select('*')
+      .eq('status', 'OPEN')
+      .order('occurrences', { ascending: false })
+      .limit(limit);
+
+    if (error) throw error;
+    return (data || []) as HospitalNameLogEntry[];
+  },
+
+  /**
+   * Aliases admins have added, newest first
+   */
+  async getAliases(): Promise<HospitalAlias[]> {
+    const { data, error } = await supabase
+      .from('hospital_aliases')
+      .select('*')
+      .order('created_at', { ascending: false });
+
+    if (error) throw error;
+    return (data || []) as HospitalAlias[];
+  },
+
+  /**
+   * Add an alias the next scrape will match, marking the log entry it came
+   * from (if any) as aliased. Re-adding an alias points it at the new hospital.
+   */
+  async addAlias(alias: string, hospitalId: string, logEntryId?: string): Promise<boolean> {
+    const { data: { user } } = await supabase.auth.getUser();
+
+    const { error } = await supabase
+      .from('hospital_aliases')
+      .upsert({ alias, hospital_id: hospitalId, created_by: user?.id || null }, { onConflict: 'alias' });
+
+    if (error) {
+      console.error('Error adding hospital alias:', error);
+      return false;
+    }
+    if (logEntryId) return this.setNameStatus(logEntryId, 'ALIASED');
+    return true;
+  },
+
+  async deleteAlias(id: string): Promise<boolean> {
+    const { error } = await supabase
+      .from('hospital_aliases')
+      .delete()
+      .eq('id', id);
+
+    if (error) {
+      console.error('Error deleting hospital alias:', error);
+      return false;
+    }
+    return true;
+  },
+
+  /**
+   * Mark a logged name as aliased, or ignore it, e.g. a title with no hospital in it
+   */
+  async setNameStatus(id: string, status: HospitalNameLogEntry['status']): Promise<boolean> {
+    const { error } = await supabase
+      .from('hospital_name_log')
+      .update({ status })
+      .eq('id', id);
+
+    if (error) {
+      console.error('Error updating hospital name:', error);
+      return false;
+    }
+    return true;
+  },
+};
+
 // =====================================================
 // ACCOMMODATION API
 // =====================================================
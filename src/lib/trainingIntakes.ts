@@ -0,0 +1,216 @@
+/**
+ * Training Scheme Intakes
+ * BST/HST and GP training places open once a year per programme, on
+ * timelines the training bodies publish rather than as advertised posts.
+ * Admins paste those timelines in as CSV; every row is checked before
+ * anything is saved, so one bad date is reported instead of imported.
+ */
+
+import { dublinTimeToUtc, parseIrishDeadline, UNKNOWN_DEADLINE } from '@/lib/scrapers/deadline-parser';
+import {
+  SCHEME_TYPE_LABELS,
+  SPECIALTY_LABELS,
+  TRAINING_BODY_LABELS,
+  type SchemeType,
+  type SpecialtyType,
+  type TrainingBody,
+  type TrainingIntake,
+  type TrainingSchemeType,
+} from '@/types/database.types';
+
+/** An intake as imported, before the database assigns its id and timestamps */
+export type TrainingIntakeInput = Omit<TrainingIntake, 'id' | 'is_active' | 'imported_by' | 'created_at' | 'updated_at'>;
+
+/** CSV header, in the order the import template lists them */
+export const INTAKE_IMPORT_COLUMNS = [
+  'body',
+  'programme',
+  'specialty',
+  'scheme_type',
+  'intake_year',
+  'opens',
+  'closes',
+  'interview_start',
+  'interview_end',
+  'eligibility',
+  'posts',
+  'application_url',
+] as const;
+
+type ImportColumn = (typeof INTAKE_IMPORT_COLUMNS)[number];
+
+const REQUIRED_COLUMNS: ImportColumn[] = ['body', 'programme', 'specialty', 'scheme_type', 'closes'];
+
+export const TRAINING_SCHEME_TYPES: TrainingSchemeType[] = ['TRAINING_BST', 'TRAINING_HST'];
+
+export interface IntakeImport {
+  intakes: TrainingIntakeInput[];
+  errors: string[]; // "Row 3: ..." — row numbers count the header as row 1
+}
+
+/**
+ * Whether a scheme type is one the training bodies recruit to
+ */
+export function isTrainingScheme(scheme: SchemeType): scheme is TrainingSchemeType {
+  return (TRAINING_SCHEME_TYPES as SchemeType[]).includes(scheme);
+}
+
+/**
+ * Split CSV text into rows of trimmed cells. Quoted cells may hold commas,
+ * newlines and doubled quotes, as spreadsheet exports write them.
+ */
+export function parseCsv(text: string): string[][] {
+  const rows: string[][] = [];
+  let row: string[] = [];
+  let cell = '';
+  let quoted = false;
+
+  for (let i = 0; i < text.length; i++) {
+    const char = text[i];
+    if (quoted) {
+      if (char === '"' && text[i + 1] === '"') {
+        cell += '"';
+        i++;
+      } else if (char === '"') {
+        quoted = false;
+      } else {
+        cell += char;
+      }
+    } else if (char === '"') {
+      quoted = true;
+    } else if (char === ',') {
+      row.push(cell.trim());
+      cell = '';
+    } else if (char === '\n' || char === '\r') {
+      if (char === '\r' && text[i + 1] === '\n') i++;
+      row.push(cell.trim());
+      rows.push(row);
+      row = [];
+      cell = '';
+    } else {
+      cell += char;
+    }
+  }
+  row.push(cell.trim());
+  rows.push(row);
+
+  return rows.filter(cells => cells.some(Boolean));
+}
+
+/**
+ * Parse an admin's CSV of intakes. Dates may be written any way the
+ * deadline parser reads ("28th November 2026 at 5pm", "2026-11-28").
+ */
+export function parseIntakeImport(text: string, reference: Date = new Date()): IntakeImport {
+  const [header, ...rows] = parseCsv(text);
+  if (!header) return { intakes: [], errors: ['Nothing to import'] };
+
+  const columns = header.map(name => name.toLowerCase().replace(/[\s-]+/g, '_'));
+  const missing = REQUIRED_COLUMNS.filter(column => !columns.includes(column));
+  if (missing.length) {
+    return { intakes: [], errors: [`Missing column${missing.length > 1 ? 's' : ''}: ${missing.join(', ')}`] };
+  }
+
+  const intakes: TrainingIntakeInput[] = [];
+  const errors: string[] = [];
+
+  rows.forEach((cells, index) => {
+    const values = Object.fromEntries(columns.map((column, i) => [column, cells[i] || ''])) as Record<ImportColumn, string>;
+    const rowErrors: string[] = [];
+    const fail = (message: string) => { rowErrors.push(message); return null; };
+
+    const body = lookup(TRAINING_BODY_LABELS, values.body) || fail(`unknown training body "${values.body}"`);
+    const specialty = lookup(SPECIALTY_LABELS, values.specialty) || fail(`unknown specialty "${values.specialty}"`);
+    const schemeType = readSchemeType(values.scheme_type) || fail(`scheme must be BST or HST, not "${values.scheme_type}"`);
+    if (!values.programme) fail('programme is empty');
+
+    const closes = parseIrishDeadline(values.closes, reference);
+    if (closes === UNKNOWN_DEADLINE) fail(`can't read closing date "${values.closes}"`);
+
+    const opens = readDate(values.opens, reference);
+    if (opens === UNKNOWN_DEADLINE) fail(`can't read opening date "${values.opens}"`);
+    const interviewStart = readDate(values.interview_start, reference);
+    if (interviewStart === UNKNOWN_DEADLINE) fail(`can't read interview start "${values.interview_start}"`);
+    const interviewEnd = readDate(values.interview_end, reference);
+    if (interviewEnd === UNKNOWN_DEADLINE) fail(`can't read interview end "${values.interview_end}"`);
+
+    const posts = values.posts ? Number(values.posts.replace(/[,\s]/g, '')) : null;
+    if (posts !== null && (!Number.isInteger(posts) || posts < 0)) fail(`posts must be a whole number, not "${values.posts}"`);
+
+    const intakeYear = values.intake_year ? Number(values.intake_year) : null;
+    if (intakeYear !== null && !/^\d{4}$/.test(values.intake_year)) fail(`intake year must be a year, not "${values.intake_year}"`);
+
+    if (rowErrors.length || closes === UNKNOWN_DEADLINE) {
+      errors.push(`Row ${index + 2}: ${rowErrors.join('; ')}`);
+      return;
+    }
+
+    if (opens && opens !== UNKNOWN_DEADLINE && opens.iso >= closes.iso) {
+      errors.push(`Row ${index + 2}: opens after it closes`);
+      return;
+    }
+
+    intakes.push({
+      body: body as TrainingBody,
+      programme: values.programme,
+      specialty: specialty as SpecialtyType,
+      scheme_type: schemeType as TrainingSchemeType,
+      intake_year: intakeYear ?? defaultIntakeYear(closes.iso),
+      opens_at: opens && opens !== UNKNOWN_DEADLINE ? opens.iso : null,
+      application_deadline: closes.iso,
+      deadline_precision: closes.precision,
+      interview_start: interviewStart && interviewStart !== UNKNOWN_DEADLINE ? interviewStart.date : null,
+      interview_end: interviewEnd && interviewEnd !== UNKNOWN_DEADLINE ? interviewEnd.date : null,
+      eligibility: values.eligibility || null,
+      posts_available: posts,
+      application_url: values.application_url || null,
+    });
+  });
+
+  return { intakes, errors };
+}
+
+/** Key or display label, either case, e.g. "RCPI" or "Respiratory Medicine" */
+function lookup<K extends string>(labels: Record<K, string>, text: string): K | null {
+  const wanted = text.trim().toLowerCase();
+  if (!wanted) return null;
+  const entry = (Object.entries(labels) as [K, string][])
+    .find(([key, label]) => key.toLowerCase() === wanted || label.toLowerCase() === wanted);
+  return entry ? entry[0] : null;
+}
+
+function readSchemeType(text: string): TrainingSchemeType | null {
+  const normalized = text.trim().toUpperCase();
+  if (normalized === 'BST') return 'TRAINING_BST';
+  if (normalized === 'HST') return 'TRAINING_HST';
+  const scheme = lookup(SCHEME_TYPE_LABELS, text);
+  return scheme && isTrainingScheme(scheme) ? scheme : null;
+}
+
+const dublinCalendarDate = new Intl.DateTimeFormat('en-CA', {
+  timeZone: 'Europe/Dublin',
+  year: 'numeric',
+  month: '2-digit',
+  day: '2-digit',
+});
+
+/**
+ * An optional date column. A date without a time starts at midnight, Irish
+ * time — the opposite of a closing date, which runs to the end of the day.
+ */
+function readDate(text: string, reference: Date): { iso: string; date: string } | typeof UNKNOWN_DEADLINE | null {
+  if (!text) return null;
+  const parsed = parseIrishDeadline(text, reference);
+  if (parsed === UNKNOWN_DEADLINE) return UNKNOWN_DEADLINE;
+
+  const date = dublinCalendarDate.format(new Date(parsed.iso));
+  if (parsed.precision === 'DATETIME') return { iso: parsed.iso, date };
+  const [year, month, day] = date.split('-').map(Number);
+  return { iso: dublinTimeToUtc(year, month, day, 0, 0).toISOString(), date };
+}
+
+/** Training starts in July, so a window closing after June recruits for next year */
+function defaultIntakeYear(deadline: string): number {
+  const [year, month] = dublinCalendarDate.format(new Date(deadline)).split('-').map(Number);
+  return month >= 7 ? year + 1 : year;
+}
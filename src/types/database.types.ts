@@ -2,6 +2,7 @@
 
 export type NCHDGrade = 'SHO' | 'REGISTRAR' | 'SPECIALIST_REGISTRAR';
 
+/** Parent specialties and their sub-specialties; the tree is in src/lib/specialties.ts */
 export type SpecialtyType =
   | 'GENERAL_MEDICINE'
   | 'GENERAL_SURGERY'
@@ -23,6 +24,19 @@ export type SpecialtyType =
   | 'UROLOGY'
   | 'ENT'
   | 'OPHTHALMOLOGY'
+  | 'GERIATRICS'
+  | 'NEPHROLOGY'
+  | 'RHEUMATOLOGY'
+  | 'HAEMATOLOGY'
+  | 'PALLIATIVE_MEDICINE'
+  | 'INTENSIVE_CARE'
+  | 'NEONATOLOGY'
+  | 'PLASTIC_SURGERY'
+  | 'VASCULAR_SURGERY'
+  | 'NEUROSURGERY'
+  | 'CARDIOTHORACIC_SURGERY'
+  | 'GENERAL_PRACTICE'
+  | 'PUBLIC_HEALTH'
   | 'OTHER';
 
 export type SchemeType =
@@ -31,12 +45,91 @@ export type SchemeType =
   | 'NON_TRAINING_SERVICE'
   | 'STAND_ALONE';
 
+/** The seven hospital groups the Health Regions replaced, kept because older jobs are filed under them */
 export type HospitalGroup = 'IEHG' | 'DMHG' | 'RCSI' | 'SAOLTA' | 'SSWHG' | 'MWHG' | 'UL';
 
+/** The six HSE Health Regions that now run recruitment */
+export type HealthRegion =
+  | 'DUBLIN_NORTH_EAST'
+  | 'DUBLIN_MIDLANDS'
+  | 'DUBLIN_SOUTH_EAST'
+  | 'SOUTH_WEST'
+  | 'MID_WEST'
+  | 'WEST_NORTH_WEST';
+
+/** What kind of place a location in hospitals.json is */
+export type LocationType =
+  | 'ACUTE_HOSPITAL'
+  | 'MATERNITY_HOSPITAL'
+  | 'PAEDIATRIC_HOSPITAL'
+  | 'MENTAL_HEALTH_SERVICE'
+  | 'COMMUNITY_HEALTHCARE'
+  | 'PRIVATE_HOSPITAL'
+  | 'HOSPICE'
+  | 'NATIONAL_CENTRE'
+  | 'GP_TRAINING';
+
+/** HSE Community Healthcare Organisation area a location sits in */
+export type CommunityHealthcareArea =
+  | 'CHO1' | 'CHO2' | 'CHO3' | 'CHO4' | 'CHO5' | 'CHO6' | 'CHO7' | 'CHO8' | 'CHO9';
+
 export type HospitalTier = 'TOP_TIER' | 'MID_TIER' | 'SAFETY_NET';
 
 export type MatchRating = 'LIKELY_MATCH' | 'COMPETITIVE' | 'REACH';
 
+/**
+ * How much of a deadline the source actually gave: a closing time, only a
+ * date (open until end of day, Irish time), or nothing — an estimate
+ */
+export type DeadlinePrecision = 'DATETIME' | 'DATE' | 'ESTIMATED';
+
+/** Job terms that fall back to the usual rotation defaults when not stated */
+export type EstimatedField = 'start_date' | 'duration_months' | 'contract_type';
+
+/**
+ * Fields scrapers infer from free text rather than read directly, so each
+ * carries a confidence score
+ */
+export type ScoredField = 'grade' | 'specialty' | 'scheme_type' | 'hospital_name';
+
+export type ConfidenceReason =
+  | 'KEYWORD'         // Specific keyword in the title
+  | 'GENERIC_KEYWORD' // Only a broad keyword ("medicine", "training")
+  | 'DEFAULT'         // Nothing matched; the default value was used
+  | 'HOSPITAL_NAME'   // Hospital name, short name or alias in the text
+  | 'FUZZY_MATCH'     // Most of the hospital's name (allowing a typo), or its town, in the text
+  | 'REF_CODE'        // HSE reference code county → that county's primary hospital
+  | 'COUNTY_FALLBACK' // Only the county was known → that county's primary hospital
+  | 'SOURCE_CONFIG'   // The board page belongs to a known hospital
+  | 'REVIEWED';       // Confirmed or corrected by an admin
+
+export interface FieldConfidence {
+  score: number; // 0–1
+  reason: ConfidenceReason;
+  matched?: string; // The keyword or name that decided the value
+}
+
+export type FieldConfidenceMap = Partial<Record<ScoredField, FieldConfidence>>;
+
+export type ListingPlatform =
+  | 'HSE_NRS'
+  | 'REZOOMO'
+  | 'ABOUT_HSE'
+  | 'HEALTHCARE_JOBS'
+  | 'GLOBAL_MEDICS'
+  | 'DOCTOR_JOBS'
+  | 'IRISH_JOBS'
+  | 'DIRECT_HOSPITAL';
+
+// One source listing of a job — a merged job carries one per platform it was found on
+export interface JobListing {
+  platform: ListingPlatform;
+  url: string;
+  application_url?: string;
+  title: string;
+  last_seen_at: string;
+}
+
 export type ApplicationStatus =
   | 'NOT_APPLIED'
   | 'APPLIED'
@@ -57,7 +150,8 @@ export interface Job {
   // Hospital/Location
   hospital_id: string;
   hospital_name: string;
-  hospital_group: HospitalGroup;
+  hospital_group: HospitalGroup | null; // Null for private hospitals, hospices, GP training and community services
+  health_region?: HealthRegion | null; // Missing on rows scraped before regions were tracked
   county: string;
 
   // Job Details
@@ -65,9 +159,16 @@ export interface Job {
   duration_months?: number;
   rotational_detail?: string;
   contract_type?: string;
+  salary_range?: string; // As stated, e.g. "€55,965 - €76,079 (point 3)"
+  hours_per_week?: number;
+  on_call?: boolean;
+  on_call_frequency?: string; // e.g. "1 in 6"
+  estimated_fields?: EstimatedField[]; // Filled from defaults rather than the posting or spec
 
   // Application Details
   application_deadline: string;
+  deadline_precision?: DeadlinePrecision; // Missing on rows scraped before precision was tracked
+  reference_number?: string; // Campaign reference from the posting page, e.g. MW26MOB2
   application_url?: string;
   job_spec_pdf_url?: string;
 
@@ -84,12 +185,21 @@ export interface Job {
   // Source
   source: 'NRS' | 'REZOOMO' | 'HEALTHCARE_JOBS' | 'DIRECT_HOSPITAL';
   external_id?: string;
+  job_key?: string; // Stable identity across re-scrapes (ref code / posting URL / title+hospital)
+  listings?: JobListing[]; // Every platform this posting was found on (primary first)
+
+  // Data quality
+  field_confidence?: FieldConfidenceMap;
+  needs_review?: boolean; // A scored field is below the review threshold
 
   // Metadata
   is_active: boolean;
   created_at: string;
   updated_at: string;
   last_scraped_at?: string;
+  missed_runs?: number; // Consecutive clean runs of its source that didn't see it
+  deactivated_at?: string | null;
+  deactivation_reason?: string | null;
 }
 
 export interface UserApplication {
@@ -117,17 +227,235 @@ export interface UserPreferences {
 
 export interface ScrapingLog {
   id: string;
-  source: string;
+  run_id?: string; // Groups the per-scraper rows of one orchestrator run
+  source: string; // Scraper name, e.g. 'HSE'
   status: 'SUCCESS' | 'FAILURE' | 'PARTIAL';
+  pages_fetched?: number;
   jobs_found?: number;
   jobs_new?: number;
   jobs_updated?: number;
+  jobs_deactivated?: number;
+  anomalies?: ScrapeAnomaly[];
+  captures?: ScrapeCapture[];
   error_message?: string;
   started_at: string;
   completed_at?: string;
   duration_seconds?: number;
 }
 
+// What a Playwright page looked like when its scraper broke; paths are in the scraper-captures bucket
+export interface ScrapeCapture {
+  reason: string;
+  url: string | null;
+  captured_at: string;
+  screenshot_path: string | null;
+  html_path: string | null;
+}
+
+// A queued scrape run; its work is split into scrape_tasks rows
+export interface ScrapeRun {
+  id: string;
+  status: 'RUNNING' | 'COMPLETE';
+  scrapers: string[]; // Scraper names whose tasks the run includes
+  created_at: string;
+  completed_at: string | null;
+}
+
+export type ScrapeTaskStatus = 'PENDING' | 'RUNNING' | 'DONE' | 'FAILED';
+
+// One checkpointed unit of a queued run, e.g. an HSE listing page or a Rezoomo employer
+export interface ScrapeTask {
+  id: string;
+  run_id: string;
+  scraper: string;
+  kind: string; // e.g. 'LISTING', 'DETAIL', 'EMPLOYER'
+  key: string; // Usually the URL
+  status: ScrapeTaskStatus;
+  attempts: number;
+  job_count: number;
+  error: string | null;
+  created_at: string;
+  completed_at: string | null;
+}
+
+export type ScrapeWebhookEvent = 'run.completed' | 'source.failed';
+
+// An endpoint an admin registered for scrape notifications
+export interface ScrapeWebhook {
+  id: string;
+  url: string;
+  description: string | null;
+  events: ScrapeWebhookEvent[];
+  secret: string; // Signs each delivery (HMAC-SHA256)
+  is_active: boolean;
+  created_by: string | null;
+  created_at: string;
+}
+
+// One webhook sent to one endpoint, after its retries
+export interface ScrapeWebhookDelivery {
+  id: string;
+  webhook_id: string;
+  event: ScrapeWebhookEvent;
+  run_id: string;
+  status: 'DELIVERED' | 'FAILED';
+  attempts: number;
+  response_status: number | null; // From the last attempt
+  error: string | null;
+  created_at: string;
+  completed_at: string;
+}
+
+export type HospitalNameStatus = 'OPEN' | 'ALIASED' | 'IGNORED';
+
+// A hospital the matcher ranked for a logged name
+export interface HospitalNameCandidate {
+  hospital_id: string;
+  score: number;
+  strategy: string; // HospitalMatchStrategy, e.g. 'TOKENS'
+}
+
+// Hospital text a scrape couldn't match, or only guessed at
+export interface HospitalNameLogEntry {
+  id: string;
+  normalized_text: string; // One row per normalised string
+  sample_text: string; // As scraped, the first time it was seen
+  county: string | null; // County the scraper inferred
+  best_score: number; // 0 when no hospital was a candidate
+  candidates: HospitalNameCandidate[];
+  occurrences: number;
+  status: HospitalNameStatus;
+  first_seen_at: string;
+  last_seen_at: string;
+}
+
+// An alias an admin added, matched alongside the built-in ones
+export interface HospitalAlias {
+  id: string;
+  alias: string;
+  hospital_id: string; // id in hospitals.json
+  created_by: string | null;
+  created_at: string;
+}
+
+export type ScrapeAnomalyKind =
+  | 'NO_JOBS'
+  | 'COUNT_DROP'
+  | 'ALL_FALLBACK'
+  | 'DEFAULT_DEADLINES'
+  | 'SINGLE_HOSPITAL';
+
+// A health flag raised when a source's run deviates from its recent history
+export interface ScrapeAnomaly {
+  source: string;
+  kind: ScrapeAnomalyKind;
+  severity: 'warning' | 'critical';
+  message: string;
+}
+
+export type JobRevisionType = 'UPDATED' | 'REOPENED';
+
+export interface JobFieldChange {
+  field: string;
+  old_value: string | null;
+  new_value: string | null;
+}
+
+export interface JobRevision {
+  id: string;
+  job_id: string;
+  job_key: string;
+  revision_type: JobRevisionType;
+  changes: JobFieldChange[];
+  scraped_at: string;
+  created_at: string;
+}
+
+/**
+ * An admin's confirmation or correction of a low-confidence field
+ */
+export interface JobFieldReview {
+  id: string;
+  job_id: string;
+  job_key?: string;
+  field: ScoredField;
+  previous_value: string;
+  corrected_value: string; // Same as previous_value when the admin confirmed it
+  previous_confidence?: FieldConfidence | null;
+  reviewed_by?: string | null;
+  reviewed_at: string;
+}
+
+/** Job fields an admin can override; overrides are re-applied after every scrape */
+export type OverridableField =
+  | 'title'
+  | 'grade'
+  | 'specialty'
+  | 'scheme_type'
+  | 'hospital_id'
+  | 'hospital_name'
+  | 'hospital_group'
+  | 'health_region'
+  | 'county'
+  | 'application_deadline'
+  | 'deadline_precision'
+  | 'application_url'
+  | 'informal_enquiries_name'
+  | 'informal_enquiries_email'
+  | 'informal_contact_email'
+  | 'medical_manpower_email'
+  | 'clinical_lead';
+
+/**
+ * An admin's override of one job field. Active until reverted_at is set;
+ * reverted rows are kept as the audit trail.
+ */
+export interface JobOverride {
+  id: string;
+  job_id: string;
+  job_key?: string | null;
+  field: OverridableField;
+  value: string | null;
+  scraped_value: string | null; // The job's value when the override was set — restored on revert
+  set_by?: string | null;
+  set_by_email?: string | null;
+  set_at: string;
+  reverted_at?: string | null;
+  reverted_by?: string | null;
+  reverted_by_email?: string | null;
+}
+
+/** Bodies that run the national BST/HST and GP training schemes */
+export type TrainingBody = 'RCPI' | 'RCSI' | 'ICGP' | 'CAI' | 'CPSYCHI';
+
+export type TrainingSchemeType = Extract<SchemeType, 'TRAINING_BST' | 'TRAINING_HST'>;
+
+/**
+ * One application window for a training programme, e.g. RCPI's BST in
+ * General Internal Medicine for July 2027. Imported by admins from the
+ * training bodies' published timelines.
+ */
+export interface TrainingIntake {
+  id: string;
+  body: TrainingBody;
+  programme: string; // As the body names it, e.g. "Basic Specialist Training in General Internal Medicine"
+  specialty: SpecialtyType;
+  scheme_type: TrainingSchemeType;
+  intake_year: number; // Year training starts
+  opens_at?: string | null;
+  application_deadline: string;
+  deadline_precision: DeadlinePrecision;
+  interview_start?: string | null; // YYYY-MM-DD
+  interview_end?: string | null;
+  eligibility?: string | null;
+  posts_available?: number | null;
+  application_url?: string | null;
+  is_active: boolean;
+  imported_by?: string | null;
+  created_at: string;
+  updated_at: string;
+}
+
 // Helper type for jobs with application status
 export interface JobWithStatus extends Job {
   user_status?: ApplicationStatus;
@@ -157,6 +485,19 @@ export const SPECIALTY_LABELS: Record<SpecialtyType, string> = {
   UROLOGY: 'Urology',
   ENT: 'ENT',
   OPHTHALMOLOGY: 'Ophthalmology',
+  GERIATRICS: 'Geriatric Medicine',
+  NEPHROLOGY: 'Nephrology',
+  RHEUMATOLOGY: 'Rheumatology',
+  HAEMATOLOGY: 'Haematology',
+  PALLIATIVE_MEDICINE: 'Palliative Medicine',
+  INTENSIVE_CARE: 'Intensive Care Medicine',
+  NEONATOLOGY: 'Neonatology',
+  PLASTIC_SURGERY: 'Plastic Surgery',
+  VASCULAR_SURGERY: 'Vascular Surgery',
+  NEUROSURGERY: 'Neurosurgery',
+  CARDIOTHORACIC_SURGERY: 'Cardiothoracic Surgery',
+  GENERAL_PRACTICE: 'General Practice',
+  PUBLIC_HEALTH: 'Public Health Medicine',
   OTHER: 'Other',
 };
 
@@ -175,6 +516,21 @@ export const SCHEME_TYPE_LABELS: Record<SchemeType, string> = {
   STAND_ALONE: 'Stand-alone',
 };
 
+// Training body display names
+export const TRAINING_BODY_LABELS: Record<TrainingBody, string> = {
+  RCPI: 'RCPI',
+  RCSI: 'RCSI',
+  ICGP: 'ICGP',
+  CAI: 'College of Anaesthesiologists',
+  CPSYCHI: 'College of Psychiatrists',
+};
+
+// Scrape webhook event descriptions
+export const SCRAPE_WEBHOOK_EVENT_LABELS: Record<ScrapeWebhookEvent, string> = {
+  'run.completed': 'Every run, when it finishes',
+  'source.failed': 'A source failed or only partly ran in a run',
+};
+
 // Hospital Group display names
 export const HOSPITAL_GROUP_LABELS: Record<HospitalGroup, string> = {
   IEHG: 'Ireland East',
@@ -186,7 +542,54 @@ export const HOSPITAL_GROUP_LABELS: Record<HospitalGroup, string> = {
   UL: 'UL Hospitals',
 };
 
+// Health Region display names
+export const HEALTH_REGION_LABELS: Record<HealthRegion, string> = {
+  DUBLIN_NORTH_EAST: 'Dublin & North East',
+  DUBLIN_MIDLANDS: 'Dublin & Midlands',
+  DUBLIN_SOUTH_EAST: 'Dublin & South East',
+  SOUTH_WEST: 'South West',
+  MID_WEST: 'Mid West',
+  WEST_NORTH_WEST: 'West & North West',
+};
+
+// Location type display names
+export const LOCATION_TYPE_LABELS: Record<LocationType, string> = {
+  ACUTE_HOSPITAL: 'Acute Hospital',
+  MATERNITY_HOSPITAL: 'Maternity Hospital',
+  PAEDIATRIC_HOSPITAL: "Children's Hospital",
+  MENTAL_HEALTH_SERVICE: 'Mental Health Service',
+  COMMUNITY_HEALTHCARE: 'Community Healthcare',
+  PRIVATE_HOSPITAL: 'Private Hospital',
+  HOSPICE: 'Hospice',
+  NATIONAL_CENTRE: 'National Centre',
+  GP_TRAINING: 'GP Training',
+};
+
+// Community Healthcare Organisation display names
+export const COMMUNITY_HEALTHCARE_AREA_LABELS: Record<CommunityHealthcareArea, string> = {
+  CHO1: 'CHO 1 · Donegal, Sligo, Leitrim, Cavan, Monaghan',
+  CHO2: 'CHO 2 · Galway, Mayo, Roscommon',
+  CHO3: 'CHO 3 · Clare, Limerick, North Tipperary',
+  CHO4: 'CHO 4 · Cork, Kerry',
+  CHO5: 'CHO 5 · South East',
+  CHO6: 'CHO 6 · Dublin South East, Wicklow',
+  CHO7: 'CHO 7 · Dublin South West, Kildare',
+  CHO8: 'CHO 8 · Midlands, Louth, Meath',
+  CHO9: 'CHO 9 · Dublin North',
+};
+
 // Hospital Tier display names
+export const LISTING_PLATFORM_LABELS: Record<ListingPlatform, string> = {
+  HSE_NRS: 'HSE NRS',
+  ABOUT_HSE: 'HSE',
+  REZOOMO: 'Rezoomo',
+  HEALTHCARE_JOBS: 'HealthcareJobs',
+  GLOBAL_MEDICS: 'Global Medics',
+  DOCTOR_JOBS: 'DoctorJobs',
+  IRISH_JOBS: 'IrishJobs',
+  DIRECT_HOSPITAL: 'Hospital website',
+};
+
 export const HOSPITAL_TIER_LABELS: Record<HospitalTier, string> = {
   TOP_TIER: 'Top Tier',
   MID_TIER: 'Mid Tier',
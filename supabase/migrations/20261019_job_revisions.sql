@@ -0,0 +1,49 @@
+-- =====================================================
+-- Job Revision History
+-- Date: 2026-10-19
+--
+-- Problem: Jobs were upserted on (title, hospital_name, application_deadline),
+--          so an extended deadline or a corrected title created a second row
+--          and the old one went stale. Nothing recorded what changed.
+--
+-- Fix:     Give every job a stable job_key (HSE ref code → posting URL →
+--          normalized title + hospital), upsert on it, and record field-level
+--          diffs per scrape in job_revisions.
+-- =====================================================
+
+-- ── 1. Stable job identity ────────────────────────────────────────────────────
+-- Existing rows keep a NULL key until the next scrape adopts them by title + hospital.
+ALTER TABLE jobs ADD COLUMN IF NOT EXISTS job_key TEXT;
+
+CREATE UNIQUE INDEX IF NOT EXISTS idx_jobs_job_key ON jobs(job_key);
+
+ALTER TABLE jobs DROP CONSTRAINT IF EXISTS unique_job_posting;
+
+-- ── 2. Revision history ──────────────────────────────────────────────────────
+
+CREATE TABLE IF NOT EXISTS job_revisions (
+  id UUID PRIMARY KEY DEFAULT uuid_generate_v4(),
+  job_id UUID NOT NULL REFERENCES jobs(id) ON DELETE CASCADE,
+  job_key TEXT NOT NULL,
+  revision_type TEXT NOT NULL CHECK (revision_type IN ('UPDATED', 'REOPENED')),
+  changes JSONB NOT NULL DEFAULT '[]'::jsonb, -- [{ field, old_value, new_value }]
+  scraped_at TIMESTAMPTZ NOT NULL,
+  created_at TIMESTAMPTZ DEFAULT NOW()
+);
+
+CREATE INDEX IF NOT EXISTS idx_job_revisions_job ON job_revisions(job_id, scraped_at DESC);
+
+-- ── 3. RLS ───────────────────────────────────────────────────────────────────
+-- Public read like jobs; writes come from the scraper's service role (bypasses RLS).
+
+ALTER TABLE job_revisions ENABLE ROW LEVEL SECURITY;
+
+DROP POLICY IF EXISTS "Anyone can view job revisions" ON job_revisions;
+CREATE POLICY "Anyone can view job revisions"
+  ON job_revisions FOR SELECT
+  USING (true);
+
+DROP POLICY IF EXISTS "Admins can manage job revisions" ON job_revisions;
+CREATE POLICY "Admins can manage job revisions"
+  ON job_revisions FOR ALL
+  USING (is_admin());
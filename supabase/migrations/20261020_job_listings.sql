@@ -0,0 +1,13 @@
+-- =====================================================
+-- Cross-Source Job Listings
+-- Date: 2026-10-20
+--
+-- The scraper now merges the same posting found on several platforms
+-- (HSE, Rezoomo, DoctorJobs, ...) into one job. Every source listing is
+-- kept here so the UI can show "Also listed on…" with each link.
+--
+-- Shape: [{ platform, url, application_url, title, last_seen_at }],
+-- primary listing first.
+-- =====================================================
+
+ALTER TABLE jobs ADD COLUMN IF NOT EXISTS listings JSONB NOT NULL DEFAULT '[]'::jsonb;
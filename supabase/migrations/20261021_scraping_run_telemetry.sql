@@ -0,0 +1,14 @@
+-- =====================================================
+-- Per-Source Scrape Run Telemetry
+-- Date: 2026-10-21
+--
+-- scraping_logs used to get one row per run with `source` set to every
+-- registered scraper and zeroed timings. Each scraper now writes its own
+-- row (source = scraper name) with real start/end times, grouped by run_id.
+-- =====================================================
+
+ALTER TABLE scraping_logs ADD COLUMN IF NOT EXISTS run_id UUID;
+ALTER TABLE scraping_logs ADD COLUMN IF NOT EXISTS pages_fetched INTEGER;
+ALTER TABLE scraping_logs ADD COLUMN IF NOT EXISTS jobs_deactivated INTEGER;
+
+CREATE INDEX IF NOT EXISTS idx_scraping_logs_run ON scraping_logs(run_id);
@@ -0,0 +1,10 @@
+-- =====================================================
+-- Scraper Health Anomalies
+-- Date: 2026-10-22
+--
+-- Each per-source scraping_logs row records the health flags raised for
+-- that run (count drops, all-fallback parsing, defaulted deadlines, every
+-- job on one hospital). Shape: [{ source, kind, severity, message }].
+-- =====================================================
+
+ALTER TABLE scraping_logs ADD COLUMN IF NOT EXISTS anomalies JSONB NOT NULL DEFAULT '[]'::jsonb;
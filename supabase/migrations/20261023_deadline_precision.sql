@@ -0,0 +1,14 @@
+-- =====================================================
+-- Deadline Precision
+-- Date: 2026-10-23
+--
+-- Records how much of each deadline the source published:
+--   DATETIME  — a closing date and time ("14 March 2026 at 12 noon")
+--   DATE      — a date only; stored as 23:59 Irish time that day
+--   ESTIMATED — no closing date found; estimated three weeks from posting
+-- Deadlines are parsed as Europe/Dublin wall-clock time. Rows scraped
+-- before this migration are left NULL.
+-- =====================================================
+
+ALTER TABLE jobs ADD COLUMN IF NOT EXISTS deadline_precision TEXT
+  CHECK (deadline_precision IN ('DATETIME', 'DATE', 'ESTIMATED'));
@@ -0,0 +1,47 @@
+-- =====================================================
+-- Field Confidence & Review Queue
+-- Date: 2026-10-24
+--
+-- Problem: Grade, specialty, scheme type and hospital are inferred from the
+--          job title. When nothing matched, the scraper silently defaulted
+--          (SHO, General Medicine, the county's main hospital) and the guess
+--          was indistinguishable from a real match.
+--
+-- Fix:     Store a score and reason per inferred field, flag jobs with a
+--          low-confidence field for admin review, and keep every correction
+--          an admin makes in job_field_reviews.
+-- =====================================================
+
+-- ── 1. Per-field confidence ──────────────────────────────────────────────────
+-- { field: { score, reason, matched? } } — reason is KEYWORD, GENERIC_KEYWORD,
+-- DEFAULT, HOSPITAL_NAME, REF_CODE, COUNTY_FALLBACK, SOURCE_CONFIG or REVIEWED.
+ALTER TABLE jobs ADD COLUMN IF NOT EXISTS field_confidence JSONB NOT NULL DEFAULT '{}'::jsonb;
+ALTER TABLE jobs ADD COLUMN IF NOT EXISTS needs_review BOOLEAN NOT NULL DEFAULT false;
+
+CREATE INDEX IF NOT EXISTS idx_jobs_needs_review ON jobs(application_deadline)
+  WHERE needs_review = true AND is_active = true;
+
+-- ── 2. Review history ────────────────────────────────────────────────────────
+
+CREATE TABLE IF NOT EXISTS job_field_reviews (
+  id UUID PRIMARY KEY DEFAULT uuid_generate_v4(),
+  job_id UUID NOT NULL REFERENCES jobs(id) ON DELETE CASCADE,
+  job_key TEXT,
+  field TEXT NOT NULL CHECK (field IN ('grade', 'specialty', 'scheme_type', 'hospital_name')),
+  previous_value TEXT NOT NULL,
+  corrected_value TEXT NOT NULL, -- equal to previous_value when the admin confirmed it
+  previous_confidence JSONB,
+  reviewed_by UUID REFERENCES auth.users(id) ON DELETE SET NULL,
+  reviewed_at TIMESTAMPTZ DEFAULT NOW()
+);
+
+CREATE INDEX IF NOT EXISTS idx_job_field_reviews_job ON job_field_reviews(job_id, reviewed_at DESC);
+
+-- ── 3. RLS ───────────────────────────────────────────────────────────────────
+
+ALTER TABLE job_field_reviews ENABLE ROW LEVEL SECURITY;
+
+DROP POLICY IF EXISTS "Admins can manage job field reviews" ON job_field_reviews;
+CREATE POLICY "Admins can manage job field reviews"
+  ON job_field_reviews FOR ALL
+  USING (is_admin());
@@ -0,0 +1,50 @@
+-- =====================================================
+-- Admin Job Overrides
+-- Date: 2026-10-25
+--
+-- Problem: The only way to fix a badly scraped job was a manual SQL update,
+--          which the next scheduled scrape overwrote.
+--
+-- Fix:     Admins set per-field overrides in job_overrides. The scraper
+--          applies active overrides on top of the scraped values before
+--          each upsert, so they survive re-scrapes. Reverting sets
+--          reverted_at and restores the scraped value; reverted rows
+--          remain as the audit trail.
+-- =====================================================
+
+CREATE TABLE IF NOT EXISTS job_overrides (
+  id UUID PRIMARY KEY DEFAULT uuid_generate_v4(),
+  job_id UUID NOT NULL REFERENCES jobs(id) ON DELETE CASCADE,
+  job_key TEXT,
+  field TEXT NOT NULL CHECK (field IN (
+    'title', 'grade', 'specialty', 'scheme_type',
+    'hospital_id', 'hospital_name', 'hospital_group', 'county',
+    'application_deadline', 'deadline_precision', 'application_url',
+    'informal_enquiries_name', 'informal_enquiries_email', 'informal_contact_email',
+    'medical_manpower_email', 'clinical_lead'
+  )),
+  value TEXT,
+  scraped_value TEXT, -- the job's value when the override was set
+  set_by UUID REFERENCES auth.users(id) ON DELETE SET NULL,
+  set_by_email TEXT,
+  set_at TIMESTAMPTZ NOT NULL DEFAULT NOW(),
+  reverted_at TIMESTAMPTZ,
+  reverted_by UUID REFERENCES auth.users(id) ON DELETE SET NULL,
+  reverted_by_email TEXT
+);
+
+-- At most one active override per field
+CREATE UNIQUE INDEX IF NOT EXISTS idx_job_overrides_active
+  ON job_overrides(job_id, field) WHERE reverted_at IS NULL;
+
+CREATE INDEX IF NOT EXISTS idx_job_overrides_job ON job_overrides(job_id, set_at DESC);
+
+-- ── RLS ──────────────────────────────────────────────────────────────────────
+-- Admin only; the scraper reads overrides with the service role (bypasses RLS).
+
+ALTER TABLE job_overrides ENABLE ROW LEVEL SECURITY;
+
+DROP POLICY IF EXISTS "Admins can manage job overrides" ON job_overrides;
+CREATE POLICY "Admins can manage job overrides"
+  ON job_overrides FOR ALL
+  USING (is_admin());
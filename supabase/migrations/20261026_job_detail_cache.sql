@@ -0,0 +1,31 @@
+-- =====================================================
+-- HSE Detail Page Enrichment
+-- Date: 2026-10-26
+--
+-- HSE listing cards only carry the title, location and posting date. The
+-- scraper now visits each posting's page for contacts, clinical lead,
+-- closing time, reference number, job spec and rotation.
+--
+-- job_detail_cache keeps what was parsed per posting URL along with a hash
+-- of its listing card, so postings whose card hasn't changed aren't
+-- refetched on the next run.
+-- =====================================================
+
+ALTER TABLE jobs ADD COLUMN IF NOT EXISTS reference_number TEXT;
+
+CREATE TABLE IF NOT EXISTS job_detail_cache (
+  url TEXT PRIMARY KEY,
+  content_hash TEXT NOT NULL,
+  details JSONB NOT NULL DEFAULT '{}'::jsonb,
+  fetched_at TIMESTAMPTZ NOT NULL DEFAULT NOW()
+);
+
+-- ── RLS ──────────────────────────────────────────────────────────────────────
+-- Written by the scraper's service role (bypasses RLS); admins can inspect it.
+
+ALTER TABLE job_detail_cache ENABLE ROW LEVEL SECURITY;
+
+DROP POLICY IF EXISTS "Admins can view job detail cache" ON job_detail_cache;
+CREATE POLICY "Admins can view job detail cache"
+  ON job_detail_cache FOR SELECT
+  USING (is_admin());
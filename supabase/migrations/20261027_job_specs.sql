@@ -0,0 +1,35 @@
+-- =====================================================
+-- Job Spec PDF Ingestion
+-- Date: 2026-10-27
+--
+-- Problem: job_spec_pdf_url was stored but the PDF itself was never read,
+--          so contacts, clinical lead and rotation found only in the spec
+--          were missing from the job.
+--
+-- Fix:     After each save the scraper downloads active jobs' spec PDFs,
+--          extracts their text and parses the fields out. job_specs keeps
+--          the raw text, parsed fields and PDF hash per job; a spec is only
+--          re-parsed when its hash changes, and unchanged PDFs are only
+--          re-downloaded weekly. Parsed fields fill gaps in the listing and
+--          never replace a scraped value.
+-- =====================================================
+
+CREATE TABLE IF NOT EXISTS job_specs (
+  job_id UUID PRIMARY KEY REFERENCES jobs(id) ON DELETE CASCADE,
+  pdf_url TEXT NOT NULL,
+  pdf_hash TEXT NOT NULL, -- sha256 of the PDF bytes
+  raw_text TEXT NOT NULL,
+  extracted JSONB NOT NULL DEFAULT '{}'::jsonb,
+  parsed_at TIMESTAMPTZ NOT NULL DEFAULT NOW(),
+  checked_at TIMESTAMPTZ NOT NULL DEFAULT NOW() -- last download, changed or not
+);
+
+-- ── RLS ──────────────────────────────────────────────────────────────────────
+-- Written by the scraper's service role (bypasses RLS); admins can inspect it.
+
+ALTER TABLE job_specs ENABLE ROW LEVEL SECURITY;
+
+DROP POLICY IF EXISTS "Admins can view job specs" ON job_specs;
+CREATE POLICY "Admins can view job specs"
+  ON job_specs FOR SELECT
+  USING (is_admin());
@@ -0,0 +1,26 @@
+-- =====================================================
+-- Employment Terms from Postings and Specs
+-- Date: 2026-10-28
+--
+-- Problem: Every scraped job was saved with duration_months = 6, a start
+--          date guessed from the deadline and a contract type guessed from
+--          the scheme, and salary, hours and on-call were never stored.
+--
+-- Fix:     Scrapers and the job spec parser now read salary, rostered
+--          hours, on-call, duration, start date and contract type. Where a
+--          posting doesn't state the start date, duration or contract, the
+--          old defaults are still used but listed in estimated_fields so
+--          the UI can label them.
+-- =====================================================
+
+ALTER TABLE jobs ADD COLUMN IF NOT EXISTS salary_range TEXT;
+ALTER TABLE jobs ADD COLUMN IF NOT EXISTS hours_per_week NUMERIC(4, 1);
+ALTER TABLE jobs ADD COLUMN IF NOT EXISTS on_call BOOLEAN;
+ALTER TABLE jobs ADD COLUMN IF NOT EXISTS on_call_frequency TEXT; -- e.g. '1 in 6'
+ALTER TABLE jobs ADD COLUMN IF NOT EXISTS estimated_fields TEXT[] NOT NULL DEFAULT '{}';
+
+-- Everything scraped so far used the defaults
+UPDATE jobs
+SET estimated_fields = ARRAY['start_date', 'duration_months', 'contract_type']
+WHERE last_scraped_at IS NOT NULL
+  AND estimated_fields = '{}';
@@ -0,0 +1,36 @@
+-- =====================================================
+-- Pluggable Job Spec Extraction
+-- Date: 2026-10-29
+--
+-- Problem: Spec text could only be read by the regex parser or one
+--          hard-wired Claude call, with no way to tell which gave a value
+--          or to measure either's accuracy before paying for LLM calls.
+--
+-- Fix:     Extraction runs through providers (regex, any HTTP LLM endpoint
+--          or a local stub) in priority order. Their output is validated
+--          against a schema; LLM results are cached in spec_extractions by
+--          provider and a hash of the spec text, so the same text is never
+--          sent twice. job_specs.field_sources records which provider gave
+--          each field.
+-- =====================================================
+
+ALTER TABLE job_specs ADD COLUMN IF NOT EXISTS field_sources JSONB NOT NULL DEFAULT '{}'::jsonb;
+
+CREATE TABLE IF NOT EXISTS spec_extractions (
+  provider TEXT NOT NULL, -- e.g. 'llm:claude-haiku-4-5'
+  text_hash TEXT NOT NULL, -- sha256 of the whitespace-normalised spec text
+  extracted JSONB NOT NULL DEFAULT '{}'::jsonb, -- fields that passed the schema
+  rejected TEXT[] NOT NULL DEFAULT '{}', -- fields returned in an invalid form
+  extracted_at TIMESTAMPTZ NOT NULL DEFAULT NOW(),
+  PRIMARY KEY (provider, text_hash)
+);
+
+-- ── RLS ──────────────────────────────────────────────────────────────────────
+-- Written by the scraper's service role (bypasses RLS); admins can inspect it.
+
+ALTER TABLE spec_extractions ENABLE ROW LEVEL SECURITY;
+
+DROP POLICY IF EXISTS "Admins can view spec extractions" ON spec_extractions;
+CREATE POLICY "Admins can view spec extractions"
+  ON spec_extractions FOR SELECT
+  USING (is_admin());
@@ -0,0 +1,59 @@
+-- =====================================================
+-- Training Scheme Intakes
+-- Date: 2026-10-30
+--
+-- Problem: BST/HST and GP training places aren't advertised as posts. The
+--          training bodies (RCPI, RCSI, ICGP, ...) publish one application
+--          window per programme a year, so those windows never reached the
+--          jobs feed or deadline alerts.
+--
+-- Fix:     training_intakes holds one row per programme and intake year,
+--          imported by admins from the bodies' published timelines.
+--          Re-importing a programme's year updates it in place.
+-- =====================================================
+
+CREATE TABLE IF NOT EXISTS training_intakes (
+  id UUID PRIMARY KEY DEFAULT uuid_generate_v4(),
+  body TEXT NOT NULL CHECK (body IN ('RCPI', 'RCSI', 'ICGP', 'CAI', 'CPSYCHI')),
+  programme TEXT NOT NULL,
+  specialty TEXT NOT NULL,
+  scheme_type TEXT NOT NULL CHECK (scheme_type IN ('TRAINING_BST', 'TRAINING_HST')),
+  intake_year INTEGER NOT NULL,
+  opens_at TIMESTAMPTZ,
+  application_deadline TIMESTAMPTZ NOT NULL,
+  deadline_precision TEXT NOT NULL DEFAULT 'DATE'
+    CHECK (deadline_precision IN ('DATETIME', 'DATE', 'ESTIMATED')),
+  interview_start DATE,
+  interview_end DATE,
+  eligibility TEXT,
+  posts_available INTEGER CHECK (posts_available >= 0),
+  application_url TEXT,
+  is_active BOOLEAN NOT NULL DEFAULT true,
+  imported_by UUID REFERENCES auth.users(id) ON DELETE SET NULL,
+  created_at TIMESTAMPTZ NOT NULL DEFAULT NOW(),
+  updated_at TIMESTAMPTZ NOT NULL DEFAULT NOW(),
+  UNIQUE (body, programme, intake_year)
+);
+
+CREATE INDEX IF NOT EXISTS idx_training_intakes_deadline
+  ON training_intakes(application_deadline) WHERE is_active = true;
+
+DROP TRIGGER IF EXISTS update_training_intakes_updated_at ON training_intakes;
+CREATE TRIGGER update_training_intakes_updated_at
+  BEFORE UPDATE ON training_intakes
+  FOR EACH ROW
+  EXECUTE FUNCTION update_updated_at_column();
+
+-- ── RLS ──────────────────────────────────────────────────────────────────────
+
+ALTER TABLE training_intakes ENABLE ROW LEVEL SECURITY;
+
+DROP POLICY IF EXISTS "Anyone can view active training intakes" ON training_intakes;
+CREATE POLICY "Anyone can view active training intakes"
+  ON training_intakes FOR SELECT
+  USING (is_active = true);
+
+DROP POLICY IF EXISTS "Admins can manage training intakes" ON training_intakes;
+CREATE POLICY "Admins can manage training intakes"
+  ON training_intakes FOR ALL
+  USING (is_admin());
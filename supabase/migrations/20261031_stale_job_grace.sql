@@ -0,0 +1,19 @@
+-- =====================================================
+-- Stale Job Grace Period
+-- Date: 2026-10-31
+--
+-- Problem: A scrape deactivated every active job from a source that it
+--          didn't see, so one bad page, a timeout or a retitled post took
+--          live jobs offline, and nothing on the row said why it closed.
+--
+-- Fix:     Jobs are matched on job_key and only deactivated after missing
+--          from several consecutive clean runs of their source. missed_runs
+--          counts those runs and resets when the job is seen again; the
+--          time and reason for a deactivation are kept on the row.
+-- =====================================================
+
+ALTER TABLE jobs ADD COLUMN IF NOT EXISTS missed_runs INTEGER NOT NULL DEFAULT 0;
+ALTER TABLE jobs ADD COLUMN IF NOT EXISTS deactivated_at TIMESTAMPTZ;
+ALTER TABLE jobs ADD COLUMN IF NOT EXISTS deactivation_reason TEXT;
+
+CREATE INDEX IF NOT EXISTS idx_jobs_active_source ON jobs(source) WHERE is_active = true;
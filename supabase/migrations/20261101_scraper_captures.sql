@@ -0,0 +1,25 @@
+-- =====================================================
+-- Playwright Failure Captures
+-- Date: 2026-11-01
+--
+-- Problem: When a Playwright scraper missed its selectors or threw, the
+--          log kept only an error string, so there was no way to see what
+--          the page looked like when it broke.
+--
+-- Fix:     The scraper takes a screenshot and the rendered HTML at the
+--          point of failure. Both are uploaded to the private
+--          scraper-captures bucket and listed on the scraper's
+--          scraping_logs row, readable by admins only.
+-- =====================================================
+
+ALTER TABLE scraping_logs ADD COLUMN IF NOT EXISTS captures JSONB NOT NULL DEFAULT '[]';
+
+-- Screenshots and HTML are written by the service role, which bypasses RLS
+INSERT INTO storage.buckets (id, name, public)
+VALUES ('scraper-captures', 'scraper-captures', false)
+ON CONFLICT (id) DO NOTHING;
+
+DROP POLICY IF EXISTS "Admins can view scraper captures" ON storage.objects;
+CREATE POLICY "Admins can view scraper captures"
+  ON storage.objects FOR SELECT
+  USING (bucket_id = 'scraper-captures' AND public.is_admin());
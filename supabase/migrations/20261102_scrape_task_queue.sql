@@ -0,0 +1,105 @@
+-- =====================================================
+-- Resumable Scrape Task Queue
+-- Date: 2026-11-02
+--
+-- Problem: A scrape ran inside a single serverless invocation. If it timed
+--          out part way, everything it had collected was lost and nothing
+--          was saved.
+--
+-- Fix:     A run is split into tasks (an HSE listing page, a detail page,
+--          a Rezoomo employer) stored in scrape_tasks. Each task's jobs are
+--          checkpointed when it finishes, and any invocation — the cron,
+--          the admin button, the GitHub Actions runner — claims the pending
+--          tasks its scrapers can run. The run is saved once every task has
+--          finished.
+-- =====================================================
+
+-- ── 1. Runs ──────────────────────────────────────────────────────────────────
+
+CREATE TABLE IF NOT EXISTS scrape_runs (
+  id UUID PRIMARY KEY DEFAULT uuid_generate_v4(),
+  status TEXT NOT NULL DEFAULT 'RUNNING' CHECK (status IN ('RUNNING', 'COMPLETE')),
+  scrapers TEXT[] NOT NULL DEFAULT '{}',
+  created_at TIMESTAMPTZ NOT NULL DEFAULT NOW(),
+  completed_at TIMESTAMPTZ
+);
+
+-- One run in progress at a time: a second invocation joins it instead
+CREATE UNIQUE INDEX IF NOT EXISTS idx_scrape_runs_one_running ON scrape_runs(status)
+  WHERE status = 'RUNNING';
+CREATE INDEX IF NOT EXISTS idx_scrape_runs_created ON scrape_runs(created_at DESC);
+
+-- ── 2. Tasks ─────────────────────────────────────────────────────────────────
+
+CREATE TABLE IF NOT EXISTS scrape_tasks (
+  id UUID PRIMARY KEY DEFAULT uuid_generate_v4(),
+  run_id UUID NOT NULL REFERENCES scrape_runs(id) ON DELETE CASCADE,
+  scraper TEXT NOT NULL, -- Orchestrator name, e.g. 'HSE'
+  platform TEXT NOT NULL,
+  kind TEXT NOT NULL, -- e.g. 'LISTING', 'DETAIL', 'EMPLOYER'
+  key TEXT NOT NULL, -- Usually the URL
+  payload JSONB,
+  status TEXT NOT NULL DEFAULT 'PENDING' CHECK (status IN ('PENDING', 'RUNNING', 'DONE', 'FAILED')),
+  attempts INTEGER NOT NULL DEFAULT 0,
+  locked_until TIMESTAMPTZ, -- Lease held by the invocation running it
+  jobs JSONB NOT NULL DEFAULT '[]',
+  job_count INTEGER NOT NULL DEFAULT 0,
+  stats JSONB,
+  captures JSONB NOT NULL DEFAULT '[]',
+  error TEXT,
+  -- clock_timestamp() so tasks inserted together keep their order
+  created_at TIMESTAMPTZ NOT NULL DEFAULT clock_timestamp(),
+  completed_at TIMESTAMPTZ,
+  UNIQUE (run_id, scraper, kind, key)
+);
+
+CREATE INDEX IF NOT EXISTS idx_scrape_tasks_open ON scrape_tasks(run_id, created_at)
+  WHERE status IN ('PENDING', 'RUNNING');
+
+-- ── 3. Claiming ──────────────────────────────────────────────────────────────
+-- Lease pending tasks (or running ones whose lease ran out) to one caller.
+-- SKIP LOCKED keeps concurrent invocations from claiming the same task.
+
+CREATE OR REPLACE FUNCTION claim_scrape_tasks(
+  p_run_id UUID,
+  p_scrapers TEXT[],
+  p_limit INTEGER,
+  p_lease_seconds INTEGER
+)
+RETURNS SETOF scrape_tasks
+LANGUAGE sql
+AS $$
+  UPDATE scrape_tasks
+  SET status = 'RUNNING',
+      attempts = attempts + 1,
+      locked_until = NOW() + make_interval(secs => p_lease_seconds)
+  WHERE id IN (
+    SELECT id FROM scrape_tasks
+    WHERE run_id = p_run_id
+      AND scraper = ANY(p_scrapers)
+      AND (status = 'PENDING' OR (status = 'RUNNING' AND locked_until < NOW()))
+    ORDER BY created_at
+    LIMIT p_limit
+    FOR UPDATE SKIP LOCKED
+  )
+  RETURNING *;
+$$;
+
+-- Only the scraper (service role) claims tasks
+REVOKE EXECUTE ON FUNCTION claim_scrape_tasks(UUID, TEXT[], INTEGER, INTEGER) FROM PUBLIC, anon, authenticated;
+
+-- ── 4. RLS ───────────────────────────────────────────────────────────────────
+-- Written by the service role, which bypasses RLS; admins can watch progress
+
+ALTER TABLE scrape_runs ENABLE ROW LEVEL SECURITY;
+ALTER TABLE scrape_tasks ENABLE ROW LEVEL SECURITY;
+
+DROP POLICY IF EXISTS "Admins can view scrape runs" ON scrape_runs;
+CREATE POLICY "Admins can view scrape runs"
+  ON scrape_runs FOR SELECT
+  USING (is_admin());
+
+DROP POLICY IF EXISTS "Admins can view scrape tasks" ON scrape_tasks;
+CREATE POLICY "Admins can view scrape tasks"
+  ON scrape_tasks FOR SELECT
+  USING (is_admin());
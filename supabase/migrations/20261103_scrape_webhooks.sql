@@ -0,0 +1,64 @@
+-- =====================================================
+-- Scrape Run Webhooks
+-- Date: 2026-11-03
+--
+-- Problem: The only outbound signal from a scrape was the anomaly alert to
+--          SCRAPER_ALERT_WEBHOOK_URL. Anything downstream that wanted to
+--          know a run had finished, or that a source had failed, had to poll
+--          scraping_logs.
+--
+-- Fix:     Admins register endpoints in /admin/webhooks. Every saved run
+--          sends them `run.completed` (the run result, per-source counts and
+--          the jobs added and deactivated) and `source.failed` for each
+--          failed source. Each delivery is signed with the endpoint's secret,
+--          retried with backoff and logged in scrape_webhook_deliveries.
+-- =====================================================
+
+-- ── 1. Endpoints ─────────────────────────────────────────────────────────────
+
+CREATE TABLE IF NOT EXISTS scrape_webhooks (
+  id UUID PRIMARY KEY DEFAULT uuid_generate_v4(),
+  url TEXT NOT NULL CHECK (url ~ '^https?://'),
+  description TEXT,
+  events TEXT[] NOT NULL DEFAULT '{run.completed,source.failed}'
+    CHECK (events <@ ARRAY['run.completed', 'source.failed']::TEXT[]),
+  secret TEXT NOT NULL, -- HMAC-SHA256 key for the X-MedMatch-Signature header
+  is_active BOOLEAN NOT NULL DEFAULT TRUE,
+  created_by UUID REFERENCES auth.users(id) ON DELETE SET NULL,
+  created_at TIMESTAMPTZ NOT NULL DEFAULT NOW()
+);
+
+-- ── 2. Delivery log ──────────────────────────────────────────────────────────
+
+CREATE TABLE IF NOT EXISTS scrape_webhook_deliveries (
+  id UUID PRIMARY KEY DEFAULT uuid_generate_v4(),
+  webhook_id UUID NOT NULL REFERENCES scrape_webhooks(id) ON DELETE CASCADE,
+  event TEXT NOT NULL,
+  run_id UUID, -- Matches scraping_logs.run_id
+  status TEXT NOT NULL CHECK (status IN ('DELIVERED', 'FAILED')),
+  attempts INTEGER NOT NULL DEFAULT 1,
+  response_status INTEGER, -- From the last attempt; NULL when it didn't get a response
+  error TEXT,
+  created_at TIMESTAMPTZ NOT NULL DEFAULT NOW(),
+  completed_at TIMESTAMPTZ
+);
+
+CREATE INDEX IF NOT EXISTS idx_scrape_webhook_deliveries_created ON scrape_webhook_deliveries(created_at DESC);
+CREATE INDEX IF NOT EXISTS idx_scrape_webhook_deliveries_webhook ON scrape_webhook_deliveries(webhook_id, created_at DESC);
+
+-- ── 3. RLS ───────────────────────────────────────────────────────────────────
+-- Admins manage endpoints; deliveries are written by the service role
+
+ALTER TABLE scrape_webhooks ENABLE ROW LEVEL SECURITY;
+ALTER TABLE scrape_webhook_deliveries ENABLE ROW LEVEL SECURITY;
+
+DROP POLICY IF EXISTS "Admins can manage scrape webhooks" ON scrape_webhooks;
+CREATE POLICY "Admins can manage scrape webhooks"
+  ON scrape_webhooks FOR ALL
+  USING (is_admin())
+  WITH CHECK (is_admin());
+
+DROP POLICY IF EXISTS "Admins can view webhook deliveries" ON scrape_webhook_deliveries;
+CREATE POLICY "Admins can view webhook deliveries"
+  ON scrape_webhook_deliveries FOR SELECT
+  USING (is_admin());
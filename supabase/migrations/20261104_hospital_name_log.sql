@@ -0,0 +1,93 @@
+-- =====================================================
+-- Hospital Name Log & Admin Aliases
+-- Date: 2026-11-04
+--
+-- Problem: The hospital matcher only knew exact names and a fixed alias
+--          list. Anything else fell back to the first hospital in the
+--          county, silently, and the only way to teach it a new name was a
+--          code change.
+--
+-- Fix:     Names the matcher can't place, or only guesses at, are logged
+--          after each run with their ranked candidates. Admins turn them
+--          into aliases in /admin/hospitals, which the scraper loads before
+--          every run.
+-- =====================================================
+
+-- ── 1. Aliases ───────────────────────────────────────────────────────────────
+
+CREATE TABLE IF NOT EXISTS hospital_aliases (
+  id UUID PRIMARY KEY DEFAULT uuid_generate_v4(),
+  alias TEXT NOT NULL UNIQUE CHECK (length(trim(alias)) > 0),
+  hospital_id TEXT NOT NULL, -- id in src/data/hospitals.json
+  created_by UUID REFERENCES auth.users(id) ON DELETE SET NULL,
+  created_at TIMESTAMPTZ NOT NULL DEFAULT NOW()
+);
+
+-- ── 2. Name log ──────────────────────────────────────────────────────────────
+
+CREATE TABLE IF NOT EXISTS hospital_name_log (
+  id UUID PRIMARY KEY DEFAULT uuid_generate_v4(),
+  normalized_text TEXT NOT NULL UNIQUE,
+  sample_text TEXT NOT NULL,
+  county TEXT,
+  best_score NUMERIC(3, 2) NOT NULL DEFAULT 0,
+  candidates JSONB NOT NULL DEFAULT '[]', -- [{ hospital_id, score, strategy }], best first
+  occurrences INTEGER NOT NULL DEFAULT 1,
+  status TEXT NOT NULL DEFAULT 'OPEN' CHECK (status IN ('OPEN', 'ALIASED', 'IGNORED')),
+  first_seen_at TIMESTAMPTZ NOT NULL DEFAULT NOW(),
+  last_seen_at TIMESTAMPTZ NOT NULL DEFAULT NOW()
+);
+
+CREATE INDEX IF NOT EXISTS idx_hospital_name_log_open ON hospital_name_log(occurrences DESC)
+  WHERE status = 'OPEN';
+
+-- ── 3. Logging ───────────────────────────────────────────────────────────────
+-- Add a run's names, counting repeats of names already logged. Candidates
+-- are refreshed so they reflect the latest aliases; the status is kept.
+
+CREATE OR REPLACE FUNCTION log_hospital_names(p_names JSONB)
+RETURNS VOID
+LANGUAGE sql
+AS $$
+  INSERT INTO hospital_name_log (normalized_text, sample_text, county, best_score, candidates, occurrences)
+  SELECT
+    name->>'normalized_text',
+    name->>'sample_text',
+    name->>'county',
+    (name->>'best_score')::NUMERIC,
+    COALESCE(name->'candidates', '[]'::JSONB),
+    (name->>'occurrences')::INTEGER
+  FROM jsonb_array_elements(p_names) AS name
+  ON CONFLICT (normalized_text) DO UPDATE
+  SET occurrences = hospital_name_log.occurrences + EXCLUDED.occurrences,
+      county = COALESCE(EXCLUDED.county, hospital_name_log.county),
+      best_score = EXCLUDED.best_score,
+      candidates = EXCLUDED.candidates,
+      last_seen_at = NOW();
+$$;
+
+-- Only the scraper (service role) writes the log
+REVOKE EXECUTE ON FUNCTION log_hospital_names(JSONB) FROM PUBLIC, anon, authenticated;
+
+-- ── 4. RLS ───────────────────────────────────────────────────────────────────
+
+ALTER TABLE hospital_aliases ENABLE ROW LEVEL SECURITY;
+ALTER TABLE hospital_name_log ENABLE ROW LEVEL SECURITY;
+
+DROP POLICY IF EXISTS "Admins can manage hospital aliases" ON hospital_aliases;
+CREATE POLICY "Admins can manage hospital aliases"
+  ON hospital_aliases FOR ALL
+  USING (is_admin())
+  WITH CHECK (is_admin());
+
+-- Admins resolve entries (status) but never add them
+DROP POLICY IF EXISTS "Admins can view the hospital name log" ON hospital_name_log;
+CREATE POLICY "Admins can view the hospital name log"
+  ON hospital_name_log FOR SELECT
+  USING (is_admin());
+
+DROP POLICY IF EXISTS "Admins can resolve hospital names" ON hospital_name_log;
+CREATE POLICY "Admins can resolve hospital names"
+  ON hospital_name_log FOR UPDATE
+  USING (is_admin())
+  WITH CHECK (is_admin());
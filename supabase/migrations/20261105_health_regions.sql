@@ -0,0 +1,191 @@
+-- =====================================================
+-- HSE Health Regions
+-- Date: 2026-11-05
+--
+-- Problem: Jobs were only grouped by the seven hospital groups, which the
+--          HSE has replaced with six Health Regions. Recruitment now runs
+--          through the regions and job titles name them.
+--
+-- Fix:     jobs.health_region records the region of each job, set by the
+--          scraper from the hospital registry, the region named in the job
+--          text or an unambiguous county. hospital_group is kept so older
+--          jobs still filter by their legacy group. Existing rows are
+--          backfilled from their hospital name, then their county.
+-- =====================================================
+
+-- ── 1. Column ────────────────────────────────────────────────────────────────
+
+ALTER TABLE jobs ADD COLUMN IF NOT EXISTS health_region TEXT
+  CHECK (health_region IN (
+    'DUBLIN_NORTH_EAST', 'DUBLIN_MIDLANDS', 'DUBLIN_SOUTH_EAST',
+    'SOUTH_WEST', 'MID_WEST', 'WEST_NORTH_WEST'
+  ));
+
+CREATE INDEX IF NOT EXISTS idx_jobs_health_region ON jobs(health_region) WHERE is_active;
+
+-- ── 2. Backfill ──────────────────────────────────────────────────────────────
+-- Hospital names as in src/data/hospitals.json
+
+UPDATE jobs
+SET health_region = registry.region
+FROM (VALUES
+  ('Mater Misericordiae University Hospital', 'DUBLIN_NORTH_EAST'),
+  ('Beaumont Hospital', 'DUBLIN_NORTH_EAST'),
+  ('Connolly Hospital Blanchardstown', 'DUBLIN_NORTH_EAST'),
+  ('St. James''s Hospital', 'DUBLIN_MIDLANDS'),
+  ('St. Vincent''s University Hospital', 'DUBLIN_SOUTH_EAST'),
+  ('Tallaght University Hospital', 'DUBLIN_MIDLANDS'),
+  ('St. Luke''s General Hospital Kilkenny', 'DUBLIN_SOUTH_EAST'),
+  ('Wexford General Hospital', 'DUBLIN_SOUTH_EAST'),
+  ('University Hospital Waterford', 'DUBLIN_SOUTH_EAST'),
+  ('Cork University Hospital', 'SOUTH_WEST'),
+  ('Mercy University Hospital', 'SOUTH_WEST'),
+  ('University Hospital Galway', 'WEST_NORTH_WEST'),
+  ('University Hospital Kerry', 'SOUTH_WEST'),
+  ('University Hospital Limerick', 'MID_WEST'),
+  ('Sligo University Hospital', 'WEST_NORTH_WEST'),
+  ('Letterkenny University Hospital', 'WEST_NORTH_WEST'),
+  ('Our Lady of Lourdes Hospital Drogheda', 'DUBLIN_NORTH_EAST'),
+  ('Midland Regional Hospital Mullingar', 'DUBLIN_MIDLANDS'),
+  ('Midland Regional Hospital Portlaoise', 'DUBLIN_MIDLANDS'),
+  ('Naas General Hospital', 'DUBLIN_MIDLANDS'),
+  ('Cavan General Hospital', 'DUBLIN_NORTH_EAST'),
+  ('University Hospital Limerick - Ennis', 'MID_WEST'),
+  ('Nenagh Hospital', 'MID_WEST'),
+  ('Mayo University Hospital', 'WEST_NORTH_WEST'),
+  ('Portiuncula University Hospital', 'WEST_NORTH_WEST'),
+  ('Roscommon University Hospital', 'WEST_NORTH_WEST'),
+  ('Bantry General Hospital', 'SOUTH_WEST'),
+  ('St. Columcille''s Hospital', 'DUBLIN_SOUTH_EAST'),
+  ('St. Michael''s Hospital Dún Laoghaire', 'DUBLIN_SOUTH_EAST'),
+  ('Our Lady''s Hospital Navan', 'DUBLIN_NORTH_EAST'),
+  ('Louth County Hospital', 'DUBLIN_NORTH_EAST'),
+  ('Monaghan Hospital', 'DUBLIN_NORTH_EAST'),
+  ('Midland Regional Hospital Tullamore', 'DUBLIN_MIDLANDS'),
+  ('Tipperary University Hospital', 'DUBLIN_SOUTH_EAST'),
+  ('South Infirmary Victoria University Hospital', 'SOUTH_WEST'),
+  ('Mallow General Hospital', 'SOUTH_WEST'),
+  ('St. John''s Hospital Limerick', 'MID_WEST'),
+  ('Croom Orthopaedic Hospital', 'MID_WEST'),
+  ('Merlin Park University Hospital', 'WEST_NORTH_WEST'),
+  ('Rotunda Hospital', 'DUBLIN_NORTH_EAST'),
+  ('Coombe Women & Infants University Hospital', 'DUBLIN_MIDLANDS'),
+  ('National Maternity Hospital', 'DUBLIN_SOUTH_EAST'),
+  ('Cork University Maternity Hospital', 'SOUTH_WEST'),
+  ('University Maternity Hospital Limerick', 'MID_WEST'),
+  ('Children''s Health Ireland at Crumlin', 'DUBLIN_MIDLANDS'),
+  ('Children''s Health Ireland at Temple Street', 'DUBLIN_NORTH_EAST'),
+  ('National Rehabilitation Hospital', 'DUBLIN_SOUTH_EAST'),
+  ('National Orthopaedic Hospital Cappagh', 'DUBLIN_NORTH_EAST'),
+  ('Royal Victoria Eye and Ear Hospital', 'DUBLIN_SOUTH_EAST'),
+  ('St. Luke''s Radiation Oncology Network', 'DUBLIN_SOUTH_EAST'),
+  ('National Forensic Mental Health Service', 'DUBLIN_NORTH_EAST'),
+  ('St. Patrick''s University Hospital', 'DUBLIN_MIDLANDS'),
+  ('St. John of God Hospital', 'DUBLIN_SOUTH_EAST'),
+  ('St. Vincent''s Hospital Fairview', 'DUBLIN_NORTH_EAST'),
+  ('Dublin North City and County Mental Health Services', 'DUBLIN_NORTH_EAST'),
+  ('Donegal Mental Health Services', 'WEST_NORTH_WEST'),
+  ('Sligo Leitrim Mental Health Services', 'WEST_NORTH_WEST'),
+  ('Cavan Monaghan Mental Health Services', 'DUBLIN_NORTH_EAST'),
+  ('Galway Roscommon Mental Health Services', 'WEST_NORTH_WEST'),
+  ('Mayo Mental Health Services', 'WEST_NORTH_WEST'),
+  ('Limerick Mental Health Services', 'MID_WEST'),
+  ('Clare Mental Health Services', 'MID_WEST'),
+  ('Cork Mental Health Services', 'SOUTH_WEST'),
+  ('Kerry Mental Health Services', 'SOUTH_WEST'),
+  ('Carlow Kilkenny South Tipperary Mental Health Services', 'DUBLIN_SOUTH_EAST'),
+  ('Waterford Wexford Mental Health Services', 'DUBLIN_SOUTH_EAST'),
+  ('Kildare West Wicklow Mental Health Services', 'DUBLIN_MIDLANDS'),
+  ('Laois Offaly Mental Health Services', 'DUBLIN_MIDLANDS'),
+  ('Longford Westmeath Mental Health Services', 'DUBLIN_MIDLANDS'),
+  ('Louth Meath Mental Health Services', 'DUBLIN_NORTH_EAST'),
+  ('Community Healthcare Cavan Donegal Leitrim Monaghan Sligo', 'WEST_NORTH_WEST'),
+  ('Community Healthcare West', 'WEST_NORTH_WEST'),
+  ('Mid West Community Healthcare', 'MID_WEST'),
+  ('Cork Kerry Community Healthcare', 'SOUTH_WEST'),
+  ('South East Community Healthcare', 'DUBLIN_SOUTH_EAST'),
+  ('Community Healthcare East', 'DUBLIN_SOUTH_EAST'),
+  ('Dublin South Kildare and West Wicklow Community Healthcare', 'DUBLIN_MIDLANDS'),
+  ('Midlands Louth Meath Community Healthcare', 'DUBLIN_MIDLANDS'),
+  ('Dublin North City and County Community Healthcare', 'DUBLIN_NORTH_EAST'),
+  ('Beacon Hospital', 'DUBLIN_SOUTH_EAST'),
+  ('Blackrock Clinic', 'DUBLIN_SOUTH_EAST'),
+  ('Hermitage Medical Clinic', 'DUBLIN_MIDLANDS'),
+  ('Mater Private Hospital', 'DUBLIN_NORTH_EAST'),
+  ('St. Vincent''s Private Hospital', 'DUBLIN_SOUTH_EAST'),
+  ('Bon Secours Hospital Dublin', 'DUBLIN_NORTH_EAST'),
+  ('Sports Surgery Clinic', 'DUBLIN_NORTH_EAST'),
+  ('Bon Secours Hospital Cork', 'SOUTH_WEST'),
+  ('Bon Secours Hospital Tralee', 'SOUTH_WEST'),
+  ('Bon Secours Hospital Limerick', 'MID_WEST'),
+  ('Bon Secours Hospital Galway', 'WEST_NORTH_WEST'),
+  ('Galway Clinic', 'WEST_NORTH_WEST'),
+  ('UPMC Whitfield Hospital', 'DUBLIN_SOUTH_EAST'),
+  ('UPMC Aut Even Hospital', 'DUBLIN_SOUTH_EAST'),
+  ('UPMC Kildare Hospital', 'DUBLIN_MIDLANDS'),
+  ('Our Lady''s Hospice Harold''s Cross', 'DUBLIN_MIDLANDS'),
+  ('Blackrock Hospice', 'DUBLIN_SOUTH_EAST'),
+  ('St. Francis Hospice', 'DUBLIN_NORTH_EAST'),
+  ('Marymount University Hospital and Hospice', 'SOUTH_WEST'),
+  ('Milford Care Centre', 'MID_WEST'),
+  ('Galway Hospice', 'WEST_NORTH_WEST'),
+  ('North West Hospice', 'WEST_NORTH_WEST'),
+  ('Donegal Hospice', 'WEST_NORTH_WEST'),
+  ('North Dublin City GP Training Programme', 'DUBLIN_NORTH_EAST'),
+  ('TCD GP Training Programme', 'DUBLIN_MIDLANDS'),
+  ('UCD GP Training Programme', 'DUBLIN_SOUTH_EAST'),
+  ('RCSI GP Training Programme', 'DUBLIN_SOUTH_EAST'),
+  ('North East GP Training Programme', 'DUBLIN_NORTH_EAST'),
+  ('Mid-Leinster GP Training Programme', 'DUBLIN_MIDLANDS'),
+  ('South East GP Training Programme', 'DUBLIN_SOUTH_EAST'),
+  ('Cork GP Training Programme', 'SOUTH_WEST'),
+  ('Kerry GP Training Programme', 'SOUTH_WEST'),
+  ('Mid-West GP Training Programme', 'MID_WEST'),
+  ('Galway GP Training Programme', 'WEST_NORTH_WEST'),
+  ('Western GP Training Programme', 'WEST_NORTH_WEST'),
+  ('Sligo GP Training Programme', 'WEST_NORTH_WEST'),
+  ('Donegal GP Training Programme', 'WEST_NORTH_WEST')
+) AS registry(name, region)
+WHERE jobs.health_region IS NULL
+  AND jobs.hospital_name = registry.name;
+
+-- Dublin, Wicklow and Tipperary are split between regions, so are left NULL
+UPDATE jobs
+SET health_region = CASE county
+    WHEN 'Louth' THEN 'DUBLIN_NORTH_EAST'
+    WHEN 'Meath' THEN 'DUBLIN_NORTH_EAST'
+    WHEN 'Cavan' THEN 'DUBLIN_NORTH_EAST'
+    WHEN 'Monaghan' THEN 'DUBLIN_NORTH_EAST'
+    WHEN 'Kildare' THEN 'DUBLIN_MIDLANDS'
+    WHEN 'Laois' THEN 'DUBLIN_MIDLANDS'
+    WHEN 'Offaly' THEN 'DUBLIN_MIDLANDS'
+    WHEN 'Longford' THEN 'DUBLIN_MIDLANDS'
+    WHEN 'Westmeath' THEN 'DUBLIN_MIDLANDS'
+    WHEN 'Wexford' THEN 'DUBLIN_SOUTH_EAST'
+    WHEN 'Waterford' THEN 'DUBLIN_SOUTH_EAST'
+    WHEN 'Kilkenny' THEN 'DUBLIN_SOUTH_EAST'
+    WHEN 'Carlow' THEN 'DUBLIN_SOUTH_EAST'
+    WHEN 'Cork' THEN 'SOUTH_WEST'
+    WHEN 'Kerry' THEN 'SOUTH_WEST'
+    WHEN 'Limerick' THEN 'MID_WEST'
+    WHEN 'Clare' THEN 'MID_WEST'
+    WHEN 'Galway' THEN 'WEST_NORTH_WEST'
+    WHEN 'Mayo' THEN 'WEST_NORTH_WEST'
+    WHEN 'Roscommon' THEN 'WEST_NORTH_WEST'
+    WHEN 'Sligo' THEN 'WEST_NORTH_WEST'
+    WHEN 'Leitrim' THEN 'WEST_NORTH_WEST'
+    WHEN 'Donegal' THEN 'WEST_NORTH_WEST'
+  END
+WHERE health_region IS NULL;
+
+-- ── 3. Overrides ─────────────────────────────────────────────────────────────
+-- Admins can override the region like the other hospital fields
+
+ALTER TABLE job_overrides DROP CONSTRAINT IF EXISTS job_overrides_field_check;
+ALTER TABLE job_overrides ADD CONSTRAINT job_overrides_field_check CHECK (field IN (
+  'title', 'grade', 'specialty', 'scheme_type',
+  'hospital_id', 'hospital_name', 'hospital_group', 'health_region', 'county',
+  'application_deadline', 'deadline_precision', 'application_url',
+  'informal_enquiries_name', 'informal_enquiries_email', 'informal_contact_email',
+  'medical_manpower_email', 'clinical_lead'
+));
@@ -0,0 +1,62 @@
+-- =====================================================
+-- Specialty Taxonomy
+-- Date: 2026-11-06
+--
+-- Problem: With 21 specialties, geriatrics, nephrology, rheumatology,
+--          haematology, palliative care, ICU, neonatology, plastics,
+--          vascular, neurosurgery, cardiothoracics, GP and public health
+--          posts were all filed as General Medicine, General Surgery or
+--          Other.
+--
+-- Fix:     Those are now specialties of their own, most of them
+--          sub-specialties of a parent (src/lib/specialties.ts). The
+--          scraper files new posts under them; existing rows filed under
+--          a catch-all or the new specialty's parent are moved here using
+--          the same title keywords. Rows with an active admin override
+--          of their specialty are left alone.
+-- =====================================================
+
+-- ── 1. Jobs ──────────────────────────────────────────────────────────────────
+-- Checked in the scraper's order: sub-specialties before top-level ones,
+-- and a post also naming the parent ("Anaesthesia and Intensive Care")
+-- stays with the parent
+
+UPDATE jobs
+SET specialty = reclassified.specialty
+FROM (
+  SELECT id, CASE
+      WHEN title ~* 'geriatric|gerontology|medicine (for|of) the elderly|care of the elderly|medicine for older' AND title !~* 'internal medicine|acute medicine' THEN 'GERIATRICS'
+      WHEN title ~* 'nephrology|renal medicine' AND title !~* 'internal medicine|acute medicine' THEN 'NEPHROLOGY'
+      WHEN title ~* 'rheumatology' AND title !~* 'internal medicine|acute medicine' THEN 'RHEUMATOLOGY'
+      WHEN title ~* 'haematology|hematology' AND title !~* 'internal medicine|acute medicine' THEN 'HAEMATOLOGY'
+      WHEN title ~* 'palliative' AND title !~* 'internal medicine|acute medicine' THEN 'PALLIATIVE_MEDICINE'
+      WHEN title ~* 'plastic surgery|plastics|plastic and reconstructive' AND title !~* 'colorectal|breast surgery|upper gi|hepatobiliary|endocrine surgery' THEN 'PLASTIC_SURGERY'
+      WHEN title ~* 'vascular surgery' AND title !~* 'colorectal|breast surgery|upper gi|hepatobiliary|endocrine surgery' THEN 'VASCULAR_SURGERY'
+      WHEN title ~* 'neurosurgery' AND title !~* 'colorectal|breast surgery|upper gi|hepatobiliary|endocrine surgery' THEN 'NEUROSURGERY'
+      WHEN title ~* 'cardiothoracic surgery|cardiac surgery|thoracic surgery' AND title !~* 'colorectal|breast surgery|upper gi|hepatobiliary|endocrine surgery' THEN 'CARDIOTHORACIC_SURGERY'
+      WHEN title ~* 'neonatal|neonatology' AND title !~* 'paediatric' THEN 'NEONATOLOGY'
+      WHEN title ~* 'intensive care|critical care' AND title !~* 'anaesthe' THEN 'INTENSIVE_CARE'
+      WHEN title ~* 'general practice|gp training' THEN 'GENERAL_PRACTICE'
+      WHEN title ~* 'public health' THEN 'PUBLIC_HEALTH'
+      WHEN title ~* '\mnicu\M' THEN 'NEONATOLOGY'
+      WHEN title ~* '\m(icu|itu)\M' AND title !~* 'anaesthe' THEN 'INTENSIVE_CARE'
+      WHEN title ~* '\m(gp|icgp)\M' THEN 'GENERAL_PRACTICE'
+    END AS specialty
+  FROM jobs
+  WHERE specialty IN ('GENERAL_MEDICINE', 'GENERAL_SURGERY', 'OTHER', 'ANAESTHETICS', 'PAEDIATRICS')
+) AS reclassified
+WHERE jobs.id = reclassified.id
+  AND reclassified.specialty IS NOT NULL
+  AND NOT EXISTS (
+    SELECT 1 FROM job_overrides
+    WHERE job_overrides.job_id = jobs.id
+      AND job_overrides.field = 'specialty'
+      AND job_overrides.reverted_at IS NULL
+  );
+
+-- ── 2. Training intakes ──────────────────────────────────────────────────────
+-- ICGP's GP training intakes were imported as Other
+
+UPDATE training_intakes
+SET specialty = 'GENERAL_PRACTICE'
+WHERE body = 'ICGP' AND specialty = 'OTHER';
@@ -0,0 +1,105 @@
+-- =====================================================
+-- Optional Hospital Group
+-- Date: 2026-11-07
+--
+-- Problem: Every job had to have a hospital group, so posts at private
+--          hospitals, hospices, GP training programmes, mental health
+--          services and Community Healthcare Organisations were filed
+--          under a group they aren't part of (or IEHG when unmatched),
+--          and the Hospital Group filter listed them under it.
+--
+-- Fix:     jobs.hospital_group may be NULL. The registry and scrapers
+--          leave it unset for locations outside the seven groups, and
+--          existing rows at those locations are cleared. Rows with an
+--          active admin override of their group are left alone.
+-- =====================================================
+
+-- ── 1. Column ────────────────────────────────────────────────────────────────
+
+ALTER TABLE jobs ALTER COLUMN hospital_group DROP NOT NULL;
+
+ALTER TABLE jobs DROP CONSTRAINT IF EXISTS jobs_hospital_group_check;
+ALTER TABLE jobs ADD CONSTRAINT jobs_hospital_group_check
+  CHECK (hospital_group IS NULL OR hospital_group IN ('IEHG', 'DMHG', 'RCSI', 'SAOLTA', 'SSWHG', 'MWHG', 'UL'));
+
+-- ── 2. Backfill ──────────────────────────────────────────────────────────────
+-- Locations with no hospital group in src/data/hospitals.json
+
+UPDATE jobs
+SET hospital_group = NULL
+FROM (VALUES
+  ('National Rehabilitation Hospital'),
+  ('National Forensic Mental Health Service'),
+  ('St. Patrick''s University Hospital'),
+  ('St. John of God Hospital'),
+  ('St. Vincent''s Hospital Fairview'),
+  ('Dublin North City and County Mental Health Services'),
+  ('Donegal Mental Health Services'),
+  ('Sligo Leitrim Mental Health Services'),
+  ('Cavan Monaghan Mental Health Services'),
+  ('Galway Roscommon Mental Health Services'),
+  ('Mayo Mental Health Services'),
+  ('Limerick Mental Health Services'),
+  ('Clare Mental Health Services'),
+  ('Cork Mental Health Services'),
+  ('Kerry Mental Health Services'),
+  ('Carlow Kilkenny South Tipperary Mental Health Services'),
+  ('Waterford Wexford Mental Health Services'),
+  ('Kildare West Wicklow Mental Health Services'),
+  ('Laois Offaly Mental Health Services'),
+  ('Longford Westmeath Mental Health Services'),
+  ('Louth Meath Mental Health Services'),
+  ('Community Healthcare Cavan Donegal Leitrim Monaghan Sligo'),
+  ('Community Healthcare West'),
+  ('Mid West Community Healthcare'),
+  ('Cork Kerry Community Healthcare'),
+  ('South East Community Healthcare'),
+  ('Community Healthcare East'),
+  ('Dublin South Kildare and West Wicklow Community Healthcare'),
+  ('Midlands Louth Meath Community Healthcare'),
+  ('Dublin North City and County Community Healthcare'),
+  ('Beacon Hospital'),
+  ('Blackrock Clinic'),
+  ('Hermitage Medical Clinic'),
+  ('Mater Private Hospital'),
+  ('St. Vincent''s Private Hospital'),
+  ('Bon Secours Hospital Dublin'),
+  ('Sports Surgery Clinic'),
+  ('Bon Secours Hospital Cork'),
+  ('Bon Secours Hospital Tralee'),
+  ('Bon Secours Hospital Limerick'),
+  ('Bon Secours Hospital Galway'),
+  ('Galway Clinic'),
+  ('UPMC Whitfield Hospital'),
+  ('UPMC Aut Even Hospital'),
+  ('UPMC Kildare Hospital'),
+  ('Our Lady''s Hospice Harold''s Cross'),
+  ('Blackrock Hospice'),
+  ('St. Francis Hospice'),
+  ('Marymount University Hospital and Hospice'),
+  ('Milford Care Centre'),
+  ('Galway Hospice'),
+  ('North West Hospice'),
+  ('Donegal Hospice'),
+  ('North Dublin City GP Training Programme'),
+  ('TCD GP Training Programme'),
+  ('UCD GP Training Programme'),
+  ('RCSI GP Training Programme'),
+  ('North East GP Training Programme'),
+  ('Mid-Leinster GP Training Programme'),
+  ('South East GP Training Programme'),
+  ('Cork GP Training Programme'),
+  ('Kerry GP Training Programme'),
+  ('Mid-West GP Training Programme'),
+  ('Galway GP Training Programme'),
+  ('Western GP Training Programme'),
+  ('Sligo GP Training Programme'),
+  ('Donegal GP Training Programme')
+) AS registry(hospital_name)
+WHERE jobs.hospital_name = registry.hospital_name
+  AND NOT EXISTS (
+    SELECT 1 FROM job_overrides
+    WHERE job_overrides.job_id = jobs.id
+      AND job_overrides.field = 'hospital_group'
+      AND job_overrides.reverted_at IS NULL
+  );